@@ -0,0 +1,267 @@
+/**
+ * Service Worker des Art Institute Explorer
+ *
+ * Macht die Anwendung offline nutzbar:
+ * - App-Shell: index.html und die darin eingebundenen Assets werden bei der
+ *   Installation gespeichert, weitere Assets beim ersten Abruf
+ * - Galerie: Bilder und Detail-Antworten aller gespeicherten Kunstwerke
+ *   (die Liste schickt die Anwendung per Nachricht, siehe offlineCache.ts)
+ * - Laufzeit: zuletzt geladene Bilder und API-Antworten (z.B. Suchergebnisse)
+ *   als Rückfall, wenn keine Verbindung besteht
+ *
+ * Die Datei liegt in `public/`, damit sie unverändert unter `/sw.js`
+ * ausgeliefert wird und für die gesamte Anwendung gilt.
+ */
+
+/**
+ * Version der Caches (bei inkompatiblen Änderungen erhöhen; ältere Caches
+ * werden beim Aktivieren gelöscht)
+ */
+const VERSION = "v1";
+
+/**
+ * Namen der Caches
+ */
+const SHELL_CACHE = `shell-${VERSION}`;
+const GALLERY_CACHE = `gallery-${VERSION}`;
+const RUNTIME_CACHE = `runtime-${VERSION}`;
+
+/**
+ * Maximale Anzahl der Einträge im Laufzeit-Cache (die ältesten werden
+ * zuerst entfernt)
+ */
+const MAX_RUNTIME_ENTRIES = 200;
+
+/**
+ * Basis-URLs der API und des Bildservers
+ */
+const API_BASE_URL = "https://api.artic.edu/api/v1/";
+const IMAGE_BASE_URL = "https://www.artic.edu/iiif/2/";
+
+/**
+ * Dateien der App-Shell, die immer gespeichert werden
+ */
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+
+/**
+ * Speichert die App-Shell: die festen Dateien und alle Assets, die
+ * index.html einbindet (Skripte und Styles mit Hash im Namen)
+ */
+async function cacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+
+  const response = await cache.match("/index.html");
+  const html = response ? await response.text() : "";
+  const assets = [...html.matchAll(/(?:src|href)="(\/[^"]+)"/g)]
+    .map((match) => match[1])
+    .filter((url) => !SHELL_URLS.includes(url));
+
+  await cache.addAll([...new Set(assets)]);
+}
+
+/**
+ * Entfernt die ältesten Einträge eines Caches über der Obergrenze
+ */
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - maxEntries))
+      .map((key) => cache.delete(key)),
+  );
+}
+
+/**
+ * Speichert eine Antwort im Laufzeit-Cache (im Hintergrund)
+ */
+function putRuntime(request, response) {
+  if (!response.ok) {
+    return;
+  }
+
+  caches
+    .open(RUNTIME_CACHE)
+    .then((cache) => cache.put(request, response))
+    .then(() => trimCache(RUNTIME_CACHE, MAX_RUNTIME_ENTRIES))
+    .catch((error) => console.warn("Antwort nicht gespeichert:", error));
+}
+
+/**
+ * Sucht ein gespeichertes Bild desselben Kunstwerks in einer anderen Größe
+ * (z.B. 843 px aus der Galerie statt der im srcset gewählten 400 px)
+ */
+async function matchOtherImageSize(url) {
+  const imageId = url.slice(IMAGE_BASE_URL.length).split("/")[0];
+  const prefix = `${IMAGE_BASE_URL}${imageId}/full/`;
+
+  for (const cacheName of [GALLERY_CACHE, RUNTIME_CACHE]) {
+    const cache = await caches.open(cacheName);
+    const keys = await cache.keys();
+    const key = keys.find((request) => request.url.startsWith(prefix));
+
+    if (key) {
+      return cache.match(key);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Seitenaufrufe: zuerst das Netzwerk, offline die gespeicherte index.html
+ * (das Routing übernimmt die Anwendung)
+ */
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match("/index.html");
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Eigene Assets: aus dem Cache, sonst laden und speichern
+ * (Assets mit Hash im Namen ändern sich nie)
+ */
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Bilder: aus dem Cache, sonst laden und speichern; offline notfalls
+ * dasselbe Bild in einer anderen Größe
+ *
+ * Bilder werden per CORS geladen (der Bildserver erlaubt das), damit keine
+ * "opaque" Antworten gespeichert werden, die viel Speicherplatz belegen.
+ */
+async function handleImage(request) {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const response = await fetch(request.url, { mode: "cors" });
+    putRuntime(request, response.clone());
+    return response;
+  } catch (error) {
+    const fallback = await matchOtherImageSize(request.url);
+    if (fallback) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * API-Anfragen: zuerst das Netzwerk (aktuelle Daten), offline die zuletzt
+ * gespeicherte Antwort
+ */
+async function handleApi(request) {
+  try {
+    const response = await fetch(request);
+    putRuntime(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreVary: true });
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gleicht den Galerie-Cache mit den URLs der gespeicherten Kunstwerke ab:
+ * fehlende werden geladen, nicht mehr benötigte entfernt
+ */
+async function syncGallery(urls) {
+  const cache = await caches.open(GALLERY_CACHE);
+  const wanted = new Set(urls);
+  const keys = await cache.keys();
+  const cached = new Set(keys.map((request) => request.url));
+
+  await Promise.all(
+    keys
+      .filter((request) => !wanted.has(request.url))
+      .map((request) => cache.delete(request)),
+  );
+
+  // Nacheinander laden, um die API nicht mit Anfragen zu überfluten
+  for (const url of wanted) {
+    if (cached.has(url)) {
+      continue;
+    }
+
+    try {
+      const response = await fetch(url);
+      if (response.ok) {
+        await cache.put(url, response);
+      }
+    } catch (error) {
+      console.warn("Nicht für offline gespeichert:", url, error);
+    }
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, GALLERY_CACHE, RUNTIME_CACHE];
+
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => !current.includes(name))
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+
+  if (request.method !== "GET") {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (request.url.startsWith(IMAGE_BASE_URL)) {
+    event.respondWith(handleImage(request));
+  } else if (request.url.startsWith(API_BASE_URL)) {
+    event.respondWith(handleApi(request));
+  } else if (new URL(request.url).origin === self.location.origin) {
+    event.respondWith(handleAsset(request));
+  }
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "sync-gallery" && Array.isArray(event.data.urls)) {
+    event.waitUntil(syncGallery(event.data.urls));
+  }
+});
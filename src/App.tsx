@@ -2,22 +2,47 @@
  * App Komponente - Hauptkomponente der Anwendung
  *
  * Diese Komponente orchestriert die gesamte Anwendung und stellt:
- * - Navigation zwischen Suche und Galerie bereit
+ * - Routing zwischen Suche, Galerie und Detailansicht bereit
  * - Layout und Struktur der Anwendung
+ * - Rückgängig/Wiederholen für Galerie-Änderungen (UndoToast) bereit
+ * - einen Hinweis im Offline-Betrieb (OfflineIndicator) bereit
+ * - die Prüfung gespeicherter Suchen auf neue Treffer bereit
  *
  * FR001: React + Vite (TypeScript) einrichten
  * FR012: Typsicherer Status
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import {
+  NavLink,
+  Navigate,
+  Route,
+  Routes,
+  useLocation,
+} from "react-router-dom";
 import { SearchInterface } from "./components/SearchInterface";
 import { Gallery } from "./components/Gallery";
+import { GalleryRecovery } from "./components/GalleryRecovery";
+import { GalleryCatalogue } from "./components/GalleryCatalogue";
+import { GalleryTrash } from "./components/GalleryTrash";
+import { UndoToast } from "./components/UndoToast";
+import { OfflineIndicator } from "./components/OfflineIndicator";
+import { ArtworkDetailPage } from "./components/ArtworkDetail";
+import { SavedSearches } from "./components/SavedSearches";
+import { SavedSearchNew } from "./components/SavedSearchNew";
+import {
+  checkStaleSavedSearches,
+  countNewResults,
+  useSavedSearches,
+} from "./utils/savedSearches";
 import "./App.css";
 
 /**
- * Ansichts-Typ für die Navigation
+ * Erzeugt die CSS-Klassen für einen Navigations-Tab
+ * (aktiver Tab wird über die aktuelle Route bestimmt)
  */
-type View = "search" | "gallery";
+const tabClassName = ({ isActive }: { isActive: boolean }) =>
+  `tab ${isActive ? "tab-active" : ""}`;
 
 /**
  * App Komponente
@@ -25,16 +50,44 @@ type View = "search" | "gallery";
  * Hauptkomponente der Art Institute Explorer Anwendung.
  */
 function App() {
+  const location = useLocation();
+
+  /**
+   * Query-String der zuletzt angezeigten Suche
+   * (damit ein Tab-Wechsel zur Suche die Ergebnisliste wiederherstellt)
+   */
+  const [lastSearch, setLastSearch] = useState<string>("");
+
+  if (location.pathname === "/search" && location.search !== lastSearch) {
+    setLastSearch(location.search);
+  }
+
+  /**
+   * Anzahl der neuen Treffer aller gespeicherten Suchen (Badge im Tab)
+   */
+  const { searches: savedSearches } = useSavedSearches();
+  const newResultCount = countNewResults(savedSearches);
+
   /**
-   * State für die aktuelle Ansicht
-   * Standard: 'search' (Suchansicht)
+   * Effect Hook: Gespeicherte Suchen beim Start auf neue Treffer prüfen
+   * (nur die, deren letzte Prüfung länger zurückliegt)
    */
-  const [currentView, setCurrentView] = useState<View>("search");
+  useEffect(() => {
+    const controller = new AbortController();
+    checkStaleSavedSearches(controller.signal);
+
+    return () => {
+      controller.abort();
+    };
+  }, []);
 
   return (
-    <div className="min-h-screen bg-base-200">
-      {/* Header mit Navigation */}
-      <header className="bg-base-100 shadow-lg sticky top-0 z-30">
+    <div className="min-h-screen bg-base-200 print:bg-white">
+      {/* Header mit Navigation (wird nicht gedruckt) */}
+      <header className="bg-base-100 shadow-lg sticky top-0 z-30 print:hidden">
+        {/* Hinweis, solange keine Verbindung besteht */}
+        <OfflineIndicator />
+
         <div className="container mx-auto px-4 py-4">
           {/* Logo und Titel */}
           <div className="flex items-center justify-between mb-4">
@@ -51,10 +104,10 @@ function App() {
           {/* Navigation Tabs */}
           <div role="tablist" className="tabs tabs-boxed bg-base-200">
             {/* Such-Tab */}
-            <button
+            <NavLink
+              to={`/search${lastSearch}`}
               role="tab"
-              className={`tab ${currentView === "search" ? "tab-active" : ""}`}
-              onClick={() => setCurrentView("search")}
+              className={tabClassName}
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -71,14 +124,10 @@ function App() {
                 />
               </svg>
               Suche
-            </button>
+            </NavLink>
 
             {/* Galerie-Tab */}
-            <button
-              role="tab"
-              className={`tab ${currentView === "gallery" ? "tab-active" : ""}`}
-              onClick={() => setCurrentView("gallery")}
-            >
+            <NavLink to="/gallery" role="tab" className={tabClassName}>
               <svg
                 xmlns="http://www.w3.org/2000/svg"
                 className="h-5 w-5 mr-2"
@@ -94,20 +143,60 @@ function App() {
                 />
               </svg>
               Meine Galerie
-            </button>
+            </NavLink>
+
+            {/* Tab der gespeicherten Suchen (mit Anzahl neuer Treffer) */}
+            <NavLink to="/saved-searches" role="tab" className={tabClassName}>
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5 mr-2"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+                />
+              </svg>
+              Gespeicherte Suchen
+              {newResultCount > 0 && (
+                <span
+                  className="badge badge-secondary badge-sm ml-2"
+                  aria-label={`${newResultCount} neue Treffer`}
+                >
+                  {newResultCount}
+                </span>
+              )}
+            </NavLink>
           </div>
         </div>
       </header>
 
       {/* Hauptinhalt */}
-      <main className="container mx-auto px-4 py-8">
-        {/* Bedingte Darstellung der Ansichten */}
-        {currentView === "search" && <SearchInterface />}
-        {currentView === "gallery" && <Gallery />}
+      <main className="container mx-auto px-4 py-8 print:p-0 print:max-w-none">
+        {/* Routen der Ansichten */}
+        <Routes>
+          <Route path="/" element={<Navigate to="/search" replace />} />
+          <Route path="/search" element={<SearchInterface />} />
+          <Route path="/gallery" element={<Gallery />} />
+          <Route path="/gallery/recovery" element={<GalleryRecovery />} />
+          <Route path="/gallery/catalogue" element={<GalleryCatalogue />} />
+          <Route path="/gallery/trash" element={<GalleryTrash />} />
+          <Route path="/saved-searches" element={<SavedSearches />} />
+          <Route path="/saved-searches/:id" element={<SavedSearchNew />} />
+          <Route path="/artwork/:id" element={<ArtworkDetailPage />} />
+          <Route path="*" element={<Navigate to="/search" replace />} />
+        </Routes>
       </main>
 
-      {/* Footer */}
-      <footer className="bg-base-100 mt-12 py-6 border-t border-base-300">
+      {/* Rückgängig/Wiederholen (wird nicht gedruckt) */}
+      <UndoToast />
+
+      {/* Footer (wird nicht gedruckt) */}
+      <footer className="bg-base-100 mt-12 py-6 border-t border-base-300 print:hidden">
         <div className="container mx-auto px-4 text-center text-base-content/60">
           <p>
             Ein Miniprojekt der{" "}
@@ -3,14 +3,27 @@
  *
  * Eine wiederverwendbare Komponente zur Anzeige eines einzelnen Kunstwerks.
  * Zeigt das Bild, den Titel, den Künstler und optionale zusätzliche Informationen an.
+ * Das Bild lässt sich im Bildbetrachter vergrößern (siehe ImageViewer).
  *
  * FR006: ArtworkCard-Komponente
  * FR012: Typsicherer Status
  */
 
-import React from "react";
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
 import type { Artwork } from "../schemas/artworkSchema";
-import { getImageUrl } from "../utils/artworkApi";
+import {
+  DEFAULT_COLLECTION_ID,
+  type Collection,
+} from "../schemas/collectionSchema";
+import type { NoteEntry } from "../schemas/noteSchema";
+import { findNoteSnippet } from "../utils/galleryFilter";
+import { ArtworkImage } from "./ArtworkImage";
+import { CollectionPicker } from "./CollectionPicker";
+import { Highlight } from "./Highlight";
+import { ImageViewer } from "./ImageViewer";
+import { MarkdownNote } from "./MarkdownNote";
+import { TagEditor } from "./TagEditor";
 
 /**
  * Props für die ArtworkCard Komponente
@@ -23,9 +36,20 @@ interface ArtworkCardProps {
 
   /**
    * Optionale Callback-Funktion, die aufgerufen wird, wenn der Benutzer
-   * das Kunstwerk zur Galerie hinzufügen möchte
+   * das Kunstwerk zu einer Sammlung hinzufügen möchte
    */
-  onAddToGallery?: (artwork: Artwork) => void;
+  onAddToGallery?: (artwork: Artwork, collectionId: string) => void;
+
+  /**
+   * Sammlungen für das Auswahlmenü des "Zur Galerie"-Buttons
+   * (ohne Angabe wird direkt zur Standardsammlung hinzugefügt)
+   */
+  collections?: Collection[];
+
+  /**
+   * IDs der Sammlungen, in denen das Kunstwerk bereits liegt
+   */
+  memberCollectionIds?: string[];
 
   /**
    * Optionale Callback-Funktion, die aufgerufen wird, wenn der Benutzer
@@ -39,15 +63,47 @@ interface ArtworkCardProps {
   isInGallery?: boolean;
 
   /**
-   * Optionale Notiz zum Kunstwerk (nur in der Galerie-Ansicht)
+   * Optionale Notiz-Einträge zum Kunstwerk (nur in der Galerie-Ansicht)
    */
-  note?: string;
+  notes?: NoteEntry[];
 
   /**
    * Optionale Callback-Funktion, die aufgerufen wird, wenn der Benutzer
-   * die Notiz bearbeiten möchte
+   * die Notizen öffnen möchte
    */
-  onEditNote?: (artworkId: number, currentNote: string) => void;
+  onOpenNotes?: (artworkId: number) => void;
+
+  /**
+   * Optionale Tags zum Kunstwerk (nur in der Galerie-Ansicht)
+   */
+  tags?: string[];
+
+  /**
+   * Optionale Callback-Funktion, die mit den geänderten Tags aufgerufen
+   * wird (aktiviert die Tag-Bearbeitung)
+   */
+  onChangeTags?: (artworkId: number, tags: string[]) => void;
+
+  /**
+   * Vorhandene Tags der Galerie für die Autovervollständigung
+   */
+  tagSuggestions?: string[];
+
+  /**
+   * Optionale Callback-Funktion beim Klick auf einen Tag (z.B. zum Filtern)
+   */
+  onTagClick?: (tag: string) => void;
+
+  /**
+   * Tags, die gerade als Filter aktiv sind (werden hervorgehoben)
+   */
+  activeTags?: string[];
+
+  /**
+   * Suchbegriffe, die in Titel, Künstler, Medium und Notizen
+   * hervorgehoben werden (siehe splitSearchQuery)
+   */
+  highlightTerms?: string[];
 
   /**
    * Bestimmt, ob zusätzliche Informationen angezeigt werden sollen
@@ -57,9 +113,10 @@ interface ArtworkCardProps {
 }
 
 /**
- * Platzhalter-Bild, wenn kein Bild verfügbar ist
+ * Angezeigte Bildbreite einer Karte (entsprechend den Spalten des Rasters)
  */
-const PLACEHOLDER_IMAGE = "/defaultPredator.png";
+const CARD_IMAGE_SIZES =
+  "(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw";
 
 /**
  * ArtworkCard Komponente
@@ -72,21 +129,35 @@ export const ArtworkCard: React.FC<ArtworkCardProps> = ({
   onAddToGallery,
   onRemoveFromGallery,
   isInGallery = false,
-  note,
-  onEditNote,
+  collections,
+  memberCollectionIds = [],
+  notes = [],
+  onOpenNotes,
+  tags = [],
+  onChangeTags,
+  tagSuggestions,
+  onTagClick,
+  activeTags = [],
+  highlightTerms = [],
   showDetails = true,
 }) => {
   /**
-   * Erstellt die Bild-URL für das Kunstwerk
+   * State, ob die Tag-Bearbeitung geöffnet ist
+   */
+  const [isEditingTags, setIsEditingTags] = useState<boolean>(false);
+
+  /**
+   * State, ob der Bildbetrachter geöffnet ist
    */
-  const imageUrl = getImageUrl(artwork.image_id) || PLACEHOLDER_IMAGE;
+  const [isViewerOpen, setIsViewerOpen] = useState<boolean>(false);
 
   /**
-   * Handler für den "Zur Galerie hinzufügen"-Button
+   * Handler für den "Zur Galerie hinzufügen"-Button bzw. die Auswahl
+   * einer Sammlung
    */
-  const handleAddToGallery = () => {
+  const handleAddToGallery = (collectionId: string = DEFAULT_COLLECTION_ID) => {
     if (onAddToGallery) {
-      onAddToGallery(artwork);
+      onAddToGallery(artwork, collectionId);
     }
   };
 
@@ -100,37 +171,72 @@ export const ArtworkCard: React.FC<ArtworkCardProps> = ({
   };
 
   /**
-   * Handler für den "Notiz bearbeiten"-Button
+   * Handler für Änderungen an den Tags
    */
-  const handleEditNote = () => {
-    if (onEditNote) {
-      onEditNote(artwork.id, note || "");
+  const handleChangeTags = (newTags: string[]) => {
+    if (onChangeTags) {
+      onChangeTags(artwork.id, newTags);
     }
   };
 
+  /**
+   * Der zuletzt angelegte Notiz-Eintrag (Vorschau auf der Karte)
+   */
+  const latestNote = notes.at(-1);
+
+  /**
+   * Ausschnitt der Notiz mit einem Suchtreffer (ersetzt die Vorschau)
+   */
+  const noteSnippet =
+    highlightTerms.length > 0 ? findNoteSnippet(notes, highlightTerms) : null;
+
   return (
     <div className="card bg-base-100 shadow-xl hover:shadow-2xl transition-shadow duration-300">
-      {/* Kunstwerk-Bild */}
-      <figure className="h-64 overflow-hidden bg-base-200">
-        <img
-          src={imageUrl}
-          alt={artwork.title}
-          className="w-full h-full object-cover"
-          onError={(e) => {
-            // Fallback zum Platzhalter-Bild bei Fehler
-            (e.target as HTMLImageElement).src = PLACEHOLDER_IMAGE;
-          }}
+      {/* Kunstwerk-Bild (verlinkt auf die Detailansicht) */}
+      <div className="relative">
+        <Link to={`/artwork/${artwork.id}`}>
+          <figure className="h-64 overflow-hidden bg-base-200">
+            <ArtworkImage artwork={artwork} sizes={CARD_IMAGE_SIZES} />
+          </figure>
+        </Link>
+
+        {/* Bildbetrachter öffnen */}
+        {artwork.image_id && (
+          <button
+            onClick={() => setIsViewerOpen(true)}
+            className="btn btn-sm btn-circle absolute top-2 right-2 bg-base-100/80 border-none"
+            aria-label={`"${artwork.title}" vergrößern`}
+            title="Vergrößern"
+          >
+            🔍
+          </button>
+        )}
+      </div>
+
+      {isViewerOpen && artwork.image_id && (
+        <ImageViewer
+          imageId={artwork.image_id}
+          title={artwork.title}
+          onClose={() => setIsViewerOpen(false)}
         />
-      </figure>
+      )}
 
       {/* Card-Inhalt */}
       <div className="card-body">
         {/* Titel */}
-        <h2 className="card-title text-lg line-clamp-2">{artwork.title}</h2>
+        <h2 className="card-title text-lg line-clamp-2">
+          <Link to={`/artwork/${artwork.id}`} className="link link-hover">
+            <Highlight text={artwork.title} terms={highlightTerms} />
+          </Link>
+        </h2>
 
         {/* Künstler */}
         <p className="text-sm text-base-content/70">
-          {artwork.artist_title || "Unbekannter Künstler"}
+          {artwork.artist_title ? (
+            <Highlight text={artwork.artist_title} terms={highlightTerms} />
+          ) : (
+            "Unbekannter Künstler"
+          )}
         </p>
 
         {/* Zusätzliche Details (optional) */}
@@ -148,7 +254,10 @@ export const ArtworkCard: React.FC<ArtworkCardProps> = ({
             {artwork.medium_display && (
               <p className="text-base-content/60 line-clamp-1">
                 <span className="font-semibold">Medium:</span>{" "}
-                {artwork.medium_display}
+                <Highlight
+                  text={artwork.medium_display}
+                  terms={highlightTerms}
+                />
               </p>
             )}
 
@@ -162,29 +271,98 @@ export const ArtworkCard: React.FC<ArtworkCardProps> = ({
           </div>
         )}
 
-        {/* Notiz-Anzeige (nur wenn eine Notiz vorhanden ist) */}
-        {note && (
+        {/* Suchtreffer in einer Notiz, sonst Vorschau der neuesten Notiz */}
+        {noteSnippet ? (
           <div className="mt-3 p-3 bg-base-200 rounded-lg">
-            <p className="text-sm font-semibold mb-1">Notiz:</p>
-            <p className="text-sm text-base-content/80 whitespace-pre-wrap">
-              {note}
+            <p className="text-sm font-semibold mb-1">Treffer in Notiz:</p>
+            <p className="text-sm">
+              <Highlight text={noteSnippet} terms={highlightTerms} />
             </p>
           </div>
+        ) : (
+          latestNote && (
+            <div className="mt-3 p-3 bg-base-200 rounded-lg">
+              <p className="text-sm font-semibold mb-1">
+                Notiz vom{" "}
+                {new Date(latestNote.createdAt).toLocaleDateString("de-DE")}:
+              </p>
+              <MarkdownNote text={latestNote.text} className="line-clamp-4" />
+            </div>
+          )
+        )}
+
+        {/* Tags (Bearbeitung oder Chips) */}
+        {isEditingTags && onChangeTags ? (
+          <TagEditor
+            tags={tags}
+            suggestions={tagSuggestions}
+            onChange={handleChangeTags}
+            onClose={() => setIsEditingTags(false)}
+          />
+        ) : (
+          tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-3">
+              {tags.map((tag) =>
+                onTagClick ? (
+                  <button
+                    key={tag}
+                    onClick={() => onTagClick(tag)}
+                    className={`badge ${
+                      activeTags.includes(tag)
+                        ? "badge-primary"
+                        : "badge-outline"
+                    }`}
+                    title={`Nach "${tag}" filtern`}
+                  >
+                    {tag}
+                  </button>
+                ) : (
+                  <span key={tag} className="badge badge-outline">
+                    {tag}
+                  </span>
+                ),
+              )}
+            </div>
+          )
         )}
 
         {/* Card-Aktionen */}
         <div className="card-actions justify-end mt-4">
-          {/* Notiz bearbeiten Button (nur in Galerie-Ansicht) */}
-          {onEditNote && (
-            <button onClick={handleEditNote} className="btn btn-sm btn-outline">
-              {note ? "Notiz bearbeiten" : "Notiz hinzufügen"}
+          {/* Tags bearbeiten Button (nur in Galerie-Ansicht) */}
+          {onChangeTags && !isEditingTags && (
+            <button
+              onClick={() => setIsEditingTags(true)}
+              className="btn btn-sm btn-ghost"
+            >
+              Tags
+            </button>
+          )}
+
+          {/* Notizen Button (nur in Galerie-Ansicht) */}
+          {onOpenNotes && (
+            <button
+              onClick={() => onOpenNotes(artwork.id)}
+              className="btn btn-sm btn-outline"
+            >
+              {notes.length > 0
+                ? `Notizen (${notes.length})`
+                : "Notiz hinzufügen"}
             </button>
           )}
 
-          {/* Zur Galerie hinzufügen Button (nur in Such-Ansicht) */}
-          {onAddToGallery && (
+          {/* Sammlungs-Auswahl am "Zur Galerie"-Button (nur in Such-Ansicht) */}
+          {onAddToGallery && collections && (
+            <CollectionPicker
+              collections={collections}
+              memberCollectionIds={memberCollectionIds}
+              onSelect={handleAddToGallery}
+            />
+          )}
+
+          {/* Zur Galerie hinzufügen Button (Such-Ansicht ohne Sammlungsliste) */}
+          {onAddToGallery && !collections && (
             <button
-              onClick={handleAddToGallery}
+              onClick={() => handleAddToGallery()}
               disabled={isInGallery}
               className={`btn btn-sm ${isInGallery ? "btn-disabled" : "btn-primary"}`}
               title={
@@ -0,0 +1,415 @@
+/**
+ * ArtworkDetail Komponente
+ *
+ * Detailansicht eines einzelnen Kunstwerks unter der Route `/artwork/:id`.
+ * Lädt das Kunstwerk über getArtworkById und zeigt ein großes Bild,
+ * alle Metadaten sowie die Sammlungen, in denen es liegt (jeweils mit
+ * eigener Notiz), und die Galerie-Aktionen an. Das Bild lässt sich im
+ * Bildbetrachter vergrößern (siehe ImageViewer).
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
+import type { Artwork } from "../schemas/artworkSchema";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import { getArtworkById, getArtworkPageUrl } from "../utils/artworkApi";
+import { addArtwork, removeArtwork } from "../utils/galleryCommands";
+import { useGalleryState, useSavedArtworks } from "../utils/galleryHooks";
+import {
+  NotFoundError,
+  isAbortError,
+  toApiError,
+  type ApiError,
+} from "../utils/apiErrors";
+import { ArtworkImage } from "./ArtworkImage";
+import { CollectionPicker } from "./CollectionPicker";
+import { ImageViewer } from "./ImageViewer";
+import { NoteList } from "./NoteList";
+
+/**
+ * Props für die ArtworkDetail Komponente
+ */
+interface ArtworkDetailProps {
+  /**
+   * Die ID des anzuzeigenden Kunstwerks
+   */
+  artworkId: number;
+}
+
+/**
+ * Angezeigte Bildbreite in der Detailansicht (halbe Breite ab `lg`)
+ */
+const DETAIL_IMAGE_SIZES = "(min-width: 1024px) 50vw, 100vw";
+
+/**
+ * ArtworkDetail Komponente
+ *
+ * Zeigt alle Informationen zu einem Kunstwerk an und ermöglicht
+ * das Speichern, Entfernen und Kommentieren.
+ */
+export const ArtworkDetail: React.FC<ArtworkDetailProps> = ({ artworkId }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  /**
+   * State für das geladene Kunstwerk
+   */
+  const [artwork, setArtwork] = useState<Artwork | null>(null);
+
+  /**
+   * Die Einträge des Kunstwerks in den Sammlungen
+   * (leer, wenn es nicht in der Galerie ist)
+   */
+  const savedArtworks = useSavedArtworks(artworkId);
+
+  /**
+   * Alle Sammlungen (für Auswahl und Anzeigenamen)
+   */
+  const { collections } = useGalleryState();
+
+  /**
+   * State für den Ladezustand
+   */
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  /**
+   * State für den Fehler beim Laden des Kunstwerks
+   */
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+
+  /**
+   * Zähler für Ladeversuche (erhöht durch "Erneut versuchen")
+   */
+  const [loadAttempt, setLoadAttempt] = useState<number>(0);
+
+  /**
+   * State für Fehlermeldungen der Galerie-Aktionen
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * State, ob der Bildbetrachter geöffnet ist
+   */
+  const [isViewerOpen, setIsViewerOpen] = useState<boolean>(false);
+
+  /**
+   * Effect Hook: Lade das Kunstwerk über die API
+   */
+  useEffect(() => {
+    // Beim Verlassen der Seite wird die Anfrage abgebrochen
+    const controller = new AbortController();
+
+    getArtworkById(artworkId, { signal: controller.signal })
+      .then((result) => {
+        setArtwork(result);
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) {
+          return;
+        }
+
+        setLoadError(toApiError(err));
+        setIsLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [artworkId, loadAttempt]);
+
+  /**
+   * Handler für "Erneut versuchen" nach einem vorübergehenden Fehler
+   */
+  const handleRetry = () => {
+    setLoadError(null);
+    setIsLoading(true);
+    setLoadAttempt((attempt) => attempt + 1);
+  };
+
+  /**
+   * Handler für den "Zurück"-Button
+   *
+   * Navigiert in der History zurück, wenn die Seite innerhalb der App
+   * geöffnet wurde, sonst zur Suche (z.B. bei einem Lesezeichen).
+   */
+  const handleBack = () => {
+    if (location.key !== "default") {
+      navigate(-1);
+    } else {
+      navigate("/search");
+    }
+  };
+
+  /**
+   * Handler für das Hinzufügen zu einer Sammlung
+   */
+  const handleAddToGallery = async (collectionId: string) => {
+    if (!artwork) {
+      return;
+    }
+
+    try {
+      await addArtwork(artwork, collectionId);
+    } catch (err) {
+      console.error("Fehler beim Hinzufügen zur Galerie:", err);
+      setError("Kunstwerk konnte nicht zur Galerie hinzugefügt werden");
+    }
+  };
+
+  /**
+   * Handler für das Entfernen aus einer Sammlung
+   */
+  const handleRemoveFromGallery = async (collectionId: string) => {
+    try {
+      await removeArtwork(artworkId, collectionId);
+    } catch (err) {
+      console.error("Fehler beim Entfernen aus der Galerie:", err);
+      setError("Kunstwerk konnte nicht entfernt werden");
+    }
+  };
+
+  /**
+   * Anzeigenamen der Sammlungen nach ID
+   */
+  const collectionNames = new Map(
+    collections.map((collection) => [collection.id, collection.name]),
+  );
+
+  /**
+   * Metadaten, die in der Detailliste angezeigt werden
+   * (leere Werte werden ausgeblendet)
+   */
+  const metadata: Array<[string, string | null | undefined]> = artwork
+    ? [
+        ["Datum", artwork.date_display],
+        ["Medium", artwork.medium_display],
+        ["Herkunft", artwork.place_of_origin],
+        ["Abmessungen", artwork.dimensions],
+        ["Objekttyp", artwork.artwork_type_title],
+        ["Abteilung", artwork.department_title],
+        ["Inventarnummer", artwork.main_reference_number],
+        ["Provenienz", artwork.credit_line],
+        [
+          "Public Domain",
+          artwork.is_public_domain == null
+            ? null
+            : artwork.is_public_domain
+              ? "Ja"
+              : "Nein",
+        ],
+      ]
+    : [];
+
+  return (
+    <div className="w-full">
+      {/* Zurück-Navigation */}
+      <button onClick={handleBack} className="btn btn-ghost btn-sm mb-6">
+        ← Zurück
+      </button>
+
+      {/* Fehlermeldung */}
+      {error && (
+        <div className="alert alert-error mb-6">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="stroke-current shrink-0 h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z"
+            />
+          </svg>
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Kunstwerk existiert nicht */}
+      {loadError instanceof NotFoundError && (
+        <div className="bg-base-100 rounded-lg shadow-xl p-12 text-center">
+          <h2 className="text-2xl font-bold mb-2">Kunstwerk nicht gefunden</h2>
+          <p className="text-base-content/70 mb-6">
+            Zur ID {artworkId} gibt es kein Kunstwerk. Möglicherweise wurde es
+            aus der Sammlung entfernt.
+          </p>
+          <Link to="/search" className="btn btn-primary">
+            Zur Suche
+          </Link>
+        </div>
+      )}
+
+      {/* Sonstige Ladefehler */}
+      {loadError && !(loadError instanceof NotFoundError) && (
+        <div className="alert alert-error mb-6">
+          <span className="flex-1">{loadError.message}</span>
+          {loadError.retryable && (
+            <button onClick={handleRetry} className="btn btn-sm">
+              Erneut versuchen
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Lade-Indikator */}
+      {isLoading && (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      )}
+
+      {artwork && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Großes Bild */}
+          <figure className="relative bg-base-100 rounded-lg shadow-xl overflow-hidden">
+            <ArtworkImage
+              artwork={artwork}
+              sizes={DETAIL_IMAGE_SIZES}
+              fit="contain"
+              loading="eager"
+            />
+            {artwork.image_id && (
+              <button
+                onClick={() => setIsViewerOpen(true)}
+                className="btn btn-sm absolute bottom-3 right-3 bg-base-100/80 border-none"
+              >
+                🔍 Vergrößern
+              </button>
+            )}
+          </figure>
+
+          {isViewerOpen && artwork.image_id && (
+            <ImageViewer
+              imageId={artwork.image_id}
+              title={artwork.title}
+              onClose={() => setIsViewerOpen(false)}
+            />
+          )}
+
+          {/* Informationen */}
+          <div className="bg-base-100 rounded-lg shadow-xl p-6">
+            <h2 className="text-3xl font-bold mb-2">{artwork.title}</h2>
+            <p className="text-lg text-base-content/70 mb-6">
+              {artwork.artist_title || "Unbekannter Künstler"}
+            </p>
+
+            {/* Metadaten */}
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+              {metadata
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <React.Fragment key={label}>
+                    <dt className="font-semibold">{label}:</dt>
+                    <dd className="text-base-content/70">{value}</dd>
+                  </React.Fragment>
+                ))}
+            </dl>
+
+            <a
+              href={getArtworkPageUrl(artwork.id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="link link-primary text-sm inline-block mt-4"
+            >
+              Beim Art Institute of Chicago ansehen
+            </a>
+
+            {/* Sammlungen mit Notizen (nur für gespeicherte Kunstwerke) */}
+            {savedArtworks.length > 0 && (
+              <div className="mt-6 space-y-3">
+                {savedArtworks.map((saved) => (
+                  <div
+                    key={saved.collectionId}
+                    className="p-3 border border-base-300 rounded-lg"
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <Link
+                        to={
+                          saved.collectionId === DEFAULT_COLLECTION_ID
+                            ? "/gallery"
+                            : `/gallery?collection=${encodeURIComponent(saved.collectionId)}`
+                        }
+                        className="text-sm font-semibold link link-hover"
+                      >
+                        {collectionNames.get(saved.collectionId) ?? "Sammlung"}
+                      </Link>
+                      <button
+                        onClick={() =>
+                          handleRemoveFromGallery(saved.collectionId)
+                        }
+                        className="btn btn-xs btn-error"
+                      >
+                        Entfernen
+                      </button>
+                    </div>
+                    {saved.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {saved.tags.map((tag) => (
+                          <span key={tag} className="badge badge-outline">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="mt-3">
+                      <NoteList
+                        artworkId={saved.id}
+                        collectionId={saved.collectionId}
+                        notes={saved.notes}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Galerie-Aktionen */}
+            <div className="flex flex-wrap justify-end gap-2 mt-6">
+              {savedArtworks.length > 0 && (
+                <Link to="/gallery" className="btn btn-sm btn-ghost">
+                  Zur Galerie
+                </Link>
+              )}
+              <CollectionPicker
+                collections={collections}
+                memberCollectionIds={savedArtworks.map(
+                  (saved) => saved.collectionId,
+                )}
+                onSelect={handleAddToGallery}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Routen-Komponente für `/artwork/:id`
+ *
+ * Liest die ID aus der URL und rendert die Detailansicht. Der `key`
+ * sorgt dafür, dass der State beim Wechsel zu einem anderen Kunstwerk
+ * zurückgesetzt wird.
+ */
+export const ArtworkDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const artworkId = Number(id);
+
+  if (!Number.isInteger(artworkId) || artworkId <= 0) {
+    return (
+      <div className="alert alert-error">
+        <span>Ungültige Kunstwerk-ID: {id}</span>
+      </div>
+    );
+  }
+
+  return <ArtworkDetail key={artworkId} artworkId={artworkId} />;
+};
+
+export default ArtworkDetailPage;
@@ -0,0 +1,149 @@
+/**
+ * ArtworkImage Komponente
+ *
+ * Zeigt das Bild eines Kunstwerks in der passenden Größe an: Über `srcset`
+ * und `sizes` lädt der Browser nur die Variante, die für die angezeigte
+ * Breite genügt, und Bilder außerhalb des sichtbaren Bereichs erst beim
+ * Scrollen. Bis das Bild geladen ist, steht an seiner Stelle der unscharfe
+ * Platzhalter aus `thumbnail.lqip`. Fehlt das Bild oder lässt es sich nicht
+ * laden, erscheint ein Hinweis statt eines Ersatzbildes.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useState } from "react";
+import type { Artwork } from "../schemas/artworkSchema";
+import { getImageSrcSet, getImageUrl } from "../utils/artworkApi";
+
+/**
+ * Props für die ArtworkImage Komponente
+ */
+interface ArtworkImageProps {
+  /**
+   * Das Kunstwerk, dessen Bild angezeigt wird
+   */
+  artwork: Pick<Artwork, "title" | "image_id" | "thumbnail">;
+
+  /**
+   * Die angezeigte Breite für die Wahl der Variante (`sizes`-Attribut),
+   * z.B. "(min-width: 1024px) 50vw, 100vw"
+   */
+  sizes: string;
+
+  /**
+   * "cover": füllt den Rahmen und schneidet zu (Standard);
+   * "contain": zeigt das ganze Bild im Seitenverhältnis des Originals
+   */
+  fit?: "cover" | "contain";
+
+  /**
+   * "lazy": lädt erst in der Nähe des sichtbaren Bereichs (Standard);
+   * "eager": lädt sofort (z.B. für das Hauptbild einer Seite)
+   */
+  loading?: "lazy" | "eager";
+}
+
+/**
+ * Bildbreite für Browser ohne `srcset`-Unterstützung
+ */
+const DEFAULT_IMAGE_SIZE = 843;
+
+/**
+ * ArtworkImage Komponente
+ *
+ * Füllt den umgebenden Rahmen; bei `fit="contain"` bestimmt das
+ * Seitenverhältnis des Bildes die Höhe.
+ */
+export const ArtworkImage: React.FC<ArtworkImageProps> = ({
+  artwork,
+  sizes,
+  fit = "cover",
+  loading = "lazy",
+}) => {
+  const src = getImageUrl(artwork.image_id, DEFAULT_IMAGE_SIZE);
+
+  /**
+   * State mit der URL des zuletzt geladenen bzw. fehlgeschlagenen Bildes
+   * (so gilt der Zustand nur für das aktuelle Bild)
+   */
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  const thumbnail = artwork.thumbnail;
+  const alt = thumbnail?.alt_text || artwork.title;
+  const fitClass = fit === "cover" ? "object-cover" : "object-contain";
+
+  // Seitenverhältnis des Originals, damit der Rahmen schon vor dem Laden
+  // seine endgültige Höhe hat
+  const aspectRatio =
+    fit === "contain" && thumbnail?.width && thumbnail.height
+      ? `${thumbnail.width} / ${thumbnail.height}`
+      : undefined;
+
+  if (!src || failedSrc === src) {
+    return (
+      <div
+        role="img"
+        aria-label={`${artwork.title}: ${src ? "Bild konnte nicht geladen werden" : "Kein Bild verfügbar"}`}
+        className={`flex flex-col items-center justify-center gap-2 w-full h-full bg-base-200 text-base-content/40 ${
+          fit === "contain" ? "min-h-64" : ""
+        }`}
+        style={{ aspectRatio }}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-12 w-12"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+          />
+        </svg>
+        <span className="text-sm">
+          {src ? "Bild konnte nicht geladen werden" : "Kein Bild verfügbar"}
+        </span>
+      </div>
+    );
+  }
+
+  const isLoaded = loadedSrc === src;
+
+  return (
+    <div
+      className="relative w-full h-full overflow-hidden bg-base-200"
+      style={{ aspectRatio }}
+    >
+      {/* Unscharfer Platzhalter, bis das Bild geladen ist */}
+      {thumbnail?.lqip && !isLoaded && (
+        <img
+          src={thumbnail.lqip}
+          alt=""
+          aria-hidden="true"
+          className={`absolute inset-0 w-full h-full ${fitClass} blur-lg scale-110`}
+        />
+      )}
+
+      <img
+        src={src}
+        srcSet={getImageSrcSet(artwork.image_id) ?? undefined}
+        sizes={sizes}
+        alt={alt}
+        loading={loading}
+        decoding="async"
+        className={`relative w-full h-full ${fitClass} transition-opacity duration-300 ${
+          isLoaded ? "opacity-100" : "opacity-0"
+        }`}
+        onLoad={() => setLoadedSrc(src)}
+        onError={() => setFailedSrc(src)}
+      />
+    </div>
+  );
+};
+
+export default ArtworkImage;
@@ -0,0 +1,167 @@
+/**
+ * CollectionNameDialog Komponente
+ *
+ * Ein Modal-Dialog zum Benennen einer neuen oder bestehenden Sammlung.
+ * Validiert den Namen (nicht leer, maximale Länge, eindeutig) bereits
+ * während der Eingabe.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useState } from "react";
+import {
+  MAX_COLLECTION_NAME_LENGTH,
+  type Collection,
+} from "../schemas/collectionSchema";
+import { validateCollectionName } from "../utils/galleryStorage";
+
+/**
+ * Props für die CollectionNameDialog Komponente
+ */
+interface CollectionNameDialogProps {
+  /**
+   * Überschrift des Dialogs (z.B. "Neue Sammlung")
+   */
+  title: string;
+
+  /**
+   * Vorbelegter Name (leer für eine neue Sammlung)
+   */
+  initialName?: string;
+
+  /**
+   * Bestehende Sammlungen (für die Prüfung auf doppelte Namen)
+   */
+  collections: Collection[];
+
+  /**
+   * ID der umzubenennenden Sammlung (ohne Angabe: neue Sammlung)
+   */
+  collectionId?: string;
+
+  /**
+   * Fehlermeldung beim Speichern (z.B. vom Speicher abgelehnt)
+   */
+  error?: string | null;
+
+  /**
+   * Callback-Funktion, die mit dem gültigen Namen aufgerufen wird
+   */
+  onSave: (name: string) => void;
+
+  /**
+   * Callback-Funktion, die aufgerufen wird, wenn der Dialog abgebrochen wird
+   */
+  onCancel: () => void;
+}
+
+/**
+ * CollectionNameDialog Komponente
+ *
+ * Zeigt ein Modal mit einem Eingabefeld für den Sammlungsnamen an.
+ */
+export const CollectionNameDialog: React.FC<CollectionNameDialogProps> = ({
+  title,
+  initialName = "",
+  collections,
+  collectionId,
+  error,
+  onSave,
+  onCancel,
+}) => {
+  /**
+   * State für den eingegebenen Namen
+   */
+  const [name, setName] = useState<string>(initialName);
+
+  /**
+   * Validierungsfehler für den aktuellen Namen
+   */
+  const validationError = validateCollectionName(
+    name,
+    collections,
+    collectionId,
+  );
+
+  /**
+   * Handler für das Absenden des Formulars
+   */
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!validationError) {
+      onSave(name.trim());
+    }
+  };
+
+  /**
+   * Handler für Tastenkombinationen
+   * - Escape: Abbrechen
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <>
+      {/* Modal-Overlay */}
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onCancel} />
+
+      {/* Modal-Content */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="bg-base-100 rounded-lg shadow-2xl max-w-md w-full"
+        >
+          {/* Modal-Header */}
+          <div className="p-6 border-b border-base-300">
+            <h3 className="text-2xl font-bold">{title}</h3>
+          </div>
+
+          {/* Modal-Body */}
+          <div className="p-6">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="z.B. Seminar Impressionismus"
+              className={`input input-bordered w-full ${
+                name && validationError ? "input-error" : ""
+              }`}
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              aria-label="Name der Sammlung"
+              autoFocus
+            />
+
+            {/* Validierungs- oder Speicherfehler */}
+            {((name && validationError) || error) && (
+              <p className="text-error text-sm mt-2">
+                {(name && validationError) || error}
+              </p>
+            )}
+          </div>
+
+          {/* Modal-Footer */}
+          <div className="p-6 border-t border-base-300 flex justify-end gap-2">
+            <button type="button" onClick={onCancel} className="btn btn-ghost">
+              Abbrechen
+            </button>
+            <button
+              type="submit"
+              disabled={!!validationError}
+              className="btn btn-primary"
+            >
+              Speichern
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+};
+
+export default CollectionNameDialog;
@@ -0,0 +1,106 @@
+/**
+ * CollectionPicker Komponente
+ *
+ * Ein "Zur Galerie"-Button mit Auswahlmenü der Sammlungen. Sammlungen,
+ * in denen das Kunstwerk bereits liegt, sind markiert und deaktiviert.
+ *
+ * FR008: Erstellen – Zur Galerie hinzufügen
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import type { Collection } from "../schemas/collectionSchema";
+
+/**
+ * Props für die CollectionPicker Komponente
+ */
+interface CollectionPickerProps {
+  /**
+   * Die auswählbaren Sammlungen
+   */
+  collections: Collection[];
+
+  /**
+   * IDs der Sammlungen, in denen das Kunstwerk bereits liegt
+   */
+  memberCollectionIds?: string[];
+
+  /**
+   * Callback-Funktion, die mit der gewählten Sammlung aufgerufen wird
+   */
+  onSelect: (collectionId: string) => void;
+
+  /**
+   * Richtung, in die sich das Menü öffnet (Standard: "top")
+   */
+  direction?: "top" | "bottom";
+}
+
+/**
+ * CollectionPicker Komponente
+ *
+ * Verwendet das DaisyUI-Dropdown (öffnet sich über den Fokus).
+ */
+export const CollectionPicker: React.FC<CollectionPickerProps> = ({
+  collections,
+  memberCollectionIds = [],
+  onSelect,
+  direction = "top",
+}) => {
+  /**
+   * Handler für die Auswahl einer Sammlung
+   */
+  const handleSelect = (collectionId: string) => {
+    onSelect(collectionId);
+
+    // Schließt das Menü, indem der Fokus entfernt wird
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+  };
+
+  const memberCount = memberCollectionIds.length;
+
+  return (
+    <div
+      className={`dropdown dropdown-end ${
+        direction === "top" ? "dropdown-top" : "dropdown-bottom"
+      }`}
+    >
+      <div
+        tabIndex={0}
+        role="button"
+        className={`btn btn-sm ${memberCount > 0 ? "btn-outline" : "btn-primary"}`}
+        title="Zu einer Sammlung hinzufügen"
+      >
+        {memberCount > 0
+          ? `In ${memberCount} Sammlung${memberCount !== 1 ? "en" : ""}`
+          : "Zur Galerie"}
+      </div>
+      <ul
+        tabIndex={0}
+        className="dropdown-content menu bg-base-100 rounded-box z-10 w-56 p-2 shadow-lg"
+      >
+        {collections.map((collection) => {
+          const isMember = memberCollectionIds.includes(collection.id);
+
+          return (
+            <li key={collection.id} className={isMember ? "disabled" : ""}>
+              <button
+                onClick={() => handleSelect(collection.id)}
+                disabled={isMember}
+              >
+                <span className="flex-1 truncate text-left">
+                  {collection.name}
+                </span>
+                {isMember && <span aria-label="Bereits enthalten">✓</span>}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default CollectionPicker;
@@ -2,7 +2,13 @@
  * Gallery Komponente
  *
  * Zeigt die persönliche Galerie der gespeicherten Kunstwerke an.
- * Ermöglicht das Verwalten von Notizen und das Entfernen von Kunstwerken.
+ * Die Galerie ist in Sammlungen unterteilt; die gewählte Sammlung steht
+ * in der URL (`/gallery?collection=<id>`). Ermöglicht das Anlegen,
+ * Umbenennen und Löschen von Sammlungen, das Verwalten von Notizen und
+ * Tags, das Filtern nach Tags (UND/ODER, ebenfalls in der URL), das
+ * Festlegen einer eigenen Reihenfolge (Drag & Drop oder Tastatur) und das
+ * Entfernen von Kunstwerken. Entfernte Kunstwerke wandern in den
+ * Papierkorb; Entfernen und Leeren lassen sich rückgängig machen.
  *
  * FR007: Galeriekomponente
  * FR009: Lesen – Galerie anzeigen
@@ -11,15 +17,79 @@
  * FR012: Typsicherer Status
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import type { SavedArtwork } from "../schemas/noteSchema";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import { TagMatchModeSchema, type TagMatchMode } from "../schemas/tagSchema";
 import {
-  loadGallery,
-  removeFromGallery,
-  updateNote,
+  GallerySortSchema,
+  type GallerySort,
+} from "../schemas/gallerySortSchema";
+import type { ImportStrategy } from "../schemas/galleryExportSchema";
+import {
+  countImportConflicts,
+  createCollection,
+  deleteCollection,
+  exportGallery,
+  importGallery,
+  renameCollection,
+  renameTag,
+  setTags,
 } from "../utils/galleryStorage";
+import {
+  getExportFileName,
+  parseGalleryImport,
+  type GalleryImport,
+} from "../utils/galleryTransfer";
+import { createGalleryCsv, getCsvFileName } from "../utils/galleryCsv";
+import { downloadFile } from "../utils/download";
+import {
+  getFacetValues,
+  matchesFacets,
+  matchesSearch,
+  moveItem,
+  sortArtworks,
+  splitSearchQuery,
+  type GalleryFilters,
+} from "../utils/galleryFilter";
+import {
+  useGallery,
+  useGalleryState,
+  useGalleryStore,
+} from "../utils/galleryHooks";
+import { clearAllArtworks, removeArtwork } from "../utils/galleryCommands";
+import { matchesTags } from "../utils/tagFilter";
 import { ArtworkCard } from "./ArtworkCard";
-import { NoteEditor } from "./NoteEditor";
+import { CollectionNameDialog } from "./CollectionNameDialog";
+import { GalleryFilterBar } from "./GalleryFilterBar";
+import { GalleryImportDialog } from "./GalleryImportDialog";
+import { NotesDialog } from "./NotesDialog";
+import { ReorderControls } from "./ReorderControls";
+import { TagManagerDialog } from "./TagManagerDialog";
+
+/**
+ * Query-Parameter für die gewählte Sammlung
+ */
+const COLLECTION_PARAM = "collection";
+
+/**
+ * Query-Parameter für den Tag-Filter (`?tag=a&tag=b&match=any`)
+ */
+const TAG_PARAM = "tag";
+const MATCH_PARAM = "match";
+
+/**
+ * Query-Parameter für Suche, Filter und Sortierung
+ * (`?q=seerosen&artist=Claude%20Monet&sort=date`)
+ */
+const FILTER_PARAMS: Record<keyof GalleryFilters, string> = {
+  query: "q",
+  artist: "artist",
+  medium: "medium",
+  origin: "origin",
+};
+const SORT_PARAM = "sort";
 
 /**
  * Gallery Komponente
@@ -27,62 +97,407 @@ import { NoteEditor } from "./NoteEditor";
  * Verwaltet die Darstellung und Interaktion mit der persönlichen Galerie.
  */
 export const Gallery: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  /**
+   * Die in der URL gewählte Sammlung
+   */
+  const requestedCollectionId =
+    searchParams.get(COLLECTION_PARAM) ?? DEFAULT_COLLECTION_ID;
+
+  /**
+   * Gemeinsamer Galerie-Zustand (Sammlungen, Tags, Papierkorb, Quarantäne)
+   */
+  const galleryStore = useGalleryStore();
+  const {
+    status,
+    items: allItems,
+    collections,
+    tags,
+    quarantineCount,
+    trashCount,
+  } = useGalleryState();
+
+  /**
+   * Ladezustand: die Galerie wurde noch nicht geladen
+   */
+  const isLoading = status === "loading";
+
+  /**
+   * Die angezeigte Sammlung (die Standardsammlung, wenn die angeforderte
+   * nicht existiert)
+   */
+  const requestedCollection = collections.find(
+    (collection) => collection.id === requestedCollectionId,
+  );
+  const collectionId =
+    requestedCollection || isLoading
+      ? requestedCollectionId
+      : DEFAULT_COLLECTION_ID;
+  const activeCollection = collections.find(
+    (collection) => collection.id === collectionId,
+  );
+
+  /**
+   * Die Kunstwerke der angezeigten Sammlung in ihrer eigenen Reihenfolge
+   */
+  const gallery = useGallery(collectionId);
+
+  /**
+   * Der Tag-Filter aus der URL
+   */
+  const selectedTags = searchParams.getAll(TAG_PARAM);
+  const parsedMatchMode = TagMatchModeSchema.safeParse(
+    searchParams.get(MATCH_PARAM),
+  );
+  const matchMode: TagMatchMode = parsedMatchMode.success
+    ? parsedMatchMode.data
+    : "all";
+
+  /**
+   * Suche, Filter und Sortierung aus der URL
+   */
+  const filters: GalleryFilters = {
+    query: searchParams.get(FILTER_PARAMS.query) ?? "",
+    artist: searchParams.get(FILTER_PARAMS.artist) ?? "",
+    medium: searchParams.get(FILTER_PARAMS.medium) ?? "",
+    origin: searchParams.get(FILTER_PARAMS.origin) ?? "",
+  };
+  const parsedSort = GallerySortSchema.safeParse(searchParams.get(SORT_PARAM));
+  const sort: GallerySort = parsedSort.success ? parsedSort.data : "manual";
+  const searchTerms = splitSearchQuery(filters.query);
+
+  /**
+   * Gibt an, ob Suche oder Filter die Anzeige einschränken
+   */
+  const isFiltered =
+    selectedTags.length > 0 ||
+    searchTerms.length > 0 ||
+    Boolean(filters.artist || filters.medium || filters.origin);
+
+  /**
+   * Die Kunstwerke, die zu Tag-Filter, Filtern und Suche passen (sortiert)
+   */
+  const visibleArtworks = sortArtworks(
+    gallery.filter(
+      (artwork) =>
+        matchesTags(artwork.tags, selectedTags, matchMode) &&
+        matchesFacets(artwork, filters) &&
+        matchesSearch(artwork, searchTerms),
+    ),
+    sort,
+  );
+
   /**
-   * State für die gespeicherten Kunstwerke
+   * Die Reihenfolge lässt sich nur ändern, wenn alle Kunstwerke in der
+   * eigenen Reihenfolge angezeigt werden
    */
-  const [gallery, setGallery] = useState<SavedArtwork[]>([]);
+  const isReorderable = sort === "manual" && !isFiltered;
 
   /**
-   * State für das aktuell bearbeitete Kunstwerk (für Notizen)
+   * State für das Ziehen einer Karte: das gezogene Kunstwerk und die
+   * vorläufige Reihenfolge (wird erst beim Loslassen gespeichert)
    */
-  const [editingArtwork, setEditingArtwork] = useState<{
-    id: number;
-    currentNote: string;
+  const [dragState, setDragState] = useState<{
+    artworkId: number;
+    ids: number[];
   } | null>(null);
 
+  /**
+   * Die angezeigten Kunstwerke (während des Ziehens in der vorläufigen
+   * Reihenfolge)
+   */
+  const displayedArtworks = dragState
+    ? dragState.ids.flatMap(
+        (id) => visibleArtworks.find((artwork) => artwork.id === id) ?? [],
+      )
+    : visibleArtworks;
+
+  /**
+   * Meldung für Screenreader nach dem Verschieben
+   */
+  const [announcement, setAnnouncement] = useState<string>("");
+
+  /**
+   * Tags der angezeigten Sammlung für die Filterleiste
+   * (gewählte Tags bleiben sichtbar, damit sie abgewählt werden können)
+   */
+  const filterTags = [
+    ...new Set([
+      ...gallery.flatMap((artwork) => artwork.tags),
+      ...selectedTags,
+    ]),
+  ].sort((a, b) => a.localeCompare(b, "de-DE"));
+
+  /**
+   * Alle Tags der Galerie für die Autovervollständigung
+   */
+  const tagSuggestions = tags.map(({ tag }) => tag);
+
+  /**
+   * State für die ID des Kunstwerks mit geöffneten Notizen
+   */
+  const [notesArtworkId, setNotesArtworkId] = useState<number | null>(null);
+
+  /**
+   * Das Kunstwerk mit geöffneten Notizen (aktueller Stand aus der Galerie)
+   */
+  const notesArtwork = gallery.find((artwork) => artwork.id === notesArtworkId);
+
+  /**
+   * State für den geöffneten Sammlungs-Dialog (Anlegen oder Umbenennen)
+   */
+  const [collectionDialog, setCollectionDialog] = useState<
+    "create" | "rename" | null
+  >(null);
+
+  /**
+   * State, ob die Tag-Verwaltung geöffnet ist
+   */
+  const [isManagingTags, setIsManagingTags] = useState<boolean>(false);
+
+  /**
+   * State für den geöffneten Import-Dialog (eingelesene Datei)
+   */
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    data: GalleryImport;
+    conflicts: number;
+  } | null>(null);
+
+  /**
+   * Referenz auf das (versteckte) Dateiauswahl-Feld für den Import
+   */
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * State für Fehlermeldungen beim Speichern im Sammlungs-Dialog
+   */
+  const [dialogError, setDialogError] = useState<string | null>(null);
+
   /**
    * State für Fehlermeldungen
    */
   const [error, setError] = useState<string | null>(null);
 
   /**
-   * Lädt die Galerie aus dem LocalStorage
+   * Wechselt zur angegebenen Sammlung (über die URL)
    */
-  const loadGalleryData = () => {
+  const selectCollection = (id: string) => {
+    setNotesArtworkId(null);
+    setSearchParams(
+      id === DEFAULT_COLLECTION_ID ? {} : { [COLLECTION_PARAM]: id },
+    );
+  };
+
+  /**
+   * Setzt den Tag-Filter (über die URL, die Sammlung bleibt erhalten)
+   */
+  const updateTagFilter = (tags: string[], mode: TagMatchMode) => {
+    const next = new URLSearchParams(searchParams);
+
+    next.delete(TAG_PARAM);
+    tags.forEach((tag) => next.append(TAG_PARAM, tag));
+
+    if (mode === "all") {
+      next.delete(MATCH_PARAM);
+    } else {
+      next.set(MATCH_PARAM, mode);
+    }
+
+    setSearchParams(next);
+  };
+
+  /**
+   * Setzt Suche und Filter (über die URL; Änderungen am Suchtext ersetzen
+   * den History-Eintrag, damit nicht jeder Tastendruck einen anlegt)
+   */
+  const updateFilters = (next: GalleryFilters) => {
+    const params = new URLSearchParams(searchParams);
+
+    for (const key of Object.keys(FILTER_PARAMS) as Array<
+      keyof GalleryFilters
+    >) {
+      if (next[key]) {
+        params.set(FILTER_PARAMS[key], next[key]);
+      } else {
+        params.delete(FILTER_PARAMS[key]);
+      }
+    }
+
+    setSearchParams(params, { replace: next.query !== filters.query });
+  };
+
+  /**
+   * Setzt die Sortierung (über die URL)
+   */
+  const updateSort = (next: GallerySort) => {
+    const params = new URLSearchParams(searchParams);
+
+    if (next === "manual") {
+      params.delete(SORT_PARAM);
+    } else {
+      params.set(SORT_PARAM, next);
+    }
+
+    setSearchParams(params);
+  };
+
+  /**
+   * Setzt Tag-Filter, Suche und Filter zurück (Sammlung und Sortierung
+   * bleiben erhalten)
+   */
+  const resetFilters = () => {
+    const params = new URLSearchParams(searchParams);
+
+    [TAG_PARAM, MATCH_PARAM, ...Object.values(FILTER_PARAMS)].forEach((param) =>
+      params.delete(param),
+    );
+
+    setSearchParams(params);
+  };
+
+  /**
+   * Wählt einen Tag im Filter an oder ab
+   */
+  const toggleTag = (tag: string) => {
+    updateTagFilter(
+      selectedTags.includes(tag)
+        ? selectedTags.filter((selected) => selected !== tag)
+        : [...selectedTags, tag],
+      matchMode,
+    );
+  };
+
+  /**
+   * Handler für Änderungen an den Tags eines Kunstwerks
+   */
+  const handleChangeTags = async (artworkId: number, tags: string[]) => {
     try {
-      const savedArtworks = loadGallery();
-      setGallery(savedArtworks);
-      setError(null);
+      await setTags(artworkId, tags, collectionId);
     } catch (err) {
-      console.error("Fehler beim Laden der Galerie:", err);
-      setError("Galerie konnte nicht geladen werden");
+      console.error("Fehler beim Speichern der Tags:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Tags konnten nicht gespeichert werden",
+      );
     }
   };
 
   /**
-   * Effect Hook: Lade die Galerie beim ersten Rendern
+   * Handler für das Umbenennen (bzw. Zusammenführen) eines Tags
+   *
+   * Fehler werden an den Dialog weitergegeben und dort angezeigt.
+   */
+  const handleRenameTag = async (tag: string, newTag: string) => {
+    await renameTag(tag, newTag);
+
+    // Ein aktiver Filter folgt dem neuen Namen
+    if (selectedTags.includes(tag)) {
+      updateTagFilter(
+        [
+          ...new Set(
+            selectedTags.map((selected) =>
+              selected === tag ? newTag : selected,
+            ),
+          ),
+        ],
+        matchMode,
+      );
+    }
+  };
+
+  /**
+   * Handler für das Speichern im Sammlungs-Dialog
+   */
+  const handleSaveCollection = async (name: string) => {
+    try {
+      if (collectionDialog === "create") {
+        const collection = await createCollection(name);
+        selectCollection(collection.id);
+      } else {
+        await renameCollection(collectionId, name);
+      }
+
+      setCollectionDialog(null);
+      setDialogError(null);
+    } catch (err) {
+      console.error("Fehler beim Speichern der Sammlung:", err);
+      setDialogError(
+        err instanceof Error
+          ? err.message
+          : "Sammlung konnte nicht gespeichert werden",
+      );
+    }
+  };
+
+  /**
+   * Handler für das Schließen des Sammlungs-Dialogs
    */
-  useEffect(() => {
-    loadGalleryData();
-  }, []);
+  const handleCancelCollectionDialog = () => {
+    setCollectionDialog(null);
+    setDialogError(null);
+  };
 
   /**
-   * Handler für das Entfernen eines Kunstwerks aus der Galerie
+   * Handler für das Löschen der angezeigten Sammlung
+   */
+  const handleDeleteCollection = async () => {
+    if (
+      !activeCollection ||
+      !window.confirm(
+        `Sammlung "${activeCollection.name}" löschen? Ihre ${gallery.length} Kunstwerk${
+          gallery.length !== 1 ? "e" : ""
+        } werden mit allen Notizen in den Papierkorb verschoben.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteCollection(activeCollection.id);
+      selectCollection(DEFAULT_COLLECTION_ID);
+    } catch (err) {
+      console.error("Fehler beim Löschen der Sammlung:", err);
+      setError("Sammlung konnte nicht gelöscht werden");
+    }
+  };
+
+  /**
+   * Handler für das Leeren der gesamten Galerie (alle Sammlungen)
+   */
+  const handleClearGallery = async () => {
+    if (
+      !window.confirm(
+        "Alle Kunstwerke aller Sammlungen in den Papierkorb verschieben?",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await clearAllArtworks();
+      setNotesArtworkId(null);
+    } catch (err) {
+      console.error("Fehler beim Leeren der Galerie:", err);
+      setError("Galerie konnte nicht geleert werden");
+    }
+  };
+
+  /**
+   * Handler für das Entfernen eines Kunstwerks aus der Galerie (ohne
+   * Rückfrage: es wandert in den Papierkorb und lässt sich rückgängig machen)
    *
    * FR011: Löschen – Aus Galerie entfernen
    */
-  const handleRemoveFromGallery = (artworkId: number) => {
+  const handleRemoveFromGallery = async (artworkId: number) => {
     try {
-      const success = removeFromGallery(artworkId);
-
-      if (success) {
-        // Aktualisiere die Galerie
-        loadGalleryData();
+      const success = await removeArtwork(artworkId, collectionId);
 
-        // Schließe den Notiz-Editor, falls das entfernte Kunstwerk bearbeitet wurde
-        if (editingArtwork && editingArtwork.id === artworkId) {
-          setEditingArtwork(null);
-        }
+      // Schließe die Notizen, falls das entfernte Kunstwerk geöffnet war
+      if (success && notesArtworkId === artworkId) {
+        setNotesArtworkId(null);
       }
     } catch (err) {
       console.error("Fehler beim Entfernen aus der Galerie:", err);
@@ -91,58 +506,357 @@ export const Gallery: React.FC = () => {
   };
 
   /**
-   * Handler für das Öffnen des Notiz-Editors
-   *
-   * FR010: Aktualisieren – Notizen pro Kunstwerk
+   * Zeigt die neue Reihenfolge sofort an und speichert sie
+   */
+  const saveOrder = async (items: SavedArtwork[], movedId: number) => {
+    const position = items.findIndex((artwork) => artwork.id === movedId);
+    setAnnouncement(
+      `"${items[position].title}" ist jetzt an Position ${position + 1} von ${items.length}`,
+    );
+
+    try {
+      await galleryStore.reorder(
+        collectionId,
+        items.map((artwork) => artwork.id),
+      );
+    } catch (err) {
+      console.error("Fehler beim Speichern der Reihenfolge:", err);
+      setError("Reihenfolge konnte nicht gespeichert werden");
+    }
+  };
+
+  /**
+   * Handler für das Verschieben per Tastatur oder Schaltfläche
    */
-  const handleEditNote = (artworkId: number, currentNote: string) => {
-    setEditingArtwork({
-      id: artworkId,
-      currentNote,
+  const handleMoveArtwork = (artworkId: number, position: number) => {
+    const from = gallery.findIndex((artwork) => artwork.id === artworkId);
+    saveOrder(moveItem(gallery, from, position), artworkId);
+  };
+
+  /**
+   * Handler, wenn die gezogene Karte über einer anderen Karte ist
+   */
+  const handleDragOver = (targetId: number) => {
+    setDragState((current) => {
+      if (!current || current.artworkId === targetId) {
+        return current;
+      }
+
+      return {
+        ...current,
+        ids: moveItem(
+          current.ids,
+          current.ids.indexOf(current.artworkId),
+          current.ids.indexOf(targetId),
+        ),
+      };
     });
   };
 
   /**
-   * Handler für das Speichern einer Notiz
-   *
-   * FR010: Aktualisieren – Notizen pro Kunstwerk
+   * Handler für das Loslassen (speichert) oder Abbrechen des Ziehens
+   */
+  const handleDragEnd = (cancelled: boolean) => {
+    if (!dragState) {
+      return;
+    }
+
+    setDragState(null);
+
+    const ids = gallery.map((artwork) => artwork.id);
+    const changed = dragState.ids.some((id, index) => id !== ids[index]);
+
+    if (!cancelled && changed) {
+      saveOrder(displayedArtworks, dragState.artworkId);
+    }
+  };
+
+  /**
+   * Handler für den Export der gesamten Galerie als JSON-Datei
    */
-  const handleSaveNote = (artworkId: number, note: string) => {
+  const handleExport = async () => {
     try {
-      const success = updateNote(artworkId, note);
+      const data = await exportGallery();
 
-      if (success) {
-        // Aktualisiere die Galerie
-        loadGalleryData();
+      downloadFile(
+        JSON.stringify(data, null, 2),
+        getExportFileName(data.exportedAt),
+        "application/json",
+      );
+    } catch (err) {
+      console.error("Fehler beim Exportieren der Galerie:", err);
+      setError("Galerie konnte nicht exportiert werden");
+    }
+  };
 
-        // Schließe den Notiz-Editor
-        setEditingArtwork(null);
-        setError(null);
-      }
+  /**
+   * Handler für den CSV-Export aller gespeicherten Kunstwerke
+   */
+  const handleExportCsv = () => {
+    try {
+      downloadFile(
+        createGalleryCsv(allItems, collections),
+        getCsvFileName(),
+        "text/csv;charset=utf-8",
+      );
+    } catch (err) {
+      console.error("Fehler beim CSV-Export der Galerie:", err);
+      setError("CSV-Datei konnte nicht erstellt werden");
+    }
+  };
+
+  /**
+   * Handler für die Auswahl einer Import-Datei: liest und prüft die Datei
+   * und öffnet den Import-Dialog
+   */
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+
+    // Erlaubt, dieselbe Datei erneut zu wählen
+    e.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      const data = parseGalleryImport(await file.text());
+
+      setPendingImport({
+        fileName: file.name,
+        data,
+        conflicts: await countImportConflicts(data),
+      });
+      setError(null);
     } catch (err) {
-      console.error("Fehler beim Speichern der Notiz:", err);
-      setError("Notiz konnte nicht gespeichert werden");
+      console.error("Fehler beim Lesen der Import-Datei:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Datei konnte nicht gelesen werden",
+      );
     }
   };
 
   /**
-   * Handler für das Abbrechen der Notiz-Bearbeitung
+   * Handler für den Import mit dem gewählten Vorgehen
    */
-  const handleCancelEdit = () => {
-    setEditingArtwork(null);
+  const handleImport = async (strategy: ImportStrategy) => {
+    if (!pendingImport) {
+      throw new Error("Keine Datei gewählt");
+    }
+
+    return importGallery(pendingImport.data, strategy);
   };
 
   return (
     <div className="w-full">
       {/* Galerie-Header */}
       <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Meine Galerie</h1>
+        <h1 className="text-3xl font-bold mb-2">
+          {activeCollection?.name ?? "Meine Galerie"}
+        </h1>
         <p className="text-base-content/70">
-          {gallery.length} Kunstwerk{gallery.length !== 1 ? "e" : ""}{" "}
-          gespeichert
+          {isFiltered && `${visibleArtworks.length} von `}
+          {gallery.length} Kunstwerk
+          {gallery.length !== 1 ? (isFiltered ? "en" : "e") : ""}{" "}
+          {isFiltered ? "angezeigt" : "gespeichert"}
         </p>
       </div>
 
+      {/* Sammlungs-Auswahl und -Verwaltung */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <select
+          value={collectionId}
+          onChange={(e) => selectCollection(e.target.value)}
+          className="select select-bordered select-sm w-full max-w-xs"
+          aria-label="Sammlung wählen"
+          disabled={collections.length === 0}
+        >
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setCollectionDialog("create")}
+          className="btn btn-sm btn-primary"
+        >
+          Neue Sammlung
+        </button>
+        <button
+          onClick={() => setIsManagingTags(true)}
+          className="btn btn-sm btn-ghost"
+        >
+          Tags verwalten
+        </button>
+        <button
+          onClick={() => setCollectionDialog("rename")}
+          className="btn btn-sm btn-outline"
+          disabled={!activeCollection}
+        >
+          Umbenennen
+        </button>
+        <button
+          onClick={handleDeleteCollection}
+          className="btn btn-sm btn-ghost text-error"
+          disabled={!activeCollection || collectionId === DEFAULT_COLLECTION_ID}
+          title={
+            collectionId === DEFAULT_COLLECTION_ID
+              ? "Die Standardsammlung kann nicht gelöscht werden"
+              : "Sammlung löschen"
+          }
+        >
+          Löschen
+        </button>
+        <div className="flex flex-wrap gap-2 sm:ml-auto">
+          <Link
+            to={
+              collectionId === DEFAULT_COLLECTION_ID
+                ? "/gallery/catalogue"
+                : `/gallery/catalogue?${COLLECTION_PARAM}=${encodeURIComponent(collectionId)}`
+            }
+            className="btn btn-sm btn-ghost"
+          >
+            Katalog drucken
+          </Link>
+          <button onClick={handleExportCsv} className="btn btn-sm btn-ghost">
+            CSV
+          </button>
+          <button onClick={handleExport} className="btn btn-sm btn-ghost">
+            Exportieren
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="btn btn-sm btn-ghost"
+          >
+            Importieren
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportFile}
+            className="hidden"
+            aria-label="Export-Datei wählen"
+          />
+          <Link to="/gallery/trash" className="btn btn-sm btn-ghost">
+            Papierkorb{trashCount > 0 && ` (${trashCount})`}
+          </Link>
+          <button
+            onClick={handleClearGallery}
+            className="btn btn-sm btn-ghost text-error"
+            title="Alle Kunstwerke aller Sammlungen in den Papierkorb verschieben"
+          >
+            Galerie leeren
+          </button>
+        </div>
+      </div>
+
+      {/* Suche, Filter und Sortierung */}
+      {gallery.length > 0 && (
+        <GalleryFilterBar
+          filters={filters}
+          sort={sort}
+          artists={getFacetValues(gallery, "artist_title")}
+          media={getFacetValues(gallery, "medium_display")}
+          origins={getFacetValues(gallery, "place_of_origin")}
+          onChangeFilters={updateFilters}
+          onChangeSort={updateSort}
+        />
+      )}
+
+      {/* Tag-Filter (UND/ODER) */}
+      {filterTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <span className="text-sm font-semibold">Nach Tags filtern:</span>
+          {filterTags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`badge ${
+                selectedTags.includes(tag) ? "badge-primary" : "badge-outline"
+              }`}
+              aria-pressed={selectedTags.includes(tag)}
+            >
+              {tag}
+            </button>
+          ))}
+          {selectedTags.length > 1 && (
+            <div className="join ml-2">
+              <button
+                onClick={() => updateTagFilter(selectedTags, "all")}
+                className={`btn btn-xs join-item ${
+                  matchMode === "all" ? "btn-active" : ""
+                }`}
+                title="Kunstwerke mit allen gewählten Tags"
+              >
+                UND
+              </button>
+              <button
+                onClick={() => updateTagFilter(selectedTags, "any")}
+                className={`btn btn-xs join-item ${
+                  matchMode === "any" ? "btn-active" : ""
+                }`}
+                title="Kunstwerke mit mindestens einem gewählten Tag"
+              >
+                ODER
+              </button>
+            </div>
+          )}
+          {selectedTags.length > 0 && (
+            <button
+              onClick={() => updateTagFilter([], matchMode)}
+              className="btn btn-xs btn-ghost"
+            >
+              Filter zurücksetzen
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Tag-Verwaltung */}
+      {isManagingTags && (
+        <TagManagerDialog
+          tags={tags}
+          onRename={handleRenameTag}
+          onClose={() => setIsManagingTags(false)}
+        />
+      )}
+
+      {/* Import-Dialog */}
+      {pendingImport && (
+        <GalleryImportDialog
+          fileName={pendingImport.fileName}
+          data={pendingImport.data}
+          conflicts={pendingImport.conflicts}
+          onImport={handleImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Sammlungs-Dialog (Anlegen oder Umbenennen) */}
+      {collectionDialog && (
+        <CollectionNameDialog
+          title={
+            collectionDialog === "create"
+              ? "Neue Sammlung"
+              : "Sammlung umbenennen"
+          }
+          initialName={
+            collectionDialog === "rename" ? activeCollection?.name : ""
+          }
+          collections={collections}
+          collectionId={
+            collectionDialog === "rename" ? collectionId : undefined
+          }
+          error={dialogError}
+          onSave={handleSaveCollection}
+          onCancel={handleCancelCollectionDialog}
+        />
+      )}
+
       {/* Fehlermeldung */}
       {error && (
         <div className="alert alert-error mb-6">
@@ -163,30 +877,108 @@ export const Gallery: React.FC = () => {
         </div>
       )}
 
-      {/* Notiz-Editor Modal */}
-      {editingArtwork && (
-        <NoteEditor
-          artworkId={editingArtwork.id}
-          currentNote={editingArtwork.currentNote}
-          onSave={handleSaveNote}
-          onCancel={handleCancelEdit}
+      {/* Hinweis auf beschädigte Einträge */}
+      {quarantineCount > 0 && (
+        <div className="alert alert-warning mb-6">
+          <span className="flex-1">
+            {quarantineCount === 1
+              ? "1 gespeicherter Eintrag konnte nicht geladen werden."
+              : `${quarantineCount} gespeicherte Einträge konnten nicht geladen werden.`}{" "}
+            Die Daten wurden aufbewahrt und können repariert werden.
+          </span>
+          <Link to="/gallery/recovery" className="btn btn-sm">
+            Wiederherstellen
+          </Link>
+        </div>
+      )}
+
+      {/* Notizen Modal */}
+      {notesArtwork && (
+        <NotesDialog
+          artwork={notesArtwork}
+          onClose={() => setNotesArtworkId(null)}
         />
       )}
 
       {/* Galerie-Grid */}
-      {gallery.length > 0 ? (
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : visibleArtworks.length > 0 ? (
         <div className="search-results-bg">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {gallery.map((artwork) => (
-              <ArtworkCard
+          {gallery.length > 1 && !isReorderable && (
+            <p className="text-sm text-gray-300 mb-4">
+              Die Reihenfolge lässt sich nur mit der Sortierung „Eigene
+              Reihenfolge“ und ohne Suche und Filter ändern.
+            </p>
+          )}
+          <div
+            className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 ${
+              dragState ? "select-none" : ""
+            }`}
+          >
+            {displayedArtworks.map((artwork, index) => (
+              <div
                 key={artwork.id}
-                artwork={artwork}
-                onRemoveFromGallery={handleRemoveFromGallery}
-                onEditNote={handleEditNote}
-                note={artwork.note}
-              />
+                data-sort-id={artwork.id}
+                className={`relative rounded-box transition-opacity ${
+                  dragState?.artworkId === artwork.id
+                    ? "opacity-60 ring-2 ring-primary"
+                    : ""
+                }`}
+              >
+                {isReorderable && gallery.length > 1 && (
+                  <ReorderControls
+                    title={artwork.title}
+                    position={index}
+                    count={displayedArtworks.length}
+                    isDragging={dragState?.artworkId === artwork.id}
+                    onMove={(position) =>
+                      handleMoveArtwork(artwork.id, position)
+                    }
+                    onDragStart={() =>
+                      setDragState({
+                        artworkId: artwork.id,
+                        ids: gallery.map((item) => item.id),
+                      })
+                    }
+                    onDragOver={handleDragOver}
+                    onDragEnd={handleDragEnd}
+                  />
+                )}
+                <ArtworkCard
+                  artwork={artwork}
+                  onRemoveFromGallery={handleRemoveFromGallery}
+                  onOpenNotes={setNotesArtworkId}
+                  notes={artwork.notes}
+                  tags={artwork.tags}
+                  onChangeTags={handleChangeTags}
+                  tagSuggestions={tagSuggestions}
+                  onTagClick={toggleTag}
+                  activeTags={selectedTags}
+                  highlightTerms={searchTerms}
+                />
+              </div>
             ))}
           </div>
+          <p className="sr-only" aria-live="polite">
+            {announcement}
+          </p>
+        </div>
+      ) : gallery.length > 0 ? (
+        // Kein Kunstwerk passt zu Suche und Filtern
+        <div className="search-results-bg">
+          <div className="text-center py-12">
+            <p className="text-xl font-semibold text-gray-300 mb-4">
+              {searchTerms.length > 0
+                ? `Keine Treffer für "${filters.query.trim()}"`
+                : "Keine Kunstwerke passen zu den Filtern"}
+            </p>
+            <button onClick={resetFilters} className="btn btn-sm">
+              Filter zurücksetzen
+            </button>
+          </div>
         </div>
       ) : (
         // Leerzustand (wenn die Galerie leer ist)
@@ -207,7 +999,9 @@ export const Gallery: React.FC = () => {
               />
             </svg>
             <p className="text-xl font-semibold text-gray-300 mt-4 mb-2">
-              Ihre Galerie ist leer
+              {collectionId === DEFAULT_COLLECTION_ID
+                ? "Ihre Galerie ist leer"
+                : "Diese Sammlung ist leer"}
             </p>
             <p className="text-gray-300">
               Suchen Sie nach Kunstwerken und fügen Sie Ihre Favoriten hinzu
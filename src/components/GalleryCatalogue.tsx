@@ -0,0 +1,236 @@
+/**
+ * GalleryCatalogue Komponente
+ *
+ * Druckansicht einer Sammlung unter `/gallery/catalogue?collection=<id>`.
+ * Zeigt pro Kunstwerk Bild, alle Metadaten, Tags, Notizen und den Link
+ * zum Art Institute. Über den Druckdialog des Browsers lässt sich der
+ * Katalog drucken oder als PDF speichern; wahlweise mit einem oder zwei
+ * Kunstwerken pro Seite (`&perPage=2`).
+ *
+ * FR009: Lesen – Galerie anzeigen
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import { getArtworkPageUrl, getImageUrl } from "../utils/artworkApi";
+import { useGallery, useGalleryState } from "../utils/galleryHooks";
+import { MarkdownNote } from "./MarkdownNote";
+
+/**
+ * Query-Parameter für die gewählte Sammlung
+ */
+const COLLECTION_PARAM = "collection";
+
+/**
+ * Query-Parameter für die Anzahl der Kunstwerke pro Seite (1 oder 2)
+ */
+const PER_PAGE_PARAM = "perPage";
+
+/**
+ * GalleryCatalogue Komponente
+ */
+export const GalleryCatalogue: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  /**
+   * Die in der URL gewählte Sammlung und Anzahl pro Seite
+   */
+  const requestedCollectionId =
+    searchParams.get(COLLECTION_PARAM) ?? DEFAULT_COLLECTION_ID;
+  const perPage = searchParams.get(PER_PAGE_PARAM) === "2" ? 2 : 1;
+
+  /**
+   * Sammlungen und Kunstwerke aus dem gemeinsamen Galerie-Zustand
+   */
+  const { status, collections } = useGalleryState();
+  const collection = collections.find(({ id }) => id === requestedCollectionId);
+  const items = useGallery(requestedCollectionId);
+
+  /**
+   * Ladezustand: die Galerie wurde noch nicht geladen
+   */
+  const isLoading = status === "loading";
+
+  /**
+   * Ändert einen Query-Parameter (Standardwerte werden entfernt)
+   */
+  const updateParam = (name: string, value: string, defaultValue: string) => {
+    const next = new URLSearchParams(searchParams);
+
+    if (value === defaultValue) {
+      next.delete(name);
+    } else {
+      next.set(name, value);
+    }
+
+    setSearchParams(next);
+  };
+
+  return (
+    <div className="w-full">
+      {/* Steuerung (wird nicht gedruckt) */}
+      <div className="flex flex-wrap items-center gap-2 mb-8 print:hidden">
+        <Link
+          to={
+            requestedCollectionId === DEFAULT_COLLECTION_ID
+              ? "/gallery"
+              : `/gallery?${COLLECTION_PARAM}=${encodeURIComponent(requestedCollectionId)}`
+          }
+          className="btn btn-sm btn-ghost"
+        >
+          ← Zur Galerie
+        </Link>
+        <select
+          value={requestedCollectionId}
+          onChange={(e) =>
+            updateParam(COLLECTION_PARAM, e.target.value, DEFAULT_COLLECTION_ID)
+          }
+          className="select select-bordered select-sm w-full max-w-xs"
+          aria-label="Sammlung wählen"
+        >
+          {collections.map(({ id, name }) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <div className="join">
+          {[1, 2].map((count) => (
+            <button
+              key={count}
+              onClick={() => updateParam(PER_PAGE_PARAM, String(count), "1")}
+              className={`btn btn-sm join-item ${
+                perPage === count ? "btn-active" : ""
+              }`}
+              aria-pressed={perPage === count}
+            >
+              {count} pro Seite
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => window.print()}
+          className="btn btn-sm btn-primary sm:ml-auto"
+          disabled={isLoading || items.length === 0}
+        >
+          Drucken / Als PDF speichern
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : (
+        <div className="bg-base-100 rounded-lg shadow-xl p-8 print:shadow-none print:p-0 print:rounded-none">
+          {/* Katalog-Kopf */}
+          <header className="mb-8 border-b border-base-300 pb-4">
+            <h1 className="text-3xl font-bold">
+              {collection?.name ?? "Sammlung nicht gefunden"}
+            </h1>
+            <p className="text-base-content/70">
+              {items.length} Kunstwerk{items.length !== 1 ? "e" : ""} · Stand{" "}
+              {new Date().toLocaleDateString("de-DE")}
+            </p>
+          </header>
+
+          {items.length === 0 && (
+            <p className="text-base-content/70">
+              Diese Sammlung enthält keine Kunstwerke.
+            </p>
+          )}
+
+          {/* Kunstwerke */}
+          {items.map((item, index) => {
+            const imageUrl = getImageUrl(item.image_id);
+            const metadata: Array<[string, string | null | undefined]> = [
+              ["Künstler", item.artist_title],
+              ["Datum", item.date_display],
+              ["Medium", item.medium_display],
+              ["Herkunft", item.place_of_origin],
+              ["Abmessungen", item.dimensions],
+              ["Tags", item.tags.join(", ")],
+              [
+                "Gespeichert am",
+                new Date(item.addedAt).toLocaleDateString("de-DE"),
+              ],
+            ];
+
+            return (
+              <article
+                key={item.id}
+                className={`break-inside-avoid py-6 border-b border-base-300 last:border-b-0 print:border-b-0 ${
+                  index % perPage === perPage - 1 && index < items.length - 1
+                    ? "break-after-page"
+                    : ""
+                }`}
+              >
+                <div
+                  className={`grid gap-6 ${
+                    perPage === 1 ? "grid-cols-1" : "grid-cols-[2fr_3fr]"
+                  }`}
+                >
+                  {imageUrl && (
+                    <img
+                      src={imageUrl}
+                      alt={item.title}
+                      className={`w-full object-contain ${
+                        perPage === 1 ? "max-h-[14cm]" : "max-h-[9cm]"
+                      }`}
+                    />
+                  )}
+
+                  <div>
+                    <h2 className="text-2xl font-bold mb-3">{item.title}</h2>
+
+                    {/* Metadaten */}
+                    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                      {metadata
+                        .filter(([, value]) => value)
+                        .map(([label, value]) => (
+                          <React.Fragment key={label}>
+                            <dt className="font-semibold">{label}:</dt>
+                            <dd>{value}</dd>
+                          </React.Fragment>
+                        ))}
+                    </dl>
+
+                    {/* Notizen */}
+                    {item.notes.map((entry) => (
+                      <div key={entry.id} className="mt-3 text-sm">
+                        <p className="font-semibold">
+                          Notiz vom{" "}
+                          {new Date(entry.createdAt).toLocaleDateString(
+                            "de-DE",
+                          )}
+                          :
+                        </p>
+                        <MarkdownNote text={entry.text} />
+                      </div>
+                    ))}
+
+                    {/* Link (ausgeschrieben, damit er auch gedruckt lesbar ist) */}
+                    <p className="mt-3 text-sm">
+                      <a
+                        href={getArtworkPageUrl(item.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="link link-primary break-all"
+                      >
+                        {getArtworkPageUrl(item.id)}
+                      </a>
+                    </p>
+                  </div>
+                </div>
+              </article>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryCatalogue;
@@ -0,0 +1,146 @@
+/**
+ * GalleryFilterBar Komponente
+ *
+ * Suchfeld, Sortierung und Filter nach Künstler, Medium und Herkunft für
+ * die Galerie. Die Werte werden von der Galerie verwaltet (in der URL);
+ * die Auswahlmöglichkeiten ergeben sich aus den Kunstwerken der Sammlung.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import {
+  GallerySortSchema,
+  type GallerySort,
+} from "../schemas/gallerySortSchema";
+import type { GalleryFilters } from "../utils/galleryFilter";
+
+/**
+ * Props für die GalleryFilterBar Komponente
+ */
+interface GalleryFilterBarProps {
+  /**
+   * Die aktuellen Filter
+   */
+  filters: GalleryFilters;
+
+  /**
+   * Die aktuelle Sortierung
+   */
+  sort: GallerySort;
+
+  /**
+   * Auswahlmöglichkeiten für die Filter
+   */
+  artists: string[];
+  media: string[];
+  origins: string[];
+
+  /**
+   * Callback-Funktion mit den geänderten Filtern
+   */
+  onChangeFilters: (filters: GalleryFilters) => void;
+
+  /**
+   * Callback-Funktion mit der geänderten Sortierung
+   */
+  onChangeSort: (sort: GallerySort) => void;
+}
+
+/**
+ * Anzeigenamen der Sortierungen
+ */
+const SORT_LABELS: Record<GallerySort, string> = {
+  manual: "Eigene Reihenfolge",
+  added: "Hinzugefügt (älteste zuerst)",
+  "added-desc": "Hinzugefügt (neueste zuerst)",
+  title: "Titel",
+  artist: "Künstler",
+  date: "Entstehungszeit",
+};
+
+/**
+ * GalleryFilterBar Komponente
+ */
+export const GalleryFilterBar: React.FC<GalleryFilterBarProps> = ({
+  filters,
+  sort,
+  artists,
+  media,
+  origins,
+  onChangeFilters,
+  onChangeSort,
+}) => {
+  /**
+   * Auswahlfelder für die Filter: Schlüssel, Beschriftung und Werte
+   */
+  const facets: Array<[keyof GalleryFilters, string, string[]]> = [
+    ["artist", "Alle Künstler", artists],
+    ["medium", "Alle Medien", media],
+    ["origin", "Alle Herkunftsorte", origins],
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      {/* Lokale Volltextsuche */}
+      <input
+        type="search"
+        value={filters.query}
+        onChange={(e) => onChangeFilters({ ...filters, query: e.target.value })}
+        placeholder="Titel, Künstler, Medium oder Notizen durchsuchen…"
+        className="input input-bordered input-sm w-full md:w-80"
+        aria-label="Galerie durchsuchen"
+      />
+
+      {/* Filter (nur wenn es Werte zur Auswahl gibt) */}
+      {facets.map(
+        ([key, allLabel, values]) =>
+          (values.length > 0 || filters[key]) && (
+            <select
+              key={key}
+              value={filters[key]}
+              onChange={(e) =>
+                onChangeFilters({ ...filters, [key]: e.target.value })
+              }
+              className="select select-bordered select-sm max-w-48"
+              aria-label={allLabel}
+            >
+              <option value="">{allLabel}</option>
+              {/* Ein gewählter Wert bleibt sichtbar, auch wenn er fehlt */}
+              {(!filters[key] || values.includes(filters[key])
+                ? values
+                : [filters[key], ...values]
+              ).map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          ),
+      )}
+
+      {/* Sortierung */}
+      <label className="flex items-center gap-2 text-sm md:ml-auto">
+        Sortieren:
+        <select
+          value={sort}
+          onChange={(e) => {
+            const parsed = GallerySortSchema.safeParse(e.target.value);
+            if (parsed.success) {
+              onChangeSort(parsed.data);
+            }
+          }}
+          className="select select-bordered select-sm"
+        >
+          {GallerySortSchema.options.map((option) => (
+            <option key={option} value={option}>
+              {SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default GalleryFilterBar;
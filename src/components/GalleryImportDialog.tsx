@@ -0,0 +1,246 @@
+/**
+ * GalleryImportDialog Komponente
+ *
+ * Ein Modal-Dialog zum Import einer Galerie-Export-Datei. Zeigt an, wie
+ * viele Einträge gültig sind, listet ungültige Zeilen auf und lässt bei
+ * Kunstwerken, die bereits in ihrer Sammlung sind, das Vorgehen wählen
+ * (ersetzen, überspringen oder Notizen zusammenführen).
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useState } from "react";
+import type { ImportStrategy } from "../schemas/galleryExportSchema";
+import type { ImportResult } from "../utils/galleryStorage";
+import type { GalleryImport } from "../utils/galleryTransfer";
+
+/**
+ * Props für die GalleryImportDialog Komponente
+ */
+interface GalleryImportDialogProps {
+  /**
+   * Name der gewählten Datei
+   */
+  fileName: string;
+
+  /**
+   * Die eingelesene Export-Datei
+   */
+  data: GalleryImport;
+
+  /**
+   * Anzahl der Kunstwerke, die bereits in ihrer Sammlung sind
+   */
+  conflicts: number;
+
+  /**
+   * Callback-Funktion für den Import mit dem gewählten Vorgehen
+   */
+  onImport: (strategy: ImportStrategy) => Promise<ImportResult>;
+
+  /**
+   * Callback-Funktion zum Schließen des Dialogs
+   */
+  onClose: () => void;
+}
+
+/**
+ * Auswahlmöglichkeiten für das Vorgehen bei vorhandenen Kunstwerken
+ */
+const STRATEGY_OPTIONS: {
+  value: ImportStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "skip",
+    label: "Überspringen",
+    description: "Vorhandene Einträge bleiben unverändert.",
+  },
+  {
+    value: "merge-notes",
+    label: "Notizen zusammenführen",
+    description:
+      "Vorhandene Einträge bleiben, Notizen aus der Datei werden ergänzt.",
+  },
+  {
+    value: "replace",
+    label: "Ersetzen",
+    description:
+      "Einträge aus der Datei ersetzen die vorhandenen (inklusive Notizen und Tags).",
+  },
+];
+
+/**
+ * GalleryImportDialog Komponente
+ */
+export const GalleryImportDialog: React.FC<GalleryImportDialogProps> = ({
+  fileName,
+  data,
+  conflicts,
+  onImport,
+  onClose,
+}) => {
+  /**
+   * State für das gewählte Vorgehen
+   */
+  const [strategy, setStrategy] = useState<ImportStrategy>("skip");
+
+  /**
+   * State, ob der Import gerade läuft
+   */
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+
+  /**
+   * State für das Ergebnis nach dem Import
+   */
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  /**
+   * State für Fehlermeldungen
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handler für den "Importieren"-Button
+   */
+  const handleImport = async () => {
+    setIsImporting(true);
+
+    try {
+      setResult(await onImport(strategy));
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Galerie konnte nicht importiert werden",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Modal-Overlay */}
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      {/* Modal-Content */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+        <div className="bg-base-100 rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          {/* Modal-Header */}
+          <div className="p-6 border-b border-base-300">
+            <h3 className="text-2xl font-bold">Galerie importieren</h3>
+            <p className="text-base-content/60 mt-1 break-all">
+              {fileName} · exportiert am{" "}
+              {new Date(data.exportedAt).toLocaleString("de-DE")}
+            </p>
+          </div>
+
+          {/* Modal-Body */}
+          <div className="p-6 space-y-4">
+            {result ? (
+              <ul className="list-disc pl-5 text-sm">
+                <li>{result.added} Kunstwerk(e) hinzugefügt</li>
+                {result.replaced > 0 && (
+                  <li>{result.replaced} Kunstwerk(e) ersetzt</li>
+                )}
+                {result.merged > 0 && (
+                  <li>
+                    Notizen bei {result.merged} Kunstwerk(en) zusammengeführt
+                  </li>
+                )}
+                {result.skipped > 0 && (
+                  <li>{result.skipped} Kunstwerk(e) übersprungen</li>
+                )}
+                {result.collectionsAdded > 0 && (
+                  <li>{result.collectionsAdded} Sammlung(en) angelegt</li>
+                )}
+              </ul>
+            ) : (
+              <>
+                <p>
+                  {data.items.length} gültige Kunstwerk(e) in{" "}
+                  {data.collections.length} Sammlung(en).
+                </p>
+
+                {/* Ungültige Zeilen */}
+                {data.invalidRows.length > 0 && (
+                  <div className="alert alert-warning flex-col items-start">
+                    <p className="font-semibold">
+                      {data.invalidRows.length} Zeile(n) werden nicht
+                      übernommen:
+                    </p>
+                    <ul className="text-sm list-disc pl-5 max-h-40 overflow-y-auto w-full">
+                      {data.invalidRows.map((row) => (
+                        <li key={`${row.kind}-${row.index}`}>
+                          {row.kind === "item" ? "Kunstwerk" : "Sammlung"}{" "}
+                          {row.index + 1}: {row.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Vorgehen bei vorhandenen Kunstwerken */}
+                {conflicts > 0 && (
+                  <fieldset className="space-y-2">
+                    <legend className="font-semibold mb-2">
+                      {conflicts} Kunstwerk(e) sind bereits in der Galerie:
+                    </legend>
+                    {STRATEGY_OPTIONS.map((option) => (
+                      <label
+                        key={option.value}
+                        className="flex items-start gap-3 cursor-pointer"
+                      >
+                        <input
+                          type="radio"
+                          name="import-strategy"
+                          value={option.value}
+                          checked={strategy === option.value}
+                          onChange={() => setStrategy(option.value)}
+                          className="radio radio-sm mt-1"
+                        />
+                        <span>
+                          <span className="font-medium">{option.label}</span>
+                          <span className="block text-sm text-base-content/60">
+                            {option.description}
+                          </span>
+                        </span>
+                      </label>
+                    ))}
+                  </fieldset>
+                )}
+              </>
+            )}
+
+            {/* Fehlermeldung */}
+            {error && <p className="text-error text-sm">{error}</p>}
+          </div>
+
+          {/* Modal-Footer */}
+          <div className="p-6 border-t border-base-300 flex justify-end gap-2">
+            <button onClick={onClose} className="btn btn-ghost">
+              {result ? "Schließen" : "Abbrechen"}
+            </button>
+            {!result && (
+              <button
+                onClick={handleImport}
+                className="btn btn-primary"
+                disabled={isImporting || data.items.length === 0}
+              >
+                {isImporting && (
+                  <span className="loading loading-spinner loading-sm"></span>
+                )}
+                Importieren
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default GalleryImportDialog;
@@ -0,0 +1,60 @@
+/**
+ * GalleryProvider Komponente
+ *
+ * Erstellt den gemeinsamen Galerie-Zustand (siehe galleryState.ts) einmal
+ * für die gesamte Anwendung und stellt ihn den Hooks in galleryHooks.ts
+ * zur Verfügung. Solange der Provider angezeigt wird, folgt der Zustand
+ * allen gespeicherten Änderungen, und die gespeicherten Kunstwerke werden
+ * für den Offline-Betrieb vorgehalten (siehe offlineCache.ts).
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useState } from "react";
+import { createGalleryState } from "../utils/galleryState";
+import { GalleryContext } from "../utils/galleryHooks";
+import { syncOfflineGallery } from "../utils/offlineCache";
+
+/**
+ * Props für die GalleryProvider Komponente
+ */
+interface GalleryProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * GalleryProvider Komponente
+ */
+export const GalleryProvider: React.FC<GalleryProviderProps> = ({
+  children,
+}) => {
+  /**
+   * Der gemeinsame Zustand (bleibt über alle Renderings gleich)
+   */
+  const [gallery] = useState(createGalleryState);
+
+  /**
+   * Effect Hook: Gespeicherte Kunstwerke offline vorhalten (erst nach dem
+   * Laden, damit die leere Anfangsliste nichts entfernt)
+   */
+  useEffect(
+    () =>
+      gallery.subscribe(() => {
+        const snapshot = gallery.getSnapshot();
+
+        if (snapshot.status === "ready") {
+          syncOfflineGallery(snapshot.items);
+        }
+      }),
+    [gallery],
+  );
+
+  /**
+   * Effect Hook: Galerie laden und Änderungen verfolgen
+   */
+  useEffect(() => gallery.start(), [gallery]);
+
+  return <GalleryContext value={gallery}>{children}</GalleryContext>;
+};
+
+export default GalleryProvider;
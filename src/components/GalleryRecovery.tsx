@@ -0,0 +1,246 @@
+/**
+ * GalleryRecovery Komponente
+ *
+ * Wiederherstellungsansicht unter `/gallery/recovery`. Zeigt alle Einträge
+ * der Galerie, die beim Laden nicht migriert oder validiert werden konnten
+ * (Quarantäne), und ermöglicht es, sie als JSON zu korrigieren und in die
+ * Galerie zu übernehmen oder endgültig zu verwerfen.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { QuarantinedEntry } from "../schemas/galleryStorageSchema";
+import {
+  discardQuarantinedEntry,
+  loadQuarantine,
+  repairQuarantinedEntry,
+} from "../utils/galleryStorage";
+import { subscribeToGalleryChanges } from "../utils/gallerySync";
+
+/**
+ * Bereitet die Rohdaten eines Eintrags zur Bearbeitung auf
+ *
+ * Nicht lesbares JSON wird als Rohtext gespeichert und unverändert angezeigt.
+ */
+function toEditableText(entry: QuarantinedEntry): string {
+  return typeof entry.raw === "string"
+    ? entry.raw
+    : JSON.stringify(entry.raw, null, 2);
+}
+
+/**
+ * GalleryRecovery Komponente
+ *
+ * Listet die Quarantäne-Einträge mit Fehlergrund und bearbeitbaren Rohdaten auf.
+ */
+export const GalleryRecovery: React.FC = () => {
+  /**
+   * State für die Einträge in der Quarantäne
+   */
+  const [entries, setEntries] = useState<QuarantinedEntry[]>([]);
+
+  /**
+   * State für den Ladezustand
+   */
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  /**
+   * State für die bearbeiteten Rohdaten pro Eintrag
+   */
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  /**
+   * State für Fehlermeldungen pro Eintrag
+   */
+  const [entryErrors, setEntryErrors] = useState<Record<string, string>>({});
+
+  /**
+   * State für Erfolgsmeldungen
+   */
+  const [message, setMessage] = useState<string | null>(null);
+
+  /**
+   * Effect Hook: Lade die Quarantäne beim ersten Rendern und nach
+   * Änderungen in anderen Tabs
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      loadQuarantine().then((quarantine) => {
+        if (!cancelled) {
+          setEntries(quarantine);
+          setIsLoading(false);
+        }
+      });
+    };
+
+    load();
+    const unsubscribe = subscribeToGalleryChanges(load);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  /**
+   * Setzt die Fehlermeldung eines Eintrags (null entfernt sie)
+   */
+  const setEntryError = (entryId: string, error: string | null) => {
+    setEntryErrors((prev) => {
+      const next = { ...prev };
+      if (error) {
+        next[entryId] = error;
+      } else {
+        delete next[entryId];
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Handler für das Reparieren und Übernehmen eines Eintrags
+   */
+  const handleRepair = async (entry: QuarantinedEntry) => {
+    const text = drafts[entry.id] ?? toEditableText(entry);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (err) {
+      setEntryError(
+        entry.id,
+        `Ungültiges JSON: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return;
+    }
+
+    try {
+      const result = await repairQuarantinedEntry(entry.id, raw);
+
+      if (!result.success) {
+        setEntryError(entry.id, result.reason);
+        return;
+      }
+
+      setEntryError(entry.id, null);
+      setEntries(await loadQuarantine());
+      setMessage(`"${result.item.title}" wurde in die Galerie übernommen`);
+    } catch (err) {
+      console.error("Fehler beim Reparieren des Eintrags:", err);
+      setEntryError(entry.id, "Eintrag konnte nicht gespeichert werden");
+    }
+  };
+
+  /**
+   * Handler für das endgültige Verwerfen eines Eintrags
+   */
+  const handleDiscard = async (entry: QuarantinedEntry) => {
+    if (
+      !window.confirm(
+        "Eintrag endgültig verwerfen? Die Daten können danach nicht wiederhergestellt werden.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await discardQuarantinedEntry(entry.id);
+      setEntries(await loadQuarantine());
+      setMessage("Eintrag wurde verworfen");
+    } catch (err) {
+      console.error("Fehler beim Verwerfen des Eintrags:", err);
+      setEntryError(entry.id, "Eintrag konnte nicht verworfen werden");
+    }
+  };
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <div className="mb-8">
+        <Link to="/gallery" className="btn btn-ghost btn-sm mb-4">
+          ← Zur Galerie
+        </Link>
+        <h1 className="text-3xl font-bold mb-2">Galerie wiederherstellen</h1>
+        <p className="text-base-content/70">
+          Diese Einträge konnten beim Laden nicht gelesen werden. Korrigieren
+          Sie die Daten und übernehmen Sie sie in die Galerie.
+        </p>
+      </div>
+
+      {/* Erfolgsmeldung */}
+      {message && (
+        <div className="alert alert-success mb-6">
+          <span>{message}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-base-100 rounded-lg shadow-xl p-12 text-center">
+          <p className="text-base-content/70">
+            Keine beschädigten Einträge vorhanden.
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-6">
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="bg-base-100 rounded-lg shadow-xl p-6"
+            >
+              {/* Fehlergrund und Metadaten */}
+              <p className="font-semibold mb-1">{entry.reason}</p>
+              <p className="text-sm text-base-content/60 mb-4">
+                In Quarantäne seit{" "}
+                {new Date(entry.quarantinedAt).toLocaleString("de-DE")} ·
+                Format-Version {entry.version}
+              </p>
+
+              {/* Rohdaten */}
+              <textarea
+                className="textarea textarea-bordered w-full font-mono text-sm h-48"
+                value={drafts[entry.id] ?? toEditableText(entry)}
+                onChange={(e) =>
+                  setDrafts((prev) => ({ ...prev, [entry.id]: e.target.value }))
+                }
+                aria-label="Rohdaten des Eintrags"
+              />
+
+              {/* Fehlermeldung des Eintrags */}
+              {entryErrors[entry.id] && (
+                <p className="text-error text-sm mt-2">
+                  {entryErrors[entry.id]}
+                </p>
+              )}
+
+              {/* Aktionen */}
+              <div className="flex justify-end gap-2 mt-4">
+                <button
+                  onClick={() => handleDiscard(entry)}
+                  className="btn btn-sm btn-ghost"
+                >
+                  Verwerfen
+                </button>
+                <button
+                  onClick={() => handleRepair(entry)}
+                  className="btn btn-sm btn-primary"
+                >
+                  Reparieren und übernehmen
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryRecovery;
@@ -0,0 +1,319 @@
+/**
+ * GalleryTrash Komponente
+ *
+ * Papierkorb unter `/gallery/trash`. Zeigt die entfernten Kunstwerke
+ * (zuletzt entfernte zuerst) mit ihrer Sammlung und dem Zeitpunkt, zu dem
+ * sie endgültig gelöscht werden. Einträge lassen sich wiederherstellen
+ * oder sofort endgültig löschen; die Aufbewahrungsdauer ist einstellbar.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  TRASH_RETENTION_OPTIONS,
+  TrashRetentionSchema,
+  type TrashRetention,
+  type TrashedEntry,
+} from "../schemas/trashSchema";
+import {
+  deleteFromTrash,
+  emptyTrash,
+  getTrashExpiry,
+  loadTrash,
+  loadTrashRetention,
+  restoreFromTrash,
+  saveTrashRetention,
+} from "../utils/galleryStorage";
+import { subscribeToGalleryChanges } from "../utils/gallerySync";
+import { getImageUrl } from "../utils/artworkApi";
+
+/**
+ * Bildgröße der Vorschaubilder (Breite in Pixeln)
+ */
+const THUMBNAIL_SIZE = 200;
+
+/**
+ * Formatiert einen Zeitpunkt für die Anzeige
+ */
+function formatDate(date: string | Date): string {
+  return new Date(date).toLocaleString("de-DE", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * GalleryTrash Komponente
+ *
+ * Listet die Einträge im Papierkorb mit Aktionen zum Wiederherstellen
+ * und endgültigen Löschen auf.
+ */
+export const GalleryTrash: React.FC = () => {
+  /**
+   * State für die Einträge im Papierkorb
+   */
+  const [entries, setEntries] = useState<TrashedEntry[]>([]);
+
+  /**
+   * State für den Ladezustand
+   */
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  /**
+   * State für die Aufbewahrungsdauer (in Tagen)
+   */
+  const [retention, setRetention] =
+    useState<TrashRetention>(loadTrashRetention);
+
+  /**
+   * State für Erfolgsmeldungen
+   */
+  const [message, setMessage] = useState<string | null>(null);
+
+  /**
+   * State für Fehlermeldungen
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Effect Hook: Lade den Papierkorb beim ersten Rendern und nach
+   * Änderungen in anderen Tabs (oder per Rückgängig)
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      loadTrash().then((trash) => {
+        if (!cancelled) {
+          setEntries(trash);
+          setRetention(loadTrashRetention());
+          setIsLoading(false);
+        }
+      });
+    };
+
+    load();
+    const unsubscribe = subscribeToGalleryChanges(load);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  /**
+   * Handler für das Wiederherstellen eines Eintrags
+   */
+  const handleRestore = async (entry: TrashedEntry) => {
+    try {
+      const restored = await restoreFromTrash([entry.id]);
+
+      if (restored === 0) {
+        setError(
+          `"${entry.item.title}" ist bereits wieder in der Sammlung "${entry.collection.name}"`,
+        );
+        return;
+      }
+
+      setEntries(await loadTrash());
+      setMessage(
+        `"${entry.item.title}" wurde in "${entry.collection.name}" wiederhergestellt`,
+      );
+      setError(null);
+    } catch (err) {
+      console.error("Fehler beim Wiederherstellen:", err);
+      setError("Kunstwerk konnte nicht wiederhergestellt werden");
+    }
+  };
+
+  /**
+   * Handler für das endgültige Löschen eines Eintrags
+   */
+  const handleDelete = async (entry: TrashedEntry) => {
+    if (
+      !window.confirm(
+        `"${entry.item.title}" endgültig löschen? Notizen und Tags können danach nicht wiederhergestellt werden.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteFromTrash([entry.id]);
+      setEntries(await loadTrash());
+      setMessage(`"${entry.item.title}" wurde endgültig gelöscht`);
+      setError(null);
+    } catch (err) {
+      console.error("Fehler beim endgültigen Löschen:", err);
+      setError("Eintrag konnte nicht endgültig gelöscht werden");
+    }
+  };
+
+  /**
+   * Handler für das Leeren des Papierkorbs
+   */
+  const handleEmpty = async () => {
+    if (
+      !window.confirm(
+        `Alle ${entries.length} Einträge endgültig löschen? Sie können danach nicht wiederhergestellt werden.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const deleted = await emptyTrash();
+      setEntries(await loadTrash());
+      setMessage(`${deleted} Eintrag/Einträge endgültig gelöscht`);
+      setError(null);
+    } catch (err) {
+      console.error("Fehler beim Leeren des Papierkorbs:", err);
+      setError("Papierkorb konnte nicht geleert werden");
+    }
+  };
+
+  /**
+   * Handler für eine neue Aufbewahrungsdauer
+   *
+   * Einträge, die danach abgelaufen sind, werden sofort entfernt.
+   */
+  const handleChangeRetention = async (value: string) => {
+    const parsed = TrashRetentionSchema.safeParse(Number(value));
+
+    if (!parsed.success) {
+      return;
+    }
+
+    try {
+      saveTrashRetention(parsed.data);
+      setRetention(parsed.data);
+      setEntries(await loadTrash());
+    } catch (err) {
+      console.error("Fehler beim Speichern der Aufbewahrungsdauer:", err);
+      setError("Aufbewahrungsdauer konnte nicht gespeichert werden");
+    }
+  };
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <div className="mb-8">
+        <Link to="/gallery" className="btn btn-ghost btn-sm mb-4">
+          ← Zur Galerie
+        </Link>
+        <h1 className="text-3xl font-bold mb-2">Papierkorb</h1>
+        <p className="text-base-content/70">
+          Entfernte Kunstwerke bleiben mit ihren Notizen und Tags hier, bis die
+          Aufbewahrungsdauer abgelaufen ist.
+        </p>
+      </div>
+
+      {/* Aufbewahrungsdauer und Leeren */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <label className="flex items-center gap-2 text-sm">
+          Aufbewahren für:
+          <select
+            value={retention}
+            onChange={(e) => handleChangeRetention(e.target.value)}
+            className="select select-bordered select-sm"
+          >
+            {TRASH_RETENTION_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} Tage
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleEmpty}
+          className="btn btn-sm btn-ghost text-error sm:ml-auto"
+          disabled={entries.length === 0}
+        >
+          Papierkorb leeren
+        </button>
+      </div>
+
+      {/* Erfolgsmeldung */}
+      {message && (
+        <div className="alert alert-success mb-6">
+          <span>{message}</span>
+        </div>
+      )}
+
+      {/* Fehlermeldung */}
+      {error && (
+        <div className="alert alert-error mb-6">
+          <span>{error}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-base-100 rounded-lg shadow-xl p-12 text-center">
+          <p className="text-base-content/70">Der Papierkorb ist leer.</p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {entries.map((entry) => {
+            const imageUrl = getImageUrl(entry.item.image_id, THUMBNAIL_SIZE);
+
+            return (
+              <div
+                key={entry.id}
+                className="bg-base-100 rounded-lg shadow-xl p-4 flex flex-wrap items-center gap-4"
+              >
+                {imageUrl && (
+                  <img
+                    src={imageUrl}
+                    alt={entry.item.title}
+                    className="w-16 h-16 object-cover rounded"
+                    loading="lazy"
+                  />
+                )}
+
+                {/* Titel und Metadaten */}
+                <div className="flex-1 min-w-48">
+                  <p className="font-semibold">{entry.item.title}</p>
+                  <p className="text-sm text-base-content/70">
+                    {entry.item.artist_title ?? "Unbekannter Künstler"} · aus „
+                    {entry.collection.name}“
+                    {entry.item.notes.length > 0 &&
+                      ` · ${entry.item.notes.length} Notiz(en)`}
+                  </p>
+                  <p className="text-xs text-base-content/60">
+                    Entfernt am {formatDate(entry.deletedAt)} · wird am{" "}
+                    {formatDate(getTrashExpiry(entry, retention))} endgültig
+                    gelöscht
+                  </p>
+                </div>
+
+                {/* Aktionen */}
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleDelete(entry)}
+                    className="btn btn-sm btn-ghost"
+                  >
+                    Endgültig löschen
+                  </button>
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    className="btn btn-sm btn-primary"
+                  >
+                    Wiederherstellen
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryTrash;
@@ -0,0 +1,46 @@
+/**
+ * Highlight Komponente
+ *
+ * Zeigt einen Text an und hebt die Suchbegriffe darin hervor.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import { splitHighlight } from "../utils/galleryFilter";
+
+/**
+ * Props für die Highlight Komponente
+ */
+interface HighlightProps {
+  /**
+   * Der anzuzeigende Text
+   */
+  text: string;
+
+  /**
+   * Die hervorzuhebenden Suchbegriffe (siehe splitSearchQuery)
+   */
+  terms: string[];
+}
+
+/**
+ * Highlight Komponente
+ */
+export const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  return (
+    <>
+      {splitHighlight(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-warning/60 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        ),
+      )}
+    </>
+  );
+};
+
+export default Highlight;
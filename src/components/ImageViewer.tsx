@@ -0,0 +1,693 @@
+/**
+ * ImageViewer Komponente
+ *
+ * Bildbetrachter mit stufenlosem Zoom für ein Kunstwerk. Liest die
+ * Bildinformationen (`info.json`) vom IIIF-Bildserver und lädt für den
+ * sichtbaren Ausschnitt nur die Kacheln in der passenden Auflösung
+ * (siehe iiifImage.ts). Darunter liegt eine kleine Fassung des ganzen
+ * Bildes, damit beim Laden keine Lücken entstehen.
+ *
+ * Bedienung:
+ * - Ziehen (Maus, Touch) verschiebt, Mausrad, Doppelklick und zwei Finger
+ *   vergrößern
+ * - Tastatur: Pfeiltasten verschieben, +/- vergrößern, 0 zeigt das ganze
+ *   Bild, R dreht (Umschalt+R zurück), F schaltet den Vollbildmodus um,
+ *   Esc schließt den Betrachter
+ * - Die Übersichtskarte zeigt den sichtbaren Ausschnitt; ein Klick
+ *   springt an die gewählte Stelle
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import type { IiifImageInfo } from "../schemas/iiifSchema";
+import { getImageInfo } from "../utils/artworkApi";
+import { isAbortError, toApiError, type ApiError } from "../utils/apiErrors";
+import {
+  chooseScaleFactor,
+  getFullImageUrl,
+  getTiles,
+} from "../utils/iiifImage";
+import {
+  ZOOM_STEP,
+  clampView,
+  fitView,
+  getFitZoom,
+  getViewTransform,
+  getVisibleRegion,
+  panView,
+  rotateView,
+  zoomView,
+  type ImageView,
+  type Point,
+  type Size,
+} from "../utils/imageViewport";
+
+/**
+ * Props für die ImageViewer Komponente
+ */
+interface ImageViewerProps {
+  /**
+   * Die image_id des Kunstwerks
+   */
+  imageId: string;
+
+  /**
+   * Der Titel des Kunstwerks (für Überschrift und Alternativtext)
+   */
+  title: string;
+
+  /**
+   * Callback-Funktion zum Schließen des Betrachters
+   */
+  onClose: () => void;
+}
+
+/**
+ * Breite der Fassung des ganzen Bildes unter den Kacheln
+ * (entspricht den Karten, damit sie meist schon im Browser-Cache liegt)
+ */
+const BASE_IMAGE_WIDTH = 843;
+
+/**
+ * Maximale Breite bzw. Höhe der Übersichtskarte (in Pixeln)
+ */
+const MINIMAP_SIZE = 160;
+
+/**
+ * Anteil des Anzeigebereichs, um den die Pfeiltasten verschieben
+ */
+const KEYBOARD_PAN = 0.1;
+
+/**
+ * Faktor für einen Schritt mit dem Mausrad (pro Pixel Scrollweg)
+ */
+const WHEEL_ZOOM_SPEED = 0.002;
+
+/**
+ * ImageViewer Komponente
+ */
+export const ImageViewer: React.FC<ImageViewerProps> = ({
+  imageId,
+  title,
+  onClose,
+}) => {
+  /**
+   * Referenz auf den gesamten Betrachter (für den Vollbildmodus)
+   */
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Referenz auf den Anzeigebereich des Bildes
+   */
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Aktive Zeiger (Maus, Finger) mit ihrer letzten Position
+   */
+  const pointersRef = useRef(new Map<number, Point>());
+
+  /**
+   * State für die Bildinformationen vom Bildserver
+   */
+  const [info, setInfo] = useState<IiifImageInfo | null>(null);
+
+  /**
+   * State für den Fehler beim Laden der Bildinformationen
+   */
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+
+  /**
+   * State für die Größe des Anzeigebereichs
+   */
+  const [viewport, setViewport] = useState<Size | null>(null);
+
+  /**
+   * State für die Ansicht (null: das ganze Bild)
+   */
+  const [view, setView] = useState<ImageView | null>(null);
+
+  /**
+   * State, ob der Betrachter im Vollbildmodus ist
+   */
+  const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+
+  const image: Size | null = info
+    ? { width: info.width, height: info.height }
+    : null;
+
+  /**
+   * Die angezeigte Ansicht (immer im erlaubten Bereich, auch nachdem sich
+   * die Größe des Anzeigebereichs geändert hat)
+   */
+  const currentView =
+    image && viewport
+      ? clampView(view ?? fitView(image, viewport), image, viewport)
+      : null;
+
+  /**
+   * Ändert die Ansicht ausgehend von der aktuell angezeigten
+   */
+  const changeView = (
+    update: (current: ImageView, image: Size, viewport: Size) => ImageView,
+  ) => {
+    if (!image || !viewport) {
+      return;
+    }
+
+    setView((previous) =>
+      update(
+        clampView(previous ?? fitView(image, viewport), image, viewport),
+        image,
+        viewport,
+      ),
+    );
+  };
+
+  /**
+   * Effect Hook: Lade die Bildinformationen
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+
+    getImageInfo(imageId, { signal: controller.signal })
+      .then((result) => setInfo(result))
+      .catch((err) => {
+        if (!isAbortError(err)) {
+          setLoadError(toApiError(err));
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [imageId]);
+
+  /**
+   * Effect Hook: Größe des Anzeigebereichs verfolgen
+   */
+  useEffect(() => {
+    const element = viewportRef.current;
+
+    if (!element) {
+      return;
+    }
+
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: element.clientWidth, height: element.clientHeight });
+    });
+
+    observer.observe(element);
+    element.focus();
+
+    return () => observer.disconnect();
+  }, []);
+
+  /**
+   * Effect Hook: Vollbildmodus verfolgen und beim Schließen beenden
+   */
+  useEffect(() => {
+    const handleChange = () => {
+      setIsFullscreen(
+        document.fullscreenElement !== null &&
+          document.fullscreenElement === containerRef.current,
+      );
+    };
+
+    document.addEventListener("fullscreenchange", handleChange);
+
+    return () => {
+      document.removeEventListener("fullscreenchange", handleChange);
+
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => undefined);
+      }
+    };
+  }, []);
+
+  /**
+   * Schaltet den Vollbildmodus um
+   */
+  const toggleFullscreen = () => {
+    const request = document.fullscreenElement
+      ? document.exitFullscreen()
+      : containerRef.current?.requestFullscreen();
+
+    request?.catch((err: unknown) => {
+      console.warn("Vollbildmodus nicht verfügbar:", err);
+    });
+  };
+
+  /**
+   * Effect Hook: Mausrad vergrößert am Zeiger (als nicht-passiver
+   * Listener, damit die Seite dabei nicht scrollt)
+   */
+  useEffect(() => {
+    const element = viewportRef.current;
+
+    if (!element || !info || !viewport) {
+      return;
+    }
+
+    const size = { width: info.width, height: info.height };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+
+      const rect = element.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      const factor = Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED);
+
+      setView((previous) =>
+        zoomView(
+          previous ?? fitView(size, viewport),
+          size,
+          viewport,
+          factor,
+          anchor,
+        ),
+      );
+    };
+
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, [info, viewport]);
+
+  /**
+   * Effect Hook: Tastenkürzel
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) {
+        return;
+      }
+
+      const pan = (x: number, y: number) =>
+        changeView((current, img, size) =>
+          panView(current, img, size, {
+            x: x * size.width * KEYBOARD_PAN,
+            y: y * size.height * KEYBOARD_PAN,
+          }),
+        );
+
+      switch (e.key) {
+        case "Escape":
+          if (!document.fullscreenElement) {
+            onClose();
+          }
+          return;
+        case "ArrowLeft":
+          pan(1, 0);
+          break;
+        case "ArrowRight":
+          pan(-1, 0);
+          break;
+        case "ArrowUp":
+          pan(0, 1);
+          break;
+        case "ArrowDown":
+          pan(0, -1);
+          break;
+        case "+":
+        case "=":
+          changeView((current, img, size) =>
+            zoomView(current, img, size, ZOOM_STEP),
+          );
+          break;
+        case "-":
+          changeView((current, img, size) =>
+            zoomView(current, img, size, 1 / ZOOM_STEP),
+          );
+          break;
+        case "0":
+          changeView((current, img, size) =>
+            fitView(img, size, current.rotation),
+          );
+          break;
+        case "r":
+        case "R":
+          changeView((current, img, size) =>
+            rotateView(current, img, size, e.shiftKey ? -1 : 1),
+          );
+          break;
+        case "f":
+        case "F":
+          toggleFullscreen();
+          break;
+        default:
+          return;
+      }
+
+      e.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  /**
+   * Position eines Zeigers im Anzeigebereich
+   */
+  const getPointerPosition = (e: React.PointerEvent): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  /**
+   * Handler für das Aufsetzen eines Zeigers (beginnt das Ziehen)
+   */
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, getPointerPosition(e));
+  };
+
+  /**
+   * Handler für das Bewegen eines Zeigers: ein Zeiger verschiebt, zwei
+   * Zeiger vergrößern bzw. verkleinern (um ihren Mittelpunkt)
+   */
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+
+    if (!previous) {
+      return;
+    }
+
+    const position = getPointerPosition(e);
+    const other = [...pointers].find(([id]) => id !== e.pointerId)?.[1];
+    pointers.set(e.pointerId, position);
+
+    if (!other) {
+      changeView((current, img, size) =>
+        panView(current, img, size, {
+          x: position.x - previous.x,
+          y: position.y - previous.y,
+        }),
+      );
+      return;
+    }
+
+    const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+    const before = distance(previous, other);
+
+    if (before === 0) {
+      return;
+    }
+
+    const midpoint = {
+      x: (position.x + other.x) / 2,
+      y: (position.y + other.y) / 2,
+    };
+
+    changeView((current, img, size) =>
+      panView(
+        zoomView(current, img, size, distance(position, other) / before, {
+          x: midpoint.x,
+          y: midpoint.y,
+        }),
+        img,
+        size,
+        {
+          x: (position.x - previous.x) / 2,
+          y: (position.y - previous.y) / 2,
+        },
+      ),
+    );
+  };
+
+  /**
+   * Handler für das Abheben eines Zeigers
+   */
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  /**
+   * Handler für den Doppelklick: vergrößert an der Stelle
+   * (mit Umschalt: verkleinert)
+   */
+  const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const factor = e.shiftKey ? 1 / ZOOM_STEP : ZOOM_STEP * ZOOM_STEP;
+
+    changeView((current, img, size) =>
+      zoomView(current, img, size, factor, anchor),
+    );
+  };
+
+  /**
+   * Sichtbarer Ausschnitt und die Kacheln in der passenden Auflösung
+   */
+  const region =
+    info && image && viewport && currentView
+      ? getVisibleRegion(currentView, image, viewport)
+      : null;
+  const tiles =
+    info && currentView && region
+      ? getTiles(
+          info,
+          chooseScaleFactor(
+            info,
+            currentView.zoom * (window.devicePixelRatio || 1),
+          ),
+          region,
+        )
+      : [];
+
+  /**
+   * Gibt an, ob nur ein Teil des Bildes sichtbar ist
+   * (dann wird die Übersichtskarte angezeigt)
+   */
+  const isZoomedIn =
+    image && viewport && currentView
+      ? currentView.zoom >
+        getFitZoom(image, viewport, currentView.rotation) * 1.01
+      : false;
+
+  /**
+   * Maßstab der Übersichtskarte (Karten-Pixel pro Bild-Pixel)
+   */
+  const minimapScale = image
+    ? MINIMAP_SIZE / Math.max(image.width, image.height)
+    : 0;
+
+  /**
+   * Handler für einen Klick auf die Übersichtskarte: springt an die Stelle
+   */
+  const handleMinimapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const center = {
+      x: (e.clientX - rect.left) / minimapScale,
+      y: (e.clientY - rect.top) / minimapScale,
+    };
+
+    changeView((current, img, size) =>
+      clampView({ ...current, center }, img, size),
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed inset-0 z-50 flex flex-col bg-neutral text-neutral-content"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Bildbetrachter: ${title}`}
+    >
+      {/* Werkzeugleiste */}
+      <div className="flex flex-wrap items-center gap-2 p-2 bg-black/40">
+        <h2 className="flex-1 min-w-0 truncate font-semibold px-2">{title}</h2>
+        {currentView && (
+          <span className="text-sm tabular-nums opacity-70 w-14 text-right">
+            {Math.round(currentView.zoom * 100)} %
+          </span>
+        )}
+        <div className="join">
+          <button
+            onClick={() =>
+              changeView((current, img, size) =>
+                zoomView(current, img, size, 1 / ZOOM_STEP),
+              )
+            }
+            className="btn btn-sm btn-ghost join-item"
+            aria-label="Verkleinern"
+            title="Verkleinern (-)"
+            disabled={!currentView}
+          >
+            −
+          </button>
+          <button
+            onClick={() =>
+              changeView((current, img, size) =>
+                zoomView(current, img, size, ZOOM_STEP),
+              )
+            }
+            className="btn btn-sm btn-ghost join-item"
+            aria-label="Vergrößern"
+            title="Vergrößern (+)"
+            disabled={!currentView}
+          >
+            +
+          </button>
+          <button
+            onClick={() =>
+              changeView((current, img, size) =>
+                fitView(img, size, current.rotation),
+              )
+            }
+            className="btn btn-sm btn-ghost join-item"
+            title="Ganzes Bild anzeigen (0)"
+            disabled={!currentView}
+          >
+            Einpassen
+          </button>
+        </div>
+        <div className="join">
+          <button
+            onClick={() =>
+              changeView((current, img, size) =>
+                rotateView(current, img, size, -1),
+              )
+            }
+            className="btn btn-sm btn-ghost join-item"
+            aria-label="Gegen den Uhrzeigersinn drehen"
+            title="Gegen den Uhrzeigersinn drehen (Umschalt+R)"
+            disabled={!currentView}
+          >
+            ⟲
+          </button>
+          <button
+            onClick={() =>
+              changeView((current, img, size) =>
+                rotateView(current, img, size, 1),
+              )
+            }
+            className="btn btn-sm btn-ghost join-item"
+            aria-label="Im Uhrzeigersinn drehen"
+            title="Im Uhrzeigersinn drehen (R)"
+            disabled={!currentView}
+          >
+            ⟳
+          </button>
+        </div>
+        <button
+          onClick={toggleFullscreen}
+          className="btn btn-sm btn-ghost"
+          aria-pressed={isFullscreen}
+          title="Vollbild (F)"
+        >
+          {isFullscreen ? "Vollbild beenden" : "Vollbild"}
+        </button>
+        <button
+          onClick={onClose}
+          className="btn btn-sm btn-ghost"
+          aria-label="Bildbetrachter schließen"
+          title="Schließen (Esc)"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Anzeigebereich */}
+      <div
+        ref={viewportRef}
+        className="relative flex-1 overflow-hidden touch-none select-none cursor-grab active:cursor-grabbing focus:outline-none"
+        tabIndex={0}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {info && viewport && currentView && (
+          <div
+            className="absolute left-0 top-0 origin-top-left"
+            style={{
+              width: info.width,
+              height: info.height,
+              transform: getViewTransform(currentView, viewport),
+            }}
+          >
+            {/* Ganzes Bild in geringer Auflösung */}
+            <img
+              src={getFullImageUrl(info, BASE_IMAGE_WIDTH)}
+              alt={title}
+              className="absolute inset-0 w-full h-full max-w-none"
+              draggable={false}
+            />
+
+            {/* Kacheln des sichtbaren Ausschnitts */}
+            {tiles.map((tile) => (
+              <img
+                key={tile.key}
+                src={tile.url}
+                alt=""
+                className="absolute max-w-none"
+                style={{
+                  left: tile.x,
+                  top: tile.y,
+                  width: tile.width,
+                  height: tile.height,
+                }}
+                draggable={false}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Lade-Indikator */}
+        {!info && !loadError && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        )}
+
+        {/* Fehlermeldung */}
+        {loadError && (
+          <div className="absolute inset-0 flex items-center justify-center p-4">
+            <div className="alert alert-error max-w-md">
+              <span>
+                Das Bild kann nicht vergrößert angezeigt werden.{" "}
+                {loadError.message}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {/* Übersichtskarte mit dem sichtbaren Ausschnitt */}
+        {info && image && region && isZoomedIn && (
+          <div
+            className="absolute bottom-4 right-4 border border-base-100/60 bg-black/60 shadow-lg cursor-pointer"
+            style={{
+              width: image.width * minimapScale,
+              height: image.height * minimapScale,
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+            onClick={handleMinimapClick}
+            aria-hidden="true"
+          >
+            <img
+              src={getFullImageUrl(info, MINIMAP_SIZE * 2)}
+              alt=""
+              className="w-full h-full"
+              draggable={false}
+            />
+            <div
+              className="absolute border-2 border-primary bg-primary/10"
+              style={{
+                left: region.x * minimapScale,
+                top: region.y * minimapScale,
+                width: region.width * minimapScale,
+                height: region.height * minimapScale,
+              }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageViewer;
@@ -0,0 +1,111 @@
+/**
+ * MarkdownNote Komponente
+ *
+ * Stellt den Text eines Notiz-Eintrags als Markdown dar. react-markdown
+ * erzeugt React-Elemente statt HTML; eingebettetes HTML wird verworfen
+ * und nur eine feste Auswahl an Elementen ist erlaubt (keine Bilder,
+ * keine Tabellen). Unsichere Link-Protokolle (z.B. `javascript:`)
+ * entfernt react-markdown bereits standardmäßig.
+ */
+
+import React from "react";
+import Markdown, { type Components } from "react-markdown";
+
+/**
+ * Props für die MarkdownNote Komponente
+ */
+interface MarkdownNoteProps {
+  /**
+   * Der Markdown-Quelltext
+   */
+  text: string;
+
+  /**
+   * Zusätzliche CSS-Klassen für den Container (z.B. "line-clamp-3")
+   */
+  className?: string;
+}
+
+/**
+ * Erlaubte Elemente; andere werden durch ihren Textinhalt ersetzt
+ */
+const ALLOWED_ELEMENTS = [
+  "p",
+  "br",
+  "strong",
+  "em",
+  "a",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "code",
+  "pre",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "hr",
+];
+
+/**
+ * Tailwind-Klassen für die Markdown-Elemente
+ */
+const COMPONENTS: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="link link-primary"
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-base-300 pl-3 italic mb-2">
+      {children}
+    </blockquote>
+  ),
+  code: ({ children }) => (
+    <code className="bg-base-300 rounded px-1 font-mono text-xs">
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => (
+    <pre className="bg-base-300 rounded p-2 mb-2 overflow-x-auto">
+      {children}
+    </pre>
+  ),
+  h1: ({ children }) => <p className="font-bold text-base mb-1">{children}</p>,
+  h2: ({ children }) => <p className="font-bold mb-1">{children}</p>,
+  h3: ({ children }) => <p className="font-semibold mb-1">{children}</p>,
+  h4: ({ children }) => <p className="font-semibold mb-1">{children}</p>,
+  hr: () => <hr className="my-2 border-base-300" />,
+};
+
+/**
+ * MarkdownNote Komponente
+ */
+export const MarkdownNote: React.FC<MarkdownNoteProps> = ({
+  text,
+  className = "",
+}) => {
+  return (
+    <div className={`text-sm text-base-content/80 break-words ${className}`}>
+      <Markdown
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        skipHtml
+        components={COMPONENTS}
+      >
+        {text}
+      </Markdown>
+    </div>
+  );
+};
+
+export default MarkdownNote;
@@ -2,15 +2,17 @@
  * NoteEditor Komponente
  *
  * Ein Modal-Dialog zum Bearbeiten von Notizen zu Kunstwerken.
- * Validiert die Eingabe mit dem NoteSchema.
+ * Validiert die Eingabe mit dem NoteSchema. Notizen sind Markdown und
+ * können vor dem Speichern in einer Vorschau geprüft werden.
  *
  * FR010: Aktualisieren – Notizen pro Kunstwerk
  * FR012: Typsicherer Status
  */
 
 import React, { useState, useEffect } from "react";
-import { NoteSchema } from "../schemas/noteSchema";
+import { MAX_NOTE_LENGTH, NoteSchema } from "../schemas/noteSchema";
 import { z } from "zod";
+import { MarkdownNote } from "./MarkdownNote";
 
 /**
  * Props für die NoteEditor Komponente
@@ -26,6 +28,11 @@ interface NoteEditorProps {
    */
   currentNote: string;
 
+  /**
+   * Überschrift des Dialogs (Standard: "Notiz bearbeiten")
+   */
+  title?: string;
+
   /**
    * Callback-Funktion, die aufgerufen wird, wenn die Notiz gespeichert wird
    */
@@ -45,6 +52,7 @@ interface NoteEditorProps {
 export const NoteEditor: React.FC<NoteEditorProps> = ({
   artworkId,
   currentNote,
+  title = "Notiz bearbeiten",
   onSave,
   onCancel,
 }) => {
@@ -59,9 +67,9 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
   const [validationError, setValidationError] = useState<string | null>(null);
 
   /**
-   * Maximale Länge der Notiz
+   * State, ob statt des Textfelds die Markdown-Vorschau angezeigt wird
    */
-  const MAX_NOTE_LENGTH = 500;
+  const [showPreview, setShowPreview] = useState<boolean>(false);
 
   /**
    * Effect Hook: Setze die Notiz, wenn sich currentNote ändert
@@ -151,7 +159,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
         <div className="bg-base-100 rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
           {/* Modal-Header */}
           <div className="p-6 border-b border-base-300">
-            <h3 className="text-2xl font-bold">Notiz bearbeiten</h3>
+            <h3 className="text-2xl font-bold">{title}</h3>
             <p className="text-base-content/60 mt-1">
               Fügen Sie Ihre persönlichen Gedanken zu diesem Kunstwerk hinzu
             </p>
@@ -159,18 +167,49 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
 
           {/* Modal-Body */}
           <div className="p-6">
-            {/* Textarea für die Notiz */}
-            <textarea
-              value={note}
-              onChange={handleNoteChange}
-              onKeyDown={handleKeyDown}
-              placeholder="Schreiben Sie hier Ihre Notiz..."
-              className={`textarea textarea-bordered w-full h-48 resize-none ${
-                validationError ? "textarea-error" : ""
-              }`}
-              maxLength={MAX_NOTE_LENGTH}
-              autoFocus
-            />
+            {/* Umschalter Schreiben / Vorschau */}
+            <div role="tablist" className="tabs tabs-border mb-2">
+              <button
+                role="tab"
+                onClick={() => setShowPreview(false)}
+                className={`tab ${showPreview ? "" : "tab-active"}`}
+              >
+                Schreiben
+              </button>
+              <button
+                role="tab"
+                onClick={() => setShowPreview(true)}
+                className={`tab ${showPreview ? "tab-active" : ""}`}
+              >
+                Vorschau
+              </button>
+            </div>
+
+            {showPreview ? (
+              // Markdown-Vorschau
+              <div className="h-48 overflow-y-auto p-3 border border-base-300 rounded-lg">
+                {note.trim() ? (
+                  <MarkdownNote text={note} />
+                ) : (
+                  <p className="text-sm text-base-content/60">
+                    Nichts zum Anzeigen
+                  </p>
+                )}
+              </div>
+            ) : (
+              // Textarea für die Notiz
+              <textarea
+                value={note}
+                onChange={handleNoteChange}
+                onKeyDown={handleKeyDown}
+                placeholder="Schreiben Sie hier Ihre Notiz... (Markdown: **fett**, *kursiv*, - Liste, [Link](https://…))"
+                className={`textarea textarea-bordered w-full h-48 resize-none ${
+                  validationError ? "textarea-error" : ""
+                }`}
+                maxLength={MAX_NOTE_LENGTH}
+                autoFocus
+              />
+            )}
 
             {/* Zeichenzähler und Validierungsfehler */}
             <div className="flex justify-between items-center mt-2">
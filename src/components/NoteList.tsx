@@ -0,0 +1,354 @@
+/**
+ * NoteList Komponente
+ *
+ * Zeigt die Notiz-Einträge eines gespeicherten Kunstwerks (neueste zuerst)
+ * mit Datum und als Markdown an. Einträge können hinzugefügt, bearbeitet
+ * und gelöscht werden; der Verlauf früherer Fassungen lässt sich pro
+ * Eintrag aufklappen und wiederherstellen. Jede Änderung lässt sich
+ * rückgängig machen (siehe galleryCommands.ts).
+ *
+ * Wurde ein Eintrag währenddessen an anderer Stelle (z.B. in einem anderen
+ * Tab) geändert, wird nichts überschrieben: Beide Fassungen werden
+ * angezeigt, und der Benutzer entscheidet, welche gilt.
+ *
+ * FR010: Aktualisieren – Notizen pro Kunstwerk
+ * FR012: Typsicherer Status
+ */
+
+import React, { useState } from "react";
+import type { NoteEntry } from "../schemas/noteSchema";
+import { NoteConflictError } from "../utils/galleryStorage";
+import {
+  addNoteEntry,
+  deleteNoteEntry,
+  restoreNoteEntryRevision,
+  updateNoteEntry,
+} from "../utils/galleryCommands";
+import { MarkdownNote } from "./MarkdownNote";
+import { NoteEditor } from "./NoteEditor";
+
+/**
+ * Props für die NoteList Komponente
+ */
+interface NoteListProps {
+  /**
+   * Die ID des Kunstwerks
+   */
+  artworkId: number;
+
+  /**
+   * Die Sammlung, zu der die Notizen gehören
+   */
+  collectionId: string;
+
+  /**
+   * Die Notiz-Einträge
+   */
+  notes: NoteEntry[];
+}
+
+/**
+ * Formatiert einen ISO-Zeitstempel für die Anzeige
+ */
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString("de-DE", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * NoteList Komponente
+ */
+export const NoteList: React.FC<NoteListProps> = ({
+  artworkId,
+  collectionId,
+  notes,
+}) => {
+  /**
+   * State für den Editor: neuer Eintrag, bestehender Eintrag oder geschlossen
+   */
+  const [editing, setEditing] = useState<NoteEntry | "new" | null>(null);
+
+  /**
+   * State für die Einträge mit aufgeklapptem Verlauf
+   */
+  const [openHistory, setOpenHistory] = useState<Set<string>>(new Set());
+
+  /**
+   * State für Fehlermeldungen
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * State für einen Konflikt beim Speichern: der eigene, noch nicht
+   * gespeicherte Text und die inzwischen gespeicherte Fassung
+   */
+  const [conflict, setConflict] = useState<{
+    text: string;
+    current: NoteEntry | null;
+  } | null>(null);
+
+  /**
+   * Führt eine Änderung aus und meldet Erfolg oder Fehler (die Notizen
+   * aktualisieren sich über den gemeinsamen Galerie-Zustand)
+   *
+   * @param draft - Der eigene Text beim Speichern; bei einem Konflikt
+   *                bleibt er erhalten und beide Fassungen werden angezeigt
+   */
+  const runChange = async (
+    change: () => Promise<boolean | NoteEntry | null>,
+    draft?: string,
+  ) => {
+    try {
+      // Nicht gefunden: inzwischen an anderer Stelle gelöscht
+      if (!(await change())) {
+        throw new NoteConflictError(null);
+      }
+
+      setError(null);
+    } catch (err) {
+      if (err instanceof NoteConflictError && draft !== undefined) {
+        setConflict({ text: draft, current: err.current });
+      } else {
+        console.error("Fehler beim Speichern der Notiz:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Notiz konnte nicht gespeichert werden",
+        );
+      }
+    }
+  };
+
+  /**
+   * Handler für das Speichern im Editor
+   */
+  const handleSave = async (_artworkId: number, text: string) => {
+    const entry = editing;
+    setEditing(null);
+
+    await runChange(
+      () =>
+        entry === "new" || entry === null
+          ? addNoteEntry(artworkId, text, collectionId)
+          : updateNoteEntry(
+              artworkId,
+              entry.id,
+              text,
+              collectionId,
+              entry.updatedAt,
+            ),
+      text,
+    );
+  };
+
+  /**
+   * Handler für "Meine Fassung speichern" nach einem Konflikt
+   *
+   * Die andere Fassung bleibt im Verlauf des Eintrags erhalten; wurde der
+   * Eintrag gelöscht, wird der Text als neuer Eintrag gespeichert.
+   */
+  const handleKeepDraft = async () => {
+    if (!conflict) {
+      return;
+    }
+
+    const { text, current } = conflict;
+    setConflict(null);
+
+    await runChange(
+      () =>
+        current
+          ? updateNoteEntry(
+              artworkId,
+              current.id,
+              text,
+              collectionId,
+              current.updatedAt,
+            )
+          : addNoteEntry(artworkId, text, collectionId),
+      text,
+    );
+  };
+
+  /**
+   * Handler für das Löschen eines Eintrags (ohne Rückfrage, das Löschen
+   * lässt sich rückgängig machen)
+   */
+  const handleDelete = async (entry: NoteEntry) => {
+    await runChange(() =>
+      deleteNoteEntry(artworkId, entry.id, collectionId, entry.updatedAt),
+    );
+  };
+
+  /**
+   * Handler für das Wiederherstellen einer früheren Fassung
+   */
+  const handleRestore = async (entry: NoteEntry, revisionIndex: number) => {
+    await runChange(() =>
+      restoreNoteEntryRevision(
+        artworkId,
+        entry.id,
+        revisionIndex,
+        collectionId,
+        entry.updatedAt,
+      ),
+    );
+  };
+
+  /**
+   * Klappt den Verlauf eines Eintrags auf oder zu
+   */
+  const toggleHistory = (entryId: string) => {
+    setOpenHistory((prev) => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Notiz-Editor Modal */}
+      {editing && (
+        <NoteEditor
+          artworkId={artworkId}
+          currentNote={editing === "new" ? "" : editing.text}
+          title={editing === "new" ? "Neue Notiz" : "Notiz bearbeiten"}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {/* Konflikt: beide Fassungen anzeigen */}
+      {conflict && (
+        <div
+          role="alert"
+          className="alert alert-warning flex-col items-stretch"
+        >
+          <p className="font-semibold">
+            {conflict.current
+              ? "Diese Notiz wurde inzwischen an anderer Stelle (z.B. in einem anderen Tab) geändert."
+              : "Diese Notiz wurde inzwischen an anderer Stelle gelöscht."}{" "}
+            Ihre Fassung ist noch nicht gespeichert.
+          </p>
+          <div>
+            <p className="text-sm font-semibold mb-1">Ihre Fassung:</p>
+            <MarkdownNote text={conflict.text} />
+          </div>
+          {conflict.current && (
+            <div>
+              <p className="text-sm font-semibold mb-1">
+                Gespeicherte Fassung vom{" "}
+                {formatDate(conflict.current.updatedAt)}:
+              </p>
+              <MarkdownNote text={conflict.current.text} />
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleKeepDraft}
+              className="btn btn-sm btn-primary"
+            >
+              {conflict.current
+                ? "Meine Fassung speichern"
+                : "Als neue Notiz speichern"}
+            </button>
+            <button
+              onClick={() => setConflict(null)}
+              className="btn btn-sm btn-ghost"
+            >
+              {conflict.current ? "Gespeicherte Fassung behalten" : "Verwerfen"}
+            </button>
+          </div>
+          {conflict.current && (
+            <p className="text-xs">
+              Beim Speichern Ihrer Fassung bleibt die andere im Verlauf
+              erhalten.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Einträge (neueste zuerst) */}
+      {[...notes].reverse().map((entry) => (
+        <div key={entry.id} className="p-3 bg-base-200 rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <span className="text-xs text-base-content/60">
+              {formatDate(entry.createdAt)}
+              {entry.updatedAt !== entry.createdAt &&
+                ` · bearbeitet ${formatDate(entry.updatedAt)}`}
+            </span>
+            <div className="flex gap-1">
+              <button
+                onClick={() => setEditing(entry)}
+                className="btn btn-xs btn-ghost"
+              >
+                Bearbeiten
+              </button>
+              {entry.history.length > 0 && (
+                <button
+                  onClick={() => toggleHistory(entry.id)}
+                  className="btn btn-xs btn-ghost"
+                  aria-expanded={openHistory.has(entry.id)}
+                >
+                  Verlauf ({entry.history.length})
+                </button>
+              )}
+              <button
+                onClick={() => handleDelete(entry)}
+                className="btn btn-xs btn-ghost text-error"
+              >
+                Löschen
+              </button>
+            </div>
+          </div>
+
+          <MarkdownNote text={entry.text} />
+
+          {/* Verlauf früherer Fassungen (neueste zuerst) */}
+          {openHistory.has(entry.id) && (
+            <ol className="mt-3 space-y-2 border-t border-base-300 pt-3">
+              {entry.history
+                .map((revision, index) => ({ revision, index }))
+                .reverse()
+                .map(({ revision, index }) => (
+                  <li key={index} className="p-2 bg-base-100 rounded">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="text-xs text-base-content/60">
+                        Fassung vom {formatDate(revision.editedAt)}
+                      </span>
+                      <button
+                        onClick={() => handleRestore(entry, index)}
+                        className="btn btn-xs btn-outline"
+                      >
+                        Wiederherstellen
+                      </button>
+                    </div>
+                    <MarkdownNote text={revision.text} />
+                  </li>
+                ))}
+            </ol>
+          )}
+        </div>
+      ))}
+
+      {/* Fehlermeldung */}
+      {error && <p className="text-error text-sm">{error}</p>}
+
+      <button
+        onClick={() => setEditing("new")}
+        className="btn btn-sm btn-outline"
+      >
+        Notiz hinzufügen
+      </button>
+    </div>
+  );
+};
+
+export default NoteList;
@@ -0,0 +1,72 @@
+/**
+ * NotesDialog Komponente
+ *
+ * Ein Modal-Dialog mit allen Notiz-Einträgen eines gespeicherten
+ * Kunstwerks (siehe NoteList).
+ *
+ * FR010: Aktualisieren – Notizen pro Kunstwerk
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import type { SavedArtwork } from "../schemas/noteSchema";
+import { NoteList } from "./NoteList";
+
+/**
+ * Props für die NotesDialog Komponente
+ */
+interface NotesDialogProps {
+  /**
+   * Das gespeicherte Kunstwerk, dessen Notizen angezeigt werden
+   */
+  artwork: SavedArtwork;
+
+  /**
+   * Callback-Funktion zum Schließen des Dialogs
+   */
+  onClose: () => void;
+}
+
+/**
+ * NotesDialog Komponente
+ */
+export const NotesDialog: React.FC<NotesDialogProps> = ({
+  artwork,
+  onClose,
+}) => {
+  return (
+    <>
+      {/* Modal-Overlay */}
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      {/* Modal-Content */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+        <div className="bg-base-100 rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+          {/* Modal-Header */}
+          <div className="p-6 border-b border-base-300">
+            <h3 className="text-2xl font-bold">Notizen</h3>
+            <p className="text-base-content/60 mt-1">{artwork.title}</p>
+          </div>
+
+          {/* Modal-Body */}
+          <div className="p-6">
+            <NoteList
+              artworkId={artwork.id}
+              collectionId={artwork.collectionId}
+              notes={artwork.notes}
+            />
+          </div>
+
+          {/* Modal-Footer */}
+          <div className="p-6 border-t border-base-300 flex justify-end">
+            <button onClick={onClose} className="btn btn-ghost">
+              Schließen
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default NotesDialog;
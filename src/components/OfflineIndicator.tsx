@@ -0,0 +1,52 @@
+/**
+ * OfflineIndicator Komponente
+ *
+ * Zeigt einen Hinweis an, solange der Browser keine Verbindung meldet.
+ * Die Galerie (mit Bildern und Details der gespeicherten Kunstwerke) und
+ * bereits geladene Suchergebnisse bleiben offline verfügbar.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import { useOnlineStatus } from "../utils/onlineStatus";
+
+/**
+ * OfflineIndicator Komponente
+ */
+export const OfflineIndicator: React.FC = () => {
+  const online = useOnlineStatus();
+
+  if (online) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="alert alert-warning rounded-none justify-center text-sm py-2 print:hidden"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="stroke-current shrink-0 h-5 w-5"
+        fill="none"
+        viewBox="0 0 24 24"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          d="M18.364 5.636a9 9 0 010 12.728M5.636 5.636a9 9 0 000 12.728M3 3l18 18"
+        />
+      </svg>
+      <span>
+        Offline – Ihre Galerie und bereits geladene Suchergebnisse bleiben
+        verfügbar. Neue Suchen werden ausgeführt, sobald wieder eine Verbindung
+        besteht.
+      </span>
+    </div>
+  );
+};
+
+export default OfflineIndicator;
@@ -0,0 +1,245 @@
+/**
+ * ReorderControls Komponente
+ *
+ * Griff und Schaltflächen zum Verschieben einer Karte in der Galerie.
+ * Der Griff lässt sich mit Maus, Finger oder Stift ziehen (Pointer Events);
+ * das Ziel ist die Karte unter dem Zeiger, erkennbar am Attribut
+ * `data-sort-id` mit der Artwork-ID. Escape bricht das Ziehen ab.
+ *
+ * Per Tastatur verschieben die Pfeiltasten (sowie Pos1/Ende) die Karte,
+ * wenn der Griff fokussiert ist; die Schaltflächen ← und → tun dasselbe
+ * per Klick.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useRef } from "react";
+
+/**
+ * Props für die ReorderControls Komponente
+ */
+interface ReorderControlsProps {
+  /**
+   * Titel des Kunstwerks (für die Beschriftung der Schaltflächen)
+   */
+  title: string;
+
+  /**
+   * Aktuelle Position der Karte (ab 0)
+   */
+  position: number;
+
+  /**
+   * Anzahl der Karten
+   */
+  count: number;
+
+  /**
+   * Gibt an, ob die Karte gerade gezogen wird
+   */
+  isDragging: boolean;
+
+  /**
+   * Callback-Funktion zum Verschieben an eine neue Position (Tastatur und
+   * Schaltflächen)
+   */
+  onMove: (position: number) => void;
+
+  /**
+   * Callback-Funktion, wenn das Ziehen beginnt
+   */
+  onDragStart: () => void;
+
+  /**
+   * Callback-Funktion mit der Artwork-ID der Karte unter dem Zeiger
+   */
+  onDragOver: (artworkId: number) => void;
+
+  /**
+   * Callback-Funktion, wenn das Ziehen endet (cancelled: abgebrochen,
+   * z.B. mit Escape)
+   */
+  onDragEnd: (cancelled: boolean) => void;
+}
+
+/**
+ * Abstand zum Fensterrand (in Pixeln), ab dem beim Ziehen gescrollt wird
+ */
+const AUTO_SCROLL_EDGE = 60;
+
+/**
+ * Scroll-Schritt (in Pixeln) pro Zeigerbewegung am Fensterrand
+ */
+const AUTO_SCROLL_STEP = 20;
+
+/**
+ * Verschiebung pro Pfeiltaste
+ */
+const KEY_OFFSETS: Record<string, number> = {
+  ArrowUp: -1,
+  ArrowLeft: -1,
+  ArrowDown: 1,
+  ArrowRight: 1,
+};
+
+/**
+ * ReorderControls Komponente
+ */
+export const ReorderControls: React.FC<ReorderControlsProps> = ({
+  title,
+  position,
+  count,
+  isDragging,
+  onMove,
+  onDragStart,
+  onDragOver,
+  onDragEnd,
+}) => {
+  /**
+   * Referenz auf den Griff (erhält den Fokus, wenn eine Schaltfläche am
+   * Rand deaktiviert wird)
+   */
+  const handleRef = useRef<HTMLButtonElement>(null);
+
+  /**
+   * Element, das nach dem Verschieben wieder fokussiert werden soll
+   */
+  const restoreFocusRef = useRef<HTMLButtonElement | null>(null);
+
+  /**
+   * Effect Hook: Fokus nach dem Verschieben wiederherstellen (beim
+   * Umsortieren der Karten kann das fokussierte Element ihn verlieren)
+   */
+  useEffect(() => {
+    const element = restoreFocusRef.current;
+    restoreFocusRef.current = null;
+
+    if (element) {
+      (element.disabled ? handleRef.current : element)?.focus();
+    }
+  }, [position]);
+
+  /**
+   * Effect Hook: Während des Ziehens die Zeigerbewegungen im ganzen Fenster
+   * verfolgen (die gezogene Karte wird beim Umsortieren im DOM verschoben
+   * und würde eigene Ereignisse dabei verlieren)
+   */
+  useEffect(() => {
+    if (!isDragging) {
+      return;
+    }
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.clientY < AUTO_SCROLL_EDGE) {
+        window.scrollBy(0, -AUTO_SCROLL_STEP);
+      } else if (e.clientY > window.innerHeight - AUTO_SCROLL_EDGE) {
+        window.scrollBy(0, AUTO_SCROLL_STEP);
+      }
+
+      const target = document
+        .elementFromPoint(e.clientX, e.clientY)
+        ?.closest<HTMLElement>("[data-sort-id]");
+      const artworkId = Number(target?.dataset.sortId);
+
+      if (target && Number.isInteger(artworkId)) {
+        onDragOver(artworkId);
+      }
+    };
+    const handlePointerUp = () => onDragEnd(false);
+    const handleCancel = () => onDragEnd(true);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onDragEnd(true);
+      }
+    };
+
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handleCancel);
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handleCancel);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isDragging, onDragOver, onDragEnd]);
+
+  /**
+   * Verschiebt die Karte und merkt sich das auslösende Element
+   */
+  const move = (target: number, element: HTMLButtonElement) => {
+    const next = Math.max(0, Math.min(target, count - 1));
+
+    if (next !== position) {
+      restoreFocusRef.current = element;
+      onMove(next);
+    }
+  };
+
+  /**
+   * Handler für Tasten auf dem Griff
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    const target =
+      e.key === "Home"
+        ? 0
+        : e.key === "End"
+          ? count - 1
+          : e.key in KEY_OFFSETS
+            ? position + KEY_OFFSETS[e.key]
+            : null;
+
+    if (target !== null) {
+      e.preventDefault();
+      move(target, e.currentTarget);
+    }
+  };
+
+  /**
+   * Handler für den Beginn des Ziehens (nur Haupttaste bzw. Berührung)
+   */
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (e.button === 0) {
+      onDragStart();
+    }
+  };
+
+  return (
+    <div className="join absolute top-2 left-2 z-10 shadow-lg">
+      <button
+        ref={handleRef}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        className={`btn btn-sm join-item touch-none ${
+          isDragging ? "cursor-grabbing" : "cursor-grab"
+        }`}
+        aria-label={`"${title}" verschieben, Position ${position + 1} von ${count}. Mit den Pfeiltasten verschieben.`}
+        title="Ziehen zum Verschieben"
+      >
+        ⠿
+      </button>
+      <button
+        onClick={(e) => move(position - 1, e.currentTarget)}
+        disabled={position === 0}
+        className="btn btn-sm join-item"
+        aria-label={`"${title}" nach vorne verschieben`}
+        title="Nach vorne"
+      >
+        ←
+      </button>
+      <button
+        onClick={(e) => move(position + 1, e.currentTarget)}
+        disabled={position === count - 1}
+        className="btn btn-sm join-item"
+        aria-label={`"${title}" nach hinten verschieben`}
+        title="Nach hinten"
+      >
+        →
+      </button>
+    </div>
+  );
+};
+
+export default ReorderControls;
@@ -0,0 +1,155 @@
+/**
+ * SaveSearchDialog Komponente
+ *
+ * Ein Modal-Dialog zum Speichern der aktuellen Suche unter einem Namen.
+ * Validiert den Namen (nicht leer, maximale Länge, eindeutig) bereits
+ * während der Eingabe.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useState } from "react";
+import {
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  type SavedSearch,
+} from "../schemas/savedSearchSchema";
+import { validateSavedSearchName } from "../utils/savedSearches";
+
+/**
+ * Props für die SaveSearchDialog Komponente
+ */
+interface SaveSearchDialogProps {
+  /**
+   * Vorbelegter Name (z.B. der Suchbegriff)
+   */
+  initialName?: string;
+
+  /**
+   * Bestehende gespeicherte Suchen (für die Prüfung auf doppelte Namen)
+   */
+  searches: SavedSearch[];
+
+  /**
+   * Kurzbeschreibung der Suche (Suchbegriff und Filter)
+   */
+  description: string;
+
+  /**
+   * Callback-Funktion, die mit dem gültigen Namen aufgerufen wird
+   */
+  onSave: (name: string) => void;
+
+  /**
+   * Callback-Funktion, die aufgerufen wird, wenn der Dialog abgebrochen wird
+   */
+  onCancel: () => void;
+}
+
+/**
+ * SaveSearchDialog Komponente
+ *
+ * Zeigt ein Modal mit einem Eingabefeld für den Namen der Suche an.
+ */
+export const SaveSearchDialog: React.FC<SaveSearchDialogProps> = ({
+  initialName = "",
+  searches,
+  description,
+  onSave,
+  onCancel,
+}) => {
+  /**
+   * State für den eingegebenen Namen
+   */
+  const [name, setName] = useState<string>(initialName);
+
+  /**
+   * Validierungsfehler für den aktuellen Namen
+   */
+  const validationError = validateSavedSearchName(name, searches);
+
+  /**
+   * Handler für das Absenden des Formulars
+   */
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!validationError) {
+      onSave(name.trim());
+    }
+  };
+
+  /**
+   * Handler für Tastenkombinationen
+   * - Escape: Abbrechen
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <>
+      {/* Modal-Overlay */}
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onCancel} />
+
+      {/* Modal-Content */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="bg-base-100 rounded-lg shadow-2xl max-w-md w-full"
+        >
+          {/* Modal-Header */}
+          <div className="p-6 border-b border-base-300">
+            <h3 className="text-2xl font-bold">Suche speichern</h3>
+            <p className="text-sm text-base-content/70 mt-1">{description}</p>
+          </div>
+
+          {/* Modal-Body */}
+          <div className="p-6">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="z.B. Neue Monets"
+              className={`input input-bordered w-full ${
+                name && validationError ? "input-error" : ""
+              }`}
+              maxLength={MAX_SAVED_SEARCH_NAME_LENGTH}
+              aria-label="Name der Suche"
+              autoFocus
+            />
+
+            {/* Validierungsfehler */}
+            {name && validationError && (
+              <p className="text-error text-sm mt-2">{validationError}</p>
+            )}
+
+            <p className="text-sm text-base-content/60 mt-4">
+              Unter „Gespeicherte Suchen“ sehen Sie später, welche Kunstwerke
+              seit Ihrem letzten Besuch neu hinzugekommen sind.
+            </p>
+          </div>
+
+          {/* Modal-Footer */}
+          <div className="p-6 border-t border-base-300 flex justify-end gap-2">
+            <button type="button" onClick={onCancel} className="btn btn-ghost">
+              Abbrechen
+            </button>
+            <button
+              type="submit"
+              disabled={!!validationError}
+              className="btn btn-primary"
+            >
+              Speichern
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+};
+
+export default SaveSearchDialog;
@@ -0,0 +1,246 @@
+/**
+ * SavedSearchNew Komponente
+ *
+ * Zeigt unter `/saved-searches/:id` nur die Kunstwerke einer gespeicherten
+ * Suche, die seit dem letzten Besuch neu hinzugekommen sind (siehe
+ * savedSearches.ts). "Als gesehen markieren" nimmt sie in die bekannten
+ * Treffer auf, sodass die nächste Prüfung nur noch neuere Werke meldet.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import type { Artwork } from "../schemas/artworkSchema";
+import { getArtworksByIds } from "../utils/artworkApi";
+import { isAbortError, toApiError, type ApiError } from "../utils/apiErrors";
+import { addArtwork } from "../utils/galleryCommands";
+import { useGalleryState } from "../utils/galleryHooks";
+import {
+  checkSavedSearch,
+  describeSearch,
+  getSavedSearchUrl,
+  markSavedSearchSeen,
+  useSavedSearches,
+} from "../utils/savedSearches";
+import { ArtworkCard } from "./ArtworkCard";
+
+/**
+ * Anzahl der Kunstwerke pro Seite
+ */
+const RESULTS_PER_PAGE = 20;
+
+/**
+ * Geladene Kunstwerke einer Seite
+ *
+ * Der `key` entspricht den angefragten IDs. Stimmt er nicht mit der
+ * aktuellen Seite überein, werden die Kunstwerke noch geladen.
+ */
+interface LoadedPage {
+  key: string;
+  artworks: Artwork[];
+  error: ApiError | null;
+}
+
+/**
+ * SavedSearchNew Komponente
+ */
+export const SavedSearchNew: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { searches, checking } = useSavedSearches();
+  const search = searches.find((current) => current.id === id);
+
+  /**
+   * State für die aktuelle Seite (beginnend bei 1)
+   */
+  const [page, setPage] = useState<number>(1);
+
+  /**
+   * State für die geladenen Kunstwerke der aktuellen Seite
+   */
+  const [loaded, setLoaded] = useState<LoadedPage | null>(null);
+
+  /**
+   * State für Fehlermeldungen beim Hinzufügen zur Galerie
+   */
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { collections, memberships } = useGalleryState();
+
+  const newIds = search?.newIds ?? [];
+  const totalPages = Math.max(1, Math.ceil(newIds.length / RESULTS_PER_PAGE));
+  const currentPage = Math.min(page, totalPages);
+  const pageIds = newIds.slice(
+    (currentPage - 1) * RESULTS_PER_PAGE,
+    currentPage * RESULTS_PER_PAGE,
+  );
+  const pageKey = pageIds.join(",");
+  const current = loaded?.key === pageKey ? loaded : null;
+  const isLoading = pageIds.length > 0 && current === null;
+
+  /**
+   * Effect Hook: Kunstwerke der aktuellen Seite laden
+   */
+  useEffect(() => {
+    if (!pageKey) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    getArtworksByIds(pageKey.split(",").map(Number), {
+      signal: controller.signal,
+    })
+      .then((artworks) => setLoaded({ key: pageKey, artworks, error: null }))
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          setLoaded({ key: pageKey, artworks: [], error: toApiError(error) });
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [pageKey]);
+
+  if (!search) {
+    return (
+      <div className="w-full">
+        <Link to="/saved-searches" className="btn btn-ghost btn-sm mb-4">
+          ← Gespeicherte Suchen
+        </Link>
+        <div className="alert alert-error">
+          <span>Diese gespeicherte Suche existiert nicht (mehr).</span>
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Handler für das Hinzufügen zur Galerie
+   */
+  const handleAddToGallery = async (artwork: Artwork, collectionId: string) => {
+    try {
+      await addArtwork(artwork, collectionId);
+    } catch (err) {
+      console.error("Fehler beim Hinzufügen zur Galerie:", err);
+      setFormError("Kunstwerk konnte nicht zur Galerie hinzugefügt werden");
+    }
+  };
+
+  const lastRun = search.runs[0];
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <div className="mb-8">
+        <Link to="/saved-searches" className="btn btn-ghost btn-sm mb-4">
+          ← Gespeicherte Suchen
+        </Link>
+        <h1 className="text-3xl font-bold mb-2">Neu in „{search.name}“</h1>
+        <p className="text-base-content/70">
+          {describeSearch(search.query, search.filters)}
+          {lastRun &&
+            ` · zuletzt geprüft ${new Date(lastRun.checkedAt).toLocaleString(
+              "de-DE",
+              { dateStyle: "medium", timeStyle: "short" },
+            )}`}
+        </p>
+      </div>
+
+      {/* Aktionen */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <span className="badge badge-secondary badge-lg">
+          {newIds.length} neu
+        </span>
+        <button
+          onClick={() => markSavedSearchSeen(search.id)}
+          className="btn btn-sm btn-secondary sm:ml-auto"
+          disabled={newIds.length === 0}
+        >
+          Als gesehen markieren
+        </button>
+        <button
+          onClick={() => checkSavedSearch(search.id).catch(() => undefined)}
+          className="btn btn-sm"
+          disabled={checking.has(search.id)}
+        >
+          {checking.has(search.id) ? (
+            <>
+              <span className="loading loading-spinner loading-xs"></span>
+              Wird geprüft…
+            </>
+          ) : (
+            "Jetzt prüfen"
+          )}
+        </button>
+        <Link to={getSavedSearchUrl(search)} className="btn btn-sm btn-primary">
+          Alle Treffer anzeigen
+        </Link>
+      </div>
+
+      {/* Fehlermeldungen */}
+      {(formError || current?.error) && (
+        <div className="alert alert-error mb-6">
+          <span>{formError ?? current?.error?.message}</span>
+        </div>
+      )}
+
+      {/* Keine neuen Kunstwerke */}
+      {newIds.length === 0 && (
+        <div className="text-center py-12 bg-base-100 rounded-lg shadow-xl">
+          <p className="text-lg text-base-content/70">
+            Keine neuen Kunstwerke seit Ihrem letzten Besuch.
+          </p>
+        </div>
+      )}
+
+      {/* Ladeanzeige */}
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      )}
+
+      {/* Neue Kunstwerke */}
+      {current && current.artworks.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {current.artworks.map((artwork) => (
+            <ArtworkCard
+              key={artwork.id}
+              artwork={artwork}
+              onAddToGallery={handleAddToGallery}
+              collections={collections}
+              memberCollectionIds={memberships.get(artwork.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination Controls */}
+      {totalPages > 1 && (
+        <div className="flex justify-center items-center gap-4 mt-12">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 1 || isLoading}
+            className="btn btn-outline"
+          >
+            ← Zurück
+          </button>
+          <span className="text-sm font-medium">
+            Seite {currentPage} von {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage === totalPages || isLoading}
+            className="btn btn-outline"
+          >
+            Weiter →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearchNew;
@@ -0,0 +1,204 @@
+/**
+ * SavedSearches Komponente
+ *
+ * Übersicht der gespeicherten Suchen unter `/saved-searches`. Zeigt pro
+ * Suche die Anzahl der Kunstwerke, die seit dem letzten Besuch neu
+ * hinzugekommen sind, und die letzten Prüfungen. Suchen lassen sich
+ * ausführen, sofort prüfen und löschen; die neuen Kunstwerke einer Suche
+ * zeigt SavedSearchNew.tsx.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import { Link } from "react-router-dom";
+import type { SavedSearch } from "../schemas/savedSearchSchema";
+import {
+  MAX_TRACKED_RESULTS,
+  checkAllSavedSearches,
+  checkSavedSearch,
+  deleteSavedSearch,
+  describeSearch,
+  getSavedSearchUrl,
+  useSavedSearches,
+} from "../utils/savedSearches";
+
+/**
+ * Formatiert einen Zeitpunkt für die Anzeige
+ */
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("de-DE", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Prüft eine Suche (Fehler zeigt die Übersicht über `failed` an)
+ */
+function runCheck(id: string): void {
+  checkSavedSearch(id).catch(() => undefined);
+}
+
+/**
+ * SavedSearches Komponente
+ */
+export const SavedSearches: React.FC = () => {
+  const { searches, checking, failed } = useSavedSearches();
+
+  /**
+   * Handler für das Löschen einer gespeicherten Suche
+   */
+  const handleDelete = (search: SavedSearch) => {
+    if (window.confirm(`Gespeicherte Suche "${search.name}" löschen?`)) {
+      deleteSavedSearch(search.id);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Gespeicherte Suchen</h1>
+          <p className="text-base-content/70">
+            Bei jeder Prüfung werden die ersten{" "}
+            {MAX_TRACKED_RESULTS.toLocaleString("de-DE")} Treffer mit den
+            bereits bekannten verglichen. Suchen werden beim Öffnen der
+            Anwendung automatisch geprüft, wenn die letzte Prüfung einige
+            Stunden zurückliegt.
+          </p>
+        </div>
+        {searches.length > 0 && (
+          <button
+            onClick={() => void checkAllSavedSearches()}
+            className="btn btn-sm"
+            disabled={checking.size > 0}
+          >
+            Alle jetzt prüfen
+          </button>
+        )}
+      </div>
+
+      {/* Leerer Zustand */}
+      {searches.length === 0 && (
+        <div className="text-center py-12 bg-base-100 rounded-lg shadow-xl">
+          <p className="text-lg text-base-content/70">
+            Noch keine gespeicherten Suchen.
+          </p>
+          <p className="text-sm text-base-content/60 mt-2">
+            Speichern Sie eine Suche über „Suche speichern“ über den
+            Suchergebnissen.
+          </p>
+          <Link to="/search" className="btn btn-primary btn-sm mt-4">
+            Zur Suche
+          </Link>
+        </div>
+      )}
+
+      {/* Gespeicherte Suchen */}
+      <div className="space-y-4">
+        {searches.map((search) => {
+          const lastRun = search.runs[0];
+          const isChecking = checking.has(search.id);
+
+          return (
+            <div
+              key={search.id}
+              className="bg-base-100 rounded-lg shadow-xl p-4"
+            >
+              <div className="flex flex-wrap items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <h2 className="text-xl font-bold flex items-center gap-2">
+                    <span className="truncate">{search.name}</span>
+                    {search.newIds.length > 0 && (
+                      <span className="badge badge-secondary">
+                        {search.newIds.length} neu
+                      </span>
+                    )}
+                  </h2>
+                  <p className="text-sm text-base-content/70 truncate">
+                    {describeSearch(search.query, search.filters)}
+                  </p>
+                  <p className="text-sm text-base-content/60 mt-1">
+                    {isChecking ? (
+                      <>
+                        <span className="loading loading-spinner loading-xs mr-1"></span>
+                        Wird geprüft…
+                      </>
+                    ) : lastRun ? (
+                      `Zuletzt geprüft: ${formatDate(lastRun.checkedAt)} · ${lastRun.total.toLocaleString("de-DE")} Treffer`
+                    ) : (
+                      "Noch nicht geprüft"
+                    )}
+                  </p>
+                  {failed.has(search.id) && !isChecking && (
+                    <p className="text-sm text-error mt-1">
+                      Die letzte Prüfung ist fehlgeschlagen.
+                    </p>
+                  )}
+                </div>
+
+                {/* Aktionen */}
+                <div className="flex flex-wrap gap-2">
+                  {search.newIds.length > 0 && (
+                    <Link
+                      to={`/saved-searches/${search.id}`}
+                      className="btn btn-sm btn-secondary"
+                    >
+                      Neue anzeigen
+                    </Link>
+                  )}
+                  <Link
+                    to={getSavedSearchUrl(search)}
+                    className="btn btn-sm btn-primary"
+                  >
+                    Suche ausführen
+                  </Link>
+                  <button
+                    onClick={() => runCheck(search.id)}
+                    className="btn btn-sm"
+                    disabled={isChecking}
+                  >
+                    Jetzt prüfen
+                  </button>
+                  <button
+                    onClick={() => handleDelete(search)}
+                    className="btn btn-sm btn-ghost text-error"
+                  >
+                    Löschen
+                  </button>
+                </div>
+              </div>
+
+              {/* Verlauf der Prüfungen */}
+              {search.runs.length > 0 && (
+                <details className="mt-3 text-sm">
+                  <summary className="cursor-pointer text-base-content/60">
+                    Letzte Prüfungen
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {search.runs.map((run) => (
+                      <li
+                        key={run.checkedAt}
+                        className="flex justify-between gap-4"
+                      >
+                        <span>{formatDate(run.checkedAt)}</span>
+                        <span className="text-base-content/70">
+                          {run.total.toLocaleString("de-DE")} Treffer ·{" "}
+                          {run.newCount} neu
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearches;
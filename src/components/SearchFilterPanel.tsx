@@ -0,0 +1,253 @@
+/**
+ * SearchFilterPanel Komponente
+ *
+ * Aufklappbares Panel mit den erweiterten Suchfiltern (Zeitraum,
+ * Public Domain, nur mit Bild, Objekttyp, Abteilung, Herkunft).
+ * Die Filter werden erst beim Absenden der Suche übernommen.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React from "react";
+import {
+  countActiveFilters,
+  type SearchFilters,
+} from "../schemas/searchFilterSchema";
+
+/**
+ * Props für die SearchFilterPanel Komponente
+ */
+interface SearchFilterPanelProps {
+  /**
+   * Die aktuell bearbeiteten (noch nicht angewendeten) Filter
+   */
+  filters: SearchFilters;
+
+  /**
+   * Callback-Funktion, die bei jeder Änderung eines Filters aufgerufen wird
+   */
+  onChange: (filters: SearchFilters) => void;
+
+  /**
+   * Deaktiviert alle Eingabefelder (z.B. während einer Suche)
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Vorschläge für Objekttypen (Werte der AIC API, artwork_type_title)
+ */
+const ARTWORK_TYPE_SUGGESTIONS = [
+  "Painting",
+  "Sculpture",
+  "Print",
+  "Drawing and Watercolor",
+  "Photograph",
+  "Textile",
+  "Vessel",
+  "Architectural Drawing",
+  "Furniture",
+  "Costume and Accessories",
+];
+
+/**
+ * Vorschläge für Abteilungen (Werte der AIC API, department_title)
+ */
+const DEPARTMENT_SUGGESTIONS = [
+  "Painting and Sculpture of Europe",
+  "Modern Art",
+  "Contemporary Art",
+  "Arts of the Americas",
+  "Arts of Asia",
+  "Arts of Africa",
+  "Arts of the Ancient Mediterranean and Byzantium",
+  "Applied Arts of Europe",
+  "Architecture and Design",
+  "Photography and Media",
+  "Prints and Drawings",
+  "Textiles",
+];
+
+/**
+ * Wandelt den Wert eines Jahres-Eingabefelds in eine Zahl um
+ * (leere oder ungültige Eingaben entfernen den Filter)
+ */
+function parseYear(value: string): number | undefined {
+  const year = Number.parseInt(value, 10);
+  return Number.isNaN(year) ? undefined : year;
+}
+
+/**
+ * SearchFilterPanel Komponente
+ *
+ * Verwendet die DaisyUI-Collapse-Komponente für das Auf- und Zuklappen.
+ */
+export const SearchFilterPanel: React.FC<SearchFilterPanelProps> = ({
+  filters,
+  onChange,
+  disabled = false,
+}) => {
+  /**
+   * Aktualisiert einen einzelnen Filter
+   */
+  const updateFilter = <K extends keyof SearchFilters>(
+    key: K,
+    value: SearchFilters[K],
+  ) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  /**
+   * Anzahl der aktiven Filter (für das Badge im Titel)
+   */
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="collapse collapse-arrow bg-base-100 border border-base-300 mt-4">
+      <input type="checkbox" aria-label="Erweiterte Filter anzeigen" />
+
+      {/* Panel-Titel */}
+      <div className="collapse-title font-semibold flex items-center gap-2">
+        Erweiterte Filter
+        {activeCount > 0 && (
+          <span className="badge badge-primary badge-sm">{activeCount}</span>
+        )}
+      </div>
+
+      {/* Filter-Felder */}
+      <div className="collapse-content">
+        <fieldset
+          disabled={disabled}
+          className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
+        >
+          {/* Zeitraum */}
+          <label className="form-control">
+            <span className="label-text mb-1">Entstanden ab (Jahr)</span>
+            <input
+              type="number"
+              value={filters.dateStart ?? ""}
+              onChange={(e) =>
+                updateFilter("dateStart", parseYear(e.target.value))
+              }
+              placeholder="z.B. 1850"
+              className="input input-bordered input-sm"
+            />
+          </label>
+
+          <label className="form-control">
+            <span className="label-text mb-1">Entstanden bis (Jahr)</span>
+            <input
+              type="number"
+              value={filters.dateEnd ?? ""}
+              onChange={(e) =>
+                updateFilter("dateEnd", parseYear(e.target.value))
+              }
+              placeholder="z.B. 1900"
+              className="input input-bordered input-sm"
+            />
+          </label>
+
+          {/* Herkunft */}
+          <label className="form-control">
+            <span className="label-text mb-1">Herkunft</span>
+            <input
+              type="text"
+              value={filters.placeOfOrigin ?? ""}
+              onChange={(e) =>
+                updateFilter("placeOfOrigin", e.target.value || undefined)
+              }
+              placeholder="z.B. France"
+              className="input input-bordered input-sm"
+            />
+          </label>
+
+          {/* Objekttyp */}
+          <label className="form-control">
+            <span className="label-text mb-1">Objekttyp</span>
+            <input
+              type="text"
+              list="artwork-type-suggestions"
+              value={filters.artworkType ?? ""}
+              onChange={(e) =>
+                updateFilter("artworkType", e.target.value || undefined)
+              }
+              placeholder="z.B. Painting"
+              className="input input-bordered input-sm"
+            />
+            <datalist id="artwork-type-suggestions">
+              {ARTWORK_TYPE_SUGGESTIONS.map((type) => (
+                <option key={type} value={type} />
+              ))}
+            </datalist>
+          </label>
+
+          {/* Abteilung */}
+          <label className="form-control">
+            <span className="label-text mb-1">Abteilung</span>
+            <input
+              type="text"
+              list="department-suggestions"
+              value={filters.department ?? ""}
+              onChange={(e) =>
+                updateFilter("department", e.target.value || undefined)
+              }
+              placeholder="z.B. Arts of Asia"
+              className="input input-bordered input-sm"
+            />
+            <datalist id="department-suggestions">
+              {DEPARTMENT_SUGGESTIONS.map((department) => (
+                <option key={department} value={department} />
+              ))}
+            </datalist>
+          </label>
+
+          {/* Schalter */}
+          <div className="flex flex-col justify-end gap-2">
+            <label className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                checked={filters.publicDomainOnly ?? false}
+                onChange={(e) =>
+                  updateFilter(
+                    "publicDomainOnly",
+                    e.target.checked || undefined,
+                  )
+                }
+                className="checkbox checkbox-sm"
+              />
+              <span className="label-text">Nur Public Domain</span>
+            </label>
+
+            <label className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                checked={filters.hasImageOnly ?? false}
+                onChange={(e) =>
+                  updateFilter("hasImageOnly", e.target.checked || undefined)
+                }
+                className="checkbox checkbox-sm"
+              />
+              <span className="label-text">Nur mit Bild</span>
+            </label>
+          </div>
+        </fieldset>
+
+        {/* Filter zurücksetzen */}
+        {activeCount > 0 && (
+          <div className="flex justify-end mt-4">
+            <button
+              type="button"
+              onClick={() => onChange({})}
+              disabled={disabled}
+              className="btn btn-ghost btn-sm"
+            >
+              Filter zurücksetzen
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchFilterPanel;
@@ -0,0 +1,341 @@
+/**
+ * SearchInput Komponente
+ *
+ * Das Suchfeld mit einer Auswahlliste unter der Eingabe:
+ * - Verlauf: angeheftete und zuletzt abgeschickte Suchbegriffe, die zur
+ *   Eingabe passen (siehe searchHistory.ts); Einträge lassen sich anheften,
+ *   einzeln entfernen oder gemeinsam löschen
+ * - Vorschläge: Titel und Künstlernamen der AIC API während der Eingabe
+ *   (siehe searchSuggestions.ts)
+ *
+ * Bedienung per Tastatur: Pfeiltasten wählen einen Eintrag, Enter sucht
+ * danach, Escape schließt die Liste, Umschalt+Entf entfernt den gewählten
+ * Verlaufseintrag. Ohne gewählten Eintrag schickt Enter das Formular ab.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useId, useState } from "react";
+import { Highlight } from "./Highlight";
+import type { SearchHistoryEntry } from "../schemas/searchHistorySchema";
+import { splitSearchQuery } from "../utils/galleryFilter";
+import { useOnlineStatus } from "../utils/onlineStatus";
+import {
+  clearSearchHistory,
+  filterSearchHistory,
+  removeSearch,
+  togglePinnedSearch,
+  useSearchHistory,
+} from "../utils/searchHistory";
+import { useSearchSuggestions } from "../utils/searchSuggestions";
+
+/**
+ * Props für die SearchInput Komponente
+ */
+interface SearchInputProps {
+  /**
+   * Der Suchbegriff im Eingabefeld
+   */
+  value: string;
+
+  /**
+   * Callback-Funktion für Eingaben
+   */
+  onChange: (value: string) => void;
+
+  /**
+   * Callback-Funktion, wenn ein Eintrag der Liste gewählt wurde
+   * (sucht direkt nach diesem Begriff)
+   */
+  onSelect: (query: string) => void;
+
+  /**
+   * Deaktiviert das Eingabefeld (z.B. während einer Suche)
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Ein Eintrag der Auswahlliste
+ */
+type SearchOption =
+  | { type: "history"; query: string; entry: SearchHistoryEntry }
+  | { type: "suggestion"; query: string };
+
+/**
+ * Maximale Anzahl der angezeigten Verlaufseinträge
+ */
+const MAX_HISTORY_OPTIONS = 6;
+
+/**
+ * SearchInput Komponente
+ */
+export const SearchInput: React.FC<SearchInputProps> = ({
+  value,
+  onChange,
+  onSelect,
+  disabled = false,
+}) => {
+  /**
+   * ID der Auswahlliste (verknüpft Eingabefeld und Einträge)
+   */
+  const listId = useId();
+
+  /**
+   * State für die Sichtbarkeit der Auswahlliste
+   */
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  /**
+   * State für den per Tastatur gewählten Eintrag (-1: keiner)
+   */
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+
+  const online = useOnlineStatus();
+  const history = useSearchHistory();
+  const { suggestions, isLoading } = useSearchSuggestions(
+    value,
+    isOpen && online && !disabled,
+  );
+
+  /**
+   * Einträge der Liste: passender Verlauf, dann Vorschläge, die nicht
+   * bereits im Verlauf stehen
+   */
+  const historyOptions: SearchOption[] = filterSearchHistory(history, value)
+    .slice(0, MAX_HISTORY_OPTIONS)
+    .map((entry) => ({ type: "history", query: entry.query, entry }));
+  const shownQueries = new Set(
+    historyOptions.map((option) => option.query.toLowerCase()),
+  );
+  const suggestionOptions: SearchOption[] = suggestions
+    .filter((suggestion) => !shownQueries.has(suggestion.toLowerCase()))
+    .map((suggestion) => ({ type: "suggestion", query: suggestion }));
+  const options = [...historyOptions, ...suggestionOptions];
+
+  const hasRecent = history.some((entry) => !entry.pinned);
+  const showList = isOpen && !disabled && options.length > 0;
+  const active = showList && activeIndex < options.length ? activeIndex : -1;
+  const terms = splitSearchQuery(value);
+
+  /**
+   * ID eines Eintrags (für aria-activedescendant)
+   */
+  const getOptionId = (index: number) => `${listId}-option-${index}`;
+
+  /**
+   * Übernimmt einen Eintrag und sucht danach
+   */
+  const selectOption = (option: SearchOption) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onSelect(option.query);
+  };
+
+  /**
+   * Handler für Eingaben
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
+  };
+
+  /**
+   * Handler für Tastenkombinationen
+   * - Pfeil runter/hoch: Eintrag wählen (öffnet die Liste)
+   * - Enter: Nach dem gewählten Eintrag suchen
+   * - Escape: Liste schließen
+   * - Umschalt+Entf: Gewählten Verlaufseintrag entfernen
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setIsOpen(true);
+
+      // Reihum durch die Einträge und zurück zum Eingabefeld (-1)
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const positions = options.length + 1;
+      setActiveIndex(((active + 1 + step + positions) % positions) - 1);
+    } else if (e.key === "Enter" && active !== -1) {
+      e.preventDefault();
+      selectOption(options[active]);
+    } else if (e.key === "Escape" && showList) {
+      e.preventDefault();
+      setIsOpen(false);
+      setActiveIndex(-1);
+    } else if (
+      e.key === "Delete" &&
+      e.shiftKey &&
+      active !== -1 &&
+      options[active].type === "history"
+    ) {
+      e.preventDefault();
+      removeSearch(options[active].query);
+    } else if (e.key === "Enter") {
+      // Das Formular wird abgeschickt
+      setIsOpen(false);
+    }
+  };
+
+  /**
+   * Schließt die Liste, wenn der Fokus die Komponente verlässt
+   */
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget)) {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  /**
+   * Verhindert, dass Klicks in der Liste dem Eingabefeld den Fokus nehmen
+   */
+  const keepFocus = (e: React.MouseEvent) => {
+    e.preventDefault();
+  };
+
+  /**
+   * Rendert einen Eintrag der Liste
+   */
+  const renderOption = (option: SearchOption, index: number) => (
+    <li
+      key={`${option.type}:${option.query}`}
+      id={getOptionId(index)}
+      role="option"
+      aria-selected={index === active}
+      onMouseDown={keepFocus}
+      onClick={() => selectOption(option)}
+      onMouseEnter={() => setActiveIndex(index)}
+      className={`flex items-center gap-2 px-3 py-2 cursor-pointer rounded-btn ${
+        index === active ? "bg-base-200" : ""
+      }`}
+    >
+      <span aria-hidden="true" className="text-base-content/50">
+        {option.type === "suggestion"
+          ? "🔍"
+          : option.entry.pinned
+            ? "📌"
+            : "🕘"}
+      </span>
+      <span className="flex-1 truncate">
+        <Highlight text={option.query} terms={terms} />
+      </span>
+
+      {option.type === "history" && (
+        <>
+          <button
+            type="button"
+            tabIndex={-1}
+            onClick={(e) => {
+              e.stopPropagation();
+              togglePinnedSearch(option.query);
+            }}
+            className={`btn btn-ghost btn-xs ${
+              option.entry.pinned ? "" : "opacity-50"
+            }`}
+            aria-label={
+              option.entry.pinned
+                ? `"${option.query}" lösen`
+                : `"${option.query}" anheften`
+            }
+            title={option.entry.pinned ? "Lösen" : "Anheften"}
+          >
+            📌
+          </button>
+          <button
+            type="button"
+            tabIndex={-1}
+            onClick={(e) => {
+              e.stopPropagation();
+              removeSearch(option.query);
+            }}
+            className="btn btn-ghost btn-xs opacity-50"
+            aria-label={`"${option.query}" aus dem Verlauf entfernen`}
+            title="Aus dem Verlauf entfernen"
+          >
+            ×
+          </button>
+        </>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="relative flex-1" onBlur={handleBlur}>
+      <input
+        type="text"
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onClick={() => setIsOpen(true)}
+        placeholder="Suche nach Künstler, Titel, Stil..."
+        className="input input-bordered w-full"
+        disabled={disabled}
+        role="combobox"
+        aria-label="Suchbegriff"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={active !== -1 ? getOptionId(active) : undefined}
+        autoComplete="off"
+      />
+
+      {showList && (
+        <div
+          className="absolute z-20 mt-1 w-full bg-base-100 text-base-content rounded-box shadow-lg border border-base-300 p-1 max-h-96 overflow-y-auto"
+          onMouseDown={keepFocus}
+        >
+          <ul id={listId} role="listbox" aria-label="Suchvorschläge">
+            {historyOptions.length > 0 && (
+              <li
+                role="presentation"
+                className="px-3 pt-1 pb-1 text-xs font-semibold text-base-content/60"
+              >
+                Verlauf
+              </li>
+            )}
+            {historyOptions.map((option, index) => renderOption(option, index))}
+
+            {suggestionOptions.length > 0 && (
+              <li
+                role="presentation"
+                className="px-3 pt-2 pb-1 text-xs font-semibold text-base-content/60"
+              >
+                Vorschläge
+              </li>
+            )}
+            {suggestionOptions.map((option, index) =>
+              renderOption(option, historyOptions.length + index),
+            )}
+          </ul>
+
+          {/* Ladeanzeige und Verlauf löschen */}
+          {(isLoading || hasRecent) && (
+            <div className="flex items-center justify-between px-3 pt-1 pb-1 border-t border-base-200 mt-1">
+              <span className="text-xs text-base-content/60">
+                {isLoading && (
+                  <span className="loading loading-dots loading-xs"></span>
+                )}
+              </span>
+              {hasRecent && (
+                <button
+                  type="button"
+                  tabIndex={-1}
+                  onClick={clearSearchHistory}
+                  className="btn btn-ghost btn-xs"
+                  title="Angeheftete Einträge bleiben erhalten"
+                >
+                  Verlauf löschen
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchInput;
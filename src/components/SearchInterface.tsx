@@ -8,11 +8,74 @@
  * FR012: Typsicherer Status
  */
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import type { Artwork } from "../schemas/artworkSchema";
-import { searchArtworks, type SearchResult } from "../utils/artworkApi";
+import {
+  CACHE_PREFIX,
+  invalidateArtworkCache,
+  searchArtworks,
+  type RetryState,
+} from "../utils/artworkApi";
 import { ArtworkCard } from "./ArtworkCard";
-import { addToGallery, isInGallery } from "../utils/galleryStorage";
+import { SearchFilterPanel } from "./SearchFilterPanel";
+import { SearchInput } from "./SearchInput";
+import { SaveSearchDialog } from "./SaveSearchDialog";
+import { VirtualGrid } from "./VirtualGrid";
+import {
+  SearchFiltersSchema,
+  hasActiveFilters,
+  type SearchFilters,
+} from "../schemas/searchFilterSchema";
+import type { SearchMode } from "../schemas/searchModeSchema";
+import { addArtwork } from "../utils/galleryCommands";
+import { useGalleryState } from "../utils/galleryHooks";
+import {
+  NetworkError,
+  ValidationError,
+  isAbortError,
+  toApiError,
+  type ApiError,
+} from "../utils/apiErrors";
+import { useOnlineStatus } from "../utils/onlineStatus";
+import { recordSearch } from "../utils/searchHistory";
+import {
+  checkSavedSearch,
+  describeSearch,
+  findSavedSearch,
+  saveSearch,
+  useSavedSearches,
+} from "../utils/savedSearches";
+import {
+  MAX_SEARCH_RESULTS,
+  loadSearchMode,
+  saveSearchMode,
+  useInfiniteSearch,
+} from "../utils/infiniteSearch";
+import {
+  parseSearchState,
+  serializeSearchState,
+  type SearchState,
+} from "../utils/searchParams";
+
+/**
+ * Anzahl der Ergebnisse pro Seite
+ */
+const RESULTS_PER_PAGE = 20;
+
+/**
+ * Ergebnis einer abgeschlossenen Suche
+ *
+ * Der `key` entspricht dem Query-String der Suche (plus Aktualisierungszähler),
+ * zu der das Ergebnis gehört. Stimmt er nicht mit der aktuellen URL überein,
+ * läuft die Suche noch.
+ */
+interface SearchResponse {
+  key: string;
+  data: Artwork[];
+  total: number;
+  error: ApiError | null;
+}
 
 /**
  * SearchInterface Komponente
@@ -21,170 +84,453 @@ import { addToGallery, isInGallery } from "../utils/galleryStorage";
  * - Nach Kunstwerken zu suchen
  * - Suchergebnisse anzuzeigen
  * - Kunstwerke zur Galerie hinzuzufügen
+ *
+ * Suchbegriff, Seite und Filter werden in der URL gehalten (siehe searchParams.ts),
+ * sodass Reloads, Lesezeichen und die Browser-Navigation den Zustand wiederherstellen.
+ *
+ * Das Suchfeld schlägt während der Eingabe Titel und Künstlernamen sowie
+ * frühere Suchbegriffe vor (siehe SearchInput.tsx).
+ *
+ * Eine Suche lässt sich unter einem Namen speichern; unter
+ * "Gespeicherte Suchen" werden dann neue Treffer seit dem letzten Besuch
+ * angezeigt (siehe savedSearches.ts).
+ *
+ * Statt seitenweise lassen sich die Ergebnisse auch endlos scrollen: Weitere
+ * Seiten werden beim Scrollen geladen und in einem virtualisierten Raster
+ * angezeigt (siehe VirtualGrid.tsx, infiniteSearch.ts).
+ *
+ * Offline liefert der Service Worker bereits geladene Ergebnisse. Gibt es
+ * für eine Suche keine, wird sie vorgemerkt und nach dem Wiederverbinden
+ * automatisch ausgeführt.
  */
 export const SearchInterface: React.FC = () => {
   /**
-   * State für den Suchbegriff
+   * URL-Parameter als einzige Quelle für den aktiven Suchzustand
    */
-  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchState = parseSearchState(searchParams);
+  const {
+    query: lastSearchQuery,
+    page: currentPage,
+    filters: activeFilters,
+  } = searchState;
+  const searchKey = serializeSearchState(searchState).toString();
+  const hasSearch = lastSearchQuery !== "" || hasActiveFilters(activeFilters);
 
   /**
-   * State für die Suchergebnisse
+   * State für den Suchbegriff im Eingabefeld
    */
-  const [searchResults, setSearchResults] = useState<Artwork[]>([]);
+  const [searchQuery, setSearchQuery] = useState<string>(lastSearchQuery);
 
   /**
-   * State für die Gesamtanzahl der Suchergebnisse
+   * State für die bearbeiteten, noch nicht angewendeten Filter
    */
-  const [totalResults, setTotalResults] = useState<number>(0);
+  const [draftFilters, setDraftFilters] =
+    useState<SearchFilters>(activeFilters);
 
   /**
-   * State für die aktuelle Seite
+   * Zuletzt übernommener Suchzustand aus der URL
+   * (um Eingabefeld und Filter bei Vor-/Zurück-Navigation zu aktualisieren)
    */
-  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [syncedKey, setSyncedKey] = useState<string>(searchKey);
+
+  if (syncedKey !== searchKey) {
+    setSyncedKey(searchKey);
+    setSearchQuery(lastSearchQuery);
+    setDraftFilters(activeFilters);
+  }
 
   /**
-   * State für die letzte Suchabfrage (um seiten-übergreifende Suche zu ermöglichen)
+   * State für das Ergebnis der letzten abgeschlossenen Suche
    */
-  const [lastSearchQuery, setLastSearchQuery] = useState<string>("");
+  const [response, setResponse] = useState<SearchResponse | null>(null);
 
   /**
-   * Anzahl der Ergebnisse pro Seite
+   * State für Validierungs- und Galerie-Fehlermeldungen
    */
-  const RESULTS_PER_PAGE = 20;
+  const [formError, setFormError] = useState<string | null>(null);
 
   /**
-   * State für den Ladezustand
+   * Die Sammlungen im Auswahlmenü der Ergebnis-Karten und die Sammlungen,
+   * in denen die Kunstwerke liegen (für den Button-Status)
    */
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const { collections, memberships } = useGalleryState();
 
   /**
-   * State für Fehlermeldungen
+   * Zähler für manuelle Aktualisierungen (erzwingt eine neue Anfrage
+   * nach dem Leeren des Caches)
    */
-  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState<number>(0);
 
   /**
-   * State für die Kunstwerke, die in der Galerie sind
-   * (wird verwendet, um den Button-Status zu aktualisieren)
+   * State für den laufenden Wiederholungsversuch (z.B. nach Status 429)
+   * zusammen mit dem Schlüssel der Suche, zu der er gehört
    */
-  const [galleryIds, setGalleryIds] = useState<Set<number>>(new Set());
+  const [retry, setRetry] = useState<{
+    key: string;
+    state: RetryState;
+  } | null>(null);
 
   /**
-   * Lädt die aktuellen Galerie-IDs
-   *
-   * Diese Funktion wird aufgerufen, um zu überprüfen, welche Kunstwerke
-   * bereits in der Galerie sind, damit die Buttons entsprechend aktualisiert werden können.
+   * State für die Darstellung der Ergebnisse (seitenweise oder endlos)
    */
-  const loadGalleryIds = () => {
-    const ids = new Set<number>();
-    // Prüfe jedes Suchergebnis
-    searchResults.forEach((artwork) => {
-      if (isInGallery(artwork.id)) {
-        ids.add(artwork.id);
-      }
-    });
-    setGalleryIds(ids);
-  };
+  const [mode, setMode] = useState<SearchMode>(loadSearchMode);
+  const isScrollMode = mode === "scroll";
 
   /**
-   * Führt eine Suche durch mit optionalen Seitennummer
+   * Endlos-Scrollen: alle Seiten der Suche ab der ersten
+   * (die Seite in der URL wird dabei nicht verwendet)
    */
-  const performSearch = async (query: string, page: number = 1) => {
-    // Validierung: Suchbegriff darf nicht leer sein
-    if (!query.trim()) {
-      setError("Bitte geben Sie einen Suchbegriff ein");
+  const scrollKey = serializeSearchState({
+    ...searchState,
+    page: 1,
+  }).toString();
+  const infinite = useInfiniteSearch(
+    scrollKey,
+    reloadCount,
+    RESULTS_PER_PAGE,
+    isScrollMode && hasSearch,
+  );
+
+  /**
+   * Gespeicherte Suchen (für "Suche speichern" bzw. "Gespeichert")
+   */
+  const { searches: savedSearches } = useSavedSearches();
+  const savedSearch = findSavedSearch(
+    savedSearches,
+    lastSearchQuery,
+    activeFilters,
+  );
+
+  /**
+   * State für die Sichtbarkeit des Dialogs "Suche speichern"
+   */
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState<boolean>(false);
+
+  /**
+   * Verbindungsstatus des Browsers
+   */
+  const online = useOnlineStatus();
+
+  /**
+   * State für die Suche, die offline fehlgeschlagen ist und nach dem
+   * Wiederverbinden erneut ausgeführt wird
+   */
+  const [queuedKey, setQueuedKey] = useState<string | null>(null);
+
+  /**
+   * Abgeleiteter Zustand der aktuellen Suche
+   */
+  const requestKey = `${searchKey}#${reloadCount}`;
+  const isLoading =
+    hasSearch &&
+    (isScrollMode ? infinite.isLoading : response?.key !== requestKey);
+  const currentResponse =
+    !isScrollMode && response?.key === requestKey ? response : null;
+  const searchResults = isScrollMode
+    ? infinite.items
+    : (currentResponse?.data ?? []);
+  const totalResults = isScrollMode
+    ? infinite.total
+    : (currentResponse?.total ?? 0);
+
+  // Fehler beim Nachladen werden unter den bereits geladenen Ergebnissen
+  // angezeigt, alle anderen oben
+  const loadMoreError =
+    isScrollMode && searchResults.length > 0 ? infinite.error : null;
+  const apiError = isScrollMode
+    ? loadMoreError
+      ? null
+      : infinite.error
+    : (currentResponse?.error ?? null);
+
+  // Offline ohne gespeichertes Ergebnis: Suche vormerken
+  if (!online && apiError instanceof NetworkError && queuedKey !== requestKey) {
+    setQueuedKey(requestKey);
+  }
+
+  // Wieder verbunden: vorgemerkte Suche ausführen
+  if (online && queuedKey !== null) {
+    setQueuedKey(null);
+
+    if (queuedKey === requestKey) {
+      setReloadCount((count) => count + 1);
+    }
+  }
+
+  const isQueued = queuedKey === requestKey;
+
+  // Seiten jenseits von MAX_SEARCH_RESULTS liefert die API nicht
+  const reachablePages = Math.ceil(
+    Math.min(totalResults, MAX_SEARCH_RESULTS) / RESULTS_PER_PAGE,
+  );
+
+  // Seite hinter der letzten (z.B. aus einem veralteten Link): wird durch
+  // die letzte vorhandene Seite ersetzt
+  const lastPage = Math.max(1, reachablePages);
+  const isPageOutOfRange =
+    currentResponse !== null &&
+    !currentResponse.error &&
+    currentPage > lastPage;
+
+  // Wenn keine Ergebnisse gefunden wurden
+  const emptyMessage =
+    hasSearch &&
+    !isLoading &&
+    !apiError &&
+    searchResults.length === 0 &&
+    !isPageOutOfRange
+      ? "Keine Kunstwerke gefunden. Versuchen Sie einen anderen Suchbegriff oder andere Filter."
+      : null;
+  const error =
+    formError ?? (isQueued ? null : apiError?.message) ?? emptyMessage;
+  const retryState =
+    isLoading && retry?.key === requestKey ? retry.state : null;
+
+  /**
+   * Effect Hook: Führe die Suche aus, sobald sich der Suchzustand in der URL ändert
+   * (Formular, Pagination, Reload oder Vor-/Zurück-Navigation)
+   */
+  useEffect(() => {
+    // Der Suchzustand wird aus dem serialisierten Schlüssel gelesen,
+    // damit der Effect nur bei echten Änderungen erneut ausgeführt wird
+    const { query, page, filters } = parseSearchState(
+      new URLSearchParams(searchKey),
+    );
+
+    // Beim Endlos-Scrollen lädt useInfiniteSearch die Ergebnisse
+    if (isScrollMode || (!query && !hasActiveFilters(filters))) {
       return;
     }
 
-    // Setze den Ladezustand
-    setIsLoading(true);
-    setError(null);
-    setLastSearchQuery(query);
-    setCurrentPage(page);
+    // Eine neuere Suche (oder das Verlassen der Seite) bricht diese Anfrage ab
+    const controller = new AbortController();
+    const key = `${searchKey}#${reloadCount}`;
+
+    // Berechne den offset basierend auf der Seitennummer (Seiten jenseits
+    // von MAX_SEARCH_RESULTS lehnt die API ab: dann die letzte erreichbare
+    // Seite laden, die Weiterleitung unten korrigiert die URL)
+    const offset = Math.min(
+      (page - 1) * RESULTS_PER_PAGE,
+      MAX_SEARCH_RESULTS - RESULTS_PER_PAGE,
+    );
+
+    searchArtworks(query, RESULTS_PER_PAGE, offset, filters, {
+      signal: controller.signal,
+      onRetry: (state) => setRetry({ key, state }),
+    })
+      .then((result) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        setResponse({
+          key,
+          data: result.data,
+          total: result.total,
+          error: null,
+        });
+      })
+      .catch((err) => {
+        // Abgebrochene Suchen sind kein Fehler
+        if (isAbortError(err)) {
+          return;
+        }
+
+        // Fehlerbehandlung
+        setResponse({
+          key,
+          data: [],
+          total: 0,
+          error: toApiError(err),
+        });
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [searchKey, reloadCount, isScrollMode]);
 
-    try {
-      // Berechne den offset basierend auf der Seitennummer
-      const offset = (page - 1) * RESULTS_PER_PAGE;
-
-      // Führe die Suche durch
-      const result = await searchArtworks(query, RESULTS_PER_PAGE, offset);
-
-      // Aktualisiere die Suchergebnisse
-      setSearchResults(result.data);
-      setTotalResults(result.total);
-
-      // Wenn keine Ergebnisse gefunden wurden
-      if (result.data.length === 0 && page === 1) {
-        setError(
-          "Keine Kunstwerke gefunden. Versuchen Sie einen anderen Suchbegriff.",
-        );
-      }
-    } catch (err) {
-      // Fehlerbehandlung
-      if (err instanceof Error) {
-        setError(err.message);
-      } else {
-        setError("Ein unerwarteter Fehler ist aufgetreten");
-      }
-    } finally {
-      // Setze den Ladezustand zurück
-      setIsLoading(false);
+  /**
+   * Effect Hook: Ersetze eine Seite hinter der letzten durch die letzte Seite
+   * (ohne neuen History-Eintrag)
+   */
+  useEffect(() => {
+    if (!isPageOutOfRange) {
+      return;
+    }
+
+    const state = parseSearchState(new URLSearchParams(searchKey));
+    setSearchParams(serializeSearchState({ ...state, page: lastPage }), {
+      replace: true,
+    });
+  }, [isPageOutOfRange, lastPage, searchKey, setSearchParams]);
+
+  /**
+   * Führt eine Suche durch, indem der neue Zustand in die URL geschrieben wird
+   * (erzeugt einen History-Eintrag für die Zurück-Navigation)
+   *
+   * @returns true, wenn die Eingaben gültig waren und die Suche startet
+   */
+  const performSearch = (
+    query: string,
+    page: number = 1,
+    filters: SearchFilters = activeFilters,
+  ): boolean => {
+    // Validierung der Filter (z.B. Startjahr nach Endjahr)
+    const validation = SearchFiltersSchema.safeParse(filters);
+    if (!validation.success) {
+      setFormError(validation.error.issues[0].message);
+      return false;
+    }
+
+    // Validierung: Suchbegriff darf nur ohne Filter leer sein
+    if (!query.trim() && !hasActiveFilters(validation.data)) {
+      setFormError(
+        "Bitte geben Sie einen Suchbegriff ein oder wählen Sie Filter",
+      );
+      return false;
+    }
+
+    setFormError(null);
+
+    const nextState: SearchState = {
+      query: query.trim(),
+      page,
+      filters: validation.data,
+    };
+    setSearchParams(serializeSearchState(nextState));
+    return true;
+  };
+
+  /**
+   * Startet eine neue Suche ab der ersten Seite und nimmt den Suchbegriff
+   * in den Suchverlauf auf
+   */
+  const submitSearch = (query: string) => {
+    if (performSearch(query, 1, draftFilters)) {
+      recordSearch(query);
     }
   };
 
   /**
    * Handler für das Absenden des Suchformulars
    */
-  const handleSearch = async (e: React.FormEvent) => {
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault(); // Verhindert das Standard-Formular-Verhalten
-    await performSearch(searchQuery, 1);
+    submitSearch(searchQuery);
+  };
+
+  /**
+   * Handler für die Auswahl eines Vorschlags oder Verlaufseintrags
+   */
+  const handleSuggestionSelect = (query: string) => {
+    setSearchQuery(query);
+    submitSearch(query);
+  };
+
+  /**
+   * Handler für das Ändern der Filter
+   */
+  const handleFiltersChange = (filters: SearchFilters) => {
+    setDraftFilters(filters);
+    if (formError) {
+      setFormError(null);
+    }
   };
 
   /**
    * Handler für das Ändern des Suchbegriffs
    */
-  const handleSearchQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchQuery(e.target.value);
+  const handleSearchQueryChange = (value: string) => {
+    setSearchQuery(value);
     // Entferne Fehlermeldung, wenn der Benutzer tippt
-    if (error) {
-      setError(null);
+    if (formError) {
+      setFormError(null);
     }
   };
 
   /**
    * Handler für das Hinzufügen zur Galerie
    */
-  const handleAddToGallery = (artwork: Artwork) => {
+  const handleAddToGallery = async (artwork: Artwork, collectionId: string) => {
     try {
-      const success = addToGallery(artwork);
-
-      if (success) {
-        // Aktualisiere die Galerie-IDs
-        setGalleryIds((prev) => new Set(prev).add(artwork.id));
-
-        // Optional: Zeige eine Erfolgsbenachrichtigung
-        // (könnte mit einem Toast-System erweitert werden)
-        console.log(`"${artwork.title}" wurde zur Galerie hinzugefügt`);
-      }
+      // Die Bestätigung (mit "Rückgängig") zeigt UndoToast an; der
+      // Button-Status folgt dem gemeinsamen Galerie-Zustand
+      await addArtwork(artwork, collectionId);
     } catch (err) {
       console.error("Fehler beim Hinzufügen zur Galerie:", err);
-      setError("Kunstwerk konnte nicht zur Galerie hinzugefügt werden");
+      setFormError("Kunstwerk konnte nicht zur Galerie hinzugefügt werden");
     }
   };
 
   /**
-   * Berechne die Gesamtanzahl der Seiten
+   * Handler für "Aktualisieren": leert den Such-Cache und lädt die Seite neu
+   */
+  const handleRefresh = async () => {
+    await invalidateArtworkCache(CACHE_PREFIX.search);
+    setReloadCount((count) => count + 1);
+  };
+
+  /**
+   * Handler für "Erneut versuchen" nach einem vorübergehenden Fehler
    */
-  const totalPages = Math.ceil(totalResults / RESULTS_PER_PAGE);
+  const handleRetry = () => {
+    setReloadCount((count) => count + 1);
+  };
 
   /**
-   * Effect Hook: Lade die Galerie-IDs, wenn sich die Suchergebnisse ändern
+   * Handler für das Speichern der aktuellen Suche
+   *
+   * Die erste Prüfung legt sofort fest, welche Treffer bereits bekannt sind.
    */
-  React.useEffect(() => {
-    if (searchResults.length > 0) {
-      loadGalleryIds();
+  const handleSaveSearch = (name: string) => {
+    try {
+      const search = saveSearch(name, lastSearchQuery, activeFilters);
+      setIsSaveDialogOpen(false);
+      // Fehler zeigt die Übersicht der gespeicherten Suchen an
+      checkSavedSearch(search.id).catch(() => undefined);
+    } catch (err) {
+      console.error("Fehler beim Speichern der Suche:", err);
+      setFormError("Suche konnte nicht gespeichert werden");
+      setIsSaveDialogOpen(false);
+    }
+  };
+
+  /**
+   * Handler für den Wechsel der Darstellung
+   *
+   * Beim Endlos-Scrollen beginnt die Liste immer mit dem ersten Ergebnis,
+   * daher wird die Seite in der URL zurückgesetzt.
+   */
+  const handleModeChange = (nextMode: SearchMode) => {
+    setMode(nextMode);
+    saveSearchMode(nextMode);
+
+    if (nextMode === "scroll" && currentPage > 1) {
+      setSearchParams(serializeSearchState({ ...searchState, page: 1 }), {
+        replace: true,
+      });
     }
-  }, [searchResults]);
+  };
+
+  /**
+   * Rendert die Karte eines Suchergebnisses
+   */
+  const renderCard = (artwork: Artwork) => (
+    <ArtworkCard
+      key={artwork.id}
+      artwork={artwork}
+      onAddToGallery={handleAddToGallery}
+      collections={collections}
+      memberCollectionIds={memberships.get(artwork.id)}
+    />
+  );
+
+  /**
+   * Berechne die Gesamtanzahl der Seiten (höchstens bis MAX_SEARCH_RESULTS)
+   */
+  const totalPages = reachablePages;
 
   return (
     <div className="w-full">
@@ -192,12 +538,10 @@ export const SearchInterface: React.FC = () => {
       <form onSubmit={handleSearch} className="mb-8">
         <div className="flex gap-2">
           {/* Sucheingabefeld */}
-          <input
-            type="text"
+          <SearchInput
             value={searchQuery}
             onChange={handleSearchQueryChange}
-            placeholder="Suche nach Künstler, Titel, Stil..."
-            className="input input-bordered flex-1"
+            onSelect={handleSuggestionSelect}
             disabled={isLoading}
           />
 
@@ -205,7 +549,10 @@ export const SearchInterface: React.FC = () => {
           <button
             type="submit"
             className="btn btn-primary"
-            disabled={isLoading || !searchQuery.trim()}
+            disabled={
+              isLoading ||
+              (!searchQuery.trim() && !hasActiveFilters(draftFilters))
+            }
           >
             {isLoading ? (
               <>
@@ -218,6 +565,13 @@ export const SearchInterface: React.FC = () => {
           </button>
         </div>
 
+        {/* Erweiterte Filter */}
+        <SearchFilterPanel
+          filters={draftFilters}
+          onChange={handleFiltersChange}
+          disabled={isLoading}
+        />
+
         {/* Hilfetext */}
         <p className="text-sm text-base-content/60 mt-2">
           Durchsuchen Sie die Kunstsammlung des Art Institute of Chicago
@@ -240,14 +594,57 @@ export const SearchInterface: React.FC = () => {
               d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z"
             />
           </svg>
-          <span>{error}</span>
+          <div className="flex-1">
+            <span>{error}</span>
+
+            {/* Details zu Validierungsfehlern der API-Antwort */}
+            {!formError && apiError instanceof ValidationError && (
+              <details className="mt-2 text-sm">
+                <summary className="cursor-pointer">Details</summary>
+                <ul className="mt-1 list-disc list-inside font-mono">
+                  {apiError.issues.map((issue, index) => (
+                    <li key={index}>
+                      {issue.path.join(".") || "(Antwort)"}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+
+          {/* Erneut versuchen bei vorübergehenden Fehlern */}
+          {!formError && apiError?.retryable && (
+            <button onClick={handleRetry} className="btn btn-sm">
+              Erneut versuchen
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Hinweis auf eine vorgemerkte Suche */}
+      {isQueued && !formError && (
+        <div className="alert alert-info mb-6" role="status">
+          <span>
+            Sie sind offline, und für diese Suche liegen keine gespeicherten
+            Ergebnisse vor. Sie wird automatisch ausgeführt, sobald wieder eine
+            Verbindung besteht.
+          </span>
         </div>
       )}
 
       {/* Lade-Indikator */}
       {isLoading && (
-        <div className="flex justify-center items-center py-12">
+        <div className="flex flex-col justify-center items-center gap-4 py-12">
           <span className="loading loading-spinner loading-lg"></span>
+
+          {/* Hinweis auf erneuten Versuch statt Fehlermeldung */}
+          {retryState && (
+            <p className="text-sm text-base-content/70" role="status">
+              {retryState.error.message} Erneuter Versuch {retryState.attempt}{" "}
+              von {retryState.maxRetries} in{" "}
+              {Math.ceil(retryState.delayMs / 1000)} s…
+            </p>
+          )}
         </div>
       )}
 
@@ -255,29 +652,117 @@ export const SearchInterface: React.FC = () => {
       {!isLoading && searchResults.length > 0 && (
         <div className="search-results-bg">
           {/* Ergebnis-Header */}
-          <div className="mb-4">
-            <h2 className="text-2xl font-bold text-white">Suchergebnisse</h2>
-            <p className="text-gray-200">
-              {totalResults.toLocaleString("de-DE")} Kunstwerk
-              {totalResults !== 1 ? "e" : ""} gefunden
-              {totalPages > 1 && ` (Seite ${currentPage} von ${totalPages})`}
-            </p>
+          <div className="mb-4 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-white">Suchergebnisse</h2>
+              <p className="text-gray-200">
+                {totalResults.toLocaleString("de-DE")} Kunstwerk
+                {totalResults !== 1 ? "e" : ""} gefunden
+                {isScrollMode
+                  ? ` (${searchResults.length.toLocaleString("de-DE")} geladen)`
+                  : totalPages > 1 &&
+                    ` (Seite ${currentPage} von ${totalPages})`}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {/* Darstellung: seitenweise oder endlos */}
+              <div className="join" role="group" aria-label="Darstellung">
+                <button
+                  onClick={() => handleModeChange("pages")}
+                  className={`btn btn-sm join-item ${
+                    isScrollMode ? "btn-ghost text-white" : "btn-primary"
+                  }`}
+                  aria-pressed={!isScrollMode}
+                >
+                  Seiten
+                </button>
+                <button
+                  onClick={() => handleModeChange("scroll")}
+                  className={`btn btn-sm join-item ${
+                    isScrollMode ? "btn-primary" : "btn-ghost text-white"
+                  }`}
+                  aria-pressed={isScrollMode}
+                >
+                  Endlos
+                </button>
+              </div>
+
+              {/* Suche speichern bzw. zu den gespeicherten Suchen */}
+              {savedSearch ? (
+                <Link
+                  to="/saved-searches"
+                  className="btn btn-sm btn-ghost text-white"
+                  title={`Gespeichert als "${savedSearch.name}"`}
+                >
+                  ✓ Gespeichert
+                </Link>
+              ) : (
+                <button
+                  onClick={() => setIsSaveDialogOpen(true)}
+                  className="btn btn-sm btn-ghost text-white"
+                  title="Suche speichern und später über neue Treffer informiert werden"
+                >
+                  Suche speichern
+                </button>
+              )}
+
+              {/* Zwischengespeicherte Ergebnisse neu laden */}
+              <button
+                onClick={handleRefresh}
+                className="btn btn-sm btn-ghost text-white"
+                title="Zwischengespeicherte Ergebnisse verwerfen und neu laden"
+              >
+                Aktualisieren
+              </button>
+            </div>
           </div>
 
           {/* Ergebnis-Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {searchResults.map((artwork) => (
-              <ArtworkCard
-                key={artwork.id}
-                artwork={artwork}
-                onAddToGallery={handleAddToGallery}
-                isInGallery={galleryIds.has(artwork.id)}
-              />
-            ))}
-          </div>
+          {isScrollMode ? (
+            <VirtualGrid
+              key={scrollKey}
+              itemCount={searchResults.length}
+              getItemKey={(index) => searchResults[index].id}
+              renderItem={(index) => renderCard(searchResults[index])}
+              onEndReached={infinite.loadMore}
+              hasMore={infinite.hasMore}
+              restoreKey={scrollKey}
+            />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {searchResults.map(renderCard)}
+            </div>
+          )}
+
+          {/* Endlos-Scrollen: Nachladen, Fehler und Ende der Liste */}
+          {isScrollMode && (
+            <div className="flex flex-col items-center gap-2 mt-6 text-gray-200">
+              {infinite.isLoadingMore && (
+                <span className="loading loading-spinner loading-md"></span>
+              )}
+
+              {loadMoreError && (
+                <div className="alert alert-error max-w-xl">
+                  <span>{loadMoreError.message}</span>
+                  <button onClick={infinite.loadMore} className="btn btn-sm">
+                    Erneut versuchen
+                  </button>
+                </div>
+              )}
+
+              {!infinite.hasMore && !loadMoreError && (
+                <p className="text-sm">
+                  {totalResults > MAX_SEARCH_RESULTS
+                    ? `Die API liefert höchstens ${MAX_SEARCH_RESULTS.toLocaleString("de-DE")} Ergebnisse. Grenzen Sie die Suche mit Filtern ein, um weitere zu finden.`
+                    : "Alle Ergebnisse geladen."}
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Pagination Controls */}
-          {totalPages > 1 && (
+          {!isScrollMode && totalPages > 1 && (
             <div className="flex justify-center items-center gap-4 mt-12">
               {/* Vorige Seite Button */}
               <button
@@ -307,28 +792,43 @@ export const SearchInterface: React.FC = () => {
       )}
 
       {/* Leerzustand (wenn noch nicht gesucht wurde) */}
-      {!isLoading && searchResults.length === 0 && !error && (
-        <div className="search-results-bg">
-          <div className="text-center py-12">
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="mx-auto h-24 w-24 text-gray-300"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={1}
-                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-              />
-            </svg>
-            <p className="text-gray-300 mt-4">
-              Starten Sie eine Suche, um Kunstwerke zu entdecken
-            </p>
+      {!isLoading &&
+        searchResults.length === 0 &&
+        !error &&
+        !isQueued &&
+        !isPageOutOfRange && (
+          <div className="search-results-bg">
+            <div className="text-center py-12">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="mx-auto h-24 w-24 text-gray-300"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1}
+                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                />
+              </svg>
+              <p className="text-gray-300 mt-4">
+                Starten Sie eine Suche, um Kunstwerke zu entdecken
+              </p>
+            </div>
           </div>
-        </div>
+        )}
+
+      {/* Dialog "Suche speichern" */}
+      {isSaveDialogOpen && (
+        <SaveSearchDialog
+          initialName={lastSearchQuery}
+          searches={savedSearches}
+          description={describeSearch(lastSearchQuery, activeFilters)}
+          onSave={handleSaveSearch}
+          onCancel={() => setIsSaveDialogOpen(false)}
+        />
       )}
     </div>
   );
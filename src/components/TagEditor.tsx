@@ -0,0 +1,177 @@
+/**
+ * TagEditor Komponente
+ *
+ * Bearbeitung der Tags eines gespeicherten Kunstwerks: Tags werden als
+ * Chips angezeigt und können entfernt werden; neue Tags werden über ein
+ * Eingabefeld mit Autovervollständigung aus den vorhandenen Tags ergänzt
+ * (Enter oder Komma übernimmt die Eingabe).
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useId, useState } from "react";
+import { TagListSchema } from "../schemas/tagSchema";
+import { splitTagInput } from "../utils/tagFilter";
+
+/**
+ * Props für die TagEditor Komponente
+ */
+interface TagEditorProps {
+  /**
+   * Die aktuellen Tags
+   */
+  tags: string[];
+
+  /**
+   * Vorschläge für die Autovervollständigung (vorhandene Tags der Galerie)
+   */
+  suggestions?: string[];
+
+  /**
+   * Callback-Funktion, die mit den geänderten Tags aufgerufen wird
+   */
+  onChange: (tags: string[]) => void;
+
+  /**
+   * Callback-Funktion für "Fertig"
+   */
+  onClose: () => void;
+}
+
+/**
+ * TagEditor Komponente
+ *
+ * Validiert neue Tags mit dem TagListSchema, bevor onChange aufgerufen wird.
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  suggestions = [],
+  onChange,
+  onClose,
+}) => {
+  /**
+   * ID der Vorschlagsliste (verknüpft Eingabefeld und datalist)
+   */
+  const listId = useId();
+
+  /**
+   * State für die aktuelle Eingabe
+   */
+  const [input, setInput] = useState<string>("");
+
+  /**
+   * State für Validierungsfehler
+   */
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  /**
+   * Übernimmt die Eingabe als neue Tags
+   */
+  const addTags = () => {
+    const newTags = splitTagInput(input);
+
+    if (newTags.length === 0) {
+      return;
+    }
+
+    const result = TagListSchema.safeParse([...tags, ...newTags]);
+
+    if (!result.success) {
+      setValidationError(result.error.issues[0].message);
+      return;
+    }
+
+    onChange([...new Set(result.data)]);
+    setInput("");
+    setValidationError(null);
+  };
+
+  /**
+   * Handler für Tastenkombinationen
+   * - Enter oder Komma: Eingabe übernehmen
+   * - Escape: Bearbeitung beenden
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTags();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  /**
+   * Vorschläge ohne die bereits vergebenen Tags
+   */
+  const availableSuggestions = suggestions.filter(
+    (suggestion) => !tags.includes(suggestion),
+  );
+
+  return (
+    <div className="mt-3 p-3 bg-base-200 rounded-lg">
+      {/* Vorhandene Tags (entfernbar) */}
+      <div className="flex flex-wrap gap-1 mb-2">
+        {tags.length === 0 && (
+          <span className="text-sm text-base-content/60">Noch keine Tags</span>
+        )}
+        {tags.map((tag) => (
+          <span key={tag} className="badge badge-primary gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() =>
+                onChange(tags.filter((current) => current !== tag))
+              }
+              aria-label={`Tag "${tag}" entfernen`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {/* Eingabe mit Autovervollständigung */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setValidationError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          list={listId}
+          placeholder="Tag hinzufügen…"
+          className={`input input-bordered input-sm flex-1 min-w-0 ${
+            validationError ? "input-error" : ""
+          }`}
+          aria-label="Neuer Tag"
+          autoFocus
+        />
+        <datalist id={listId}>
+          {availableSuggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+        <button type="button" onClick={addTags} className="btn btn-sm">
+          +
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="btn btn-sm btn-ghost"
+        >
+          Fertig
+        </button>
+      </div>
+
+      {/* Validierungsfehler */}
+      {validationError && (
+        <p className="text-error text-sm mt-2">{validationError}</p>
+      )}
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,207 @@
+/**
+ * TagManagerDialog Komponente
+ *
+ * Ein Modal-Dialog zur Verwaltung der Tags der gesamten Galerie.
+ * Tags können umbenannt werden; wird ein Tag in einen bereits
+ * vorhandenen umbenannt, werden beide zusammengeführt.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useState } from "react";
+import { TagSchema } from "../schemas/tagSchema";
+import type { TagCount } from "../utils/galleryStorage";
+
+/**
+ * Props für die TagManagerDialog Komponente
+ */
+interface TagManagerDialogProps {
+  /**
+   * Alle Tags der Galerie mit Anzahl der Einträge
+   */
+  tags: TagCount[];
+
+  /**
+   * Callback-Funktion zum Umbenennen (bzw. Zusammenführen) eines Tags
+   */
+  onRename: (tag: string, newTag: string) => Promise<void>;
+
+  /**
+   * Callback-Funktion zum Schließen des Dialogs
+   */
+  onClose: () => void;
+}
+
+/**
+ * TagManagerDialog Komponente
+ *
+ * Listet alle Tags auf; pro Tag kann ein neuer Name eingegeben werden.
+ */
+export const TagManagerDialog: React.FC<TagManagerDialogProps> = ({
+  tags,
+  onRename,
+  onClose,
+}) => {
+  /**
+   * State für den gerade bearbeiteten Tag
+   */
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+
+  /**
+   * State für den eingegebenen neuen Namen
+   */
+  const [draft, setDraft] = useState<string>("");
+
+  /**
+   * State für Fehlermeldungen
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Der normalisierte neue Name (null, wenn ungültig)
+   */
+  const parsedDraft = TagSchema.safeParse(draft);
+  const newTag = parsedDraft.success ? parsedDraft.data : null;
+
+  /**
+   * Gibt an, ob der neue Name bereits als Tag existiert (Zusammenführen)
+   */
+  const isMerge =
+    newTag !== null &&
+    newTag !== editingTag &&
+    tags.some(({ tag }) => tag === newTag);
+
+  /**
+   * Startet die Bearbeitung eines Tags
+   */
+  const startEditing = (tag: string) => {
+    setEditingTag(tag);
+    setDraft(tag);
+    setError(null);
+  };
+
+  /**
+   * Handler für das Absenden des Umbenennen-Formulars
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!editingTag) {
+      return;
+    }
+
+    if (!parsedDraft.success) {
+      setError(parsedDraft.error.issues[0].message);
+      return;
+    }
+
+    if (
+      isMerge &&
+      !window.confirm(
+        `"${editingTag}" mit dem vorhandenen Tag "${parsedDraft.data}" zusammenführen?`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await onRename(editingTag, parsedDraft.data);
+      setEditingTag(null);
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Tag konnte nicht umbenannt werden",
+      );
+    }
+  };
+
+  return (
+    <>
+      {/* Modal-Overlay */}
+      <div className="fixed inset-0 bg-black/50 z-40" onClick={onClose} />
+
+      {/* Modal-Content */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+        <div className="bg-base-100 rounded-lg shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          {/* Modal-Header */}
+          <div className="p-6 border-b border-base-300">
+            <h3 className="text-2xl font-bold">Tags verwalten</h3>
+            <p className="text-base-content/60 mt-1">
+              Änderungen gelten für alle Sammlungen. Ein Umbenennen in einen
+              vorhandenen Tag führt beide zusammen.
+            </p>
+          </div>
+
+          {/* Modal-Body */}
+          <div className="p-6">
+            {tags.length === 0 ? (
+              <p className="text-base-content/70">Noch keine Tags vergeben.</p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {tags.map(({ tag, count }) => (
+                  <li key={tag}>
+                    {editingTag === tag ? (
+                      <form onSubmit={handleSubmit} className="flex gap-2">
+                        <input
+                          type="text"
+                          value={draft}
+                          onChange={(e) => {
+                            setDraft(e.target.value);
+                            setError(null);
+                          }}
+                          className="input input-bordered input-sm flex-1 min-w-0"
+                          aria-label={`Neuer Name für "${tag}"`}
+                          autoFocus
+                        />
+                        <button
+                          type="submit"
+                          className="btn btn-sm btn-primary"
+                        >
+                          {isMerge ? "Zusammenführen" : "Umbenennen"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditingTag(null)}
+                          className="btn btn-sm btn-ghost"
+                        >
+                          Abbrechen
+                        </button>
+                      </form>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="badge badge-outline">{tag}</span>
+                        <span className="text-sm text-base-content/60 flex-1">
+                          {count} Eintr{count !== 1 ? "äge" : "ag"}
+                        </span>
+                        <button
+                          onClick={() => startEditing(tag)}
+                          className="btn btn-xs btn-ghost"
+                        >
+                          Umbenennen
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Fehlermeldung */}
+            {error && <p className="text-error text-sm mt-3">{error}</p>}
+          </div>
+
+          {/* Modal-Footer */}
+          <div className="p-6 border-t border-base-300 flex justify-end">
+            <button onClick={onClose} className="btn btn-ghost">
+              Schließen
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TagManagerDialog;
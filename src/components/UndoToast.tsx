@@ -0,0 +1,194 @@
+/**
+ * UndoToast Komponente
+ *
+ * Meldet jede Änderung an der Galerie, die sich rückgängig machen lässt
+ * (siehe galleryHistory.ts), in einer Einblendung am unteren Rand mit den
+ * Schaltflächen "Rückgängig" bzw. "Wiederholen". Die Einblendung
+ * verschwindet nach einigen Sekunden von selbst.
+ *
+ * Tastenkürzel (überall außer in Eingabefeldern):
+ * - Strg+Z / ⌘Z: Rückgängig
+ * - Strg+Umschalt+Z / ⌘⇧Z oder Strg+Y: Wiederholen
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+  getHistoryState,
+  redo,
+  subscribeToHistory,
+  undo,
+  type HistoryEvent,
+} from "../utils/galleryHistory";
+
+/**
+ * Anzeigedauer der Einblendung (in Millisekunden)
+ */
+const TOAST_DURATION = 8000;
+
+/**
+ * Prüft, ob ein Tastendruck in einem Eingabefeld stattfindet (dort gilt
+ * das Rückgängig des Browsers für den eingegebenen Text)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.closest("input, textarea, select") !== null)
+  );
+}
+
+/**
+ * Erzeugt den Text der Einblendung für eine Aktion
+ */
+function describeEvent(event: HistoryEvent): string {
+  switch (event.action) {
+    case "do":
+      return event.label;
+    case "undo":
+      return `Rückgängig gemacht: ${event.label}`;
+    case "redo":
+      return `Wiederholt: ${event.label}`;
+  }
+}
+
+/**
+ * UndoToast Komponente
+ */
+export const UndoToast: React.FC = () => {
+  /**
+   * State für den Zustand des Verlaufs
+   */
+  const [history, setHistory] = useState(getHistoryState);
+
+  /**
+   * State für die ID der zuletzt ausgeblendeten Aktion
+   */
+  const [dismissedId, setDismissedId] = useState<number | null>(null);
+
+  /**
+   * State für die Fehlermeldung, wenn Rückgängig oder Wiederholen
+   * fehlgeschlagen ist
+   */
+  const [error, setError] = useState<string | null>(null);
+
+  const event = history.lastEvent;
+  const isVisible = event !== null && event.id !== dismissedId;
+
+  /**
+   * Effect Hook: Änderungen am Verlauf verfolgen
+   */
+  useEffect(
+    () =>
+      subscribeToHistory(() => {
+        setHistory(getHistoryState());
+      }),
+    [],
+  );
+
+  /**
+   * Effect Hook: Einblendung nach einigen Sekunden ausblenden
+   */
+  useEffect(() => {
+    if (!isVisible && !error) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setDismissedId(event?.id ?? null);
+      setError(null);
+    }, TOAST_DURATION);
+
+    return () => clearTimeout(timeout);
+  }, [isVisible, error, event]);
+
+  /**
+   * Führt Rückgängig bzw. Wiederholen aus und zeigt Fehler an
+   */
+  const run = (action: () => Promise<boolean>) => {
+    setError(null);
+    action().catch((err: unknown) => {
+      console.error("Fehler beim Rückgängigmachen/Wiederholen:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Änderung konnte nicht ausgeführt werden",
+      );
+    });
+  };
+
+  /**
+   * Effect Hook: Tastenkürzel für Rückgängig und Wiederholen
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        run(undo);
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        run(redo);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  if (!isVisible && !error) {
+    return null;
+  }
+
+  return (
+    <div className="toast toast-end z-50 print:hidden">
+      <div
+        className={`alert ${error ? "alert-error" : ""} shadow-lg`}
+        role="status"
+        aria-live="polite"
+      >
+        <span>{error ?? (event && describeEvent(event))}</span>
+        <div className="flex gap-1">
+          {!error && event?.action !== "undo" && history.undoLabel && (
+            <button
+              onClick={() => run(undo)}
+              className="btn btn-sm btn-primary"
+              disabled={history.busy}
+              title="Strg+Z"
+            >
+              Rückgängig
+            </button>
+          )}
+          {!error && event?.action === "undo" && history.redoLabel && (
+            <button
+              onClick={() => run(redo)}
+              className="btn btn-sm"
+              disabled={history.busy}
+              title="Strg+Umschalt+Z"
+            >
+              Wiederholen
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setDismissedId(event?.id ?? null);
+              setError(null);
+            }}
+            className="btn btn-sm btn-ghost"
+            aria-label="Meldung schließen"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,385 @@
+/**
+ * VirtualGrid Komponente
+ *
+ * Ein Raster für sehr viele Einträge, das nur die Zeilen im sichtbaren
+ * Bereich des Fensters rendert (siehe virtualGrid.ts). Die Spaltenanzahl
+ * folgt denselben Breakpoints wie die übrigen Raster der Anwendung.
+ *
+ * - Nähert sich der Benutzer dem Ende, wird `onEndReached` aufgerufen
+ *   (z.B. um weitere Ergebnisse zu laden).
+ * - Mit `restoreKey` wird die Scroll-Position gespeichert und beim erneuten
+ *   Anzeigen desselben Rasters wiederhergestellt, sobald wieder so viele
+ *   Einträge vorhanden sind wie zuvor oder keine weiteren mehr folgen.
+ *
+ * FR012: Typsicherer Status
+ */
+
+import React, {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import {
+  getColumnCount,
+  getRowLayout,
+  getVisibleRows,
+  loadGridSession,
+  saveGridSession,
+  type RowRange,
+} from "../utils/virtualGrid";
+
+/**
+ * Props für die VirtualGrid Komponente
+ */
+interface VirtualGridProps {
+  /**
+   * Anzahl der Einträge
+   */
+  itemCount: number;
+
+  /**
+   * Rendert den Eintrag an einer Position
+   */
+  renderItem: (index: number) => React.ReactNode;
+
+  /**
+   * Liefert einen stabilen React-Key für den Eintrag an einer Position
+   */
+  getItemKey: (index: number) => React.Key;
+
+  /**
+   * Angenommene Zeilenhöhe in Pixeln, bevor eine Zeile gemessen wurde
+   * (Standard: 560)
+   */
+  estimatedRowHeight?: number;
+
+  /**
+   * Zusätzliche Zeilen ober- und unterhalb des sichtbaren Bereichs
+   * (Standard: 2)
+   */
+  overscan?: number;
+
+  /**
+   * Wird aufgerufen, wenn das Ende des Rasters in die Nähe des sichtbaren
+   * Bereichs kommt
+   */
+  onEndReached?: () => void;
+
+  /**
+   * Gibt an, ob noch weitere Einträge geladen werden können
+   * (Standard: false)
+   */
+  hasMore?: boolean;
+
+  /**
+   * Schlüssel, unter dem die Scroll-Position gespeichert wird
+   * (ohne Angabe: keine Wiederherstellung)
+   */
+  restoreKey?: string;
+}
+
+/**
+ * Gemessene Zeilenhöhen für eine Spaltenanzahl
+ */
+interface MeasuredRows {
+  columns: number;
+  heights: ReadonlyMap<number, number>;
+}
+
+/**
+ * Abstand zum Ende, ab dem `onEndReached` aufgerufen wird
+ */
+const END_THRESHOLD = "0px 0px 1200px 0px";
+
+/**
+ * Meldet eine Callback-Funktion für Änderungen der Fenstergröße an
+ */
+function subscribeToResize(listener: () => void): () => void {
+  window.addEventListener("resize", listener);
+  return () => window.removeEventListener("resize", listener);
+}
+
+/**
+ * Spaltenanzahl für die aktuelle Fensterbreite
+ */
+function getWindowColumnCount(): number {
+  return getColumnCount(window.innerWidth);
+}
+
+/**
+ * VirtualGrid Komponente
+ */
+export const VirtualGrid: React.FC<VirtualGridProps> = ({
+  itemCount,
+  renderItem,
+  getItemKey,
+  estimatedRowHeight = 560,
+  overscan = 2,
+  onEndReached,
+  hasMore = false,
+  restoreKey,
+}) => {
+  const columns = useSyncExternalStore(
+    subscribeToResize,
+    getWindowColumnCount,
+    () => 1,
+  );
+  const rowCount = Math.ceil(itemCount / columns);
+
+  /**
+   * Gespeicherter Zustand für die Wiederherstellung (nur beim ersten Rendern)
+   */
+  const [session] = useState(() =>
+    restoreKey ? loadGridSession(restoreKey) : null,
+  );
+
+  /**
+   * State für die gemessenen Zeilenhöhen (beim Wiederherstellen die
+   * gespeicherten, damit die Scroll-Position passt)
+   */
+  const [measured, setMeasured] = useState<MeasuredRows>(() =>
+    session
+      ? { columns: session.columns, heights: new Map(session.rowHeights) }
+      : { columns, heights: new Map() },
+  );
+
+  /**
+   * State für die gerenderten Zeilen
+   */
+  const [range, setRange] = useState<RowRange>({ first: 0, last: overscan });
+
+  /**
+   * Beobachtet die Höhe der gerenderten Zeilen
+   */
+  const [resizeObserver] = useState(
+    () =>
+      new ResizeObserver((entries) => {
+        setMeasured((current) => {
+          let next: MeasuredRows | null = null;
+
+          for (const entry of entries) {
+            const row = entry.target as HTMLElement;
+            const rowColumns = Number(row.dataset.columns);
+            const index = Number(row.dataset.row);
+            const height = row.offsetHeight;
+            const base: MeasuredRows = next ?? current;
+
+            if (base.columns !== rowColumns) {
+              next = {
+                columns: rowColumns,
+                heights: new Map([[index, height]]),
+              };
+            } else if (height > 0 && base.heights.get(index) !== height) {
+              next = {
+                columns: rowColumns,
+                heights: new Map<number, number>(base.heights).set(
+                  index,
+                  height,
+                ),
+              };
+            }
+          }
+
+          return next ?? current;
+        });
+      }),
+  );
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onEndReachedRef = useRef(onEndReached);
+
+  /**
+   * Gibt an, ob die Scroll-Position noch wiederhergestellt werden muss
+   * (bis dahin wird sie nicht gespeichert)
+   */
+  const restorePendingRef = useRef(session !== null);
+
+  const heights = measured.columns === columns ? measured.heights : null;
+  const layout = useMemo(
+    () => getRowLayout(rowCount, heights ?? new Map(), estimatedRowHeight),
+    [rowCount, heights, estimatedRowHeight],
+  );
+
+  /**
+   * Effect Hook: Aktuelle Callback-Funktion für den Observer merken
+   */
+  useEffect(() => {
+    onEndReachedRef.current = onEndReached;
+  }, [onEndReached]);
+
+  /**
+   * Effect Hook: Zeilen-Observer beim Verlassen beenden
+   */
+  useEffect(() => () => resizeObserver.disconnect(), [resizeObserver]);
+
+  /**
+   * Effect Hook: Sichtbare Zeilen beim Scrollen und bei Größenänderungen
+   * bestimmen und die Scroll-Position speichern
+   */
+  useEffect(() => {
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) {
+        return;
+      }
+
+      const top = -container.getBoundingClientRect().top;
+      const next = getVisibleRows(
+        layout,
+        top,
+        top + window.innerHeight,
+        overscan,
+      );
+
+      setRange((current) =>
+        current.first === next.first && current.last === next.last
+          ? current
+          : next,
+      );
+
+      if (restoreKey && !restorePendingRef.current) {
+        saveGridSession({
+          key: restoreKey,
+          scrollY: window.scrollY,
+          itemCount,
+          columns,
+          rowHeights: [...(heights ?? [])],
+        });
+      }
+    };
+
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(update);
+      }
+    };
+
+    schedule();
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [layout, overscan, restoreKey, itemCount, columns, heights]);
+
+  /**
+   * Effect Hook: Gespeicherte Scroll-Position wiederherstellen, sobald
+   * wieder genügend Einträge vorhanden sind oder keine weiteren folgen
+   * (z.B. weil die Suche inzwischen weniger Ergebnisse liefert)
+   */
+  useEffect(() => {
+    const container = containerRef.current;
+
+    if (
+      !restorePendingRef.current ||
+      !session ||
+      !container ||
+      (itemCount < session.itemCount && hasMore)
+    ) {
+      return;
+    }
+
+    restorePendingRef.current = false;
+
+    // Höchstens bis zum Ende des Rasters
+    const bottom =
+      container.getBoundingClientRect().top +
+      window.scrollY +
+      layout.totalHeight;
+    window.scrollTo({ top: Math.min(session.scrollY, bottom) });
+  }, [session, itemCount, hasMore, layout.totalHeight]);
+
+  /**
+   * Effect Hook: `onEndReached` aufrufen, wenn das Ende in die Nähe kommt
+   * (bei jeder neuen Anzahl erneut prüfen, falls es dann noch sichtbar ist)
+   */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onEndReachedRef.current?.();
+        }
+      },
+      { rootMargin: END_THRESHOLD },
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [itemCount]);
+
+  /**
+   * Meldet eine gerenderte Zeile beim Observer an und wieder ab
+   */
+  const observeRow = (element: HTMLDivElement | null) => {
+    if (!element) {
+      return;
+    }
+
+    resizeObserver.observe(element);
+    return () => resizeObserver.unobserve(element);
+  };
+
+  const rows: number[] = [];
+  for (
+    let row = Math.max(0, range.first);
+    row <= Math.min(range.last, rowCount - 1);
+    row++
+  ) {
+    rows.push(row);
+  }
+
+  return (
+    <>
+      <div
+        ref={containerRef}
+        className="relative"
+        style={{ height: layout.totalHeight }}
+      >
+        {rows.map((row) => (
+          <div
+            key={row}
+            ref={observeRow}
+            data-row={row}
+            data-columns={columns}
+            className="absolute inset-x-0 grid gap-6 pb-6"
+            style={{
+              top: layout.offsets[row],
+              gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            }}
+          >
+            {Array.from(
+              { length: Math.min(columns, itemCount - row * columns) },
+              (_, column) => {
+                const index = row * columns + column;
+                return (
+                  <React.Fragment key={getItemKey(index)}>
+                    {renderItem(index)}
+                  </React.Fragment>
+                );
+              },
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Markierung am Ende des Rasters (für onEndReached) */}
+      <div ref={sentinelRef} aria-hidden="true" />
+    </>
+  );
+};
+
+export default VirtualGrid;
@@ -1,10 +1,19 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
+import { GalleryProvider } from './components/GalleryProvider.tsx'
+import { registerServiceWorker } from './utils/offlineCache.ts'
+
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <BrowserRouter>
+      <GalleryProvider>
+        <App />
+      </GalleryProvider>
+    </BrowserRouter>
   </StrictMode>,
 )
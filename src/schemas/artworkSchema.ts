@@ -10,6 +10,27 @@
 
 import { z } from "zod";
 
+/**
+ * Schema für die Vorschau-Angaben zum Bild eines Kunstwerks
+ *
+ * Felder:
+ * - lqip: Stark verkleinertes Bild als Data-URL, das unscharf angezeigt
+ *   wird, bis das eigentliche Bild geladen ist
+ * - width, height: Originalgröße des Bildes (für das Seitenverhältnis)
+ * - alt_text: Beschreibung des Bildes für Screenreader
+ */
+export const ThumbnailSchema = z.object({
+  lqip: z.string().nullable().optional(),
+  width: z.number().positive().nullable().optional(),
+  height: z.number().positive().nullable().optional(),
+  alt_text: z.string().nullable().optional(),
+});
+
+/**
+ * TypeScript-Typ für die Vorschau-Angaben
+ */
+export type Thumbnail = z.infer<typeof ThumbnailSchema>;
+
 /**
  * Schema für ein einzelnes Kunstwerk
  *
@@ -22,6 +43,9 @@ import { z } from "zod";
  * - medium_display: Material/Medium des Kunstwerks (optional)
  * - place_of_origin: Herkunftsort des Kunstwerks (optional)
  * - dimensions: Abmessungen des Kunstwerks (optional)
+ * - thumbnail: Platzhalter und Bildbeschreibung (optional, siehe ThumbnailSchema)
+ * - artwork_type_title, department_title, credit_line, main_reference_number,
+ *   is_public_domain: Zusätzliche Metadaten für die Detailansicht (optional)
  */
 export const ArtworkSchema = z.object({
   // Pflichtfeld: Eindeutige ID des Kunstwerks
@@ -41,6 +65,16 @@ export const ArtworkSchema = z.object({
   medium_display: z.string().nullable().optional(),
   place_of_origin: z.string().nullable().optional(),
   dimensions: z.string().nullable().optional(),
+
+  // Platzhalter und Bildbeschreibung (null, wenn kein Bild vorhanden ist)
+  thumbnail: ThumbnailSchema.nullable().optional(),
+
+  // Zusätzliche Metadaten (werden nur für die Detailansicht abgefragt)
+  artwork_type_title: z.string().nullable().optional(),
+  department_title: z.string().nullable().optional(),
+  credit_line: z.string().nullable().optional(),
+  main_reference_number: z.string().nullable().optional(),
+  is_public_domain: z.boolean().nullable().optional(),
 });
 
 /**
@@ -0,0 +1,18 @@
+/**
+ * Zod Schema für Suchvorschläge der AIC API
+ *
+ * `GET /autocomplete` liefert die Titel und Namen passender Einträge
+ * (Kunstwerke und Künstler) als einfache Liste von Zeichenketten.
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema für die Antwort von `GET /autocomplete`
+ */
+export const AutocompleteResponseSchema = z.array(z.string());
+
+/**
+ * TypeScript-Typ für die Antwort von `GET /autocomplete`
+ */
+export type AutocompleteResponse = z.infer<typeof AutocompleteResponseSchema>;
@@ -0,0 +1,60 @@
+/**
+ * Zod Schema für Sammlungen
+ *
+ * Die Galerie besteht aus benannten Sammlungen. Ein Kunstwerk kann in
+ * mehreren Sammlungen liegen und hat in jeder Sammlung eine eigene Notiz.
+ */
+
+import { z } from "zod";
+
+/**
+ * ID der Standardsammlung
+ *
+ * Die Standardsammlung existiert immer: Sie nimmt die Einträge aus
+ * älteren Speicherformaten auf und kann umbenannt, aber nicht gelöscht werden.
+ */
+export const DEFAULT_COLLECTION_ID = "default";
+
+/**
+ * Name der Standardsammlung, solange sie nicht umbenannt wurde
+ */
+export const DEFAULT_COLLECTION_NAME = "Meine Galerie";
+
+/**
+ * Maximale Länge eines Sammlungsnamens
+ */
+export const MAX_COLLECTION_NAME_LENGTH = 60;
+
+/**
+ * Schema für den Namen einer Sammlung
+ */
+export const CollectionNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name darf nicht leer sein")
+  .max(
+    MAX_COLLECTION_NAME_LENGTH,
+    `Name darf maximal ${MAX_COLLECTION_NAME_LENGTH} Zeichen lang sein`,
+  );
+
+/**
+ * Schema für eine Sammlung
+ *
+ * Felder:
+ * - id: Eindeutige ID der Sammlung
+ * - name: Anzeigename (z.B. "Seminar Impressionismus")
+ * - createdAt: Zeitpunkt der Erstellung (ISO-String, bestimmt die Reihenfolge)
+ * - artworkOrder: Eigene Reihenfolge der Kunstwerke (IDs); Kunstwerke, die
+ *   darin fehlen, folgen in der Reihenfolge des Hinzufügens
+ */
+export const CollectionSchema = z.object({
+  id: z.string().min(1),
+  name: CollectionNameSchema,
+  createdAt: z.string(),
+  artworkOrder: z.array(z.number().int().positive()).default([]),
+});
+
+/**
+ * TypeScript-Typ für Sammlungen
+ */
+export type Collection = z.infer<typeof CollectionSchema>;
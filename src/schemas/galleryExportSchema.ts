@@ -0,0 +1,59 @@
+/**
+ * Zod Schema für den Export und Import der Galerie
+ *
+ * Eine Export-Datei enthält alle Sammlungen und gespeicherten Kunstwerke
+ * (mit Notizen, Tags und Zeitstempeln) im Speicherformat der exportierenden
+ * Version. Beim Import werden die Einträge wie beim Laden aus dem Speicher
+ * einzeln migriert und validiert, damit auch Dateien älterer Versionen
+ * gelesen werden können und ungültige Zeilen gemeldet statt übernommen
+ * werden. Die Quarantäne wird nicht exportiert.
+ */
+
+import { z } from "zod";
+
+/**
+ * Kennung des Dateiformats (unterscheidet Export-Dateien von anderem JSON)
+ */
+export const GALLERY_EXPORT_FORMAT = "aic-gallery-export";
+
+/**
+ * Schema für eine Export-Datei
+ *
+ * Felder:
+ * - format: Kennung des Dateiformats
+ * - version: Speicherformat-Version der Einträge (GALLERY_STORAGE_VERSION)
+ * - exportedAt: Zeitpunkt des Exports (ISO-String)
+ * - collections: Die Sammlungen
+ * - items: Die gespeicherten Kunstwerke
+ *
+ * Sammlungen und Einträge werden hier bewusst nicht validiert, sondern
+ * einzeln beim Import (siehe galleryTransfer.ts).
+ */
+export const GalleryExportSchema = z.object({
+  format: z.literal(GALLERY_EXPORT_FORMAT, {
+    error: "Die Datei ist kein Galerie-Export",
+  }),
+  version: z.number().int().nonnegative(),
+  exportedAt: z.string(),
+  collections: z.array(z.unknown()),
+  items: z.array(z.unknown()),
+});
+
+/**
+ * TypeScript-Typ für eine Export-Datei
+ */
+export type GalleryExport = z.infer<typeof GalleryExportSchema>;
+
+/**
+ * Vorgehen beim Import, wenn ein Kunstwerk bereits in der Sammlung ist
+ * - replace: Der Eintrag aus der Datei ersetzt den vorhandenen
+ * - skip: Der vorhandene Eintrag bleibt unverändert
+ * - merge-notes: Der vorhandene Eintrag bleibt, Notizen aus der Datei
+ *   werden ergänzt
+ */
+export const ImportStrategySchema = z.enum(["replace", "skip", "merge-notes"]);
+
+/**
+ * TypeScript-Typ für das Vorgehen beim Import
+ */
+export type ImportStrategy = z.infer<typeof ImportStrategySchema>;
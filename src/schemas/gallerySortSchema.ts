@@ -0,0 +1,31 @@
+/**
+ * Zod Schema für die Sortierung der Galerie
+ *
+ * Die Sortierung steht in der URL (`/gallery?sort=title`) und wird beim
+ * Lesen validiert; unbekannte Werte fallen auf die Standardsortierung zurück.
+ */
+
+import { z } from "zod";
+
+/**
+ * Sortierung der Galerie
+ * - manual: Eigene Reihenfolge der Sammlung, per Drag & Drop (Standard)
+ * - added: Zeitpunkt des Hinzufügens, älteste zuerst
+ * - added-desc: Zeitpunkt des Hinzufügens, neueste zuerst
+ * - title: Titel (alphabetisch)
+ * - artist: Künstler (alphabetisch, unbekannte zuletzt)
+ * - date: Entstehungszeit laut `date_display` (chronologisch, unbekannte zuletzt)
+ */
+export const GallerySortSchema = z.enum([
+  "manual",
+  "added",
+  "added-desc",
+  "title",
+  "artist",
+  "date",
+]);
+
+/**
+ * TypeScript-Typ für die Sortierung der Galerie
+ */
+export type GallerySort = z.infer<typeof GallerySortSchema>;
@@ -0,0 +1,62 @@
+/**
+ * Zod Schema für das gespeicherte Galerie-Format
+ *
+ * Die Galerie wird als versionierter Umschlag (`{ version, items, collections }`)
+ * gespeichert, zusammen mit Quarantäne und Papierkorb (siehe trashSchema.ts). Einträge, die sich nicht migrieren oder validieren lassen,
+ * werden nicht gelöscht, sondern in die Quarantäne verschoben und können
+ * in der Wiederherstellungsansicht repariert werden.
+ */
+
+import { z } from "zod";
+
+/**
+ * Aktuelle Version des Speicherformats
+ *
+ * Bei jeder inkompatiblen Änderung am SavedArtworkSchema wird die Version
+ * erhöht und in galleryMigrations.ts eine Migration ergänzt.
+ */
+export const GALLERY_STORAGE_VERSION = 6;
+
+/**
+ * Schema für einen Eintrag in der Quarantäne
+ *
+ * Felder:
+ * - id: Eindeutige ID des Quarantäne-Eintrags
+ * - raw: Die unveränderten Rohdaten des Eintrags
+ * - version: Format-Version, in der die Rohdaten vorliegen
+ * - reason: Beschreibung, warum der Eintrag nicht geladen werden konnte
+ * - quarantinedAt: Zeitpunkt der Quarantäne (ISO-String)
+ */
+export const QuarantinedEntrySchema = z.object({
+  id: z.string(),
+  raw: z.unknown(),
+  version: z.number().int().nonnegative(),
+  reason: z.string(),
+  quarantinedAt: z.string(),
+});
+
+/**
+ * TypeScript-Typ für Quarantäne-Einträge
+ */
+export type QuarantinedEntry = z.infer<typeof QuarantinedEntrySchema>;
+
+/**
+ * Schema für den versionierten Umschlag
+ *
+ * Die Einträge und Sammlungen werden hier bewusst nicht validiert: Das
+ * geschieht einzeln nach der Migration, damit ein defekter Eintrag nicht
+ * die ganze Galerie unbrauchbar macht. Sammlungen gibt es ab Version 3,
+ * den Papierkorb ab Version 6 (fehlt er, ist er leer).
+ */
+export const GalleryEnvelopeSchema = z.object({
+  version: z.number().int().nonnegative(),
+  items: z.array(z.unknown()),
+  collections: z.array(z.unknown()).default([]),
+  quarantine: z.array(QuarantinedEntrySchema).default([]),
+  trash: z.array(z.unknown()).default([]),
+});
+
+/**
+ * TypeScript-Typ für den versionierten Umschlag
+ */
+export type GalleryEnvelope = z.infer<typeof GalleryEnvelopeSchema>;
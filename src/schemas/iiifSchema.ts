@@ -0,0 +1,51 @@
+/**
+ * Zod Schema für die Bildinformationen des IIIF-Bildservers
+ *
+ * Der Bildserver des Art Institute ist ein IIIF Image API 2.x Endpoint.
+ * Unter `{BASE_URL}/{image_id}/info.json` liefert er die Originalgröße
+ * des Bildes und die verfügbaren Kacheln, aus denen der Bildbetrachter
+ * (siehe ImageViewer.tsx) den sichtbaren Ausschnitt zusammensetzt.
+ *
+ * Es werden nur die Felder validiert, die der Bildbetrachter verwendet.
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema für die Kachel-Angaben eines Bildes
+ *
+ * Felder:
+ * - width: Breite einer Kachel in Pixeln (in der jeweiligen Stufe)
+ * - height: Höhe einer Kachel (ohne Angabe: wie width)
+ * - scaleFactors: Verfügbare Verkleinerungsstufen (1 = Originalgröße)
+ */
+export const IiifTileSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive().optional(),
+  scaleFactors: z.array(z.number().int().positive()).min(1),
+});
+
+/**
+ * TypeScript-Typ für die Kachel-Angaben
+ */
+export type IiifTile = z.infer<typeof IiifTileSchema>;
+
+/**
+ * Schema für die Antwort von `info.json`
+ *
+ * Felder:
+ * - @id: Basis-URL des Bildes (für alle Bild-URLs)
+ * - width, height: Originalgröße in Pixeln
+ * - tiles: Kachel-Angaben (ohne Angabe: das Bild wird nicht gekachelt)
+ */
+export const IiifImageInfoSchema = z.object({
+  "@id": z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  tiles: z.array(IiifTileSchema).optional(),
+});
+
+/**
+ * TypeScript-Typ für die Bildinformationen
+ */
+export type IiifImageInfo = z.infer<typeof IiifImageInfoSchema>;
@@ -2,19 +2,34 @@
  * Zod Schema für die Validierung von Notizen zu Kunstwerken
  *
  * Dieses Schema definiert die Struktur für benutzerdefinierten Notizen,
- * die zu gespeicherten Kunstwerken hinzugefügt werden können.
+ * die zu gespeicherten Kunstwerken hinzugefügt werden können. Jedes
+ * gespeicherte Kunstwerk hat eine Liste datierter Notiz-Einträge (Markdown);
+ * jeder Eintrag bewahrt seine früheren Fassungen als Verlauf auf.
  *
  * FR010: Aktualisieren – Notizen pro Kunstwerk
  */
 
 import { z } from "zod";
+import { ThumbnailSchema } from "./artworkSchema";
+import { TagListSchema } from "./tagSchema";
+
+/**
+ * Maximale Länge eines Notiz-Eintrags (Markdown-Quelltext)
+ */
+export const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * Maximale Anzahl früherer Fassungen pro Notiz-Eintrag
+ * (ältere Fassungen werden beim Speichern verworfen)
+ */
+export const MAX_NOTE_HISTORY = 50;
 
 /**
  * Schema für eine Notiz
  *
  * Felder:
  * - artworkId: ID des zugehörigen Kunstwerks
- * - note: Der Notiztext (maximal 500 Zeichen)
+ * - note: Der Notiztext (Markdown, maximal 2000 Zeichen)
  */
 export const NoteSchema = z.object({
   // Die ID des Kunstwerks, zu dem diese Notiz gehört
@@ -22,12 +37,16 @@ export const NoteSchema = z.object({
 
   // Der Notiztext mit Validierung:
   // - Muss ein String sein
-  // - Maximal 500 Zeichen lang
-  // - Standardwert ist ein leerer String
+  // - Darf nicht leer sein
+  // - Maximal 2000 Zeichen lang
   note: z
     .string()
-    .max(500, "Notiz darf maximal 500 Zeichen lang sein")
-    .default(""),
+    .trim()
+    .min(1, "Notiz darf nicht leer sein")
+    .max(
+      MAX_NOTE_LENGTH,
+      `Notiz darf maximal ${MAX_NOTE_LENGTH} Zeichen lang sein`,
+    ),
 });
 
 /**
@@ -36,15 +55,60 @@ export const NoteSchema = z.object({
  */
 export type Note = z.infer<typeof NoteSchema>;
 
+/**
+ * Schema für eine frühere Fassung eines Notiz-Eintrags
+ *
+ * Felder:
+ * - text: Der damalige Text
+ * - editedAt: Zeitpunkt, zu dem diese Fassung gespeichert wurde (ISO-String)
+ */
+export const NoteRevisionSchema = z.object({
+  text: z.string(),
+  editedAt: z.string(),
+});
+
+/**
+ * TypeScript-Typ für frühere Fassungen
+ */
+export type NoteRevision = z.infer<typeof NoteRevisionSchema>;
+
+/**
+ * Schema für einen Notiz-Eintrag
+ *
+ * Felder:
+ * - id: Eindeutige ID des Eintrags
+ * - text: Der aktuelle Text (Markdown)
+ * - createdAt: Zeitpunkt der Erstellung (ISO-String)
+ * - updatedAt: Zeitpunkt der letzten Änderung (ISO-String)
+ * - history: Frühere Fassungen, die älteste zuerst
+ */
+export const NoteEntrySchema = z.object({
+  id: z.string().min(1),
+  text: z.string().max(MAX_NOTE_LENGTH),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  history: z.array(NoteRevisionSchema).default([]),
+});
+
+/**
+ * TypeScript-Typ für Notiz-Einträge
+ */
+export type NoteEntry = z.infer<typeof NoteEntrySchema>;
+
 /**
  * Schema für ein gespeichertes Kunstwerk mit Notiz
  *
- * Kombiniert die Artwork-Daten mit der zugehörigen Notiz
+ * Kombiniert die Artwork-Daten mit der zugehörigen Notiz. Ein Eintrag ist
+ * eindeutig über Sammlung und Artwork-ID; dasselbe Kunstwerk kann in
+ * mehreren Sammlungen mit unterschiedlichen Notizen gespeichert sein.
  */
 export const SavedArtworkSchema = z.object({
   // Artwork-ID
   id: z.number(),
 
+  // Sammlung, in der das Kunstwerk gespeichert ist
+  collectionId: z.string().min(1),
+
   // Artwork-Daten
   title: z.string(),
   artist_title: z.string().nullable(),
@@ -53,9 +117,16 @@ export const SavedArtworkSchema = z.object({
   medium_display: z.string().nullable().optional(),
   place_of_origin: z.string().nullable().optional(),
   dimensions: z.string().nullable().optional(),
+  thumbnail: ThumbnailSchema.nullable().optional(),
+
+  // Notiz-Einträge des Benutzers (in der Reihenfolge ihrer Erstellung)
+  notes: z.array(NoteEntrySchema).default([]),
+
+  // Tags zur thematischen Gruppierung (normalisiert, ohne Duplikate)
+  tags: TagListSchema.default([]).transform((tags) => [...new Set(tags)]),
 
-  // Benutzernotiz
-  note: z.string().default(""),
+  // Zeitpunkt des Hinzufügens (ISO-String, bestimmt die Reihenfolge)
+  addedAt: z.string(),
 });
 
 /**
@@ -0,0 +1,79 @@
+/**
+ * Zod Schema für gespeicherte Suchen
+ *
+ * Eine gespeicherte Suche merkt sich Suchbegriff und Filter unter einem
+ * Namen sowie die Kunstwerke, die bei ihren Prüfungen gefunden wurden.
+ * So lässt sich bei jeder weiteren Prüfung zeigen, welche Treffer seit dem
+ * letzten Besuch neu hinzugekommen sind (siehe savedSearches.ts).
+ */
+
+import { z } from "zod";
+import { SearchFiltersSchema } from "./searchFilterSchema";
+
+/**
+ * Maximale Länge des Namens einer gespeicherten Suche
+ */
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+
+/**
+ * Schema für den Namen einer gespeicherten Suche
+ */
+export const SavedSearchNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name darf nicht leer sein")
+  .max(
+    MAX_SAVED_SEARCH_NAME_LENGTH,
+    `Name darf maximal ${MAX_SAVED_SEARCH_NAME_LENGTH} Zeichen lang sein`,
+  );
+
+/**
+ * Schema für eine Prüfung (einen Lauf) einer gespeicherten Suche
+ *
+ * Felder:
+ * - checkedAt: Zeitpunkt der Prüfung (ms seit 1970)
+ * - total: Gesamtanzahl der Treffer laut API
+ * - ids: Die geprüften Kunstwerke (die ersten Treffer, siehe MAX_TRACKED_RESULTS)
+ * - newCount: Anzahl der Treffer, die dabei zum ersten Mal gefunden wurden
+ */
+export const SavedSearchRunSchema = z.object({
+  checkedAt: z.number(),
+  total: z.number().int().nonnegative(),
+  ids: z.array(z.number().int().positive()),
+  newCount: z.number().int().nonnegative(),
+});
+
+/**
+ * Schema für eine gespeicherte Suche
+ *
+ * Felder:
+ * - id: Eindeutige ID
+ * - name: Anzeigename (z.B. "Neue Monets")
+ * - query: Suchbegriff (kann bei aktiven Filtern leer sein)
+ * - filters: Die Suchfilter
+ * - createdAt: Zeitpunkt des Speicherns (ms seit 1970)
+ * - seenIds: Kunstwerke, die der Benutzer bereits kennt (Treffer der ersten
+ *   Prüfung und alle als gesehen markierten)
+ * - newIds: Treffer der letzten Prüfung, die noch nicht gesehen wurden
+ * - runs: Die letzten Prüfungen, neueste zuerst (leer: noch nie geprüft)
+ */
+export const SavedSearchSchema = z.object({
+  id: z.string().min(1),
+  name: SavedSearchNameSchema,
+  query: z.string().trim(),
+  filters: SearchFiltersSchema,
+  createdAt: z.number(),
+  seenIds: z.array(z.number().int().positive()).default([]),
+  newIds: z.array(z.number().int().positive()).default([]),
+  runs: z.array(SavedSearchRunSchema).default([]),
+});
+
+/**
+ * TypeScript-Typ für eine Prüfung einer gespeicherten Suche
+ */
+export type SavedSearchRun = z.infer<typeof SavedSearchRunSchema>;
+
+/**
+ * TypeScript-Typ für eine gespeicherte Suche
+ */
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
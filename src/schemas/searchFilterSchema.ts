@@ -0,0 +1,76 @@
+/**
+ * Zod Schema für strukturierte Suchfilter
+ *
+ * Dieses Schema beschreibt die erweiterten Filter der Kunstwerk-Suche.
+ * Die Filter werden in artworkApi.ts in die Elasticsearch Query DSL
+ * der AIC API übersetzt und in der URL gespeichert (siehe searchParams.ts).
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema für die Suchfilter
+ *
+ * Felder:
+ * - dateStart: Frühestes Entstehungsjahr (vergleicht mit date_start, optional)
+ * - dateEnd: Spätestes Entstehungsjahr (vergleicht mit date_end, optional)
+ * - publicDomainOnly: Nur gemeinfreie Werke (optional)
+ * - hasImageOnly: Nur Werke mit Bild (optional)
+ * - artworkType: Objekttyp, z.B. "Painting" (optional)
+ * - department: Abteilung des Museums, z.B. "Arts of Asia" (optional)
+ * - placeOfOrigin: Herkunftsort, z.B. "France" (optional)
+ */
+export const SearchFiltersSchema = z
+  .object({
+    // Jahreszahlen (negative Werte = v. Chr.)
+    dateStart: z.number().int().optional(),
+    dateEnd: z.number().int().optional(),
+
+    // Schalter
+    publicDomainOnly: z.boolean().optional(),
+    hasImageOnly: z.boolean().optional(),
+
+    // Freitext-Filter (exakte Phrase)
+    artworkType: z.string().trim().min(1).optional(),
+    department: z.string().trim().min(1).optional(),
+    placeOfOrigin: z.string().trim().min(1).optional(),
+  })
+  .refine(
+    (filters) =>
+      filters.dateStart === undefined ||
+      filters.dateEnd === undefined ||
+      filters.dateStart <= filters.dateEnd,
+    {
+      message: "Das Startjahr darf nicht nach dem Endjahr liegen",
+      path: ["dateEnd"],
+    },
+  );
+
+/**
+ * TypeScript-Typ für die Suchfilter
+ *
+ * FR012: Typsicherer Status
+ */
+export type SearchFilters = z.infer<typeof SearchFiltersSchema>;
+
+/**
+ * Zählt die gesetzten Filter
+ *
+ * @param filters - Die zu prüfenden Filter
+ * @returns Anzahl der aktiven Filter
+ */
+export function countActiveFilters(filters: SearchFilters): number {
+  return Object.values(filters).filter(
+    (value) => value !== undefined && value !== false,
+  ).length;
+}
+
+/**
+ * Prüft, ob mindestens ein Filter gesetzt ist
+ *
+ * @param filters - Die zu prüfenden Filter
+ * @returns true, wenn ein Filter aktiv ist
+ */
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return countActiveFilters(filters) > 0;
+}
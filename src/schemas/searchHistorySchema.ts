@@ -0,0 +1,34 @@
+/**
+ * Zod Schema für den Suchverlauf
+ *
+ * Der Verlauf wird im LocalStorage gespeichert und beim Lesen validiert;
+ * ungültige Einträge werden verworfen.
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema für einen Eintrag im Suchverlauf
+ */
+export const SearchHistoryEntrySchema = z.object({
+  /**
+   * Der Suchbegriff (wie abgeschickt, ohne Leerzeichen am Rand)
+   */
+  query: z.string().trim().min(1),
+
+  /**
+   * Zeitpunkt der letzten Suche mit diesem Begriff (ms seit 1970)
+   */
+  lastUsed: z.number(),
+
+  /**
+   * Angeheftete Einträge bleiben beim Löschen des Verlaufs erhalten
+   * und werden zuerst angezeigt
+   */
+  pinned: z.boolean().default(false),
+});
+
+/**
+ * TypeScript-Typ für einen Eintrag im Suchverlauf
+ */
+export type SearchHistoryEntry = z.infer<typeof SearchHistoryEntrySchema>;
@@ -0,0 +1,25 @@
+/**
+ * Zod Schema für die Darstellung der Suchergebnisse
+ *
+ * Die gewählte Darstellung wird im LocalStorage gespeichert und beim
+ * Lesen validiert; unbekannte Werte fallen auf die Standarddarstellung zurück.
+ */
+
+import { z } from "zod";
+
+/**
+ * Darstellung der Suchergebnisse
+ * - pages: Seitenweise mit "Zurück"/"Weiter" (Standard)
+ * - scroll: Endlos-Scrollen; weitere Ergebnisse werden beim Scrollen geladen
+ */
+export const SearchModeSchema = z.enum(["pages", "scroll"]);
+
+/**
+ * TypeScript-Typ für die Darstellung der Suchergebnisse
+ */
+export type SearchMode = z.infer<typeof SearchModeSchema>;
+
+/**
+ * Standarddarstellung der Suchergebnisse
+ */
+export const DEFAULT_SEARCH_MODE: SearchMode = "pages";
@@ -0,0 +1,54 @@
+/**
+ * Zod Schema für Tags gespeicherter Kunstwerke
+ *
+ * Tags werden normalisiert gespeichert (ohne Leerzeichen am Rand, in
+ * Kleinbuchstaben), damit "Impressionismus" und "impressionismus " als
+ * derselbe Tag gelten.
+ */
+
+import { z } from "zod";
+
+/**
+ * Maximale Länge eines Tags
+ */
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Maximale Anzahl Tags pro gespeichertem Kunstwerk
+ */
+export const MAX_TAGS_PER_ARTWORK = 20;
+
+/**
+ * Schema für einen einzelnen Tag
+ *
+ * Kommas sind nicht erlaubt, weil sie bei der Eingabe Tags trennen.
+ */
+export const TagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tag darf nicht leer sein")
+  .max(MAX_TAG_LENGTH, `Tag darf maximal ${MAX_TAG_LENGTH} Zeichen lang sein`)
+  .refine((tag) => !tag.includes(","), "Tag darf kein Komma enthalten");
+
+/**
+ * Schema für die Tags eines gespeicherten Kunstwerks
+ */
+export const TagListSchema = z
+  .array(TagSchema)
+  .max(
+    MAX_TAGS_PER_ARTWORK,
+    `Maximal ${MAX_TAGS_PER_ARTWORK} Tags pro Kunstwerk`,
+  );
+
+/**
+ * Verknüpfung mehrerer Tags beim Filtern
+ * - all: Kunstwerk muss alle gewählten Tags haben (UND)
+ * - any: Kunstwerk muss mindestens einen gewählten Tag haben (ODER)
+ */
+export const TagMatchModeSchema = z.enum(["all", "any"]);
+
+/**
+ * TypeScript-Typ für die Verknüpfung beim Filtern
+ */
+export type TagMatchMode = z.infer<typeof TagMatchModeSchema>;
@@ -0,0 +1,57 @@
+/**
+ * Zod Schema für den Papierkorb der Galerie
+ *
+ * Entfernte Kunstwerke werden nicht sofort gelöscht, sondern mitsamt
+ * Notizen und Tags in den Papierkorb verschoben. Dort bleiben sie für eine
+ * einstellbare Aufbewahrungsdauer wiederherstellbar; danach werden sie
+ * beim nächsten Laden endgültig entfernt.
+ */
+
+import { z } from "zod";
+import { SavedArtworkSchema } from "./noteSchema";
+import { CollectionSchema } from "./collectionSchema";
+
+/**
+ * Wählbare Aufbewahrungsdauern (in Tagen)
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90] as const;
+
+/**
+ * Standard-Aufbewahrungsdauer (in Tagen)
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS: TrashRetention = 30;
+
+/**
+ * Schema für die Aufbewahrungsdauer (in Tagen)
+ */
+export const TrashRetentionSchema = z.literal(TRASH_RETENTION_OPTIONS);
+
+/**
+ * TypeScript-Typ für die Aufbewahrungsdauer
+ */
+export type TrashRetention = z.infer<typeof TrashRetentionSchema>;
+
+/**
+ * Schema für einen Eintrag im Papierkorb
+ *
+ * Felder:
+ * - id: Eindeutige ID des Papierkorb-Eintrags
+ * - item: Der entfernte Eintrag (mit Notizen und Tags)
+ * - collection: Die Sammlung zum Zeitpunkt des Entfernens (wird beim
+ *   Wiederherstellen neu angelegt, falls sie inzwischen fehlt)
+ * - position: Position in der eigenen Reihenfolge der Sammlung
+ *   (null: nicht einsortiert)
+ * - deletedAt: Zeitpunkt des Entfernens (ISO-String)
+ */
+export const TrashedEntrySchema = z.object({
+  id: z.string(),
+  item: SavedArtworkSchema,
+  collection: CollectionSchema,
+  position: z.number().int().nonnegative().nullable(),
+  deletedAt: z.string(),
+});
+
+/**
+ * TypeScript-Typ für Papierkorb-Einträge
+ */
+export type TrashedEntry = z.infer<typeof TrashedEntrySchema>;
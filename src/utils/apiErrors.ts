@@ -0,0 +1,178 @@
+/**
+ * Fehlerklassen für den Zugriff auf die Kunstwerk-API
+ *
+ * Statt jeden Fehler in einen generischen Error zu verpacken, wirft der
+ * API-Layer unterscheidbare Fehlertypen. Die UI kann damit gezielte
+ * Meldungen anzeigen und entscheiden, ob ein erneuter Versuch sinnvoll ist.
+ *
+ * - NetworkError: Keine Verbindung / Request fehlgeschlagen
+ * - HttpError: Antwort mit Fehlerstatus (4xx/5xx)
+ * - NotFoundError: Status 404
+ * - RateLimitError: Status 429 (mit Wartezeit aus Retry-After)
+ * - ValidationError: Antwort passt nicht zum Zod-Schema
+ */
+
+import { z } from "zod";
+
+/**
+ * Basisklasse für alle API-Fehler
+ */
+export class ApiError extends Error {
+  /**
+   * Gibt an, ob ein erneuter Versuch erfolgreich sein könnte
+   */
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    options: { retryable?: boolean; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ApiError";
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * Die Anfrage konnte nicht gesendet werden (z.B. offline, DNS, CORS)
+ */
+export class NetworkError extends ApiError {
+  constructor(cause?: unknown) {
+    super(
+      "Keine Verbindung zur API. Bitte prüfen Sie Ihre Internetverbindung.",
+      { retryable: true, cause },
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Die API hat mit einem Fehlerstatus geantwortet
+ */
+export class HttpError extends ApiError {
+  /**
+   * HTTP-Statuscode der Antwort
+   */
+  readonly status: number;
+
+  /**
+   * HTTP-Statustext der Antwort
+   */
+  readonly statusText: string;
+
+  constructor(
+    status: number,
+    statusText: string,
+    options: { message?: string; retryable?: boolean } = {},
+  ) {
+    super(
+      options.message ??
+        (status >= 500
+          ? `Der Server des Art Institute ist vorübergehend nicht erreichbar (Status ${status}).`
+          : `Die Anfrage wurde von der API abgelehnt (Status ${status} ${statusText}).`),
+      // Serverfehler sind meist vorübergehend, Clientfehler nicht
+      { retryable: options.retryable ?? status >= 500 },
+    );
+    this.name = "HttpError";
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+/**
+ * Das angefragte Kunstwerk existiert nicht (Status 404)
+ */
+export class NotFoundError extends HttpError {
+  constructor(statusText: string = "Not Found") {
+    super(404, statusText, { message: "Das Kunstwerk wurde nicht gefunden." });
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Zu viele Anfragen in kurzer Zeit (Status 429)
+ */
+export class RateLimitError extends HttpError {
+  /**
+   * Wartezeit bis zum nächsten Versuch in Millisekunden (aus Retry-After),
+   * null wenn die API keine Angabe macht
+   */
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    retryAfterMs: number | null,
+    statusText: string = "Too Many Requests",
+  ) {
+    super(429, statusText, {
+      message:
+        retryAfterMs !== null
+          ? `Zu viele Anfragen. Bitte warten Sie ${Math.ceil(retryAfterMs / 1000)} Sekunden.`
+          : "Zu viele Anfragen. Bitte warten Sie einen Moment.",
+      retryable: true,
+    });
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Die Antwort der API entspricht nicht dem erwarteten Schema
+ */
+export class ValidationError extends ApiError {
+  /**
+   * Die Validierungsprobleme aus Zod
+   */
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(issues: z.core.$ZodIssue[]) {
+    super("Die Antwort der API hat ein unerwartetes Format.");
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Erzeugt den Fehler, der bei abgebrochenen Anfragen geworfen wird
+ * (entspricht dem Verhalten von fetch mit AbortSignal)
+ */
+export function createAbortError(): DOMException {
+  return new DOMException("Die Anfrage wurde abgebrochen", "AbortError");
+}
+
+/**
+ * Prüft, ob ein Fehler durch einen AbortSignal ausgelöst wurde
+ *
+ * Abgebrochene Anfragen sind kein Fehlerfall und sollten nicht angezeigt werden.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "AbortError"
+  );
+}
+
+/**
+ * Wandelt einen beliebigen Fehler in einen ApiError um
+ *
+ * @param error - Der abgefangene Fehler
+ * @returns Der ursprüngliche ApiError oder ein passender neuer Fehler
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof z.ZodError) {
+    return new ValidationError(error.issues);
+  }
+
+  // fetch wirft TypeError bei Netzwerkproblemen
+  if (error instanceof TypeError) {
+    return new NetworkError(error);
+  }
+
+  return new ApiError("Ein unbekannter Fehler ist aufgetreten", {
+    cause: error,
+  });
+}
@@ -1,34 +1,178 @@
 /**
  * API Helper für die Art Institute of Chicago API
  *
- * Dieser Helper stellt Funktionen bereit, um die AIC API abzufragen
- * und die Antworten mit Zod-Schemas zu validieren.
+ * Dieser Helper stellt Funktionen bereit, um Kunstwerke abzufragen.
+ * Die eigentlichen Zugriffe erfolgen über die konfigurierte Datenquelle
+ * (siehe artworkDataSource.ts), die ihre Antworten mit Zod-Schemas validiert.
+ * Alle Antworten werden zwischengespeichert (siehe responseCache.ts).
+ * Fehler werden als typisierte ApiError-Klassen geworfen (siehe apiErrors.ts),
+ * Anfragen lassen sich über ein AbortSignal abbrechen.
  *
  * FR004: API-Abruf mit Validierung
  */
 
-import { ArtworkAPIResponseSchema } from "../schemas/artworkSchema";
 import type { Artwork } from "../schemas/artworkSchema";
+import { IiifImageInfoSchema, type IiifImageInfo } from "../schemas/iiifSchema";
+import {
+  hasActiveFilters,
+  type SearchFilters,
+} from "../schemas/searchFilterSchema";
+import {
+  getConfiguredDataSourceType,
+  type ArtworkDataSource,
+  type ArtworkDataSourceType,
+  type RequestOptions,
+  type SearchResult,
+} from "./artworkDataSource";
+import { createHttpDataSource, fetchJson } from "./httpDataSource";
+import { createFixtureDataSource } from "./fixtureDataSource";
+import {
+  createIndexedDbCacheStore,
+  createResponseCache,
+  type ResponseCache,
+} from "./responseCache";
+import { ValidationError, isAbortError, toApiError } from "./apiErrors";
 
-/**
- * Basis-URL der Art Institute of Chicago API
- */
-const AIC_API_BASE_URL = "https://api.artic.edu/api/v1";
+export type {
+  RequestOptions,
+  RetryState,
+  SearchResult,
+} from "./artworkDataSource";
 
 /**
- * Basis-URL für Bilder
+ * Basis-URL für Bilder (IIIF Image API 2.x)
  * Format: {BASE_URL}/{image_id}/full/843,/0/default.jpg
  */
 const AIC_IMAGE_BASE_URL = "https://www.artic.edu/iiif/2";
 
 /**
- * Rückgabetyp für paginierte Suchergebnisse
+ * Basis-URL der Kunstwerk-Seiten auf der Website des Art Institute
+ */
+const AIC_ARTWORK_PAGE_BASE_URL = "https://www.artic.edu/artworks";
+
+/**
+ * Erstellt die Datenquelle für den angegebenen Typ
+ */
+function createDataSource(type: ArtworkDataSourceType): ArtworkDataSource {
+  return type === "fixtures"
+    ? createFixtureDataSource()
+    : createHttpDataSource();
+}
+
+/**
+ * Aktive Datenquelle (über VITE_ARTWORK_SOURCE konfiguriert)
+ */
+let dataSource: ArtworkDataSource = createDataSource(
+  getConfiguredDataSourceType(),
+);
+
+/**
+ * Standard-Lebensdauer für zwischengespeicherte Antworten (10 Minuten)
+ */
+const DEFAULT_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Cache für alle Antworten der Datenquelle
+ * (Speicher + IndexedDB, siehe responseCache.ts)
+ */
+const artworkCache: ResponseCache = createResponseCache({
+  ttlMs: DEFAULT_CACHE_TTL_MS,
+  persistent: createIndexedDbCacheStore(),
+});
+
+/**
+ * Präfixe der Cache-Schlüssel pro Anfrageart
+ */
+export const CACHE_PREFIX = {
+  search: "search:",
+  artwork: "artwork:",
+  artworks: "artworks:",
+  imageInfo: "image-info:",
+  suggestions: "suggest:",
+} as const;
+
+/**
+ * Erstellt einen normalisierten Cache-Schlüssel
+ *
+ * Gleichwertige Anfragen (z.B. "Monet " und "monet", unterschiedliche
+ * Reihenfolge der Filter) ergeben denselben Schlüssel. Der Name der
+ * Datenquelle ist Teil des Schlüssels, damit sich Fixtures und API nicht mischen.
+ */
+function createCacheKey(
+  prefix: string,
+  params: Record<string, unknown>,
+): string {
+  const normalized = Object.keys(params)
+    .sort()
+    .reduce<Record<string, unknown>>((result, key) => {
+      const value = params[key];
+      if (value !== undefined && value !== false && value !== "") {
+        result[key] = value;
+      }
+      return result;
+    }, {});
+
+  return `${prefix}${dataSource.name}:${JSON.stringify(normalized)}`;
+}
+
+/**
+ * Protokolliert einen Fehler und wandelt ihn in einen ApiError um
+ *
+ * Abbrüche werden unverändert zurückgegeben und nicht protokolliert,
+ * da sie kein Fehlerfall sind.
+ *
+ * @param error - Der abgefangene Fehler
+ * @param context - Beschreibung der Anfrage für das Log
+ * @returns Der Fehler, den der Aufrufer werfen soll
+ */
+function handleApiError(error: unknown, context: string): unknown {
+  if (isAbortError(error)) {
+    return error;
+  }
+
+  const apiError = toApiError(error);
+  console.error(`${context}:`, apiError.message);
+  return apiError;
+}
+
+/**
+ * Ersetzt die aktive Datenquelle
+ *
+ * @param source - Die neue Datenquelle (z.B. createFixtureDataSource() für Tests)
+ */
+export function setArtworkDataSource(source: ArtworkDataSource): void {
+  dataSource = source;
+}
+
+/**
+ * Ändert die Lebensdauer neuer Cache-Einträge
+ *
+ * @param ttlMs - Lebensdauer in Millisekunden
+ */
+export function setArtworkCacheTtl(ttlMs: number): void {
+  artworkCache.setTtl(ttlMs);
+}
+
+/**
+ * Leert den Cache für API-Antworten
+ *
+ * @param prefix - Optional nur Einträge einer Anfrageart (siehe CACHE_PREFIX)
+ *
+ * Beispiel:
+ * ```typescript
+ * await invalidateArtworkCache(CACHE_PREFIX.search); // nur Suchergebnisse
+ * await invalidateArtworkCache(); // alles
+ * ```
  */
-export interface SearchResult {
-  data: Artwork[];
-  total: number;
-  offset: number;
-  limit: number;
+export function invalidateArtworkCache(prefix?: string): Promise<void> {
+  return artworkCache.invalidate(prefix);
+}
+
+/**
+ * Liefert die aktive Datenquelle
+ */
+export function getArtworkDataSource(): ArtworkDataSource {
+  return dataSource;
 }
 
 /**
@@ -37,81 +181,101 @@ export interface SearchResult {
  * @param query - Suchbegriff (z.B. Künstlername, Titel, etc.)
  * @param limit - Maximale Anzahl der Ergebnisse pro Seite (Standard: 20)
  * @param offset - Anzahl der zu übersprungenen Ergebnisse für Pagination (Standard: 0)
+ * @param filters - Optionale strukturierte Filter (Datum, Public Domain, Bild, Typ, ...)
+ * @param options - Optionales AbortSignal zum Abbrechen der Suche und
+ *                  `onRetry`-Callback für erneute Versuche (bei zusammengeführten
+ *                  identischen Anfragen erhält ihn nur der erste Aufrufer)
  * @returns Promise mit Objekt containing Artworks-Array und Metadaten
- * @throws Error wenn die API-Anfrage fehlschlägt oder die Validierung nicht erfolgreich ist
+ * @throws ApiError wenn die API-Anfrage fehlschlägt oder die Validierung nicht erfolgreich ist
+ * @throws AbortError wenn die Anfrage abgebrochen wurde
  *
  * Beispiel:
  * ```typescript
  * const results = await searchArtworks('monet', 20, 0);
  * console.log(results.data); // Array von Artworks
  * console.log(results.total); // Gesamtanzahl aller Ergebnisse
+ *
+ * const paintings = await searchArtworks('monet', 20, 0, {
+ *   artworkType: 'Painting',
+ *   hasImageOnly: true,
+ * });
  * ```
  */
 export async function searchArtworks(
   query: string,
   limit: number = 20,
   offset: number = 0,
+  filters: SearchFilters = {},
+  options: RequestOptions = {},
 ): Promise<SearchResult> {
   try {
-    // Wenn die Suche leer ist, geben wir ein leeres Ergebnis zurück
-    if (!query.trim()) {
+    // Wenn weder Suchbegriff noch Filter vorhanden sind, geben wir ein leeres Ergebnis zurück
+    if (!query.trim() && !hasActiveFilters(filters)) {
       return { data: [], total: 0, offset, limit };
     }
 
-    // Konstruiere die Such-URL mit den erforderlichen Feldern
-    // Die API ermöglicht die Auswahl spezifischer Felder zur Reduzierung der Antwortgröße
-    const fields = [
-      "id",
-      "title",
-      "artist_title",
-      "image_id",
-      "date_display",
-      "medium_display",
-      "place_of_origin",
-      "dimensions",
-    ].join(",");
-
-    const url = new URL(`${AIC_API_BASE_URL}/artworks/search`);
-    url.searchParams.append("q", query);
-    url.searchParams.append("limit", limit.toString());
-    url.searchParams.append("offset", offset.toString());
-    url.searchParams.append("fields", fields);
-
-    // Führe die HTTP-Anfrage aus
-    const response = await fetch(url.toString());
-
-    // Prüfe, ob die Anfrage erfolgreich war
-    if (!response.ok) {
-      throw new Error(
-        `API-Anfrage fehlgeschlagen: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    // Parse das JSON
-    const json = await response.json();
-
-    // Validiere die Antwort mit dem Zod-Schema
-    // Das Schema stellt sicher, dass alle erforderlichen Felder vorhanden sind
-    // und fügt Standardwerte für fehlende optionale Felder hinzu
-    const validatedResponse = ArtworkAPIResponseSchema.parse(json);
-
-    // Gib Daten mit Metadaten zurück
-    return {
-      data: validatedResponse.data,
-      total: json.pagination?.total || 0,
-      offset,
+    // Normalisierte Parameter als Cache-Schlüssel
+    const key = createCacheKey(CACHE_PREFIX.search, {
+      query: query.trim().toLowerCase(),
       limit,
-    };
+      offset,
+      ...filters,
+    });
+
+    return await artworkCache.get(
+      key,
+      (signal) =>
+        dataSource.search(query.trim(), limit, offset, filters, {
+          signal,
+          onRetry: options.onRetry,
+        }),
+      options.signal,
+    );
   } catch (error) {
     // Bei Validierungsfehlern oder Netzwerkfehlern
-    if (error instanceof Error) {
-      console.error("Fehler beim Abrufen der Kunstwerke:", error.message);
-      throw new Error(
-        `Kunstwerke konnten nicht geladen werden: ${error.message}`,
-      );
+    throw handleApiError(error, "Fehler beim Abrufen der Kunstwerke");
+  }
+}
+
+/**
+ * Liefert Suchvorschläge (Titel und Künstlernamen) für eine Eingabe
+ *
+ * @param query - Die bisherige Eingabe im Suchfeld
+ * @param limit - Maximale Anzahl der Vorschläge (Standard: 8)
+ * @param options - Optionales AbortSignal zum Abbrechen der Anfrage
+ *                  (z.B. wenn der Benutzer weitertippt)
+ * @returns Promise mit den Vorschlägen (leer, wenn die Eingabe leer ist)
+ * @throws ApiError wenn die Anfrage fehlschlägt oder die Antwort ungültig ist
+ *
+ * Beispiel:
+ * ```typescript
+ * const suggestions = await getSearchSuggestions('mon');
+ * // ["Claude Monet", "Monet's Garden", ...]
+ * ```
+ */
+export async function getSearchSuggestions(
+  query: string,
+  limit: number = 8,
+  options: RequestOptions = {},
+): Promise<string[]> {
+  try {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) {
+      return [];
     }
 
-    throw new Error("Ein unbekannter Fehler ist aufgetreten");
+    const key = createCacheKey(CACHE_PREFIX.suggestions, {
+      query: normalized,
+      limit,
+    });
+
+    return await artworkCache.get(
+      key,
+      (signal) => dataSource.suggest(normalized, limit, { signal }),
+      options.signal,
+    );
+  } catch (error) {
+    throw handleApiError(error, "Fehler beim Abrufen der Suchvorschläge");
   }
 }
 
@@ -136,59 +300,169 @@ export function getImageUrl(
     return null;
   }
 
-  return `${AIC_IMAGE_BASE_URL}/${imageId}/full/${size},/0/default.jpg`;
+  return `${getImageServiceUrl(imageId)}/full/${size},/0/default.jpg`;
+}
+
+/**
+ * Bildbreiten, die als Varianten für `srcset` angeboten werden
+ * (die vom Bildserver vorgehaltenen Größen)
+ */
+export const IMAGE_WIDTHS = [200, 400, 600, 843, 1686] as const;
+
+/**
+ * Erstellt ein `srcset` mit mehreren Breiten eines Bildes
+ *
+ * Der Browser wählt daraus zusammen mit `sizes` die kleinste Variante,
+ * die für die angezeigte Größe und die Pixeldichte genügt.
+ *
+ * @param imageId - Die image_id des Kunstwerks
+ * @param widths - Die angebotenen Breiten in Pixeln (Standard: IMAGE_WIDTHS)
+ * @returns Das `srcset` oder null wenn keine image_id vorhanden ist
+ *
+ * Beispiel:
+ * ```typescript
+ * const srcSet = getImageSrcSet('abc123', [200, 400]);
+ * // Ergebnis: "https://www.artic.edu/iiif/2/abc123/full/200,/0/default.jpg 200w, …/full/400,/0/default.jpg 400w"
+ * ```
+ */
+export function getImageSrcSet(
+  imageId: string | null,
+  widths: readonly number[] = IMAGE_WIDTHS,
+): string | null {
+  if (!imageId) {
+    return null;
+  }
+
+  return widths
+    .map((width) => `${getImageUrl(imageId, width)} ${width}w`)
+    .join(", ");
+}
+
+/**
+ * Erstellt die Basis-URL eines Bildes auf dem IIIF-Bildserver
+ *
+ * @param imageId - Die image_id des Kunstwerks
+ * @returns Die URL, z.B. "https://www.artic.edu/iiif/2/abc123"
+ */
+export function getImageServiceUrl(imageId: string): string {
+  return `${AIC_IMAGE_BASE_URL}/${imageId}`;
+}
+
+/**
+ * Ruft die Bildinformationen (Originalgröße, Kacheln) vom IIIF-Bildserver ab
+ *
+ * @param imageId - Die image_id des Kunstwerks
+ * @param options - Optionales AbortSignal zum Abbrechen der Anfrage
+ * @returns Promise mit den validierten Bildinformationen
+ * @throws ApiError wenn die Anfrage fehlschlägt oder die Antwort ungültig ist
+ *
+ * Die Bildinformationen werden wie die API-Antworten zwischengespeichert.
+ */
+export async function getImageInfo(
+  imageId: string,
+  options: RequestOptions = {},
+): Promise<IiifImageInfo> {
+  try {
+    const key = createCacheKey(CACHE_PREFIX.imageInfo, { id: imageId });
+
+    return await artworkCache.get(
+      key,
+      async (signal) => {
+        const result = IiifImageInfoSchema.safeParse(
+          await fetchJson(`${getImageServiceUrl(imageId)}/info.json`, signal),
+        );
+
+        if (!result.success) {
+          throw new ValidationError(result.error.issues);
+        }
+
+        return result.data;
+      },
+      options.signal,
+    );
+  } catch (error) {
+    throw handleApiError(error, "Fehler beim Abrufen der Bildinformationen");
+  }
+}
+
+/**
+ * Erstellt die URL der Seite eines Kunstwerks beim Art Institute of Chicago
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @returns Die URL, z.B. "https://www.artic.edu/artworks/27992"
+ */
+export function getArtworkPageUrl(artworkId: number): string {
+  return `${AIC_ARTWORK_PAGE_BASE_URL}/${artworkId}`;
 }
 
 /**
  * Ruft Details zu einem spezifischen Kunstwerk ab
  *
  * @param artworkId - Die ID des Kunstwerks
+ * @param options - Optionales AbortSignal zum Abbrechen der Anfrage
  * @returns Promise mit dem validierten Artwork-Objekt
- * @throws Error wenn die API-Anfrage fehlschlägt oder die Validierung nicht erfolgreich ist
+ * @throws NotFoundError wenn das Kunstwerk nicht existiert
+ * @throws ApiError wenn die API-Anfrage fehlschlägt oder die Validierung nicht erfolgreich ist
  *
  * Beispiel:
  * ```typescript
  * const artwork = await getArtworkById(123456);
  * ```
  */
-export async function getArtworkById(artworkId: number): Promise<Artwork> {
+export async function getArtworkById(
+  artworkId: number,
+  options: RequestOptions = {},
+): Promise<Artwork> {
   try {
-    const fields = [
-      "id",
-      "title",
-      "artist_title",
-      "image_id",
-      "date_display",
-      "medium_display",
-      "place_of_origin",
-      "dimensions",
-    ].join(",");
-
-    const url = `${AIC_API_BASE_URL}/artworks/${artworkId}?fields=${fields}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(
-        `API-Anfrage fehlgeschlagen: ${response.status} ${response.statusText}`,
-      );
-    }
+    const key = createCacheKey(CACHE_PREFIX.artwork, { id: artworkId });
 
-    const json = await response.json();
+    return await artworkCache.get(
+      key,
+      (signal) =>
+        dataSource.getById(artworkId, { signal, onRetry: options.onRetry }),
+      options.signal,
+    );
+  } catch (error) {
+    throw handleApiError(error, "Fehler beim Abrufen des Kunstwerks");
+  }
+}
 
-    // Validiere das einzelne Artwork
-    const validatedArtwork = ArtworkAPIResponseSchema.parse({
-      data: [json.data],
-    });
+/**
+ * Ruft mehrere Kunstwerke in einer Anfrage ab
+ *
+ * @param artworkIds - Die IDs der Kunstwerke
+ * @param options - Optionales AbortSignal zum Abbrechen der Anfrage
+ * @returns Promise mit den validierten Artworks in der Reihenfolge der IDs
+ *          (unbekannte IDs werden ausgelassen)
+ * @throws ApiError wenn die API-Anfrage fehlschlägt oder die Validierung nicht erfolgreich ist
+ *
+ * Beispiel:
+ * ```typescript
+ * const artworks = await getArtworksByIds([27992, 28560]);
+ * ```
+ */
+export async function getArtworksByIds(
+  artworkIds: number[],
+  options: RequestOptions = {},
+): Promise<Artwork[]> {
+  try {
+    // Schlüssel unabhängig von Reihenfolge und Duplikaten
+    const uniqueIds = [...new Set(artworkIds)].sort((a, b) => a - b);
+    const key = createCacheKey(CACHE_PREFIX.artworks, { ids: uniqueIds });
 
-    return validatedArtwork.data[0];
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error("Fehler beim Abrufen des Kunstwerks:", error.message);
-      throw new Error(
-        `Kunstwerk konnte nicht geladen werden: ${error.message}`,
-      );
-    }
+    const artworks = await artworkCache.get(
+      key,
+      (signal) =>
+        dataSource.getByIds(uniqueIds, { signal, onRetry: options.onRetry }),
+      options.signal,
+    );
 
-    throw new Error("Ein unbekannter Fehler ist aufgetreten");
+    // Reihenfolge der angefragten IDs wiederherstellen
+    const byId = new Map(artworks.map((artwork) => [artwork.id, artwork]));
+    return artworkIds
+      .map((id) => byId.get(id))
+      .filter((artwork): artwork is Artwork => artwork !== undefined);
+  } catch (error) {
+    throw handleApiError(error, "Fehler beim Abrufen der Kunstwerke");
   }
 }
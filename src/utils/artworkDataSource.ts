@@ -0,0 +1,132 @@
+/**
+ * Datenquellen-Schnittstelle für Kunstwerke
+ *
+ * Alle Zugriffe auf Kunstwerk-Daten laufen über ein ArtworkDataSource-Objekt.
+ * So kann die Anwendung wahlweise gegen die echte AIC API (httpDataSource.ts)
+ * oder gegen lokale Fixtures (fixtureDataSource.ts) laufen, z.B. für Demos
+ * ohne Netzwerk oder deterministische Tests.
+ *
+ * Auswahl über die Vite-Umgebungsvariable `VITE_ARTWORK_SOURCE`
+ * ("http" oder "fixtures", Standard: "http").
+ */
+
+import type { Artwork } from "../schemas/artworkSchema";
+import type { SearchFilters } from "../schemas/searchFilterSchema";
+import type { ApiError } from "./apiErrors";
+
+/**
+ * Rückgabetyp für paginierte Suchergebnisse
+ */
+export interface SearchResult {
+  data: Artwork[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Zustand eines erneuten Versuchs nach einem vorübergehenden Fehler
+ */
+export interface RetryState {
+  /**
+   * Nummer des fehlgeschlagenen Versuchs (beginnend bei 1)
+   */
+  attempt: number;
+
+  /**
+   * Maximale Anzahl erneuter Versuche
+   */
+  maxRetries: number;
+
+  /**
+   * Wartezeit bis zum nächsten Versuch in Millisekunden
+   */
+  delayMs: number;
+
+  /**
+   * Der Fehler, der den erneuten Versuch ausgelöst hat
+   */
+  error: ApiError;
+}
+
+/**
+ * Optionen für einzelne Anfragen
+ */
+export interface RequestOptions {
+  /**
+   * Signal zum Abbrechen der Anfrage (z.B. wenn eine neuere Suche startet)
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Wird aufgerufen, bevor eine fehlgeschlagene Anfrage wiederholt wird
+   */
+  onRetry?: (state: RetryState) => void;
+}
+
+/**
+ * Schnittstelle, die jede Datenquelle implementieren muss
+ *
+ * Implementierungen validieren ihre Daten selbst mit den Zod-Schemas
+ * und werfen bei Fehlern einen ApiError (siehe apiErrors.ts). Abgebrochene
+ * Anfragen werden mit einem AbortError abgelehnt.
+ */
+export interface ArtworkDataSource {
+  /**
+   * Name der Datenquelle (für Logging und Debugging)
+   */
+  readonly name: string;
+
+  /**
+   * Sucht Kunstwerke mit Pagination und optionalen Filtern
+   */
+  search(
+    query: string,
+    limit: number,
+    offset: number,
+    filters: SearchFilters,
+    options?: RequestOptions,
+  ): Promise<SearchResult>;
+
+  /**
+   * Liefert ein einzelnes Kunstwerk mit allen Detail-Metadaten
+   */
+  getById(artworkId: number, options?: RequestOptions): Promise<Artwork>;
+
+  /**
+   * Liefert mehrere Kunstwerke in der Reihenfolge der übergebenen IDs
+   * (unbekannte IDs werden ausgelassen)
+   */
+  getByIds(artworkIds: number[], options?: RequestOptions): Promise<Artwork[]>;
+
+  /**
+   * Liefert Suchvorschläge (Titel und Künstlernamen) für eine Eingabe
+   */
+  suggest(
+    query: string,
+    limit: number,
+    options?: RequestOptions,
+  ): Promise<string[]>;
+}
+
+/**
+ * Verfügbare Datenquellen-Typen
+ */
+export type ArtworkDataSourceType = "http" | "fixtures";
+
+/**
+ * Liest den konfigurierten Datenquellen-Typ aus der Vite-Umgebung
+ *
+ * @returns "fixtures", wenn VITE_ARTWORK_SOURCE=fixtures gesetzt ist, sonst "http"
+ */
+export function getConfiguredDataSourceType(): ArtworkDataSourceType {
+  const configured = import.meta.env.VITE_ARTWORK_SOURCE;
+
+  if (configured && configured !== "http" && configured !== "fixtures") {
+    console.warn(
+      `Unbekannte Datenquelle "${configured}", verwende stattdessen "http"`,
+    );
+  }
+
+  return configured === "fixtures" ? "fixtures" : "http";
+}
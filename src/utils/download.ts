@@ -0,0 +1,24 @@
+/**
+ * Helper zum Herunterladen erzeugter Dateien im Browser
+ */
+
+/**
+ * Bietet einen Text als Datei zum Herunterladen an
+ *
+ * @param content - Der Inhalt der Datei
+ * @param fileName - Der vorgeschlagene Dateiname
+ * @param type - Der MIME-Typ (z.B. "application/json")
+ */
+export function downloadFile(
+  content: string,
+  fileName: string,
+  type: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from "vitest";
+import { NotFoundError, ValidationError } from "./apiErrors";
+import { createFixtureDataSource } from "./fixtureDataSource";
+
+const FIXTURES = [
+  {
+    id: 1,
+    title: "Water Lilies",
+    artist_title: "Claude Monet",
+    image_id: "a",
+    medium_display: "Oil on canvas",
+    place_of_origin: "France",
+    artwork_type_title: "Painting",
+    department_title: "Painting and Sculpture of Europe",
+    is_public_domain: true,
+    date_start: 1906,
+    date_end: 1906,
+  },
+  {
+    id: 2,
+    title: "The Bedroom",
+    artist_title: "Vincent van Gogh",
+    image_id: "b",
+    medium_display: "Oil on canvas",
+    place_of_origin: "France",
+    artwork_type_title: "Painting",
+    department_title: "Painting and Sculpture of Europe",
+    is_public_domain: true,
+    date_start: 1889,
+    date_end: 1889,
+  },
+  {
+    id: 3,
+    title: "Lilies by the Water",
+    artist_title: "Unbekannt",
+    image_id: null,
+    medium_display: "Woodblock print",
+    place_of_origin: "Japan",
+    artwork_type_title: "Print",
+    department_title: "Arts of Asia",
+    is_public_domain: false,
+    date_start: 1830,
+    date_end: 1835,
+  },
+  {
+    id: 4,
+    title: "Untitled (Japan)",
+    artist_title: "Anonym",
+    image_id: "d",
+    medium_display: "Oil on canvas",
+    place_of_origin: "Japan",
+    artwork_type_title: "Painting",
+    department_title: "Arts of Asia",
+    is_public_domain: true,
+    date_start: null,
+    date_end: null,
+  },
+];
+
+/**
+ * Datenquelle mit den Test-Fixtures
+ */
+function createSource() {
+  return createFixtureDataSource(async () => FIXTURES);
+}
+
+/**
+ * IDs der Treffer einer Suche
+ */
+async function searchIds(
+  query: string,
+  filters = {},
+  limit = 20,
+  offset = 0,
+): Promise<number[]> {
+  const result = await createSource().search(query, limit, offset, filters);
+  return result.data.map(({ id }) => id);
+}
+
+describe("search", () => {
+  it("findet nur Kunstwerke, die alle Suchwörter enthalten", async () => {
+    expect(await searchIds("water lilies")).toEqual([1, 3]);
+    expect(await searchIds("monet lilies")).toEqual([1]);
+    expect(await searchIds("monet bedroom")).toEqual([]);
+  });
+
+  it("sortiert Treffer im Titel oder Künstler vor Treffern in anderen Feldern", async () => {
+    // "japan" steht bei 4 im Titel, bei 3 nur in der Herkunft
+    expect(await searchIds("japan")).toEqual([4, 3]);
+
+    // Gleiche Punktzahl: Reihenfolge der Fixtures
+    expect(await searchIds("oil")).toEqual([1, 2, 4]);
+  });
+
+  it("liefert ohne Suchbegriff alle Kunstwerke in der Reihenfolge der Fixtures", async () => {
+    expect(await searchIds("")).toEqual([1, 2, 3, 4]);
+  });
+
+  it("teilt die Treffer über limit und offset in Seiten", async () => {
+    const result = await createSource().search("", 2, 2, {});
+
+    expect(result.data.map(({ id }) => id)).toEqual([3, 4]);
+    expect(result).toMatchObject({ total: 4, offset: 2, limit: 2 });
+    expect(await searchIds("", {}, 2, 4)).toEqual([]);
+  });
+
+  it("wendet die Suchfilter an", async () => {
+    expect(await searchIds("", { dateStart: 1850 })).toEqual([1, 2]);
+    expect(await searchIds("", { dateEnd: 1890 })).toEqual([2, 3]);
+    expect(await searchIds("", { publicDomainOnly: true })).toEqual([1, 2, 4]);
+    expect(await searchIds("", { hasImageOnly: true })).toEqual([1, 2, 4]);
+    expect(
+      await searchIds("", { artworkType: "painting", placeOfOrigin: "jap" }),
+    ).toEqual([4]);
+    expect(await searchIds("lilies", { department: "Arts of Asia" })).toEqual([
+      3,
+    ]);
+  });
+});
+
+describe("getById", () => {
+  it("liefert das Kunstwerk ohne die Fixture-Felder", async () => {
+    const artwork = await createSource().getById(2);
+
+    expect(artwork.title).toBe("The Bedroom");
+    expect(artwork).not.toHaveProperty("date_start");
+  });
+
+  it("wirft NotFoundError für unbekannte IDs", async () => {
+    await expect(createSource().getById(99)).rejects.toBeInstanceOf(
+      NotFoundError,
+    );
+  });
+});
+
+describe("Laden der Fixtures", () => {
+  it("wiederholt das Laden nach einem Fehler", async () => {
+    const loadFixtures = vi
+      .fn<() => Promise<unknown>>()
+      .mockRejectedValueOnce(new Error("Chunk nicht geladen"))
+      .mockResolvedValue(FIXTURES);
+    const source = createFixtureDataSource(loadFixtures);
+
+    await expect(source.getById(1)).rejects.toThrow("Chunk nicht geladen");
+    await expect(source.getById(1)).resolves.toMatchObject({ id: 1 });
+    await source.getById(2);
+    expect(loadFixtures).toHaveBeenCalledTimes(2);
+  });
+
+  it("meldet ungültige Fixtures als ValidationError", async () => {
+    const source = createFixtureDataSource(async () => [{ title: "ohne ID" }]);
+
+    await expect(source.search("", 20, 0, {})).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Fixture-Datenquelle für Kunstwerke
+ *
+ * Implementiert ArtworkDataSource vollständig im Speicher auf Basis der
+ * Fixtures in `src/fixtures/artworks.json`. Damit lässt sich die Anwendung
+ * ohne Netzwerk vorführen und deterministisch testen.
+ *
+ * Unterstützt:
+ * - Suche über Titel, Künstler, Medium, Herkunft, Objekttyp und Abteilung
+ * - Alle Suchfilter (gleiche Semantik wie die Elasticsearch-Query der API)
+ * - Pagination über limit/offset
+ * - Suchvorschläge aus Titeln und Künstlernamen
+ */
+
+import { z } from "zod";
+import { ArtworkSchema, type Artwork } from "../schemas/artworkSchema";
+import type { SearchFilters } from "../schemas/searchFilterSchema";
+import type {
+  ArtworkDataSource,
+  RequestOptions,
+  SearchResult,
+} from "./artworkDataSource";
+import { NotFoundError, ValidationError, createAbortError } from "./apiErrors";
+
+/**
+ * Schema für einen Fixture-Datensatz
+ *
+ * Erweitert das ArtworkSchema um date_start/date_end, die nur für die
+ * Filterung benötigt werden.
+ */
+const FixtureArtworkSchema = ArtworkSchema.extend({
+  date_start: z.number().nullable().optional(),
+  date_end: z.number().nullable().optional(),
+});
+
+type FixtureArtwork = z.infer<typeof FixtureArtworkSchema>;
+
+/**
+ * Lädt die Standard-Fixtures (als eigener Chunk, damit sie nur bei
+ * Verwendung der Fixture-Datenquelle geladen werden)
+ */
+async function loadDefaultFixtures(): Promise<unknown> {
+  const module = await import("../fixtures/artworks.json");
+  return module.default;
+}
+
+/**
+ * Wirft einen AbortError, wenn die Anfrage bereits abgebrochen wurde
+ */
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Entfernt die Fixture-spezifischen Felder
+ */
+function toArtwork(fixture: FixtureArtwork): Artwork {
+  return ArtworkSchema.parse(fixture);
+}
+
+/**
+ * Zerlegt einen Suchbegriff in normalisierte Suchwörter
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Berechnet die Relevanz eines Kunstwerks für die Suchwörter
+ *
+ * @returns 0, wenn nicht alle Suchwörter vorkommen; sonst eine positive
+ *          Punktzahl (Treffer im Titel oder Künstlernamen zählen doppelt)
+ */
+function scoreArtwork(artwork: FixtureArtwork, tokens: string[]): number {
+  const primary = [artwork.title, artwork.artist_title]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  const secondary = [
+    artwork.medium_display,
+    artwork.place_of_origin,
+    artwork.artwork_type_title,
+    artwork.department_title,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  let score = 0;
+
+  for (const token of tokens) {
+    if (primary.includes(token)) {
+      score += 2;
+    } else if (secondary.includes(token)) {
+      score += 1;
+    } else {
+      return 0;
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Vergleicht ein Textfeld mit einem Filterwert (Groß-/Kleinschreibung egal)
+ */
+function matchesPhrase(
+  value: string | null | undefined,
+  phrase: string | undefined,
+): boolean {
+  if (!phrase) {
+    return true;
+  }
+
+  return (value ?? "").toLowerCase().includes(phrase.toLowerCase());
+}
+
+/**
+ * Prüft, ob ein Kunstwerk alle aktiven Filter erfüllt
+ */
+function matchesFilters(
+  artwork: FixtureArtwork,
+  filters: SearchFilters,
+): boolean {
+  if (
+    filters.dateStart !== undefined &&
+    (artwork.date_start == null || artwork.date_start < filters.dateStart)
+  ) {
+    return false;
+  }
+
+  if (
+    filters.dateEnd !== undefined &&
+    (artwork.date_end == null || artwork.date_end > filters.dateEnd)
+  ) {
+    return false;
+  }
+
+  if (filters.publicDomainOnly && !artwork.is_public_domain) {
+    return false;
+  }
+
+  if (filters.hasImageOnly && !artwork.image_id) {
+    return false;
+  }
+
+  return (
+    matchesPhrase(artwork.artwork_type_title, filters.artworkType) &&
+    matchesPhrase(artwork.department_title, filters.department) &&
+    matchesPhrase(artwork.place_of_origin, filters.placeOfOrigin)
+  );
+}
+
+/**
+ * Erstellt eine Datenquelle, die vollständig im Speicher arbeitet
+ *
+ * @param loadFixtures - Lädt die Rohdaten (Standard: src/fixtures/artworks.json)
+ * @returns Eine ArtworkDataSource-Implementierung ohne Netzwerkzugriff
+ *
+ * Beispiel:
+ * ```typescript
+ * const source = createFixtureDataSource(async () => [
+ *   { id: 1, title: "Test", artist_title: "Anonym", image_id: null },
+ * ]);
+ * const result = await source.search("test", 20, 0, {});
+ * ```
+ */
+export function createFixtureDataSource(
+  loadFixtures: () => Promise<unknown> = loadDefaultFixtures,
+): ArtworkDataSource {
+  /**
+   * Validierte Fixtures (werden beim ersten erfolgreichen Zugriff geladen)
+   */
+  let fixturesPromise: Promise<FixtureArtwork[]> | null = null;
+
+  const getFixtures = (): Promise<FixtureArtwork[]> => {
+    if (!fixturesPromise) {
+      fixturesPromise = loadFixtures().then((raw) => {
+        const result = z.array(FixtureArtworkSchema).safeParse(raw);
+        if (!result.success) {
+          throw new ValidationError(result.error.issues);
+        }
+        return result.data;
+      });
+
+      // Ein fehlgeschlagenes Laden wird beim nächsten Zugriff wiederholt
+      fixturesPromise.catch(() => {
+        fixturesPromise = null;
+      });
+    }
+
+    return fixturesPromise;
+  };
+
+  return {
+    name: "fixtures",
+
+    async search(
+      query: string,
+      limit: number,
+      offset: number,
+      filters: SearchFilters,
+      options: RequestOptions = {},
+    ): Promise<SearchResult> {
+      const fixtures = await getFixtures();
+      throwIfAborted(options.signal);
+      const tokens = tokenize(query);
+
+      // Filtern und nach Relevanz sortieren (stabile Sortierung)
+      const matches = fixtures
+        .filter((artwork) => matchesFilters(artwork, filters))
+        .map((artwork) => ({
+          artwork,
+          score: tokens.length > 0 ? scoreArtwork(artwork, tokens) : 1,
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score);
+
+      return {
+        data: matches
+          .slice(offset, offset + limit)
+          .map(({ artwork }) => toArtwork(artwork)),
+        total: matches.length,
+        offset,
+        limit,
+      };
+    },
+
+    async getById(
+      artworkId: number,
+      options: RequestOptions = {},
+    ): Promise<Artwork> {
+      const fixtures = await getFixtures();
+      throwIfAborted(options.signal);
+
+      const artwork = fixtures.find((item) => item.id === artworkId);
+
+      if (!artwork) {
+        throw new NotFoundError();
+      }
+
+      return toArtwork(artwork);
+    },
+
+    async getByIds(
+      artworkIds: number[],
+      options: RequestOptions = {},
+    ): Promise<Artwork[]> {
+      const fixtures = await getFixtures();
+      throwIfAborted(options.signal);
+
+      const byId = new Map(fixtures.map((artwork) => [artwork.id, artwork]));
+
+      return artworkIds
+        .map((id) => byId.get(id))
+        .filter((artwork): artwork is FixtureArtwork => artwork !== undefined)
+        .map(toArtwork);
+    },
+
+    async suggest(
+      query: string,
+      limit: number,
+      options: RequestOptions = {},
+    ): Promise<string[]> {
+      const fixtures = await getFixtures();
+      throwIfAborted(options.signal);
+      const prefix = query.trim().toLowerCase();
+
+      // Titel und Künstler, bei denen ein Wort mit der Eingabe beginnt
+      const matches = fixtures
+        .flatMap((artwork) => [artwork.title, artwork.artist_title])
+        .filter((text): text is string => {
+          const normalized = text?.toLowerCase() ?? "";
+          return (
+            normalized.startsWith(prefix) || normalized.includes(` ${prefix}`)
+          );
+        });
+
+      return [...new Set(matches)].slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Artwork } from "../schemas/artworkSchema";
+import { createLocalStorageGalleryStore } from "./localStorageGalleryStore";
+
+const ARTWORK: Artwork = {
+  id: 1,
+  title: "Nighthawks",
+  artist_title: "Edward Hopper",
+  image_id: null,
+};
+
+/**
+ * Lädt die Module neu, damit jeder Test mit leerem Verlauf und leerer
+ * Galerie beginnt
+ */
+async function loadCommands() {
+  vi.resetModules();
+  const storage = await import("./galleryStorage");
+  storage.setGalleryStore(createLocalStorageGalleryStore("test"));
+
+  return {
+    ...storage,
+    ...(await import("./galleryCommands")),
+    ...(await import("./galleryHistory")),
+  };
+}
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  // Änderungen nur im eigenen Tab melden
+  vi.stubGlobal("BroadcastChannel", undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("Kunstwerke", () => {
+  it("entfernt ein unverändertes hinzugefügtes Kunstwerk endgültig", async () => {
+    const { addArtwork, loadGallery, loadTrash, redo, undo } =
+      await loadCommands();
+
+    await addArtwork(ARTWORK);
+    await undo();
+    expect(await loadGallery()).toEqual([]);
+    expect(await loadTrash()).toEqual([]);
+
+    await redo();
+    expect((await loadGallery()).map(({ id }) => id)).toEqual([1]);
+  });
+
+  it("legt ein inzwischen bearbeitetes Kunstwerk beim Rückgängigmachen in den Papierkorb", async () => {
+    const { addArtwork, addNote, getSavedArtwork, loadTrash, redo, undo } =
+      await loadCommands();
+
+    await addArtwork(ARTWORK);
+    await addNote(1, "Nicht verlieren");
+    await undo();
+    expect(await loadTrash()).toHaveLength(1);
+
+    await redo();
+    expect((await getSavedArtwork(1))?.notes[0].text).toBe("Nicht verlieren");
+    expect(await loadTrash()).toEqual([]);
+  });
+
+  it("stellt ein entferntes Kunstwerk wieder her und entfernt es erneut", async () => {
+    const {
+      addToGallery,
+      getSavedArtwork,
+      loadTrash,
+      redo,
+      removeArtwork,
+      undo,
+    } = await loadCommands();
+
+    await addToGallery(ARTWORK);
+    await removeArtwork(1);
+    await undo();
+    expect(await getSavedArtwork(1)).not.toBeNull();
+    expect(await loadTrash()).toEqual([]);
+
+    await redo();
+    expect(await getSavedArtwork(1)).toBeNull();
+
+    // Der neue Papierkorb-Eintrag wird beim nächsten Rückgängig verwendet
+    await undo();
+    expect(await getSavedArtwork(1)).not.toBeNull();
+  });
+
+  it("stellt nach dem Leeren alle Kunstwerke wieder her", async () => {
+    const { addToGallery, clearAllArtworks, loadGallery, redo, undo } =
+      await loadCommands();
+
+    for (const id of [1, 2, 3]) {
+      await addToGallery({ ...ARTWORK, id });
+    }
+
+    await expect(clearAllArtworks()).resolves.toBe(3);
+    await undo();
+    expect(await loadGallery()).toHaveLength(3);
+
+    await redo();
+    expect(await loadGallery()).toEqual([]);
+    await undo();
+    expect(await loadGallery()).toHaveLength(3);
+  });
+});
+
+describe("Notizen", () => {
+  it("macht Hinzufügen, Ändern und Löschen rückgängig", async () => {
+    const {
+      addNoteEntry,
+      deleteNoteEntry,
+      getSavedArtwork,
+      addToGallery,
+      redo,
+      undo,
+      updateNoteEntry,
+    } = await loadCommands();
+    const texts = async () =>
+      (await getSavedArtwork(1))?.notes.map(({ text }) => text);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await addToGallery(ARTWORK);
+    const entry = await addNoteEntry(1, "Erste Fassung");
+    vi.advanceTimersByTime(1000);
+    await updateNoteEntry(1, entry!.id, "Zweite Fassung");
+    vi.advanceTimersByTime(1000);
+    await deleteNoteEntry(1, entry!.id);
+
+    await undo();
+    expect(await texts()).toEqual(["Zweite Fassung"]);
+    await undo();
+    expect(await texts()).toEqual(["Erste Fassung"]);
+    await undo();
+    expect(await texts()).toEqual([]);
+
+    await redo();
+    await redo();
+    expect(await texts()).toEqual(["Zweite Fassung"]);
+  });
+
+  it("überschreibt beim Rückgängigmachen keine spätere Änderung", async () => {
+    const {
+      NoteConflictError,
+      addNoteEntry,
+      addToGallery,
+      getHistoryState,
+      getSavedArtwork,
+      undo,
+      updateNote,
+    } = await loadCommands();
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await addToGallery(ARTWORK);
+    const entry = await addNoteEntry(1, "Erste Fassung");
+    vi.advanceTimersByTime(1000);
+    // Änderung ohne Verlauf, z.B. aus einem anderen Tab
+    await updateNote(1, entry!.id, "Aus dem anderen Tab");
+
+    await expect(undo()).rejects.toBeInstanceOf(NoteConflictError);
+    expect((await getSavedArtwork(1))?.notes[0].text).toBe(
+      "Aus dem anderen Tab",
+    );
+    expect(getHistoryState().undoLabel).toBeNull();
+  });
+});
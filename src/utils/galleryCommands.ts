@@ -0,0 +1,355 @@
+/**
+ * Galerie-Änderungen mit Rückgängig und Wiederholen
+ *
+ * Diese Funktionen führen die entsprechenden Operationen aus
+ * galleryStorage.ts aus und zeichnen sie im Verlauf auf (siehe
+ * galleryHistory.ts). Die Ansichten verwenden sie für alle Änderungen,
+ * die sich rückgängig machen lassen: Hinzufügen und Entfernen von
+ * Kunstwerken, Notizen und das Leeren der Galerie.
+ *
+ * Rückgängig und Wiederholen prüfen wie die Ansichten, ob ein Eintrag
+ * inzwischen an anderer Stelle geändert wurde (siehe NoteConflictError),
+ * und überschreiben ihn dann nicht.
+ */
+
+import type { Artwork } from "../schemas/artworkSchema";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import type { NoteEntry } from "../schemas/noteSchema";
+import type { TrashedEntry } from "../schemas/trashSchema";
+import {
+  addNote,
+  addToGallery,
+  clearGallery,
+  deleteFromTrash,
+  deleteNote,
+  getSavedArtwork,
+  removeFromGallery,
+  restoreFromTrash,
+  restoreNoteRevision,
+  setNoteEntry,
+  updateNote,
+} from "./galleryStorage";
+import { recordCommand } from "./galleryHistory";
+
+/**
+ * Stellt Einträge aus dem Papierkorb wieder her
+ *
+ * @throws Error wenn nicht alle Einträge wiederhergestellt werden konnten
+ *         (z.B. weil sie inzwischen endgültig gelöscht wurden)
+ */
+async function restoreAll(entryIds: string[]): Promise<void> {
+  const restored = await restoreFromTrash(entryIds);
+
+  if (restored < entryIds.length) {
+    throw new Error(
+      `${entryIds.length - restored} Kunstwerk(e) konnten nicht wiederhergestellt werden`,
+    );
+  }
+}
+
+/**
+ * Entfernt ein Kunstwerk aus einer Sammlung
+ *
+ * @returns Der Eintrag im Papierkorb
+ * @throws Error wenn das Kunstwerk nicht mehr in der Sammlung ist
+ */
+async function removeExisting(
+  artworkId: number,
+  collectionId: string,
+): Promise<TrashedEntry> {
+  const entry = await removeFromGallery(artworkId, collectionId);
+
+  if (!entry) {
+    throw new Error("Das Kunstwerk ist nicht mehr in der Sammlung");
+  }
+
+  return entry;
+}
+
+/**
+ * Fügt ein Kunstwerk zu einer Sammlung hinzu (siehe addToGallery)
+ *
+ * Rückgängig entfernt das Kunstwerk wieder: endgültig, solange es
+ * unverändert ist, sonst (mit neuen Notizen oder Tags) in den Papierkorb.
+ */
+export async function addArtwork(
+  artwork: Artwork,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<boolean> {
+  const added = await addToGallery(artwork, collectionId);
+
+  if (!added) {
+    return false;
+  }
+
+  /**
+   * Papierkorb-Eintrag nach dem Rückgängigmachen (null: endgültig entfernt)
+   */
+  let trashedId: string | null = null;
+
+  recordCommand({
+    label: `"${artwork.title}" hinzugefügt`,
+    undo: async () => {
+      const entry = await removeExisting(artwork.id, collectionId);
+      const unchanged =
+        entry.item.notes.length === 0 && entry.item.tags.length === 0;
+
+      if (unchanged) {
+        await deleteFromTrash([entry.id]);
+      }
+
+      trashedId = unchanged ? null : entry.id;
+    },
+    redo: async () => {
+      if (trashedId) {
+        await restoreAll([trashedId]);
+      } else if (!(await addToGallery(artwork, collectionId))) {
+        throw new Error("Das Kunstwerk ist bereits in der Sammlung");
+      }
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Entfernt ein Kunstwerk aus einer Sammlung (siehe removeFromGallery)
+ *
+ * Rückgängig stellt es aus dem Papierkorb wieder her.
+ */
+export async function removeArtwork(
+  artworkId: number,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<TrashedEntry | null> {
+  const entry = await removeFromGallery(artworkId, collectionId);
+
+  if (!entry) {
+    return null;
+  }
+
+  let trashedId = entry.id;
+
+  recordCommand({
+    label: `"${entry.item.title}" entfernt`,
+    undo: () => restoreAll([trashedId]),
+    redo: async () => {
+      trashedId = (await removeExisting(artworkId, collectionId)).id;
+    },
+  });
+
+  return entry;
+}
+
+/**
+ * Leert die gesamte Galerie (siehe clearGallery)
+ *
+ * Rückgängig stellt alle Kunstwerke aus dem Papierkorb wieder her.
+ *
+ * @returns Anzahl der entfernten Kunstwerke
+ */
+export async function clearAllArtworks(): Promise<number> {
+  const entries = await clearGallery();
+
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  let trashedIds = entries.map((entry) => entry.id);
+
+  recordCommand({
+    label: `Galerie geleert (${entries.length} Kunstwerk(e))`,
+    undo: () => restoreAll(trashedIds),
+    redo: async () => {
+      trashedIds = (await clearGallery()).map((entry) => entry.id);
+    },
+  });
+
+  return entries.length;
+}
+
+/**
+ * Liefert den gespeicherten Stand eines Notiz-Eintrags
+ *
+ * @returns Den Eintrag oder null, wenn er (oder das Kunstwerk) nicht existiert
+ */
+async function findStoredNote(
+  artworkId: number,
+  entryId: string,
+  collectionId: string,
+): Promise<NoteEntry | null> {
+  const artwork = await getSavedArtwork(artworkId, collectionId);
+  return artwork?.notes.find((entry) => entry.id === entryId) ?? null;
+}
+
+/**
+ * Setzt einen Notiz-Eintrag von einem Stand auf einen anderen
+ *
+ * @throws Error wenn das Kunstwerk nicht mehr in der Sammlung ist
+ * @throws NoteConflictError wenn der Eintrag inzwischen an anderer Stelle
+ *         geändert wurde
+ */
+async function applyNoteEntry(
+  artworkId: number,
+  entryId: string,
+  collectionId: string,
+  from: NoteEntry | null,
+  to: NoteEntry | null,
+): Promise<void> {
+  const saved = await setNoteEntry(
+    artworkId,
+    entryId,
+    to,
+    collectionId,
+    from?.updatedAt ?? null,
+  );
+
+  if (!saved) {
+    throw new Error("Das Kunstwerk ist nicht mehr in der Sammlung");
+  }
+}
+
+/**
+ * Zeichnet eine gespeicherte Änderung an einem Notiz-Eintrag auf
+ *
+ * @param before - Der Eintrag vor der Änderung (null: neu angelegt)
+ *
+ * Hat sich der Eintrag nicht geändert (z.B. gleicher Text), wird nichts
+ * aufgezeichnet.
+ */
+async function recordNoteChange(
+  label: string,
+  artworkId: number,
+  entryId: string,
+  collectionId: string,
+  before: NoteEntry | null,
+): Promise<void> {
+  const after = await findStoredNote(artworkId, entryId, collectionId);
+
+  if (before?.updatedAt === after?.updatedAt) {
+    return;
+  }
+
+  recordCommand({
+    label,
+    undo: () => applyNoteEntry(artworkId, entryId, collectionId, after, before),
+    redo: () => applyNoteEntry(artworkId, entryId, collectionId, before, after),
+  });
+}
+
+/**
+ * Fügt einen Notiz-Eintrag hinzu (siehe addNote)
+ */
+export async function addNoteEntry(
+  artworkId: number,
+  text: string,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<NoteEntry | null> {
+  const entry = await addNote(artworkId, text, collectionId);
+
+  if (entry) {
+    await recordNoteChange(
+      "Notiz hinzugefügt",
+      artworkId,
+      entry.id,
+      collectionId,
+      null,
+    );
+  }
+
+  return entry;
+}
+
+/**
+ * Aktualisiert einen Notiz-Eintrag (siehe updateNote)
+ */
+export async function updateNoteEntry(
+  artworkId: number,
+  entryId: string,
+  text: string,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+  expectedUpdatedAt?: string,
+): Promise<boolean> {
+  const before = await findStoredNote(artworkId, entryId, collectionId);
+  const updated = await updateNote(
+    artworkId,
+    entryId,
+    text,
+    collectionId,
+    expectedUpdatedAt,
+  );
+
+  if (updated) {
+    await recordNoteChange(
+      "Notiz geändert",
+      artworkId,
+      entryId,
+      collectionId,
+      before,
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Stellt eine frühere Fassung eines Notiz-Eintrags wieder her
+ * (siehe restoreNoteRevision)
+ */
+export async function restoreNoteEntryRevision(
+  artworkId: number,
+  entryId: string,
+  revisionIndex: number,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+  expectedUpdatedAt?: string,
+): Promise<boolean> {
+  const before = await findStoredNote(artworkId, entryId, collectionId);
+  const restored = await restoreNoteRevision(
+    artworkId,
+    entryId,
+    revisionIndex,
+    collectionId,
+    expectedUpdatedAt,
+  );
+
+  if (restored) {
+    await recordNoteChange(
+      "Frühere Fassung wiederhergestellt",
+      artworkId,
+      entryId,
+      collectionId,
+      before,
+    );
+  }
+
+  return restored;
+}
+
+/**
+ * Löscht einen Notiz-Eintrag (siehe deleteNote)
+ */
+export async function deleteNoteEntry(
+  artworkId: number,
+  entryId: string,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+  expectedUpdatedAt?: string,
+): Promise<boolean> {
+  const before = await findStoredNote(artworkId, entryId, collectionId);
+  const deleted = await deleteNote(
+    artworkId,
+    entryId,
+    collectionId,
+    expectedUpdatedAt,
+  );
+
+  if (deleted) {
+    await recordNoteChange(
+      "Notiz gelöscht",
+      artworkId,
+      entryId,
+      collectionId,
+      before,
+    );
+  }
+
+  return deleted;
+}
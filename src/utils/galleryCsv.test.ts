@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import type { SavedArtwork } from "../schemas/noteSchema";
+import { getArtworkPageUrl } from "./artworkApi";
+import { createGalleryCsv, getCsvFileName } from "./galleryCsv";
+
+const ITEM: SavedArtwork = {
+  id: 27992,
+  collectionId: DEFAULT_COLLECTION_ID,
+  title: "A Sunday on La Grande Jatte",
+  artist_title: "Georges Seurat",
+  image_id: null,
+  notes: [],
+  tags: [],
+  addedAt: "2024-03-01T10:00:00.000Z",
+};
+
+const COLLECTIONS = [
+  {
+    id: DEFAULT_COLLECTION_ID,
+    name: "Meine Galerie",
+    createdAt: ITEM.addedAt,
+    artworkOrder: [],
+  },
+];
+
+/**
+ * Zeilen der CSV-Datei (ohne Byte-Order-Mark)
+ */
+function getRows(items: SavedArtwork[]): string[] {
+  const csv = createGalleryCsv(items, COLLECTIONS);
+
+  expect(csv.startsWith("\uFEFF")).toBe(true);
+  return csv.slice(1).split("\r\n");
+}
+
+/**
+ * Zelle mit dem Titel eines Kunstwerks (zwischen Sammlungs-ID und Künstler)
+ */
+function getTitleCell(title: string): string {
+  const csv = createGalleryCsv([{ ...ITEM, title }], COLLECTIONS);
+  const start = csv.indexOf(`;${DEFAULT_COLLECTION_ID};`);
+  const end = csv.indexOf(";Georges Seurat;");
+
+  return csv.slice(start + DEFAULT_COLLECTION_ID.length + 2, end);
+}
+
+describe("createGalleryCsv", () => {
+  it("schreibt eine Zeile pro Kunstwerk mit allen Feldern", () => {
+    const [header, row] = getRows([
+      {
+        ...ITEM,
+        date_display: "1884–86",
+        tags: ["pointillismus", "seminar"],
+      },
+    ]);
+
+    expect(header.split(";")).toContain("Notizen");
+    expect(row.split(";")).toEqual([
+      "27992",
+      "Meine Galerie",
+      DEFAULT_COLLECTION_ID,
+      "A Sunday on La Grande Jatte",
+      "Georges Seurat",
+      "1884–86",
+      "",
+      "",
+      "",
+      "",
+      "pointillismus, seminar",
+      "",
+      ITEM.addedAt,
+      getArtworkPageUrl(ITEM.id),
+    ]);
+  });
+
+  it("setzt Werte mit Trennzeichen, Anführungszeichen oder Umbrüchen in Anführungszeichen", () => {
+    expect(getTitleCell("Licht; Schatten")).toBe('"Licht; Schatten"');
+    expect(getTitleCell('Das "Bild"')).toBe('"Das ""Bild"""');
+
+    const csv = createGalleryCsv(
+      [
+        {
+          ...ITEM,
+          notes: [
+            {
+              id: "a",
+              text: "Zeile 1\nZeile 2",
+              createdAt: ITEM.addedAt,
+              updatedAt: ITEM.addedAt,
+              history: [],
+            },
+          ],
+        },
+      ],
+      COLLECTIONS,
+    );
+    expect(csv).toContain(`;"[${ITEM.addedAt}] Zeile 1\nZeile 2";`);
+  });
+
+  it.each(["=HYPERLINK(1)", "+1", "-1", "@SUM(A1)", "\t=1"])(
+    "entschärft den Formelanfang in %j",
+    (title) => {
+      expect(getTitleCell(title)).toBe(`'${title}`);
+    },
+  );
+
+  it("entschärft einen Wagenrücklauf am Anfang und setzt Anführungszeichen", () => {
+    expect(getTitleCell("\r=1")).toBe(`"'\r=1"`);
+  });
+
+  it("lässt gewöhnliche Werte unverändert", () => {
+    expect(getTitleCell("Nighthawks")).toBe("Nighthawks");
+  });
+});
+
+describe("getCsvFileName", () => {
+  it("enthält das Datum des Exports", () => {
+    expect(getCsvFileName(new Date("2024-05-01T08:00:00Z"))).toBe(
+      "galerie-2024-05-01.csv",
+    );
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * CSV-Export der Galerie
+ *
+ * Erstellt eine Tabelle mit einer Zeile pro gespeichertem Kunstwerk und
+ * allen Feldern des SavedArtworkSchema (z.B. für Seminar-Unterlagen in
+ * einer Tabellenkalkulation). Als Trennzeichen dient das Semikolon, damit
+ * die Datei in einer deutschen Tabellenkalkulation direkt in Spalten
+ * geöffnet wird; die Byte-Order-Mark sorgt für korrekte Umlaute.
+ */
+
+import type { Collection } from "../schemas/collectionSchema";
+import type { SavedArtwork } from "../schemas/noteSchema";
+import { getArtworkPageUrl } from "./artworkApi";
+
+/**
+ * Trennzeichen zwischen den Spalten
+ */
+const CSV_DELIMITER = ";";
+
+/**
+ * Byte-Order-Mark (kennzeichnet die Datei als UTF-8)
+ */
+const UTF8_BOM = "\uFEFF";
+
+/**
+ * Spalten der CSV-Datei: Überschrift und Wert pro Kunstwerk
+ */
+const CSV_COLUMNS: Array<
+  [string, (item: SavedArtwork, collectionName: string) => string]
+> = [
+  ["ID", (item) => String(item.id)],
+  ["Sammlung", (_item, collectionName) => collectionName],
+  ["Sammlungs-ID", (item) => item.collectionId],
+  ["Titel", (item) => item.title],
+  ["Künstler", (item) => item.artist_title ?? ""],
+  ["Datum", (item) => item.date_display ?? ""],
+  ["Medium", (item) => item.medium_display ?? ""],
+  ["Herkunft", (item) => item.place_of_origin ?? ""],
+  ["Abmessungen", (item) => item.dimensions ?? ""],
+  ["Bild-ID", (item) => item.image_id ?? ""],
+  ["Tags", (item) => item.tags.join(", ")],
+  [
+    "Notizen",
+    (item) =>
+      item.notes
+        .map((entry) => `[${entry.createdAt}] ${entry.text}`)
+        .join("\n\n"),
+  ],
+  ["Hinzugefügt am", (item) => item.addedAt],
+  ["Link", (item) => getArtworkPageUrl(item.id)],
+];
+
+/**
+ * Maskiert einen Wert für eine CSV-Zelle
+ *
+ * Werte mit Trennzeichen, Anführungszeichen oder Zeilenumbrüchen werden in
+ * Anführungszeichen gesetzt. Werte, die mit =, +, -, @, Tabulator oder
+ * Wagenrücklauf beginnen, werden mit einem Apostroph versehen, damit sie
+ * nicht als Formel ausgeführt werden.
+ */
+function escapeCsvValue(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+  return safe.includes(CSV_DELIMITER) || /["\r\n]/.test(safe)
+    ? `"${safe.replaceAll('"', '""')}"`
+    : safe;
+}
+
+/**
+ * Erstellt die CSV-Datei der Galerie
+ *
+ * @param items - Die gespeicherten Kunstwerke
+ * @param collections - Die Sammlungen (für die Anzeigenamen)
+ * @returns Den Inhalt der CSV-Datei
+ */
+export function createGalleryCsv(
+  items: SavedArtwork[],
+  collections: Collection[],
+): string {
+  const collectionNames = new Map(
+    collections.map((collection) => [collection.id, collection.name]),
+  );
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...items.map((item) =>
+      CSV_COLUMNS.map(([, getValue]) =>
+        getValue(item, collectionNames.get(item.collectionId) ?? ""),
+      ),
+    ),
+  ];
+
+  return (
+    UTF8_BOM +
+    rows.map((row) => row.map(escapeCsvValue).join(CSV_DELIMITER)).join("\r\n")
+  );
+}
+
+/**
+ * Dateiname für einen CSV-Export, z.B. `galerie-2024-05-01.csv`
+ */
+export function getCsvFileName(date: Date = new Date()): string {
+  return `galerie-${date.toISOString().slice(0, 10)}.csv`;
+}
@@ -0,0 +1,333 @@
+/**
+ * Helper für Suche, Filter und Sortierung in der Galerie
+ *
+ * Die Suche läuft lokal über die geladenen Einträge: Jeder Suchbegriff muss
+ * in Titel, Künstler, Medium oder einer Notiz vorkommen (ohne Beachtung der
+ * Groß-/Kleinschreibung). Dazu kommen Filter nach Künstler, Medium und
+ * Herkunft sowie die Sortierung (siehe gallerySortSchema.ts) und die
+ * eigene Reihenfolge einer Sammlung (`artworkOrder`, per Drag & Drop).
+ */
+
+import type { GallerySort } from "../schemas/gallerySortSchema";
+import type { NoteEntry, SavedArtwork } from "../schemas/noteSchema";
+
+/**
+ * Filter der Galerie-Ansicht (leerer String: kein Filter)
+ */
+export interface GalleryFilters {
+  /**
+   * Suchtext
+   */
+  query: string;
+
+  /**
+   * Künstler (exakter Wert von `artist_title`)
+   */
+  artist: string;
+
+  /**
+   * Medium (exakter Wert von `medium_display`)
+   */
+  medium: string;
+
+  /**
+   * Herkunft (exakter Wert von `place_of_origin`)
+   */
+  origin: string;
+}
+
+/**
+ * Felder, nach denen gefiltert werden kann
+ */
+export type FacetKey = "artist_title" | "medium_display" | "place_of_origin";
+
+/**
+ * Ein Abschnitt eines Textes, der ein Suchtreffer ist oder nicht
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Sprache für Vergleiche und Kleinschreibung
+ */
+const LOCALE = "de-DE";
+
+/**
+ * Zeichen vor und nach dem Treffer in einem Notiz-Ausschnitt
+ */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Zerlegt den Suchtext in Suchbegriffe
+ *
+ * @param query - Der Suchtext (z.B. "Monet Seerosen")
+ * @returns Die Begriffe in Kleinbuchstaben, ohne leere und doppelte
+ */
+export function splitSearchQuery(query: string): string[] {
+  return [
+    ...new Set(
+      query
+        .toLocaleLowerCase(LOCALE)
+        .split(/\s+/)
+        .filter((term) => term.length > 0),
+    ),
+  ];
+}
+
+/**
+ * Prüft, ob ein Eintrag alle Suchbegriffe enthält
+ *
+ * @param item - Der gespeicherte Eintrag
+ * @param terms - Die Suchbegriffe (siehe splitSearchQuery; leer: alles passt)
+ * @returns true wenn jeder Begriff in Titel, Künstler, Medium oder einer
+ *          Notiz vorkommt
+ */
+export function matchesSearch(item: SavedArtwork, terms: string[]): boolean {
+  if (terms.length === 0) {
+    return true;
+  }
+
+  const haystack = [
+    item.title,
+    item.artist_title,
+    item.medium_display,
+    ...item.notes.map((entry) => entry.text),
+  ]
+    .filter((value): value is string => Boolean(value))
+    .join("\n")
+    .toLocaleLowerCase(LOCALE);
+
+  return terms.every((term) => haystack.includes(term));
+}
+
+/**
+ * Prüft, ob ein Eintrag zu den Filtern für Künstler, Medium und Herkunft passt
+ */
+export function matchesFacets(
+  item: SavedArtwork,
+  filters: GalleryFilters,
+): boolean {
+  return (
+    (!filters.artist || item.artist_title === filters.artist) &&
+    (!filters.medium || item.medium_display === filters.medium) &&
+    (!filters.origin || item.place_of_origin === filters.origin)
+  );
+}
+
+/**
+ * Liefert die vorhandenen Werte eines Feldes (für die Filter-Auswahl)
+ *
+ * @returns Die Werte alphabetisch sortiert, ohne leere und doppelte
+ */
+export function getFacetValues(items: SavedArtwork[], key: FacetKey): string[] {
+  return [
+    ...new Set(
+      items
+        .map((item) => item[key])
+        .filter((value): value is string => Boolean(value)),
+    ),
+  ].sort((a, b) => a.localeCompare(b, LOCALE));
+}
+
+/**
+ * Ermittelt das Jahr aus einer Datumsangabe der API
+ *
+ * @param dateDisplay - Die Angabe aus `date_display`
+ * @returns Das (erste) Jahr, negativ vor Christus, oder null, wenn die
+ *          Angabe kein Jahr enthält
+ *
+ * Beispiel:
+ * ```typescript
+ * parseDisplayYear("c. 1890–95"); // 1890
+ * parseDisplayYear("500 BCE"); // -500
+ * parseDisplayYear("19th century"); // 1800
+ * ```
+ */
+export function parseDisplayYear(
+  dateDisplay: string | null | undefined,
+): number | null {
+  if (!dateDisplay) {
+    return null;
+  }
+
+  const beforeChrist = dateDisplay.match(/(\d+)\s*(?:BCE|B\.C\.)/i);
+  if (beforeChrist) {
+    return -Number(beforeChrist[1]);
+  }
+
+  const century = dateDisplay.match(/(\d{1,2})(?:st|nd|rd|th)\s+century/i);
+  if (century) {
+    return (Number(century[1]) - 1) * 100;
+  }
+
+  const year = dateDisplay.match(/\d{3,4}/);
+  return year ? Number(year[0]) : null;
+}
+
+/**
+ * Vergleicht zwei optionale Werte; fehlende Werte kommen zuletzt
+ */
+function compareOptional<T>(
+  a: T | null | undefined,
+  b: T | null | undefined,
+  compare: (a: T, b: T) => number,
+): number {
+  if (a == null || b == null) {
+    return a == null ? (b == null ? 0 : 1) : -1;
+  }
+
+  return compare(a, b);
+}
+
+/**
+ * Ordnet die Einträge einer Sammlung in ihrer eigenen Reihenfolge an
+ *
+ * @param items - Die Einträge in der Reihenfolge des Hinzufügens
+ * @param order - Die eigene Reihenfolge der Sammlung (Artwork-IDs)
+ * @returns Eine neue Liste: zuerst die Einträge aus `order`, danach alle
+ *          übrigen (z.B. neu hinzugefügte) in der Reihenfolge des Hinzufügens
+ *
+ * IDs in `order`, zu denen es keinen Eintrag (mehr) gibt, werden ignoriert.
+ */
+export function applyArtworkOrder(
+  items: SavedArtwork[],
+  order: number[],
+): SavedArtwork[] {
+  const positions = new Map(order.map((id, index) => [id, index]));
+  const position = (item: SavedArtwork) =>
+    positions.get(item.id) ?? order.length;
+
+  // Die Sortierung ist stabil: übrige Einträge behalten ihre Reihenfolge
+  return [...items].sort((a, b) => position(a) - position(b));
+}
+
+/**
+ * Verschiebt ein Element einer Liste an eine andere Position
+ *
+ * @param items - Die Liste
+ * @param from - Die bisherige Position
+ * @param to - Die neue Position (wird auf die Liste begrenzt)
+ * @returns Eine neue Liste
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+
+  result.splice(Math.max(0, Math.min(to, result.length)), 0, item);
+  return result;
+}
+
+/**
+ * Sortiert die Einträge der Galerie
+ *
+ * @param items - Die Einträge in der eigenen Reihenfolge der Sammlung
+ *                (siehe applyArtworkOrder)
+ * @param sort - Die gewünschte Sortierung
+ * @returns Eine neue, sortierte Liste (bei Gleichstand bleibt die
+ *          eigene Reihenfolge erhalten)
+ */
+export function sortArtworks(
+  items: SavedArtwork[],
+  sort: GallerySort,
+): SavedArtwork[] {
+  const compareText = (a: string, b: string) => a.localeCompare(b, LOCALE);
+
+  switch (sort) {
+    case "manual":
+      return [...items];
+    case "added":
+      return [...items].sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+    case "added-desc":
+      return [...items].sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+    case "title":
+      return [...items].sort((a, b) => compareText(a.title, b.title));
+    case "artist":
+      return [...items].sort((a, b) =>
+        compareOptional(a.artist_title, b.artist_title, compareText),
+      );
+    case "date":
+      return [...items].sort((a, b) =>
+        compareOptional(
+          parseDisplayYear(a.date_display),
+          parseDisplayYear(b.date_display),
+          (x, y) => x - y,
+        ),
+      );
+  }
+}
+
+/**
+ * Maskiert Sonderzeichen für einen regulären Ausdruck
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Zerlegt einen Text in Treffer und Nicht-Treffer (für die Hervorhebung)
+ *
+ * @param text - Der anzuzeigende Text
+ * @param terms - Die Suchbegriffe (siehe splitSearchQuery)
+ * @returns Die Abschnitte in ihrer Reihenfolge; ohne Begriffe ein
+ *          einzelner Abschnitt ohne Treffer
+ */
+export function splitHighlight(
+  text: string,
+  terms: string[],
+): HighlightSegment[] {
+  if (terms.length === 0 || text === "") {
+    return [{ text, match: false }];
+  }
+
+  // Längere Begriffe zuerst, damit sie Vorrang vor enthaltenen kürzeren haben
+  const pattern = new RegExp(
+    `(${[...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})`,
+    "iu",
+  );
+
+  // split() mit einer Gruppe liefert die Treffer an den ungeraden Positionen
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text !== "");
+}
+
+/**
+ * Liefert einen Ausschnitt der ersten Notiz, die einen Suchbegriff enthält
+ *
+ * @param notes - Die Notiz-Einträge
+ * @param terms - Die Suchbegriffe (siehe splitSearchQuery)
+ * @returns Den Ausschnitt um den ersten Treffer (mit "…" gekürzt) oder
+ *          null, wenn keine Notiz einen Begriff enthält
+ */
+export function findNoteSnippet(
+  notes: NoteEntry[],
+  terms: string[],
+): string | null {
+  for (const entry of notes) {
+    const text = entry.text.toLocaleLowerCase(LOCALE);
+    const positions = terms
+      .map((term) => text.indexOf(term))
+      .filter((position) => position >= 0);
+
+    if (positions.length === 0) {
+      continue;
+    }
+
+    const first = Math.min(...positions);
+    const start = Math.max(0, first - SNIPPET_CONTEXT);
+    const end = Math.min(entry.text.length, first + SNIPPET_CONTEXT * 2);
+
+    return `${start > 0 ? "…" : ""}${entry.text
+      .slice(start, end)
+      .replace(/\s+/g, " ")
+      .trim()}${end < entry.text.length ? "…" : ""}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import type { GalleryCommand } from "./galleryHistory";
+
+/**
+ * Lädt das Modul neu, damit jeder Test mit leerem Verlauf beginnt
+ */
+async function loadHistory() {
+  vi.resetModules();
+  return import("./galleryHistory");
+}
+
+/**
+ * Befehl, der seine Ausführungen in `log` festhält
+ */
+function createCommand(label: string, log: string[]): GalleryCommand {
+  return {
+    label,
+    undo: async () => {
+      log.push(`undo ${label}`);
+    },
+    redo: async () => {
+      log.push(`redo ${label}`);
+    },
+  };
+}
+
+describe("Rückgängig und Wiederholen", () => {
+  it("macht Befehle in umgekehrter Reihenfolge rückgängig und wiederholt sie", async () => {
+    const { getHistoryState, recordCommand, redo, undo } = await loadHistory();
+    const log: string[] = [];
+
+    recordCommand(createCommand("a", log));
+    recordCommand(createCommand("b", log));
+    expect(getHistoryState()).toMatchObject({
+      undoLabel: "b",
+      redoLabel: null,
+    });
+
+    await expect(undo()).resolves.toBe(true);
+    await expect(undo()).resolves.toBe(true);
+    await expect(undo()).resolves.toBe(false);
+    expect(getHistoryState()).toMatchObject({
+      undoLabel: null,
+      redoLabel: "a",
+    });
+
+    await expect(redo()).resolves.toBe(true);
+    expect(log).toEqual(["undo b", "undo a", "redo a"]);
+    expect(getHistoryState()).toMatchObject({
+      undoLabel: "a",
+      redoLabel: "b",
+      lastEvent: { action: "redo", label: "a" },
+    });
+  });
+
+  it("verwirft die Befehle zum Wiederholen bei einer neuen Änderung", async () => {
+    const { getHistoryState, recordCommand, redo, undo } = await loadHistory();
+    const log: string[] = [];
+
+    recordCommand(createCommand("a", log));
+    await undo();
+    recordCommand(createCommand("b", log));
+
+    expect(getHistoryState().redoLabel).toBeNull();
+    await expect(redo()).resolves.toBe(false);
+  });
+
+  it("behält höchstens 50 Befehle", async () => {
+    const { recordCommand, undo } = await loadHistory();
+    const log: string[] = [];
+
+    for (let index = 1; index <= 51; index++) {
+      recordCommand(createCommand(String(index), log));
+    }
+
+    while (await undo());
+
+    expect(log).toHaveLength(50);
+    expect(log.at(-1)).toBe("undo 2");
+  });
+
+  it("verwirft einen Befehl, der sich nicht rückgängig machen lässt", async () => {
+    const { getHistoryState, recordCommand, undo } = await loadHistory();
+    const log: string[] = [];
+
+    recordCommand(createCommand("a", log));
+    recordCommand({
+      label: "b",
+      undo: async () => {
+        throw new Error("Notiz wurde geändert");
+      },
+      redo: async () => {},
+    });
+
+    await expect(undo()).rejects.toThrow("Notiz wurde geändert");
+    expect(getHistoryState()).toMatchObject({
+      undoLabel: "a",
+      redoLabel: null,
+      busy: false,
+    });
+  });
+
+  it("führt während eines laufenden Befehls keinen weiteren aus", async () => {
+    const { recordCommand, undo } = await loadHistory();
+    const log: string[] = [];
+
+    recordCommand(createCommand("a", log));
+    recordCommand(createCommand("b", log));
+
+    const [first, second] = await Promise.all([undo(), undo()]);
+
+    expect([first, second]).toEqual([true, false]);
+    expect(log).toEqual(["undo b"]);
+  });
+});
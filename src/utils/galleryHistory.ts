@@ -0,0 +1,232 @@
+/**
+ * Verlauf der Galerie-Änderungen (Rückgängig und Wiederholen)
+ *
+ * Die Funktionen in galleryCommands.ts zeichnen jede Änderung als Befehl
+ * auf, der sich rückgängig machen und wiederholen lässt. Der Verlauf gilt
+ * nur für den aktuellen Tab und geht beim Neuladen verloren; entfernte
+ * Kunstwerke bleiben darüber hinaus im Papierkorb wiederherstellbar.
+ *
+ * Die Befehle speichern ihre Änderungen über galleryStorage.ts; die
+ * geöffneten Ansichten aktualisieren sich danach wie bei jeder anderen
+ * Änderung (siehe galleryState.ts).
+ */
+
+/**
+ * Maximale Anzahl aufgezeichneter Befehle (ältere werden verworfen)
+ */
+const MAX_HISTORY = 50;
+
+/**
+ * Eine aufgezeichnete Änderung
+ */
+export interface GalleryCommand {
+  /**
+   * Beschreibung für die Anzeige (z.B. "Notiz gelöscht")
+   */
+  label: string;
+
+  /**
+   * Macht die Änderung rückgängig
+   *
+   * @throws Error wenn sich die Änderung nicht mehr rückgängig machen lässt
+   *         (z.B. weil der Eintrag inzwischen an anderer Stelle geändert wurde)
+   */
+  undo: () => Promise<void>;
+
+  /**
+   * Führt die Änderung erneut aus
+   */
+  redo: () => Promise<void>;
+}
+
+/**
+ * Art einer Aktion im Verlauf
+ */
+export type HistoryAction = "do" | "undo" | "redo";
+
+/**
+ * Die zuletzt ausgeführte Aktion (für die Rückmeldung an den Benutzer)
+ */
+export interface HistoryEvent {
+  /**
+   * Fortlaufende Nummer (unterscheidet gleichnamige Aktionen)
+   */
+  id: number;
+
+  action: HistoryAction;
+  label: string;
+}
+
+/**
+ * Zustand des Verlaufs
+ */
+export interface HistoryState {
+  /**
+   * Beschreibung der Änderung, die rückgängig gemacht werden kann
+   * (null: keine)
+   */
+  undoLabel: string | null;
+
+  /**
+   * Beschreibung der Änderung, die wiederholt werden kann (null: keine)
+   */
+  redoLabel: string | null;
+
+  /**
+   * Die zuletzt ausgeführte Aktion (null: noch keine)
+   */
+  lastEvent: HistoryEvent | null;
+
+  /**
+   * Gibt an, ob gerade rückgängig gemacht oder wiederholt wird
+   */
+  busy: boolean;
+}
+
+/**
+ * Callback-Funktion für Änderungen am Verlauf
+ */
+export type HistoryListener = () => void;
+
+/**
+ * Befehle, die rückgängig gemacht bzw. wiederholt werden können
+ * (der letzte Befehl zuerst)
+ */
+let undoStack: GalleryCommand[] = [];
+let redoStack: GalleryCommand[] = [];
+
+/**
+ * Aktueller Zustand (wird bei jeder Änderung neu erstellt, damit
+ * Vergleiche per Referenz genügen)
+ */
+let state: HistoryState = {
+  undoLabel: null,
+  redoLabel: null,
+  lastEvent: null,
+  busy: false,
+};
+
+/**
+ * Zähler für die IDs der Aktionen
+ */
+let eventCounter = 0;
+
+/**
+ * Angemeldete Callback-Funktionen
+ */
+const listeners = new Set<HistoryListener>();
+
+/**
+ * Aktualisiert den Zustand und benachrichtigt die Callback-Funktionen
+ *
+ * @param changes - Geänderte Felder; die Beschriftungen ergeben sich
+ *                  immer aus den Stapeln
+ */
+function updateState(changes: Partial<HistoryState> = {}): void {
+  state = {
+    ...state,
+    ...changes,
+    undoLabel: undoStack.at(-1)?.label ?? null,
+    redoLabel: redoStack.at(-1)?.label ?? null,
+  };
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Erstellt die Angaben zu einer ausgeführten Aktion
+ */
+function createEvent(action: HistoryAction, label: string): HistoryEvent {
+  eventCounter++;
+  return { id: eventCounter, action, label };
+}
+
+/**
+ * Zeichnet eine bereits ausgeführte Änderung auf
+ *
+ * Die Befehle zum Wiederholen werden dabei verworfen.
+ */
+export function recordCommand(command: GalleryCommand): void {
+  undoStack = [...undoStack, command].slice(-MAX_HISTORY);
+  redoStack = [];
+  updateState({ lastEvent: createEvent("do", command.label) });
+}
+
+/**
+ * Führt einen Befehl vom einen Stapel aus und legt ihn auf den anderen
+ *
+ * Schlägt der Befehl fehl, wird er verworfen: Er ließe sich meist auch
+ * später nicht ausführen.
+ */
+async function runCommand(action: "undo" | "redo"): Promise<boolean> {
+  const command = (action === "undo" ? undoStack : redoStack).at(-1);
+
+  if (!command || state.busy) {
+    return false;
+  }
+
+  if (action === "undo") {
+    undoStack = undoStack.slice(0, -1);
+  } else {
+    redoStack = redoStack.slice(0, -1);
+  }
+
+  updateState({ busy: true });
+
+  try {
+    await command[action]();
+
+    if (action === "undo") {
+      redoStack = [...redoStack, command];
+    } else {
+      undoStack = [...undoStack, command];
+    }
+
+    updateState({ busy: false, lastEvent: createEvent(action, command.label) });
+    return true;
+  } catch (error) {
+    updateState({ busy: false });
+    throw error;
+  }
+}
+
+/**
+ * Macht die letzte Änderung rückgängig
+ *
+ * @returns true wenn eine Änderung rückgängig gemacht wurde, false wenn
+ *          es keine gibt (oder gerade eine andere ausgeführt wird)
+ * @throws Error wenn sich die Änderung nicht mehr rückgängig machen lässt
+ */
+export function undo(): Promise<boolean> {
+  return runCommand("undo");
+}
+
+/**
+ * Wiederholt die zuletzt rückgängig gemachte Änderung
+ *
+ * @returns true wenn eine Änderung wiederholt wurde, false wenn es keine
+ *          gibt (oder gerade eine andere ausgeführt wird)
+ * @throws Error wenn sich die Änderung nicht mehr wiederholen lässt
+ */
+export function redo(): Promise<boolean> {
+  return runCommand("redo");
+}
+
+/**
+ * Liefert den aktuellen Zustand des Verlaufs
+ */
+export function getHistoryState(): HistoryState {
+  return state;
+}
+
+/**
+ * Meldet eine Callback-Funktion für Änderungen am Verlauf an
+ *
+ * @returns Funktion zum Abmelden (z.B. als Cleanup eines Effect Hooks)
+ */
+export function subscribeToHistory(listener: HistoryListener): () => void {
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * React-Hooks für den gemeinsamen Galerie-Zustand
+ *
+ * Der Zustand (siehe galleryState.ts) wird von GalleryProvider über den
+ * GalleryContext bereitgestellt. Die Hooks lesen ihn über
+ * `useSyncExternalStore`: Eine Komponente wird nur neu gerendert, wenn
+ * sich der gelesene Teil geändert hat.
+ *
+ * Beispiel:
+ * ```typescript
+ * const items = useGallery(collectionId);
+ * const isSaved = useIsInGallery(artwork.id);
+ * ```
+ */
+
+import { createContext, useContext, useSyncExternalStore } from "react";
+import type { SavedArtwork } from "../schemas/noteSchema";
+import type { GallerySnapshot, GalleryState } from "./galleryState";
+
+/**
+ * Context für den gemeinsamen Galerie-Zustand
+ */
+export const GalleryContext = createContext<GalleryState | null>(null);
+
+/**
+ * Leere Liste (gleiche Referenz für alle fehlenden Einträge)
+ */
+const NO_ITEMS: SavedArtwork[] = [];
+
+/**
+ * Liefert den gemeinsamen Galerie-Zustand (z.B. für refresh und reorder)
+ *
+ * @throws Error wenn die Komponente nicht innerhalb von GalleryProvider liegt
+ */
+export function useGalleryStore(): GalleryState {
+  const store = useContext(GalleryContext);
+
+  if (!store) {
+    throw new Error(
+      "useGalleryStore muss innerhalb von <GalleryProvider> verwendet werden",
+    );
+  }
+
+  return store;
+}
+
+/**
+ * Liefert einen Wert aus dem aktuellen Stand der Galerie
+ *
+ * @param select - Wählt den Wert aus; er muss für denselben Stand
+ *                 dieselbe Referenz liefern (z.B. einen Eintrag des Index)
+ */
+function useGallerySelector<T>(select: (snapshot: GallerySnapshot) => T): T {
+  const store = useGalleryStore();
+  return useSyncExternalStore(store.subscribe, () =>
+    select(store.getSnapshot()),
+  );
+}
+
+/**
+ * Liefert den aktuellen Stand der Galerie
+ */
+export function useGalleryState(): GallerySnapshot {
+  return useGallerySelector((snapshot) => snapshot);
+}
+
+/**
+ * Liefert die Einträge einer Sammlung in ihrer eigenen Reihenfolge
+ *
+ * @param collectionId - Die Sammlung (ohne Angabe: Einträge aller
+ *                       Sammlungen in der Reihenfolge des Hinzufügens)
+ */
+export function useGallery(collectionId?: string): SavedArtwork[] {
+  return useGallerySelector((snapshot) =>
+    collectionId === undefined
+      ? snapshot.items
+      : (snapshot.byCollection.get(collectionId) ?? NO_ITEMS),
+  );
+}
+
+/**
+ * Liefert die Einträge eines Kunstwerks (einer pro Sammlung, leer wenn es
+ * nicht gespeichert ist)
+ */
+export function useSavedArtworks(artworkId: number): SavedArtwork[] {
+  return useGallerySelector(
+    (snapshot) => snapshot.byArtwork.get(artworkId) ?? NO_ITEMS,
+  );
+}
+
+/**
+ * Prüft, ob ein Kunstwerk in der Galerie ist
+ *
+ * @param collectionId - Die Sammlung (ohne Angabe: irgendeine Sammlung)
+ */
+export function useIsInGallery(
+  artworkId: number,
+  collectionId?: string,
+): boolean {
+  return useGallerySelector((snapshot) => {
+    const memberships = snapshot.memberships.get(artworkId) ?? [];
+
+    return collectionId === undefined
+      ? memberships.length > 0
+      : memberships.includes(collectionId);
+  });
+}
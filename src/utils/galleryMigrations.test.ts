@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import { GALLERY_STORAGE_VERSION } from "../schemas/galleryStorageSchema";
+import { migrateGalleryData, parseGalleryItem } from "./galleryMigrations";
+
+/**
+ * Artwork-Daten, die in allen Versionen gleich sind
+ */
+const ARTWORK = {
+  id: 27992,
+  title: "A Sunday on La Grande Jatte",
+  artist_title: "Georges Seurat",
+  image_id: "2d484387-2509-5e8e-2c43-22f9981972eb",
+};
+
+const ADDED_AT = "2024-03-01T10:00:00.000Z";
+
+const NOTE_ENTRY = {
+  id: "note-1",
+  text: "Pointillismus",
+  createdAt: ADDED_AT,
+  updatedAt: ADDED_AT,
+  history: [],
+};
+
+const COLLECTION = {
+  id: "seminar",
+  name: "Seminar",
+  createdAt: ADDED_AT,
+};
+
+/**
+ * Gespeicherte Daten in jeder Version des Speicherformats
+ * (jeweils ein Eintrag mit Notiz in der Sammlung, die es damals gab)
+ */
+const VERSION_FIXTURES: Record<number, unknown> = {
+  0: [{ ...ARTWORK, note: "Pointillismus" }],
+  1: { version: 1, items: [{ ...ARTWORK, note: "Pointillismus" }] },
+  2: {
+    version: 2,
+    items: [{ ...ARTWORK, note: "Pointillismus", addedAt: ADDED_AT }],
+  },
+  3: {
+    version: 3,
+    collections: [COLLECTION],
+    items: [
+      {
+        ...ARTWORK,
+        note: "Pointillismus",
+        addedAt: ADDED_AT,
+        collectionId: "seminar",
+      },
+    ],
+  },
+  4: {
+    version: 4,
+    collections: [COLLECTION],
+    items: [
+      {
+        ...ARTWORK,
+        note: "Pointillismus",
+        addedAt: ADDED_AT,
+        collectionId: "seminar",
+        tags: ["pointillismus"],
+      },
+    ],
+  },
+  5: {
+    version: 5,
+    collections: [COLLECTION],
+    items: [
+      {
+        ...ARTWORK,
+        notes: [NOTE_ENTRY],
+        addedAt: ADDED_AT,
+        collectionId: "seminar",
+        tags: ["pointillismus"],
+      },
+    ],
+  },
+  6: {
+    version: 6,
+    collections: [
+      {
+        id: DEFAULT_COLLECTION_ID,
+        name: "Meine Galerie",
+        createdAt: ADDED_AT,
+        artworkOrder: [],
+      },
+      { ...COLLECTION, artworkOrder: [ARTWORK.id] },
+    ],
+    items: [
+      {
+        ...ARTWORK,
+        notes: [NOTE_ENTRY],
+        addedAt: ADDED_AT,
+        collectionId: "seminar",
+        tags: ["pointillismus"],
+      },
+    ],
+    quarantine: [],
+    trash: [],
+  },
+};
+
+beforeEach(() => {
+  // Quarantäne-Einträge werden zusätzlich protokolliert
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("migrateGalleryData", () => {
+  it("deckt jede Version bis zur aktuellen ab", () => {
+    expect(Object.keys(VERSION_FIXTURES).map(Number)).toEqual(
+      Array.from({ length: GALLERY_STORAGE_VERSION + 1 }, (_, i) => i),
+    );
+  });
+
+  it.each(Object.entries(VERSION_FIXTURES))(
+    "migriert Version %s ohne Datenverlust",
+    (version, raw) => {
+      const result = migrateGalleryData(structuredClone(raw));
+
+      expect(result.quarantine).toEqual([]);
+      expect(result.items).toHaveLength(1);
+
+      const [item] = result.items;
+      expect(item).toMatchObject(ARTWORK);
+      expect(item.notes).toHaveLength(1);
+      expect(item.notes[0].text).toBe("Pointillismus");
+      expect(typeof item.addedAt).toBe("string");
+
+      // Die Standardsammlung existiert immer, die Sammlung des Eintrags auch
+      const collectionIds = result.collections.map(({ id }) => id);
+      expect(collectionIds).toContain(DEFAULT_COLLECTION_ID);
+      expect(collectionIds).toContain(item.collectionId);
+      expect(
+        result.collections.every(({ artworkOrder }) =>
+          Array.isArray(artworkOrder),
+        ),
+      ).toBe(true);
+
+      // Nur ältere Versionen müssen zurückgeschrieben werden
+      expect(result.changed).toBe(Number(version) !== GALLERY_STORAGE_VERSION);
+    },
+  );
+
+  it("legt Einträge aus Versionen vor Sammlungen in der Standardsammlung ab", () => {
+    const result = migrateGalleryData(structuredClone(VERSION_FIXTURES[2]));
+
+    expect(result.items[0].collectionId).toBe(DEFAULT_COLLECTION_ID);
+    expect(result.items[0].tags).toEqual([]);
+    expect(result.items[0].addedAt).toBe(ADDED_AT);
+  });
+
+  it("erhält die Reihenfolge über aufsteigende Zeitstempel (Version 1)", () => {
+    const result = migrateGalleryData({
+      version: 1,
+      items: [
+        { ...ARTWORK, id: 1 },
+        { ...ARTWORK, id: 2 },
+        { ...ARTWORK, id: 3 },
+      ],
+    });
+
+    const times = result.items.map(({ addedAt }) => Date.parse(addedAt));
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(new Set(times).size).toBe(3);
+  });
+
+  it("übernimmt leere Notizen nicht als Eintrag (Version 4)", () => {
+    const result = migrateGalleryData({
+      version: 4,
+      items: [
+        {
+          ...ARTWORK,
+          note: "   ",
+          addedAt: ADDED_AT,
+          collectionId: DEFAULT_COLLECTION_ID,
+          tags: [],
+        },
+      ],
+    });
+
+    expect(result.items[0].notes).toEqual([]);
+    expect(result.items[0]).not.toHaveProperty("note");
+  });
+
+  it("verschiebt ungültige Einträge in die Quarantäne statt sie zu verwerfen", () => {
+    const broken = { id: 1, title: "Ohne Künstler" };
+    const result = migrateGalleryData([
+      { ...ARTWORK, note: "Pointillismus" },
+      broken,
+      "kein Objekt",
+    ]);
+
+    expect(result.items.map(({ id }) => id)).toEqual([ARTWORK.id]);
+    expect(result.quarantine).toHaveLength(2);
+    expect(result.quarantine[0]).toMatchObject({ raw: broken, version: 0 });
+    expect(result.quarantine[0].reason).toContain("artist_title");
+    expect(result.quarantine[1].raw).toBe("kein Objekt");
+    expect(result.changed).toBe(true);
+  });
+
+  it("verschiebt doppelte Einträge einer Sammlung in die Quarantäne", () => {
+    const result = migrateGalleryData([ARTWORK, ARTWORK]);
+
+    expect(result.items).toHaveLength(1);
+    expect(result.quarantine).toHaveLength(1);
+    expect(result.quarantine[0].reason).toContain("Doppelter Eintrag");
+  });
+
+  it("behält bestehende Quarantäne-Einträge", () => {
+    const existing = {
+      id: "q-1",
+      raw: { id: 5 },
+      version: 3,
+      reason: "alt",
+      quarantinedAt: ADDED_AT,
+    };
+    const result = migrateGalleryData({
+      ...(VERSION_FIXTURES[6] as object),
+      quarantine: [existing],
+    });
+
+    expect(result.quarantine).toEqual([existing]);
+    expect(result.changed).toBe(false);
+  });
+
+  it("bewahrt nicht lesbares JSON als Rohtext auf", () => {
+    const result = migrateGalleryData("[{ kaputt");
+
+    expect(result.items).toEqual([]);
+    expect(result.quarantine).toHaveLength(1);
+    expect(result.quarantine[0].raw).toBe("[{ kaputt");
+    expect(result.collections.map(({ id }) => id)).toEqual([
+      DEFAULT_COLLECTION_ID,
+    ]);
+  });
+
+  it("bewahrt ein unbekanntes Speicherformat vollständig auf", () => {
+    const raw = { version: "sechs", artworks: [ARTWORK] };
+    const result = migrateGalleryData(raw);
+
+    expect(result.items).toEqual([]);
+    expect(result.quarantine[0].raw).toEqual(raw);
+    expect(result.quarantine[0].reason).toContain("Unbekanntes Speicherformat");
+  });
+
+  it("verschiebt ungültige Papierkorb-Einträge mit dem Eintrag in die Quarantäne", () => {
+    const brokenItem = { id: 2, title: "Defekt" };
+    const result = migrateGalleryData({
+      ...(VERSION_FIXTURES[6] as object),
+      trash: [{ id: "t-1", item: brokenItem }],
+    });
+
+    expect(result.trash).toEqual([]);
+    expect(result.quarantine).toHaveLength(1);
+    expect(result.quarantine[0].raw).toEqual(brokenItem);
+    expect(result.quarantine[0].reason).toMatch(/^Papierkorb: /);
+  });
+
+  it("legt fehlende Sammlungen referenzierter Einträge neu an", () => {
+    const result = migrateGalleryData({
+      ...(VERSION_FIXTURES[6] as object),
+      collections: [],
+    });
+
+    expect(result.items).toHaveLength(1);
+    expect(result.collections.map(({ id }) => id)).toEqual([
+      DEFAULT_COLLECTION_ID,
+      "seminar",
+    ]);
+    expect(result.changed).toBe(true);
+  });
+});
+
+describe("parseGalleryItem", () => {
+  it("lehnt Einträge aus einer neueren Version ab", () => {
+    const result = parseGalleryItem(ARTWORK, GALLERY_STORAGE_VERSION + 1);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.reason).toContain("neueren Version");
+  });
+});
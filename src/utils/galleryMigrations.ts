@@ -0,0 +1,471 @@
+/**
+ * Migrationen des Galerie-Speicherformats
+ *
+ * Jede Migration überführt einen einzelnen Eintrag von Version n nach n + 1.
+ * Beim Laden wird die Kette von der gespeicherten Version bis zur aktuellen
+ * GALLERY_STORAGE_VERSION durchlaufen und jeder Eintrag anschließend mit dem
+ * SavedArtworkSchema validiert. Schlägt das fehl, landet der Eintrag in der
+ * Quarantäne statt verworfen zu werden.
+ *
+ * Versionen:
+ * - 0: Unversioniertes Array von SavedArtwork-Objekten
+ * - 1: Versionierter Umschlag `{ version, items, quarantine }`
+ * - 2: `addedAt` (Zeitpunkt des Hinzufügens, bestimmt die Reihenfolge)
+ * - 3: Benannte Sammlungen (`collections` im Umschlag, `collectionId` pro Eintrag)
+ * - 4: `tags` pro Eintrag
+ * - 5: `notes` (datierte Notiz-Einträge mit Verlauf) statt `note`
+ * - 6: `artworkOrder` (eigene Reihenfolge) pro Sammlung
+ */
+
+import { z } from "zod";
+import { SavedArtworkSchema, type SavedArtwork } from "../schemas/noteSchema";
+import {
+  CollectionSchema,
+  DEFAULT_COLLECTION_ID,
+  DEFAULT_COLLECTION_NAME,
+  type Collection,
+} from "../schemas/collectionSchema";
+import {
+  GALLERY_STORAGE_VERSION,
+  GalleryEnvelopeSchema,
+  type QuarantinedEntry,
+} from "../schemas/galleryStorageSchema";
+import { TrashedEntrySchema, type TrashedEntry } from "../schemas/trashSchema";
+
+/**
+ * Kontext einer Migration
+ */
+interface MigrationContext {
+  /**
+   * Position des Eintrags in den gespeicherten Daten
+   */
+  index: number;
+
+  /**
+   * Zeitpunkt der Migration (Millisekunden seit 1970)
+   */
+  now: number;
+}
+
+/**
+ * Überführt einen Eintrag in die nächste Version
+ */
+type ItemMigration = (item: unknown, context: MigrationContext) => unknown;
+
+/**
+ * Prüft, ob ein Wert ein einfaches Objekt ist
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Migrationen, indiziert nach der Ausgangsversion
+ */
+const MIGRATIONS: Record<number, ItemMigration> = {
+  // 0 → 1: Nur der Umschlag ist neu, die Einträge bleiben unverändert
+  0: (item) => item,
+
+  // 1 → 2: Zeitpunkt des Hinzufügens ist unbekannt; die bisherige
+  // Reihenfolge bleibt über aufsteigende Zeitstempel erhalten
+  1: (item, { index, now }) =>
+    isRecord(item)
+      ? { ...item, addedAt: new Date(now + index).toISOString() }
+      : item,
+
+  // 2 → 3: Bisherige Einträge landen in der Standardsammlung
+  2: (item) =>
+    isRecord(item) ? { collectionId: DEFAULT_COLLECTION_ID, ...item } : item,
+
+  // 3 → 4: Bisherige Einträge haben noch keine Tags
+  3: (item) => (isRecord(item) ? { tags: [], ...item } : item),
+
+  // 4 → 5: Die bisherige Notiz wird zum ersten Eintrag; als Datum dient
+  // der Zeitpunkt des Hinzufügens, weil der Zeitpunkt der Notiz unbekannt ist
+  4: (item, { now }) => {
+    if (!isRecord(item)) {
+      return item;
+    }
+
+    const { note, ...rest } = item;
+    const timestamp =
+      typeof rest.addedAt === "string"
+        ? rest.addedAt
+        : new Date(now).toISOString();
+
+    return {
+      ...rest,
+      notes:
+        typeof note === "string" && note.trim() !== ""
+          ? [
+              {
+                id: crypto.randomUUID(),
+                text: note,
+                createdAt: timestamp,
+                updatedAt: timestamp,
+                history: [],
+              },
+            ]
+          : [],
+    };
+  },
+
+  // 5 → 6: Die Einträge bleiben unverändert; die Sammlungen erhalten beim
+  // Validieren eine leere eigene Reihenfolge (siehe CollectionSchema)
+  5: (item) => item,
+};
+
+/**
+ * Name für Sammlungen, die von Einträgen referenziert werden,
+ * aber selbst nicht mehr lesbar sind
+ */
+const RECOVERED_COLLECTION_NAME = "Wiederhergestellte Sammlung";
+
+/**
+ * Ergebnis der Verarbeitung eines einzelnen Eintrags
+ */
+export type ParseItemResult =
+  { success: true; item: SavedArtwork } | { success: false; reason: string };
+
+/**
+ * Ergebnis der Migration der gesamten Galerie
+ */
+export interface GalleryMigrationResult {
+  /**
+   * Gültige Einträge im aktuellen Format
+   */
+  items: SavedArtwork[];
+
+  /**
+   * Sammlungen (enthält immer die Standardsammlung)
+   */
+  collections: Collection[];
+
+  /**
+   * Alle Quarantäne-Einträge (bestehende und neu hinzugekommene)
+   */
+  quarantine: QuarantinedEntry[];
+
+  /**
+   * Gültige Einträge im Papierkorb
+   */
+  trash: TrashedEntry[];
+
+  /**
+   * Gibt an, ob sich die gespeicherten Daten geändert haben und
+   * zurückgeschrieben werden sollten
+   */
+  changed: boolean;
+}
+
+/**
+ * Formatiert Zod-Issues als lesbaren Text
+ */
+export function formatIssues(issues: z.core.$ZodIssue[]): string {
+  return issues
+    .map((issue) => `${issue.path.join(".") || "(Eintrag)"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Erstellt die Standardsammlung
+ *
+ * @param createdAt - Zeitpunkt der Erstellung (Standard: jetzt)
+ */
+export function createDefaultCollection(
+  createdAt: string = new Date().toISOString(),
+): Collection {
+  return {
+    id: DEFAULT_COLLECTION_ID,
+    name: DEFAULT_COLLECTION_NAME,
+    createdAt,
+    artworkOrder: [],
+  };
+}
+
+/**
+ * Erstellt einen Quarantäne-Eintrag für Rohdaten
+ *
+ * @param raw - Die unveränderten Rohdaten
+ * @param version - Format-Version der Rohdaten
+ * @param reason - Grund für die Quarantäne
+ */
+export function createQuarantinedEntry(
+  raw: unknown,
+  version: number,
+  reason: string,
+): QuarantinedEntry {
+  return {
+    id: crypto.randomUUID(),
+    raw,
+    version,
+    reason,
+    quarantinedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Migriert einen Eintrag auf die aktuelle Version und validiert ihn
+ *
+ * @param raw - Der Eintrag in der angegebenen Version
+ * @param version - Format-Version des Eintrags
+ * @param context - Position und Zeitpunkt der Migration
+ * @returns Den gültigen Eintrag oder den Grund des Fehlschlags
+ */
+export function parseGalleryItem(
+  raw: unknown,
+  version: number,
+  context: MigrationContext = { index: 0, now: Date.now() },
+): ParseItemResult {
+  if (version > GALLERY_STORAGE_VERSION) {
+    return {
+      success: false,
+      reason: `Der Eintrag stammt aus einer neueren Version der Anwendung (Format ${version})`,
+    };
+  }
+
+  let item = raw;
+
+  for (let current = version; current < GALLERY_STORAGE_VERSION; current++) {
+    try {
+      item = MIGRATIONS[current](item, context);
+    } catch (error) {
+      return {
+        success: false,
+        reason: `Migration von Version ${current} fehlgeschlagen: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  const result = SavedArtworkSchema.safeParse(item);
+
+  if (!result.success) {
+    return { success: false, reason: formatIssues(result.error.issues) };
+  }
+
+  return { success: true, item: result.data };
+}
+
+/**
+ * Migriert die gespeicherten Rohdaten der Galerie
+ *
+ * @param raw - Das geparste JSON aus dem Speicher (Array oder Umschlag)
+ *              oder der Rohtext, wenn er kein gültiges JSON ist
+ * @returns Gültige Einträge, Quarantäne und ob zurückgeschrieben werden muss
+ *
+ * Beispiel:
+ * ```typescript
+ * const { items, quarantine } = migrateGalleryData([{ id: 1, title: "A" }]);
+ * // items: [], quarantine: [{ reason: "artist_title: ...", ... }]
+ * ```
+ */
+export function migrateGalleryData(raw: unknown): GalleryMigrationResult {
+  let version: number;
+  let rawItems: unknown[];
+  let rawCollections: unknown[];
+  let rawTrash: unknown[];
+  let quarantine: QuarantinedEntry[];
+
+  if (typeof raw === "string") {
+    // Nicht lesbares JSON: den Rohtext in der Quarantäne aufbewahren
+    return {
+      items: [],
+      quarantine: [
+        createQuarantinedEntry(
+          raw,
+          0,
+          "Gespeicherte Daten sind kein gültiges JSON",
+        ),
+      ],
+      collections: [createDefaultCollection()],
+      trash: [],
+      changed: true,
+    };
+  }
+
+  if (Array.isArray(raw)) {
+    // Version 0: unversioniertes Array
+    version = 0;
+    rawItems = raw;
+    rawCollections = [];
+    rawTrash = [];
+    quarantine = [];
+  } else {
+    const envelope = GalleryEnvelopeSchema.safeParse(raw);
+
+    if (!envelope.success) {
+      // Unbekanntes Format: die gesamten Daten aufbewahren
+      return {
+        items: [],
+        quarantine: [
+          createQuarantinedEntry(
+            raw,
+            0,
+            `Unbekanntes Speicherformat: ${formatIssues(envelope.error.issues)}`,
+          ),
+        ],
+        collections: [createDefaultCollection()],
+        trash: [],
+        changed: true,
+      };
+    }
+
+    ({
+      version,
+      items: rawItems,
+      collections: rawCollections,
+      quarantine,
+      trash: rawTrash,
+    } = envelope.data);
+  }
+
+  const items: SavedArtwork[] = [];
+  const seenKeys = new Set<string>();
+  let quarantinedCount = 0;
+  const now = Date.now();
+
+  for (const [index, rawItem] of rawItems.entries()) {
+    const result = parseGalleryItem(rawItem, version, { index, now });
+
+    if (!result.success) {
+      console.error("Ungültiges Artwork in Galerie:", result.reason);
+      quarantine.push(createQuarantinedEntry(rawItem, version, result.reason));
+      quarantinedCount++;
+    } else if (seenKeys.has(`${result.item.collectionId}:${result.item.id}`)) {
+      quarantine.push(
+        createQuarantinedEntry(
+          rawItem,
+          version,
+          `Doppelter Eintrag für Kunstwerk ${result.item.id}`,
+        ),
+      );
+      quarantinedCount++;
+    } else {
+      seenKeys.add(`${result.item.collectionId}:${result.item.id}`);
+      items.push(result.item);
+    }
+  }
+
+  const trash: TrashedEntry[] = [];
+
+  for (const [index, rawEntry] of rawTrash.entries()) {
+    const result = parseTrashedEntry(rawEntry, version, { index, now });
+
+    if (!result.success) {
+      // Den entfernten Eintrag selbst aufbewahren, damit er sich in der
+      // Wiederherstellungsansicht reparieren lässt
+      const rawItem = isRecord(rawEntry) ? rawEntry.item : rawEntry;
+      console.error("Ungültiger Eintrag im Papierkorb:", result.reason);
+      quarantine.push(
+        createQuarantinedEntry(
+          rawItem,
+          version,
+          `Papierkorb: ${result.reason}`,
+        ),
+      );
+      quarantinedCount++;
+    } else {
+      trash.push(result.entry);
+    }
+  }
+
+  const { collections, repaired } = parseCollections(
+    rawCollections,
+    items,
+    new Date(now).toISOString(),
+  );
+
+  return {
+    items,
+    collections,
+    quarantine,
+    trash,
+    changed:
+      version !== GALLERY_STORAGE_VERSION || quarantinedCount > 0 || repaired,
+  };
+}
+
+/**
+ * Migriert einen Eintrag im Papierkorb und validiert ihn
+ *
+ * Der entfernte Eintrag durchläuft dieselben Migrationen wie die Einträge
+ * der Galerie; die Sammlung wird mit dem aktuellen Schema validiert.
+ */
+function parseTrashedEntry(
+  raw: unknown,
+  version: number,
+  context: MigrationContext,
+): { success: true; entry: TrashedEntry } | { success: false; reason: string } {
+  if (!isRecord(raw)) {
+    return { success: false, reason: "Eintrag ist kein Objekt" };
+  }
+
+  const item = parseGalleryItem(raw.item, version, context);
+
+  if (!item.success) {
+    return item;
+  }
+
+  const result = TrashedEntrySchema.safeParse({ ...raw, item: item.item });
+
+  if (!result.success) {
+    return { success: false, reason: formatIssues(result.error.issues) };
+  }
+
+  return { success: true, entry: result.data };
+}
+
+/**
+ * Validiert die gespeicherten Sammlungen
+ *
+ * Ungültige oder doppelte Sammlungen werden verworfen. Fehlt die
+ * Standardsammlung oder eine Sammlung, auf die noch Einträge verweisen,
+ * wird sie neu angelegt, damit kein Eintrag verloren geht.
+ *
+ * @returns Die Sammlungen und ob dabei etwas korrigiert wurde
+ */
+function parseCollections(
+  rawCollections: unknown[],
+  items: SavedArtwork[],
+  now: string,
+): { collections: Collection[]; repaired: boolean } {
+  const collections = new Map<string, Collection>();
+  let repaired = false;
+
+  for (const rawCollection of rawCollections) {
+    const result = CollectionSchema.safeParse(rawCollection);
+
+    if (!result.success || collections.has(result.data.id)) {
+      console.error(
+        "Ungültige Sammlung in Galerie:",
+        result.success
+          ? `Doppelte Sammlung ${result.data.id}`
+          : formatIssues(result.error.issues),
+      );
+      repaired = true;
+    } else {
+      collections.set(result.data.id, result.data);
+    }
+  }
+
+  if (!collections.has(DEFAULT_COLLECTION_ID)) {
+    collections.set(DEFAULT_COLLECTION_ID, createDefaultCollection(now));
+    repaired = true;
+  }
+
+  for (const item of items) {
+    if (!collections.has(item.collectionId)) {
+      collections.set(item.collectionId, {
+        id: item.collectionId,
+        name: RECOVERED_COLLECTION_NAME,
+        createdAt: now,
+        artworkOrder: [],
+      });
+      repaired = true;
+    }
+  }
+
+  return { collections: [...collections.values()], repaired };
+}
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Artwork } from "../schemas/artworkSchema";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import type { GalleryStore } from "./galleryStore";
+import { createGalleryState, type GalleryState } from "./galleryState";
+import {
+  addNote,
+  addToGallery,
+  removeFromGallery,
+  setGalleryStore,
+} from "./galleryStorage";
+import { notifyGalleryChanged } from "./gallerySync";
+import { createLocalStorageGalleryStore } from "./localStorageGalleryStore";
+
+const ARTWORK: Artwork = {
+  id: 1,
+  title: "Nighthawks",
+  artist_title: "Edward Hopper",
+  image_id: null,
+};
+
+/**
+ * Wartet, bis alle anstehenden Microtasks und Ladevorgänge erledigt sind
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * IDs der Einträge einer Sammlung im aktuellen Stand
+ */
+function getCollectionIds(gallery: GalleryState): number[] | undefined {
+  return gallery
+    .getSnapshot()
+    .byCollection.get(DEFAULT_COLLECTION_ID)
+    ?.map(({ id }) => id);
+}
+
+let store: GalleryStore;
+let gallery: GalleryState;
+let stop: () => void;
+
+beforeEach(async () => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  // Änderungen nur im eigenen Tab melden
+  vi.stubGlobal("BroadcastChannel", undefined);
+
+  store = createLocalStorageGalleryStore("test");
+  setGalleryStore(store);
+  await addToGallery(ARTWORK);
+
+  gallery = createGalleryState();
+  stop = gallery.start();
+  await flush();
+});
+
+afterEach(() => {
+  stop();
+  vi.restoreAllMocks();
+});
+
+describe("createGalleryState", () => {
+  it("lädt die Galerie beim Start", () => {
+    const snapshot = gallery.getSnapshot();
+
+    expect(snapshot.status).toBe("ready");
+    expect(getCollectionIds(gallery)).toEqual([1]);
+    expect(snapshot.memberships.get(1)).toEqual([DEFAULT_COLLECTION_ID]);
+  });
+
+  it("übernimmt Änderungen aus diesem Tab ohne neu zu laden", async () => {
+    const getAll = vi.spyOn(store, "getAll");
+
+    await addToGallery({ ...ARTWORK, id: 2 });
+    await addNote(1, "Nachtszene");
+    await removeFromGallery(2);
+    await flush();
+
+    const snapshot = gallery.getSnapshot();
+    expect(getAll).not.toHaveBeenCalled();
+    expect(getCollectionIds(gallery)).toEqual([1]);
+    expect(snapshot.byArtwork.get(1)?.[0].notes[0].text).toBe("Nachtszene");
+    expect(snapshot.trashCount).toBe(1);
+  });
+
+  it("übernimmt mehrere Meldungen hintereinander gemeinsam", async () => {
+    const listener = vi.fn();
+    gallery.subscribe(listener);
+
+    notifyGalleryChanged({
+      items: [{ ...(await store.get(DEFAULT_COLLECTION_ID, 1))!, title: "A" }],
+    });
+    notifyGalleryChanged({ trashDelta: 2 });
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(gallery.getSnapshot().items[0].title).toBe("A");
+    expect(gallery.getSnapshot().trashCount).toBe(2);
+  });
+
+  it("lädt nach Änderungen aus einem anderen Tab neu", async () => {
+    const getAll = vi.spyOn(store, "getAll");
+    await store.delete(DEFAULT_COLLECTION_ID, 1);
+
+    notifyGalleryChanged();
+    notifyGalleryChanged();
+    await flush();
+
+    expect(getAll).toHaveBeenCalledTimes(1);
+    expect(getCollectionIds(gallery)).toEqual([]);
+  });
+
+  it("lädt neu, wenn eine Änderung während des Ladens gemeldet wird", async () => {
+    // Der Ladevorgang liest den Stand vor der Änderung, endet aber danach
+    const stale = await store.getAll();
+    let finishLoad = () => {};
+    const getAll = vi.spyOn(store, "getAll").mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishLoad = () => resolve(stale);
+        }),
+    );
+
+    const pending = gallery.refresh();
+    await addToGallery({ ...ARTWORK, id: 2 });
+    await flush();
+    finishLoad();
+    await pending;
+    await flush();
+
+    expect(getAll).toHaveBeenCalledTimes(2);
+    expect(getCollectionIds(gallery)).toEqual([1, 2]);
+  });
+
+  it("zeigt eine neue Reihenfolge sofort an und speichert sie", async () => {
+    await addToGallery({ ...ARTWORK, id: 2 });
+    await flush();
+
+    const saving = gallery.reorder(DEFAULT_COLLECTION_ID, [2, 1]);
+    expect(getCollectionIds(gallery)).toEqual([2, 1]);
+
+    await saving;
+    await flush();
+    expect(getCollectionIds(gallery)).toEqual([2, 1]);
+    expect(
+      (await store.getCollections()).find(
+        ({ id }) => id === DEFAULT_COLLECTION_ID,
+      )?.artworkOrder,
+    ).toEqual([2, 1]);
+  });
+});
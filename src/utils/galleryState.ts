@@ -0,0 +1,509 @@
+/**
+ * Gemeinsamer Zustand der Galerie
+ *
+ * Statt dass jede Ansicht die Galerie selbst lädt (und nach jeder Änderung
+ * erneut), hält dieser Zustand alle Einträge, Sammlungen und Tags einmal im
+ * Speicher, zusammen mit einem Index nach Sammlung und nach Kunstwerk.
+ * Die Ansichten lesen ihn über die Hooks in galleryHooks.ts
+ * (`useSyncExternalStore`) und bleiben so untereinander konsistent.
+ *
+ * - Änderungen aus diesem Tab werden mit den geänderten Datensätzen
+ *   gemeldet (siehe gallerySync.ts) und direkt in den Zustand übernommen;
+ *   mehrere Meldungen kurz hintereinander werden gemeinsam übernommen.
+ * - Nach Änderungen aus einem anderen Tab wird der Zustand neu geladen.
+ *   Mehrere Meldungen kurz hintereinander führen zu nur einem Ladevorgang.
+ * - Eine neue Reihenfolge ist sofort sichtbar und wird im Hintergrund
+ *   gespeichert; folgen weitere, bevor sie gespeichert ist, wird pro
+ *   Sammlung nur die letzte geschrieben.
+ */
+
+import type { SavedArtwork } from "../schemas/noteSchema";
+import type { Collection } from "../schemas/collectionSchema";
+import {
+  countTags,
+  loadCollections,
+  loadGallery,
+  loadQuarantine,
+  loadTrash,
+  reorderGallery,
+  type TagCount,
+} from "./galleryStorage";
+import { applyArtworkOrder } from "./galleryFilter";
+import { subscribeToGalleryChanges, type GalleryChange } from "./gallerySync";
+
+/**
+ * Ladezustand: "loading" bis die Galerie zum ersten Mal geladen ist
+ */
+export type GalleryStatus = "loading" | "ready";
+
+/**
+ * Ein Stand der Galerie (wird bei jeder Änderung neu erstellt, damit
+ * Vergleiche per Referenz genügen)
+ */
+export interface GallerySnapshot {
+  status: GalleryStatus;
+
+  /**
+   * Alle Einträge (aus allen Sammlungen) in der Reihenfolge des Hinzufügens
+   */
+  items: SavedArtwork[];
+
+  /**
+   * Alle Sammlungen in der Reihenfolge ihrer Erstellung
+   */
+  collections: Collection[];
+
+  /**
+   * Die Einträge jeder Sammlung in ihrer eigenen Reihenfolge
+   */
+  byCollection: ReadonlyMap<string, SavedArtwork[]>;
+
+  /**
+   * Die Einträge jedes Kunstwerks (einer pro Sammlung)
+   */
+  byArtwork: ReadonlyMap<number, SavedArtwork[]>;
+
+  /**
+   * Die IDs der Sammlungen, in denen ein Kunstwerk liegt
+   */
+  memberships: ReadonlyMap<number, string[]>;
+
+  /**
+   * Alle Tags alphabetisch sortiert, jeweils mit Anzahl der Einträge
+   */
+  tags: TagCount[];
+
+  /**
+   * Anzahl der Einträge, die nicht geladen werden konnten (Quarantäne)
+   */
+  quarantineCount: number;
+
+  /**
+   * Anzahl der Einträge im Papierkorb
+   */
+  trashCount: number;
+}
+
+/**
+ * Callback-Funktion für Änderungen am Zustand
+ */
+export type GalleryStateListener = () => void;
+
+/**
+ * Der gemeinsame Zustand der Galerie
+ */
+export interface GalleryState {
+  /**
+   * Meldet eine Callback-Funktion für Änderungen an
+   *
+   * @returns Funktion zum Abmelden
+   */
+  subscribe: (listener: GalleryStateListener) => () => void;
+
+  /**
+   * Liefert den aktuellen Stand
+   */
+  getSnapshot: () => GallerySnapshot;
+
+  /**
+   * Lädt die Galerie neu (läuft bereits ein Ladevorgang, folgt höchstens
+   * ein weiterer)
+   */
+  refresh: () => Promise<void>;
+
+  /**
+   * Ändert die eigene Reihenfolge einer Sammlung (siehe reorderGallery)
+   *
+   * Die neue Reihenfolge ist sofort sichtbar. Schlägt das Speichern fehl,
+   * gilt wieder die gespeicherte Reihenfolge.
+   *
+   * @throws Error wenn die Reihenfolge nicht gespeichert werden konnte
+   */
+  reorder: (collectionId: string, artworkIds: number[]) => Promise<void>;
+
+  /**
+   * Lädt die Galerie und verfolgt ab jetzt alle Änderungen
+   *
+   * @returns Funktion zum Beenden (z.B. als Cleanup eines Effect Hooks)
+   */
+  start: () => () => void;
+}
+
+/**
+ * Eine Reihenfolge, die bereits angezeigt wird
+ */
+interface PendingOrder {
+  artworkIds: number[];
+
+  /**
+   * Gibt an, ob die Reihenfolge gespeichert ist (sie wird angezeigt, bis
+   * die gespeicherte Sammlung übernommen oder neu geladen wurde)
+   */
+  saved: boolean;
+}
+
+/**
+ * Geladene Daten (ohne Index)
+ */
+interface GalleryData {
+  items: SavedArtwork[];
+  collections: Collection[];
+  quarantineCount: number;
+  trashCount: number;
+}
+
+/**
+ * Hängt einen Wert an die Liste eines Schlüssels an
+ */
+function appendTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Erstellt den Stand der Galerie mitsamt Index
+ *
+ * @param orders - Reihenfolgen, die die gespeicherten ersetzen
+ */
+function createSnapshot(
+  status: GalleryStatus,
+  data: GalleryData,
+  orders: ReadonlyMap<string, PendingOrder>,
+): GallerySnapshot {
+  const collections = data.collections.map((collection) => {
+    const order = orders.get(collection.id);
+    return order
+      ? { ...collection, artworkOrder: order.artworkIds }
+      : collection;
+  });
+  const unordered = new Map<string, SavedArtwork[]>();
+  const byArtwork = new Map<number, SavedArtwork[]>();
+  const memberships = new Map<number, string[]>();
+
+  for (const item of data.items) {
+    appendTo(unordered, item.collectionId, item);
+    appendTo(byArtwork, item.id, item);
+    appendTo(memberships, item.id, item.collectionId);
+  }
+
+  const byCollection = new Map(
+    collections.map((collection) => [
+      collection.id,
+      applyArtworkOrder(
+        unordered.get(collection.id) ?? [],
+        collection.artworkOrder,
+      ),
+    ]),
+  );
+
+  return {
+    status,
+    items: data.items,
+    collections,
+    byCollection,
+    byArtwork,
+    memberships,
+    tags: countTags(data.items),
+    quarantineCount: data.quarantineCount,
+    trashCount: data.trashCount,
+  };
+}
+
+/**
+ * Eindeutiger Schlüssel eines Eintrags (Sammlung und Kunstwerk)
+ */
+function entryKey(item: Pick<SavedArtwork, "collectionId" | "id">): string {
+  return `${item.collectionId}:${item.id}`;
+}
+
+/**
+ * Übernimmt eine gemeldete Änderung in die geladenen Daten
+ *
+ * Einträge und Sammlungen behalten die Sortierung, in der sie geladen
+ * werden (nach Zeitpunkt des Hinzufügens bzw. der Erstellung).
+ */
+function applyChange(data: GalleryData, change: GalleryChange): GalleryData {
+  const items = new Map(data.items.map((item) => [entryKey(item), item]));
+  const collections = new Map(
+    data.collections.map((collection) => [collection.id, collection]),
+  );
+
+  change.removedItems?.forEach((item) => items.delete(entryKey(item)));
+  change.items?.forEach((item) => items.set(entryKey(item), item));
+  change.collections?.forEach((collection) =>
+    collections.set(collection.id, collection),
+  );
+  change.removedCollections?.forEach((collectionId) =>
+    collections.delete(collectionId),
+  );
+
+  return {
+    items: [...items.values()].sort((a, b) =>
+      a.addedAt.localeCompare(b.addedAt),
+    ),
+    collections: [...collections.values()].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt),
+    ),
+    quarantineCount: data.quarantineCount + (change.quarantineDelta ?? 0),
+    trashCount: data.trashCount + (change.trashDelta ?? 0),
+  };
+}
+
+/**
+ * Lädt alle Daten der Galerie
+ */
+async function loadGalleryData(): Promise<GalleryData> {
+  const [items, collections, quarantine, trash] = await Promise.all([
+    loadGallery(),
+    loadCollections(),
+    loadQuarantine(),
+    loadTrash(),
+  ]);
+
+  return {
+    items,
+    collections,
+    quarantineCount: quarantine.length,
+    trashCount: trash.length,
+  };
+}
+
+/**
+ * Erstellt einen gemeinsamen Zustand der Galerie
+ *
+ * Beispiel:
+ * ```typescript
+ * const gallery = createGalleryState();
+ * const stop = gallery.start();
+ * gallery.subscribe(() => console.log(gallery.getSnapshot().items));
+ * ```
+ */
+export function createGalleryState(): GalleryState {
+  /**
+   * Zuletzt geladene Daten
+   */
+  let data: GalleryData = {
+    items: [],
+    collections: [],
+    quarantineCount: 0,
+    trashCount: 0,
+  };
+
+  /**
+   * Angezeigte Reihenfolgen, die noch nicht neu geladen wurden
+   * (nach Sammlung)
+   */
+  const orders = new Map<string, PendingOrder>();
+
+  let snapshot = createSnapshot("loading", data, orders);
+
+  /**
+   * Angemeldete Callback-Funktionen
+   */
+  const listeners = new Set<GalleryStateListener>();
+
+  /**
+   * Laufender und nachfolgender Ladevorgang
+   */
+  let loading: Promise<void> | null = null;
+  let queuedLoad: Promise<void> | null = null;
+
+  /**
+   * Gibt an, ob ein Neuladen bereits geplant ist
+   */
+  let refreshScheduled = false;
+
+  /**
+   * Gemeldete Änderungen, die noch nicht übernommen sind
+   */
+  const changes: GalleryChange[] = [];
+
+  /**
+   * Laufendes Speichern der Reihenfolgen
+   */
+  let writing: Promise<void> | null = null;
+
+  /**
+   * Erstellt den Stand neu und benachrichtigt die Callback-Funktionen
+   */
+  const publish = (status: GalleryStatus = snapshot.status) => {
+    snapshot = createSnapshot(status, data, orders);
+    listeners.forEach((listener) => listener());
+  };
+
+  /**
+   * Lädt die Daten und übernimmt sie in den Stand
+   */
+  const load = async () => {
+    // Gespeicherte Reihenfolgen sind in den neuen Daten enthalten
+    const saved = [...orders].filter(([, order]) => order.saved);
+
+    try {
+      data = await loadGalleryData();
+    } catch (error) {
+      console.error("Fehler beim Laden der Galerie:", error);
+    }
+
+    for (const [collectionId, order] of saved) {
+      if (orders.get(collectionId) === order) {
+        orders.delete(collectionId);
+      }
+    }
+
+    publish("ready");
+  };
+
+  const refresh = (): Promise<void> => {
+    if (!loading) {
+      loading = load().finally(() => {
+        loading = null;
+      });
+      return loading;
+    }
+
+    // Änderungen während des Ladens: danach noch einmal laden
+    if (!queuedLoad) {
+      queuedLoad = loading.then(() => {
+        queuedLoad = null;
+        return refresh();
+      });
+    }
+
+    return queuedLoad;
+  };
+
+  /**
+   * Plant ein Neuladen (mehrere Meldungen hintereinander laden nur einmal)
+   */
+  const scheduleRefresh = () => {
+    if (refreshScheduled) {
+      return;
+    }
+
+    refreshScheduled = true;
+    queueMicrotask(() => {
+      refreshScheduled = false;
+      void refresh();
+    });
+  };
+
+  /**
+   * Übernimmt alle gemeldeten Änderungen in den Stand
+   *
+   * Gespeicherte Reihenfolgen sind in den geänderten Sammlungen enthalten
+   * und werden nicht mehr benötigt.
+   */
+  const applyChanges = () => {
+    const pending = changes.splice(0);
+
+    // Ein laufender Ladevorgang enthält die Änderungen womöglich noch nicht
+    if (loading || refreshScheduled) {
+      scheduleRefresh();
+      return;
+    }
+
+    for (const change of pending) {
+      data = applyChange(data, change);
+
+      for (const collection of change.collections ?? []) {
+        if (orders.get(collection.id)?.saved) {
+          orders.delete(collection.id);
+        }
+      }
+    }
+
+    publish();
+  };
+
+  /**
+   * Verarbeitet eine Meldung aus gallerySync.ts: Änderungen aus diesem Tab
+   * werden übernommen (mehrere hintereinander gemeinsam), für alle übrigen
+   * wird neu geladen
+   */
+  const handleChange = (change: GalleryChange | null) => {
+    if (!change) {
+      scheduleRefresh();
+      return;
+    }
+
+    changes.push(change);
+
+    if (changes.length === 1) {
+      queueMicrotask(applyChanges);
+    }
+  };
+
+  /**
+   * Speichert alle noch nicht gespeicherten Reihenfolgen
+   *
+   * @throws Error wenn eine Reihenfolge nicht gespeichert werden konnte
+   *         (die übrigen werden trotzdem gespeichert)
+   */
+  const writeOrders = async () => {
+    let failure: unknown = null;
+
+    for (;;) {
+      const next = [...orders].find(([, order]) => !order.saved);
+
+      if (!next) {
+        break;
+      }
+
+      const [collectionId, order] = next;
+      order.saved = true;
+
+      try {
+        if (!(await reorderGallery(collectionId, order.artworkIds))) {
+          throw new Error("Sammlung nicht gefunden");
+        }
+      } catch (error) {
+        failure ??= error;
+
+        if (orders.get(collectionId) === order) {
+          orders.delete(collectionId);
+          publish();
+        }
+      }
+    }
+
+    if (failure) {
+      throw failure;
+    }
+  };
+
+  const reorder = (collectionId: string, artworkIds: number[]) => {
+    orders.set(collectionId, { artworkIds, saved: false });
+    publish();
+
+    if (!writing) {
+      writing = writeOrders().finally(() => {
+        writing = null;
+      });
+    }
+
+    return writing;
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+    refresh,
+    reorder,
+    start: () => {
+      const unsubscribe = subscribeToGalleryChanges(handleChange);
+      void refresh();
+      return unsubscribe;
+    },
+  };
+}
@@ -0,0 +1,357 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import type { Artwork } from "../schemas/artworkSchema";
+import type { NoteEntry, SavedArtwork } from "../schemas/noteSchema";
+import type { GalleryStore } from "./galleryStore";
+import {
+  NoteConflictError,
+  addNote,
+  addToGallery,
+  clearGallery,
+  createCollection,
+  deleteCollection,
+  deleteNote,
+  getSavedArtwork,
+  importGallery,
+  loadCollections,
+  loadGallery,
+  loadTrash,
+  removeFromGallery,
+  reorderGallery,
+  restoreFromTrash,
+  saveTrashRetention,
+  setGalleryStore,
+  setNoteEntry,
+  updateNote,
+} from "./galleryStorage";
+import { createLocalStorageGalleryStore } from "./localStorageGalleryStore";
+
+const ADDED_AT = "2024-03-01T10:00:00.000Z";
+
+const ARTWORK: Artwork = {
+  id: 1,
+  title: "Nighthawks",
+  artist_title: "Edward Hopper",
+  image_id: null,
+};
+
+/**
+ * Gespeichertes Kunstwerk in der Standardsammlung
+ */
+function createItem(id: number, notes: NoteEntry[] = []): SavedArtwork {
+  return {
+    id,
+    collectionId: DEFAULT_COLLECTION_ID,
+    title: `Kunstwerk ${id}`,
+    artist_title: null,
+    image_id: null,
+    notes,
+    tags: [],
+    addedAt: ADDED_AT,
+  };
+}
+
+/**
+ * Notiz-Eintrag mit festem Zeitpunkt
+ */
+function createEntry(id: string, text: string, updatedAt = ADDED_AT) {
+  return { id, text, createdAt: ADDED_AT, updatedAt, history: [] };
+}
+
+/**
+ * Aktiver Speicher des Tests
+ */
+let store: GalleryStore;
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  // Änderungen nur im eigenen Tab melden
+  vi.stubGlobal("BroadcastChannel", undefined);
+
+  store = createLocalStorageGalleryStore("test");
+  setGalleryStore(store);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("importGallery", () => {
+  it("wendet das Vorgehen bei vorhandenen Kunstwerken an", async () => {
+    await store.putMany({
+      items: [
+        createItem(1, [createEntry("a", "vorhanden")]),
+        createItem(2, [createEntry("b", "vorhanden")]),
+      ],
+    });
+    const data = {
+      exportedAt: ADDED_AT,
+      collections: [],
+      items: [
+        createItem(1, [createEntry("c", "importiert")]),
+        createItem(2, [createEntry("d", "importiert")]),
+        createItem(3),
+      ],
+      invalidRows: [],
+    };
+
+    await expect(importGallery(data, "skip")).resolves.toMatchObject({
+      added: 1,
+      skipped: 2,
+    });
+    expect((await store.get(DEFAULT_COLLECTION_ID, 1))?.notes).toHaveLength(1);
+
+    await expect(importGallery(data, "merge-notes")).resolves.toMatchObject({
+      added: 0,
+      merged: 3,
+    });
+    expect(
+      (await store.get(DEFAULT_COLLECTION_ID, 1))?.notes.map(({ id }) => id),
+    ).toEqual(["a", "c"]);
+
+    await expect(importGallery(data, "replace")).resolves.toMatchObject({
+      replaced: 3,
+    });
+    expect(
+      (await store.get(DEFAULT_COLLECTION_ID, 2))?.notes.map(({ id }) => id),
+    ).toEqual(["d"]);
+  });
+
+  it("legt fehlende Sammlungen an und ordnet gleichnamige zu", async () => {
+    const data = {
+      exportedAt: ADDED_AT,
+      collections: [
+        { id: "a", name: "Seminar", createdAt: ADDED_AT, artworkOrder: [] },
+        {
+          id: "b",
+          name: "meine galerie",
+          createdAt: ADDED_AT,
+          artworkOrder: [],
+        },
+      ],
+      items: [
+        { ...createItem(1), collectionId: "a" },
+        { ...createItem(2), collectionId: "b" },
+      ],
+      invalidRows: [],
+    };
+
+    await expect(importGallery(data, "skip")).resolves.toMatchObject({
+      collectionsAdded: 1,
+      added: 2,
+    });
+    expect(
+      (await loadGallery()).map(({ id, collectionId }) => [id, collectionId]),
+    ).toEqual([
+      [1, "a"],
+      [2, DEFAULT_COLLECTION_ID],
+    ]);
+  });
+
+  it("schreibt alle Einträge gemeinsam oder gar nicht", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const putMany = vi.spyOn(store, "putMany");
+    const put = vi.spyOn(store, "put");
+    const data = {
+      exportedAt: ADDED_AT,
+      collections: [],
+      items: [createItem(1), createItem(2), createItem(3)],
+      invalidRows: [],
+    };
+
+    await importGallery(data, "replace");
+    expect(putMany).toHaveBeenCalledTimes(1);
+    expect(put).not.toHaveBeenCalled();
+
+    await store.clear();
+    putMany.mockRejectedValueOnce(new Error("Speicher voll"));
+    await expect(importGallery(data, "replace")).rejects.toThrow(
+      "Galerie konnte nicht importiert werden",
+    );
+    expect(await loadGallery()).toEqual([]);
+  });
+});
+
+describe("Gleichzeitige Änderungen an Notizen", () => {
+  /**
+   * Speichert ein Kunstwerk mit einer Notiz und liefert deren Stand
+   */
+  async function createNote(text: string): Promise<NoteEntry> {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(ADDED_AT));
+    await addToGallery(ARTWORK);
+    const entry = await addNote(1, text);
+    vi.advanceTimersByTime(1000);
+
+    return entry!;
+  }
+
+  it("speichert Änderungen an der bekannten Fassung", async () => {
+    const entry = await createNote("Erste Fassung");
+
+    await expect(
+      updateNote(1, entry.id, "Zweite Fassung", undefined, entry.updatedAt),
+    ).resolves.toBe(true);
+
+    const [saved] = (await getSavedArtwork(1))!.notes;
+    expect(saved.text).toBe("Zweite Fassung");
+    expect(saved.history).toEqual([
+      { text: "Erste Fassung", editedAt: entry.updatedAt },
+    ]);
+  });
+
+  it("überschreibt eine inzwischen geänderte Notiz nicht", async () => {
+    const entry = await createNote("Erste Fassung");
+    await updateNote(1, entry.id, "Aus dem anderen Tab");
+
+    const error = await updateNote(
+      1,
+      entry.id,
+      "Veraltete Fassung",
+      undefined,
+      entry.updatedAt,
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NoteConflictError);
+    expect((error as NoteConflictError).current?.text).toBe(
+      "Aus dem anderen Tab",
+    );
+    expect((await getSavedArtwork(1))!.notes[0].text).toBe(
+      "Aus dem anderen Tab",
+    );
+  });
+
+  it("meldet eine inzwischen gelöschte Notiz", async () => {
+    const entry = await createNote("Erste Fassung");
+    await deleteNote(1, entry.id);
+
+    const error = await updateNote(
+      1,
+      entry.id,
+      "Neue Fassung",
+      undefined,
+      entry.updatedAt,
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NoteConflictError);
+    expect((error as NoteConflictError).current).toBeNull();
+    expect((await getSavedArtwork(1))!.notes).toEqual([]);
+  });
+
+  it("löscht eine inzwischen geänderte Notiz nicht", async () => {
+    const entry = await createNote("Erste Fassung");
+    await updateNote(1, entry.id, "Aus dem anderen Tab");
+
+    await expect(
+      deleteNote(1, entry.id, undefined, entry.updatedAt),
+    ).rejects.toBeInstanceOf(NoteConflictError);
+    expect((await getSavedArtwork(1))!.notes).toHaveLength(1);
+  });
+
+  it("legt mit setNoteEntry keinen Eintrag an, der bereits existiert", async () => {
+    const entry = await createNote("Erste Fassung");
+
+    await expect(
+      setNoteEntry(1, entry.id, entry, DEFAULT_COLLECTION_ID, null),
+    ).rejects.toBeInstanceOf(NoteConflictError);
+    await expect(
+      setNoteEntry(1, entry.id, null, DEFAULT_COLLECTION_ID, entry.updatedAt),
+    ).resolves.toBe(true);
+    expect((await getSavedArtwork(1))!.notes).toEqual([]);
+  });
+});
+
+describe("Papierkorb", () => {
+  /**
+   * Speichert die Kunstwerke 1 bis 3 in der angegebenen Reihenfolge
+   */
+  async function addArtworks(collectionId = DEFAULT_COLLECTION_ID) {
+    for (const id of [1, 2, 3]) {
+      await addToGallery({ ...ARTWORK, id }, collectionId);
+    }
+    await reorderGallery(collectionId, [3, 1, 2]);
+  }
+
+  it("verschiebt entfernte Kunstwerke mit Notizen in den Papierkorb", async () => {
+    await addArtworks();
+    await addNote(1, "Bleibt erhalten");
+
+    const entry = await removeFromGallery(1);
+
+    expect(entry).toMatchObject({ position: 1, item: { id: 1 } });
+    expect(
+      (await loadGallery(DEFAULT_COLLECTION_ID)).map(({ id }) => id),
+    ).toEqual([3, 2]);
+    expect(await loadTrash()).toEqual([entry]);
+  });
+
+  it("stellt Kunstwerke an ihrer früheren Position wieder her", async () => {
+    await addArtworks();
+    await addNote(1, "Bleibt erhalten");
+    const first = await removeFromGallery(1);
+    const second = await removeFromGallery(3);
+
+    await expect(restoreFromTrash([second!.id, first!.id])).resolves.toBe(2);
+
+    expect(
+      (await loadGallery(DEFAULT_COLLECTION_ID)).map(({ id }) => id),
+    ).toEqual([3, 1, 2]);
+    expect((await getSavedArtwork(1))!.notes[0].text).toBe("Bleibt erhalten");
+    expect(await loadTrash()).toEqual([]);
+  });
+
+  it("legt eine inzwischen gelöschte Sammlung wieder an", async () => {
+    const collection = await createCollection("Seminar");
+    await addArtworks(collection.id);
+    await deleteCollection(collection.id);
+
+    const trash = await loadTrash();
+    expect(trash).toHaveLength(3);
+    await restoreFromTrash(trash.map(({ id }) => id));
+
+    expect((await loadCollections()).map(({ name }) => name)).toContain(
+      "Seminar",
+    );
+    expect((await loadGallery(collection.id)).map(({ id }) => id)).toEqual([
+      3, 1, 2,
+    ]);
+  });
+
+  it("stellt ein Kunstwerk nicht doppelt wieder her", async () => {
+    await addArtworks();
+    const entry = await removeFromGallery(1);
+    await addToGallery(ARTWORK);
+
+    await expect(restoreFromTrash([entry!.id])).resolves.toBe(0);
+    expect(await loadTrash()).toHaveLength(1);
+  });
+
+  it("leert die Galerie in den Papierkorb", async () => {
+    await addArtworks();
+
+    await expect(clearGallery()).resolves.toHaveLength(3);
+    expect(await loadGallery()).toEqual([]);
+    expect(await loadTrash()).toHaveLength(3);
+  });
+
+  it("entfernt Einträge nach Ablauf der Aufbewahrungsdauer endgültig", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(ADDED_AT));
+    saveTrashRetention(7);
+    await addArtworks();
+    await removeFromGallery(1);
+
+    vi.advanceTimersByTime(7 * 24 * 60 * 60 * 1000 - 1);
+    expect(await loadTrash()).toHaveLength(1);
+
+    vi.advanceTimersByTime(1);
+    expect(await loadTrash()).toEqual([]);
+    expect(await store.getTrash()).toEqual([]);
+  });
+});
@@ -1,8 +1,22 @@
 /**
- * LocalStorage Helper für Galerie-Verwaltung
+ * Speicher-Helper für Galerie-Verwaltung
  *
  * Dieser Helper stellt CRUD-Operationen (Create, Read, Update, Delete)
- * für die Verwaltung gespeicherter Kunstwerke im Browser's LocalStorage bereit.
+ * für die Verwaltung gespeicherter Kunstwerke und ihrer Sammlungen bereit.
+ * Ein Kunstwerk kann in mehreren Sammlungen liegen und hat in jeder
+ * Sammlung eigene Notizen und eine eigene Position (die Reihenfolge lässt
+ * sich per Drag & Drop festlegen). Gespeichert wird
+ * über einen GalleryStore (siehe galleryStore.ts): bevorzugt IndexedDB,
+ * mit dem LocalStorage als Fallback. Alle Operationen sind asynchron.
+ * Die gesamte Galerie kann als JSON-Datei exportiert und wieder
+ * importiert werden (siehe galleryTransfer.ts). Jede gespeicherte Änderung
+ * wird an die anderen geöffneten Tabs gemeldet (siehe gallerySync.ts).
+ * Entfernte Kunstwerke wandern in den Papierkorb und bleiben dort für die
+ * eingestellte Aufbewahrungsdauer wiederherstellbar (siehe trashSchema.ts).
+ *
+ * Beim ersten Zugriff wird:
+ * - das gespeicherte Format auf die aktuelle Version migriert
+ * - eine bestehende LocalStorage-Galerie (`aic_gallery`) nach IndexedDB übernommen
  *
  * FR008: Erstellen – Zur Galerie hinzufügen
  * FR009: Lesen – Galerie anzeigen
@@ -10,114 +24,257 @@
  * FR011: Löschen – Aus Galerie entfernen
  */
 
-import { SavedArtworkSchema } from "../schemas/noteSchema";
-import type { SavedArtwork } from "../schemas/noteSchema";
+import {
+  MAX_NOTE_HISTORY,
+  NoteSchema,
+  SavedArtworkSchema,
+} from "../schemas/noteSchema";
+import type { NoteEntry, SavedArtwork } from "../schemas/noteSchema";
 import type { Artwork } from "../schemas/artworkSchema";
+import {
+  CollectionNameSchema,
+  CollectionSchema,
+  DEFAULT_COLLECTION_ID,
+  type Collection,
+} from "../schemas/collectionSchema";
+import type { QuarantinedEntry } from "../schemas/galleryStorageSchema";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TrashRetentionSchema,
+  type TrashRetention,
+  type TrashedEntry,
+} from "../schemas/trashSchema";
+import type {
+  GalleryExport,
+  ImportStrategy,
+} from "../schemas/galleryExportSchema";
+import { TagListSchema, TagSchema } from "../schemas/tagSchema";
+import type { GalleryData, GalleryStore } from "./galleryStore";
+import { createLocalStorageGalleryStore } from "./localStorageGalleryStore";
+import { createIndexedDbGalleryStore } from "./indexedDbGalleryStore";
+import { isIndexedDbAvailable } from "./indexedDb";
+import {
+  createDefaultCollection,
+  migrateGalleryData,
+  parseGalleryItem,
+  type ParseItemResult,
+} from "./galleryMigrations";
+import {
+  createGalleryExport,
+  mergeNotes,
+  type GalleryImport,
+} from "./galleryTransfer";
+import { applyArtworkOrder } from "./galleryFilter";
+import { notifyGalleryChanged, type GalleryChange } from "./gallerySync";
 
 /**
- * Schlüssel für den LocalStorage
+ * Aktiver Speicher (wird beim ersten Zugriff initialisiert)
  */
-const GALLERY_STORAGE_KEY = "aic_gallery";
+let storePromise: Promise<GalleryStore> | null = null;
 
 /**
- * Lädt alle gespeicherten Kunstwerke aus dem LocalStorage
- *
- * FR009: Lesen – Galerie anzeigen
+ * Liest die Daten eines Speichers und migriert sie auf das aktuelle Format
  *
- * @returns Array von SavedArtwork-Objekten
+ * Hat die Migration etwas verändert (ältere Version, neue
+ * Quarantäne-Einträge), wird das Ergebnis sofort zurückgeschrieben,
+ * damit die Rohdaten defekter Einträge erhalten bleiben.
+ */
+async function loadAndMigrate(store: GalleryStore): Promise<GalleryData> {
+  const raw = await store.readRaw();
+
+  if (raw === null) {
+    return { items: [], collections: [], quarantine: [], trash: [] };
+  }
+
+  const { items, collections, quarantine, trash, changed } =
+    migrateGalleryData(raw);
+
+  if (changed) {
+    await store.replaceAll({ items, collections, quarantine, trash });
+  }
+
+  return { items, collections, quarantine, trash };
+}
+
+/**
+ * Legt die Standardsammlung an, falls sie fehlt (z.B. bei leerem Speicher)
+ */
+async function ensureDefaultCollection(store: GalleryStore): Promise<void> {
+  const collections = await store.getCollections();
+
+  if (
+    !collections.some((collection) => collection.id === DEFAULT_COLLECTION_ID)
+  ) {
+    await store.putCollection(createDefaultCollection());
+  }
+}
+
+/**
+ * Übernimmt eine bestehende LocalStorage-Galerie nach IndexedDB
  *
- * Diese Funktion:
- * - Liest die Daten aus dem LocalStorage
- * - Validiert jedes Kunstwerk mit dem SavedArtworkSchema
- * - Filtert ungültige Einträge heraus
- * - Gibt ein leeres Array zurück, wenn keine Daten vorhanden sind
+ * Bereits in IndexedDB vorhandene Einträge und Sammlungen haben Vorrang.
+ * Der LocalStorage-Eintrag wird erst nach erfolgreichem Schreiben entfernt.
  */
-export function loadGallery(): SavedArtwork[] {
-  try {
-    // Lade die Daten aus dem LocalStorage
-    const storedData = localStorage.getItem(GALLERY_STORAGE_KEY);
+async function migrateFromLocalStorage(
+  localStore: GalleryStore,
+  store: GalleryStore,
+): Promise<void> {
+  const legacy = await loadAndMigrate(localStore);
 
-    // Wenn keine Daten vorhanden sind, gib ein leeres Array zurück
-    if (!storedData) {
-      return [];
-    }
+  if (
+    legacy.items.length === 0 &&
+    legacy.quarantine.length === 0 &&
+    legacy.trash.length === 0
+  ) {
+    return;
+  }
+
+  const current = await loadAndMigrate(store);
+  const existingKeys = new Set(current.items.map(entryKey));
+  const existingCollectionIds = new Set(
+    current.collections.map((collection) => collection.id),
+  );
 
-    // Parse das JSON
-    const parsedData = JSON.parse(storedData);
+  await store.replaceAll({
+    items: [
+      ...current.items,
+      ...legacy.items.filter((item) => !existingKeys.has(entryKey(item))),
+    ],
+    collections: [
+      ...current.collections,
+      ...legacy.collections.filter(
+        (collection) => !existingCollectionIds.has(collection.id),
+      ),
+    ],
+    quarantine: [...current.quarantine, ...legacy.quarantine],
+    trash: [...current.trash, ...legacy.trash],
+  });
+  await localStore.clear();
+}
+
+/**
+ * Wählt den Speicher aus und führt die Migrationen durch
+ */
+async function initStore(): Promise<GalleryStore> {
+  const localStore = createLocalStorageGalleryStore();
 
-    // Validiere, dass es sich um ein Array handelt
-    if (!Array.isArray(parsedData)) {
-      console.error("Gespeicherte Galerie-Daten sind kein Array");
-      return [];
+  if (isIndexedDbAvailable()) {
+    try {
+      const store = await createIndexedDbGalleryStore();
+      await loadAndMigrate(store);
+      await migrateFromLocalStorage(localStore, store);
+      await ensureDefaultCollection(store);
+      return store;
+    } catch (error) {
+      console.warn("IndexedDB nicht verfügbar, verwende LocalStorage:", error);
     }
+  }
 
-    // Validiere jedes Element mit dem SavedArtworkSchema
-    // und filtere ungültige Einträge heraus
-    const validatedArtworks = parsedData
-      .map((item) => {
-        try {
-          return SavedArtworkSchema.parse(item);
-        } catch (error) {
-          console.error("Ungültiges Artwork in Galerie:", error);
-          return null;
-        }
-      })
-      .filter((item): item is SavedArtwork => item !== null);
-
-    return validatedArtworks;
-  } catch (error) {
-    console.error("Fehler beim Laden der Galerie:", error);
-    return [];
+  await loadAndMigrate(localStore);
+  await ensureDefaultCollection(localStore);
+  return localStore;
+}
+
+/**
+ * Eindeutiger Schlüssel eines Eintrags (Sammlung und Kunstwerk)
+ */
+function entryKey(item: SavedArtwork): string {
+  return `${item.collectionId}:${item.id}`;
+}
+
+/**
+ * Liefert den initialisierten Galerie-Speicher
+ */
+function getStore(): Promise<GalleryStore> {
+  if (!storePromise) {
+    storePromise = initStore();
   }
+
+  return storePromise;
+}
+
+/**
+ * Ersetzt den Galerie-Speicher
+ *
+ * @param store - Der neue Speicher (z.B. createLocalStorageGalleryStore("test") für Tests)
+ */
+export function setGalleryStore(store: GalleryStore): void {
+  storePromise = ensureDefaultCollection(store).then(() => store);
 }
 
 /**
- * Speichert die Galerie im LocalStorage
+ * Lädt die gespeicherten Kunstwerke einer Sammlung
+ *
+ * FR009: Lesen – Galerie anzeigen
  *
- * @param gallery - Array von SavedArtwork-Objekten
+ * @param collectionId - Die Sammlung (ohne Angabe: Einträge aller Sammlungen)
+ * @returns Promise mit den SavedArtwork-Objekten in der eigenen Reihenfolge
+ *          der Sammlung (siehe reorderGallery); neu hinzugefügte Kunstwerke
+ *          und Einträge aller Sammlungen in der Reihenfolge des Hinzufügens
  *
- * Diese Funktion ist eine interne Helper-Funktion,
- * die von den anderen CRUD-Funktionen verwendet wird.
+ * Ungültige Einträge werden beim ersten Zugriff in die Quarantäne
+ * verschoben (siehe loadQuarantine). Gibt ein leeres Array zurück,
+ * wenn keine Daten vorhanden sind oder der Speicher nicht lesbar ist.
  */
-function saveGallery(gallery: SavedArtwork[]): void {
+export async function loadGallery(
+  collectionId?: string,
+): Promise<SavedArtwork[]> {
   try {
-    localStorage.setItem(GALLERY_STORAGE_KEY, JSON.stringify(gallery));
+    const store = await getStore();
+
+    if (collectionId === undefined) {
+      return await store.getAll();
+    }
+
+    const [items, collection] = await Promise.all([
+      store.getByCollection(collectionId),
+      findCollection(store, collectionId),
+    ]);
+
+    return applyArtworkOrder(items, collection?.artworkOrder ?? []);
   } catch (error) {
-    console.error("Fehler beim Speichern der Galerie:", error);
-    throw new Error("Galerie konnte nicht gespeichert werden");
+    console.error("Fehler beim Laden der Galerie:", error);
+    return [];
   }
 }
 
 /**
- * Fügt ein Kunstwerk zur Galerie hinzu
+ * Fügt ein Kunstwerk zu einer Sammlung hinzu
  *
  * FR008: Erstellen – Zur Galerie hinzufügen
  *
  * @param artwork - Das hinzuzufügende Artwork-Objekt
- * @returns true wenn erfolgreich, false wenn das Artwork bereits existiert
+ * @param collectionId - Die Ziel-Sammlung (Standard: Standardsammlung)
+ * @returns true wenn erfolgreich, false wenn das Artwork bereits in der
+ *          Sammlung ist oder die Sammlung nicht existiert
  *
  * Diese Funktion:
- * - Lädt die aktuelle Galerie
- * - Prüft, ob das Kunstwerk bereits existiert
- * - Fügt das Kunstwerk mit einer leeren Notiz hinzu
- * - Speichert die aktualisierte Galerie
+ * - Prüft, ob das Kunstwerk bereits in der Sammlung ist
+ * - Fügt das Kunstwerk ohne Notizen hinzu (in der eigenen Reihenfolge
+ *   der Sammlung steht es am Ende)
  */
-export function addToGallery(artwork: Artwork): boolean {
+export async function addToGallery(
+  artwork: Artwork,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<boolean> {
   try {
-    // Lade die aktuelle Galerie
-    const gallery = loadGallery();
+    const store = await getStore();
 
-    // Prüfe, ob das Kunstwerk bereits in der Galerie ist
-    const exists = gallery.some((item) => item.id === artwork.id);
+    if (!(await findCollection(store, collectionId))) {
+      console.warn("Sammlung nicht gefunden");
+      return false;
+    }
 
-    if (exists) {
-      console.warn("Kunstwerk ist bereits in der Galerie");
+    // Prüfe, ob das Kunstwerk bereits in der Sammlung ist
+    if (await store.get(collectionId, artwork.id)) {
+      console.warn("Kunstwerk ist bereits in der Sammlung");
       return false;
     }
 
-    // Erstelle ein SavedArtwork-Objekt mit leerer Notiz
+    // Erstelle ein SavedArtwork-Objekt ohne Notizen
     const savedArtwork: SavedArtwork = {
       id: artwork.id,
+      collectionId,
       title: artwork.title,
       artist_title: artwork.artist_title,
       image_id: artwork.image_id,
@@ -125,17 +282,16 @@ export function addToGallery(artwork: Artwork): boolean {
       medium_display: artwork.medium_display,
       place_of_origin: artwork.place_of_origin,
       dimensions: artwork.dimensions,
-      note: "", // Standardmäßig leere Notiz
+      thumbnail: artwork.thumbnail,
+      notes: [], // Standardmäßig ohne Notizen
+      tags: [],
+      addedAt: new Date().toISOString(),
     };
 
-    // Validiere das SavedArtwork
-    const validated = SavedArtworkSchema.parse(savedArtwork);
-
-    // Füge das Kunstwerk hinzu
-    gallery.push(validated);
-
-    // Speichere die aktualisierte Galerie
-    saveGallery(gallery);
+    // Validiere und speichere das SavedArtwork
+    const item = SavedArtworkSchema.parse(savedArtwork);
+    await store.put(item);
+    notifyGalleryChanged({ items: [item] });
 
     return true;
   } catch (error) {
@@ -145,87 +301,565 @@ export function addToGallery(artwork: Artwork): boolean {
 }
 
 /**
- * Aktualisiert die Notiz eines gespeicherten Kunstwerks
+ * Prüft einen Notiztext mit dem NoteSchema
+ *
+ * @returns Den Text ohne Leerzeichen am Rand
+ * @throws Error mit einer lesbaren Meldung, wenn der Text ungültig ist
+ */
+function parseNoteText(artworkId: number, text: string): string {
+  const result = NoteSchema.safeParse({ artworkId, note: text });
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0].message);
+  }
+
+  return result.data.note;
+}
+
+/**
+ * Speichert eine neue Fassung eines Notiz-Eintrags
+ *
+ * Die bisherige Fassung wandert in den Verlauf (höchstens
+ * MAX_NOTE_HISTORY Fassungen, die ältesten werden verworfen).
+ */
+function reviseNoteEntry(entry: NoteEntry, text: string): NoteEntry {
+  if (entry.text === text) {
+    return entry;
+  }
+
+  return {
+    ...entry,
+    text,
+    updatedAt: new Date().toISOString(),
+    history: [
+      ...entry.history,
+      { text: entry.text, editedAt: entry.updatedAt },
+    ].slice(-MAX_NOTE_HISTORY),
+  };
+}
+
+/**
+ * Fehler bei gleichzeitigen Änderungen an einer Notiz
+ *
+ * Wird geworfen, wenn ein Notiz-Eintrag seit dem Laden der Ansicht an
+ * anderer Stelle (z.B. in einem anderen Tab) geändert oder gelöscht wurde.
+ * Die Änderung wird dann nicht gespeichert, damit die andere Fassung nicht
+ * unbemerkt überschrieben wird.
+ */
+export class NoteConflictError extends Error {
+  /**
+   * Der aktuell gespeicherte Eintrag (null, wenn er gelöscht wurde)
+   */
+  readonly current: NoteEntry | null;
+
+  constructor(current: NoteEntry | null) {
+    super(
+      current
+        ? "Die Notiz wurde inzwischen an anderer Stelle geändert"
+        : "Die Notiz wurde inzwischen an anderer Stelle gelöscht",
+    );
+    this.name = "NoteConflictError";
+    this.current = current;
+  }
+}
+
+/**
+ * Sucht einen Notiz-Eintrag und prüft, ob er noch dem Stand der Ansicht
+ * entspricht
+ *
+ * @param expectedUpdatedAt - `updatedAt` des Eintrags, wie ihn die Ansicht
+ *                            kennt (null: der Eintrag darf nicht existieren;
+ *                            ohne Angabe: keine Prüfung)
+ * @returns Den Eintrag oder null, wenn er nicht existiert
+ * @throws NoteConflictError wenn der Eintrag inzwischen geändert oder
+ *         gelöscht wurde
+ */
+function findNoteEntry(
+  notes: NoteEntry[],
+  entryId: string,
+  expectedUpdatedAt?: string | null,
+): NoteEntry | null {
+  const entry = notes.find((item) => item.id === entryId) ?? null;
+
+  if (
+    expectedUpdatedAt !== undefined &&
+    (entry?.updatedAt ?? null) !== expectedUpdatedAt
+  ) {
+    throw new NoteConflictError(entry);
+  }
+
+  return entry;
+}
+
+/**
+ * Ändert die Notiz-Einträge eines gespeicherten Kunstwerks
+ *
+ * @param modify - Liefert die neuen Einträge oder null, wenn der
+ *                 betroffene Eintrag nicht gefunden wurde
+ * @returns true wenn gespeichert wurde, sonst false
+ */
+async function modifyNotes(
+  artworkId: number,
+  collectionId: string,
+  modify: (notes: NoteEntry[]) => NoteEntry[] | null,
+): Promise<boolean> {
+  const store = await getStore();
+  const artwork = await store.get(collectionId, artworkId);
+
+  if (!artwork) {
+    console.warn("Kunstwerk nicht in der Galerie gefunden");
+    return false;
+  }
+
+  const notes = modify(artwork.notes);
+
+  if (!notes) {
+    console.warn("Notiz nicht gefunden");
+    return false;
+  }
+
+  // Validiere und speichere das aktualisierte Kunstwerk
+  const item = SavedArtworkSchema.parse({ ...artwork, notes });
+  await store.put(item);
+  notifyGalleryChanged({ items: [item] });
+
+  return true;
+}
+
+/**
+ * Fügt einem gespeicherten Kunstwerk einen neuen Notiz-Eintrag hinzu
  *
  * FR010: Aktualisieren – Notizen pro Kunstwerk
  *
  * @param artworkId - Die ID des Kunstwerks
- * @param note - Die neue Notiz (maximal 500 Zeichen)
- * @returns true wenn erfolgreich, false wenn das Kunstwerk nicht gefunden wurde
+ * @param text - Der Notiztext (Markdown, maximal 2000 Zeichen)
+ * @param collectionId - Die Sammlung (Standard: Standardsammlung)
+ * @returns Der neue Eintrag oder null, wenn das Kunstwerk nicht gefunden wurde
+ * @throws Error mit einer lesbaren Meldung, wenn der Text ungültig ist
+ */
+export async function addNote(
+  artworkId: number,
+  text: string,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<NoteEntry | null> {
+  const now = new Date().toISOString();
+  const entry: NoteEntry = {
+    id: crypto.randomUUID(),
+    text: parseNoteText(artworkId, text),
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  };
+
+  try {
+    const added = await modifyNotes(artworkId, collectionId, (notes) => [
+      ...notes,
+      entry,
+    ]);
+    return added ? entry : null;
+  } catch (error) {
+    console.error("Fehler beim Hinzufügen der Notiz:", error);
+    throw new Error("Notiz konnte nicht gespeichert werden");
+  }
+}
+
+/**
+ * Aktualisiert einen Notiz-Eintrag eines gespeicherten Kunstwerks
  *
- * Diese Funktion:
- * - Lädt die aktuelle Galerie
- * - Findet das Kunstwerk anhand der ID
- * - Aktualisiert die Notiz (mit Validierung)
- * - Speichert die aktualisierte Galerie
+ * FR010: Aktualisieren – Notizen pro Kunstwerk
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @param entryId - Die ID des Notiz-Eintrags
+ * @param text - Der neue Text (Markdown, maximal 2000 Zeichen)
+ * @param collectionId - Die Sammlung (Standard: Standardsammlung)
+ * @param expectedUpdatedAt - `updatedAt` der Fassung, die bearbeitet wurde
+ *                            (ohne Angabe: keine Prüfung auf Konflikte)
+ * @returns true wenn erfolgreich, false wenn Kunstwerk oder Eintrag nicht
+ *          gefunden wurden
+ * @throws Error mit einer lesbaren Meldung, wenn der Text ungültig ist
+ * @throws NoteConflictError wenn der Eintrag inzwischen an anderer Stelle
+ *         geändert oder gelöscht wurde
+ *
+ * Die bisherige Fassung bleibt im Verlauf des Eintrags erhalten.
  */
-export function updateNote(artworkId: number, note: string): boolean {
+export async function updateNote(
+  artworkId: number,
+  entryId: string,
+  text: string,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+  expectedUpdatedAt?: string,
+): Promise<boolean> {
+  const newText = parseNoteText(artworkId, text);
+
   try {
-    // Validiere die Notizlänge
-    if (note.length > 500) {
-      throw new Error("Notiz darf maximal 500 Zeichen lang sein");
+    return await modifyNotes(artworkId, collectionId, (notes) =>
+      findNoteEntry(notes, entryId, expectedUpdatedAt)
+        ? notes.map((entry) =>
+            entry.id === entryId ? reviseNoteEntry(entry, newText) : entry,
+          )
+        : null,
+    );
+  } catch (error) {
+    if (error instanceof NoteConflictError) {
+      throw error;
     }
 
-    // Lade die aktuelle Galerie
-    const gallery = loadGallery();
+    console.error("Fehler beim Aktualisieren der Notiz:", error);
+    throw new Error("Notiz konnte nicht aktualisiert werden");
+  }
+}
 
-    // Finde das Kunstwerk
-    const artworkIndex = gallery.findIndex((item) => item.id === artworkId);
+/**
+ * Stellt eine frühere Fassung eines Notiz-Eintrags wieder her
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @param entryId - Die ID des Notiz-Eintrags
+ * @param revisionIndex - Position der Fassung im Verlauf
+ * @param collectionId - Die Sammlung (Standard: Standardsammlung)
+ * @param expectedUpdatedAt - `updatedAt` des Eintrags, wie ihn die Ansicht
+ *                            kennt (ohne Angabe: keine Prüfung auf Konflikte)
+ * @returns true wenn erfolgreich, false wenn Kunstwerk, Eintrag oder
+ *          Fassung nicht gefunden wurden
+ * @throws NoteConflictError wenn der Eintrag inzwischen an anderer Stelle
+ *         geändert oder gelöscht wurde
+ *
+ * Das Wiederherstellen ist selbst eine Änderung: Die aktuelle Fassung
+ * wandert in den Verlauf und kann ebenfalls wiederhergestellt werden.
+ */
+export async function restoreNoteRevision(
+  artworkId: number,
+  entryId: string,
+  revisionIndex: number,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+  expectedUpdatedAt?: string,
+): Promise<boolean> {
+  try {
+    return await modifyNotes(artworkId, collectionId, (notes) => {
+      const entry = findNoteEntry(notes, entryId, expectedUpdatedAt);
+      const revision = entry?.history[revisionIndex];
+
+      if (!entry || !revision) {
+        return null;
+      }
+
+      return notes.map((item) =>
+        item.id === entryId ? reviseNoteEntry(item, revision.text) : item,
+      );
+    });
+  } catch (error) {
+    if (error instanceof NoteConflictError) {
+      throw error;
+    }
+
+    console.error("Fehler beim Wiederherstellen der Notiz:", error);
+    throw new Error("Notiz konnte nicht wiederhergestellt werden");
+  }
+}
+
+/**
+ * Löscht einen Notiz-Eintrag (mitsamt Verlauf)
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @param entryId - Die ID des Notiz-Eintrags
+ * @param collectionId - Die Sammlung (Standard: Standardsammlung)
+ * @param expectedUpdatedAt - `updatedAt` des Eintrags, wie ihn die Ansicht
+ *                            kennt (ohne Angabe: keine Prüfung auf Konflikte)
+ * @returns true wenn erfolgreich, false wenn Kunstwerk oder Eintrag nicht
+ *          gefunden wurden
+ * @throws NoteConflictError wenn der Eintrag inzwischen an anderer Stelle
+ *         geändert wurde
+ */
+export async function deleteNote(
+  artworkId: number,
+  entryId: string,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+  expectedUpdatedAt?: string,
+): Promise<boolean> {
+  try {
+    return await modifyNotes(artworkId, collectionId, (notes) =>
+      findNoteEntry(notes, entryId, expectedUpdatedAt)
+        ? notes.filter((entry) => entry.id !== entryId)
+        : null,
+    );
+  } catch (error) {
+    if (error instanceof NoteConflictError) {
+      throw error;
+    }
+
+    console.error("Fehler beim Löschen der Notiz:", error);
+    throw new Error("Notiz konnte nicht gelöscht werden");
+  }
+}
+
+/**
+ * Setzt einen Notiz-Eintrag auf einen bestimmten Stand
+ *
+ * Wird zum Rückgängigmachen und Wiederholen von Notiz-Änderungen
+ * verwendet (siehe galleryCommands.ts): Der Eintrag wird mitsamt Verlauf
+ * genau so gespeichert, wie er übergeben wird.
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @param entryId - Die ID des Notiz-Eintrags
+ * @param entry - Der gewünschte Stand (null: Eintrag entfernen)
+ * @param collectionId - Die Sammlung
+ * @param expectedUpdatedAt - `updatedAt` des aktuell erwarteten Stands
+ *                            (null: der Eintrag darf nicht existieren)
+ * @returns true wenn erfolgreich, false wenn das Kunstwerk nicht gefunden wurde
+ * @throws NoteConflictError wenn der Eintrag inzwischen an anderer Stelle
+ *         geändert oder gelöscht wurde
+ */
+export async function setNoteEntry(
+  artworkId: number,
+  entryId: string,
+  entry: NoteEntry | null,
+  collectionId: string,
+  expectedUpdatedAt: string | null,
+): Promise<boolean> {
+  try {
+    return await modifyNotes(artworkId, collectionId, (notes) => {
+      findNoteEntry(notes, entryId, expectedUpdatedAt);
 
-    if (artworkIndex === -1) {
+      const others = notes.filter((item) => item.id !== entryId);
+      return entry
+        ? [...others, entry].sort((a, b) =>
+            a.createdAt.localeCompare(b.createdAt),
+          )
+        : others;
+    });
+  } catch (error) {
+    if (error instanceof NoteConflictError) {
+      throw error;
+    }
+
+    console.error("Fehler beim Speichern der Notiz:", error);
+    throw new Error("Notiz konnte nicht gespeichert werden");
+  }
+}
+
+/**
+ * Setzt die Tags eines gespeicherten Kunstwerks in einer Sammlung
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @param tags - Die neuen Tags (werden normalisiert, Duplikate entfernt)
+ * @param collectionId - Die Sammlung (Standard: Standardsammlung)
+ * @returns true wenn erfolgreich, false wenn das Kunstwerk nicht gefunden wurde
+ * @throws Error mit einer lesbaren Meldung, wenn ein Tag ungültig ist
+ */
+export async function setTags(
+  artworkId: number,
+  tags: string[],
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<boolean> {
+  const result = TagListSchema.safeParse(tags);
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0].message);
+  }
+
+  try {
+    const store = await getStore();
+    const artwork = await store.get(collectionId, artworkId);
+
+    if (!artwork) {
       console.warn("Kunstwerk nicht in der Galerie gefunden");
       return false;
     }
 
-    // Aktualisiere die Notiz
-    gallery[artworkIndex].note = note;
+    const item = SavedArtworkSchema.parse({ ...artwork, tags: result.data });
+    await store.put(item);
+    notifyGalleryChanged({ items: [item] });
 
-    // Validiere das aktualisierte Kunstwerk
-    gallery[artworkIndex] = SavedArtworkSchema.parse(gallery[artworkIndex]);
+    return true;
+  } catch (error) {
+    console.error("Fehler beim Speichern der Tags:", error);
+    throw new Error("Tags konnten nicht gespeichert werden");
+  }
+}
 
-    // Speichere die aktualisierte Galerie
-    saveGallery(gallery);
+/**
+ * Ein Tag mit der Anzahl der Einträge, die ihn tragen
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
 
-    return true;
+/**
+ * Zählt die Tags der angegebenen Einträge
+ *
+ * @returns Die Tags alphabetisch sortiert, jeweils mit Anzahl der Einträge
+ */
+export function countTags(items: SavedArtwork[]): TagCount[] {
+  const counts = new Map<string, number>();
+
+  for (const item of items) {
+    for (const tag of item.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => a.tag.localeCompare(b.tag, "de-DE"));
+}
+
+/**
+ * Lädt alle verwendeten Tags der Galerie (aus allen Sammlungen)
+ *
+ * @returns Die Tags alphabetisch sortiert, jeweils mit Anzahl der Einträge
+ *
+ * Wird für die Autovervollständigung, den Tag-Filter und die
+ * Tag-Verwaltung verwendet.
+ */
+export async function loadTags(): Promise<TagCount[]> {
+  try {
+    const store = await getStore();
+    return countTags(await store.getAll());
   } catch (error) {
-    console.error("Fehler beim Aktualisieren der Notiz:", error);
-    throw new Error("Notiz konnte nicht aktualisiert werden");
+    console.error("Fehler beim Laden der Tags:", error);
+    return [];
+  }
+}
+
+/**
+ * Benennt einen Tag in der gesamten Galerie um
+ *
+ * @param tag - Der bisherige Tag
+ * @param newTag - Der neue Name
+ * @returns Anzahl der geänderten Einträge
+ * @throws Error mit einer lesbaren Meldung, wenn der neue Name ungültig ist
+ *
+ * Existiert der neue Tag bereits, werden beide Tags zusammengeführt:
+ * Einträge, die beide tragen, behalten ihn nur einmal.
+ */
+export async function renameTag(tag: string, newTag: string): Promise<number> {
+  const result = TagSchema.safeParse(newTag);
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0].message);
+  }
+
+  try {
+    const store = await getStore();
+    const items = (await store.getByTag(tag)).map((item) =>
+      SavedArtworkSchema.parse({
+        ...item,
+        tags: item.tags.map((current) =>
+          current === tag ? result.data : current,
+        ),
+      }),
+    );
+
+    await store.putMany({ items });
+    notifyGalleryChanged({ items });
+    return items.length;
+  } catch (error) {
+    console.error("Fehler beim Umbenennen des Tags:", error);
+    throw new Error("Tag konnte nicht umbenannt werden");
+  }
+}
+
+/**
+ * Verschiebt Einträge in den Papierkorb
+ *
+ * Jeder Eintrag wird zusammen mit seiner Sammlung und seiner Position in
+ * deren eigener Reihenfolge abgelegt und erst danach aus der Galerie
+ * entfernt, damit bei einem Fehler nichts verloren geht.
+ *
+ * @returns Die neuen Papierkorb-Einträge und die geänderten Datensätze
+ *          (für notifyGalleryChanged)
+ */
+async function moveToTrash(
+  store: GalleryStore,
+  items: SavedArtwork[],
+): Promise<{ entries: TrashedEntry[]; change: GalleryChange }> {
+  const collections = await store.getCollections();
+  const deletedAt = new Date().toISOString();
+  const entries: TrashedEntry[] = [];
+  const changedCollections: Collection[] = [];
+
+  for (const item of items) {
+    // Ohne Sammlung wird der Eintrag in die Standardsammlung wiederhergestellt
+    const collection =
+      collections.find(({ id }) => id === item.collectionId) ??
+      createDefaultCollection(deletedAt);
+    const position = collection.artworkOrder.indexOf(item.id);
+    const entry: TrashedEntry = {
+      id: crypto.randomUUID(),
+      item,
+      collection,
+      position: position === -1 ? null : position,
+      deletedAt,
+    };
+
+    await store.putTrash(entry);
+    await store.delete(item.collectionId, item.id);
+    entries.push(entry);
+  }
+
+  // Die Kunstwerke aus der eigenen Reihenfolge ihrer Sammlungen entfernen
+  for (const collection of collections) {
+    const removedIds = new Set(
+      items
+        .filter((item) => item.collectionId === collection.id)
+        .map((item) => item.id),
+    );
+
+    if (collection.artworkOrder.some((id) => removedIds.has(id))) {
+      const changed = {
+        ...collection,
+        artworkOrder: collection.artworkOrder.filter(
+          (id) => !removedIds.has(id),
+        ),
+      };
+      await store.putCollection(changed);
+      changedCollections.push(changed);
+    }
   }
+
+  return {
+    entries,
+    change: {
+      removedItems: items,
+      collections: changedCollections,
+      trashDelta: entries.length,
+    },
+  };
 }
 
 /**
- * Entfernt ein Kunstwerk (und seine Notiz) aus der Galerie
+ * Entfernt ein Kunstwerk (mit Notizen und Tags) aus einer Sammlung
  *
  * FR011: Löschen – Aus Galerie entfernen
  *
  * @param artworkId - Die ID des zu entfernenden Kunstwerks
- * @returns true wenn erfolgreich, false wenn das Kunstwerk nicht gefunden wurde
+ * @param collectionId - Die Sammlung (Standard: Standardsammlung)
+ * @returns Der Eintrag im Papierkorb oder null, wenn das Kunstwerk nicht
+ *          gefunden wurde
  *
- * Diese Funktion:
- * - Lädt die aktuelle Galerie
- * - Filtert das Kunstwerk heraus
- * - Speichert die aktualisierte Galerie
+ * Das Kunstwerk wandert in den Papierkorb und kann mit restoreFromTrash
+ * wiederhergestellt werden. Einträge desselben Kunstwerks in anderen
+ * Sammlungen bleiben erhalten, ebenso die eigene Reihenfolge der übrigen
+ * Kunstwerke.
  */
-export function removeFromGallery(artworkId: number): boolean {
+export async function removeFromGallery(
+  artworkId: number,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<TrashedEntry | null> {
   try {
-    // Lade die aktuelle Galerie
-    const gallery = loadGallery();
+    const store = await getStore();
+    const artwork = await store.get(collectionId, artworkId);
 
     // Prüfe, ob das Kunstwerk existiert
-    const exists = gallery.some((item) => item.id === artworkId);
-
-    if (!exists) {
+    if (!artwork) {
       console.warn("Kunstwerk nicht in der Galerie gefunden");
-      return false;
+      return null;
     }
 
-    // Filtere das Kunstwerk heraus
-    const updatedGallery = gallery.filter((item) => item.id !== artworkId);
-
-    // Speichere die aktualisierte Galerie
-    saveGallery(updatedGallery);
+    const { entries, change } = await moveToTrash(store, [artwork]);
 
-    return true;
+    notifyGalleryChanged(change);
+    return entries[0];
   } catch (error) {
     console.error("Fehler beim Entfernen aus der Galerie:", error);
     throw new Error("Kunstwerk konnte nicht aus der Galerie entfernt werden");
@@ -233,32 +867,776 @@ export function removeFromGallery(artworkId: number): boolean {
 }
 
 /**
- * Prüft, ob ein Kunstwerk bereits in der Galerie ist
+ * Liefert ein gespeichertes Kunstwerk (inklusive Notiz) aus einer Sammlung
  *
  * @param artworkId - Die ID des Kunstwerks
- * @returns true wenn das Kunstwerk in der Galerie ist, sonst false
+ * @param collectionId - Die Sammlung (Standard: Standardsammlung)
+ * @returns Das gespeicherte Kunstwerk oder null, wenn es nicht in der Sammlung ist
+ */
+export async function getSavedArtwork(
+  artworkId: number,
+  collectionId: string = DEFAULT_COLLECTION_ID,
+): Promise<SavedArtwork | null> {
+  try {
+    const store = await getStore();
+    return await store.get(collectionId, artworkId);
+  } catch (error) {
+    console.error("Fehler beim Laden der Galerie:", error);
+    return null;
+  }
+}
+
+/**
+ * Liefert die Einträge eines Kunstwerks in allen Sammlungen
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @returns Ein Eintrag (mit eigener Notiz) pro Sammlung, leer wenn das
+ *          Kunstwerk nicht gespeichert ist
+ *
+ * Wird von der Detailansicht verwendet, um Notizen und Galerie-Aktionen anzuzeigen.
+ */
+export async function getSavedArtworks(
+  artworkId: number,
+): Promise<SavedArtwork[]> {
+  try {
+    const store = await getStore();
+    return await store.getByArtwork(artworkId);
+  } catch (error) {
+    console.error("Fehler beim Laden der Galerie:", error);
+    return [];
+  }
+}
+
+/**
+ * Liefert eine Sammlung oder null, wenn sie nicht existiert
+ */
+async function findCollection(
+  store: GalleryStore,
+  collectionId: string,
+): Promise<Collection | null> {
+  const collections = await store.getCollections();
+  return (
+    collections.find((collection) => collection.id === collectionId) ?? null
+  );
+}
+
+/**
+ * Lädt alle Sammlungen
+ *
+ * @returns Die Sammlungen in der Reihenfolge ihrer Erstellung
+ *          (die Standardsammlung ist immer enthalten)
+ */
+export async function loadCollections(): Promise<Collection[]> {
+  try {
+    const store = await getStore();
+    return await store.getCollections();
+  } catch (error) {
+    console.error("Fehler beim Laden der Sammlungen:", error);
+    return [];
+  }
+}
+
+/**
+ * Prüft einen Sammlungsnamen
+ *
+ * @param name - Der gewünschte Name
+ * @param collections - Die bestehenden Sammlungen
+ * @param collectionId - Die umzubenennende Sammlung (wird beim
+ *                       Duplikat-Vergleich ignoriert)
+ * @returns Eine Fehlermeldung oder null, wenn der Name gültig ist
+ *
+ * Namen müssen eindeutig sein (ohne Beachtung der Groß-/Kleinschreibung).
+ */
+export function validateCollectionName(
+  name: string,
+  collections: Collection[],
+  collectionId?: string,
+): string | null {
+  const result = CollectionNameSchema.safeParse(name);
+
+  if (!result.success) {
+    return result.error.issues[0].message;
+  }
+
+  const normalized = result.data.toLocaleLowerCase("de-DE");
+  const duplicate = collections.some(
+    (collection) =>
+      collection.id !== collectionId &&
+      collection.name.toLocaleLowerCase("de-DE") === normalized,
+  );
+
+  return duplicate ? "Eine Sammlung mit diesem Namen existiert bereits" : null;
+}
+
+/**
+ * Erstellt eine neue Sammlung
+ *
+ * @param name - Der Name der Sammlung
+ * @returns Die angelegte Sammlung
+ * @throws Error mit einer lesbaren Meldung, wenn der Name ungültig oder
+ *         bereits vergeben ist
+ */
+export async function createCollection(name: string): Promise<Collection> {
+  const store = await getStore();
+  const validationError = validateCollectionName(
+    name,
+    await store.getCollections(),
+  );
+
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const collection: Collection = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    artworkOrder: [],
+  };
+
+  try {
+    await store.putCollection(collection);
+    notifyGalleryChanged({ collections: [collection] });
+  } catch (error) {
+    console.error("Fehler beim Erstellen der Sammlung:", error);
+    throw new Error("Sammlung konnte nicht erstellt werden");
+  }
+
+  return collection;
+}
+
+/**
+ * Benennt eine Sammlung um
+ *
+ * @param collectionId - Die ID der Sammlung
+ * @param name - Der neue Name
+ * @returns true wenn erfolgreich, false wenn die Sammlung nicht gefunden wurde
+ * @throws Error mit einer lesbaren Meldung, wenn der Name ungültig oder
+ *         bereits vergeben ist
+ */
+export async function renameCollection(
+  collectionId: string,
+  name: string,
+): Promise<boolean> {
+  const store = await getStore();
+  const collections = await store.getCollections();
+  const collection = collections.find((item) => item.id === collectionId);
+
+  if (!collection) {
+    console.warn("Sammlung nicht gefunden");
+    return false;
+  }
+
+  const validationError = validateCollectionName(
+    name,
+    collections,
+    collectionId,
+  );
+
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  try {
+    const renamed = { ...collection, name: name.trim() };
+    await store.putCollection(renamed);
+    notifyGalleryChanged({ collections: [renamed] });
+    return true;
+  } catch (error) {
+    console.error("Fehler beim Umbenennen der Sammlung:", error);
+    throw new Error("Sammlung konnte nicht umbenannt werden");
+  }
+}
+
+/**
+ * Speichert die eigene Reihenfolge der Kunstwerke einer Sammlung
+ *
+ * @param collectionId - Die ID der Sammlung
+ * @param artworkIds - Die IDs der Kunstwerke in der gewünschten Reihenfolge
+ * @returns true wenn erfolgreich, false wenn die Sammlung nicht gefunden wurde
+ *
+ * Kunstwerke, die in `artworkIds` fehlen (z.B. später hinzugefügte),
+ * folgen beim Laden in der Reihenfolge des Hinzufügens.
+ */
+export async function reorderGallery(
+  collectionId: string,
+  artworkIds: number[],
+): Promise<boolean> {
+  try {
+    const store = await getStore();
+    const collection = await findCollection(store, collectionId);
+
+    if (!collection) {
+      console.warn("Sammlung nicht gefunden");
+      return false;
+    }
+
+    const reordered = CollectionSchema.parse({
+      ...collection,
+      artworkOrder: [...new Set(artworkIds)],
+    });
+    await store.putCollection(reordered);
+    notifyGalleryChanged({ collections: [reordered] });
+
+    return true;
+  } catch (error) {
+    console.error("Fehler beim Speichern der Reihenfolge:", error);
+    throw new Error("Reihenfolge konnte nicht gespeichert werden");
+  }
+}
+
+/**
+ * Löscht eine Sammlung
+ *
+ * @param collectionId - Die ID der Sammlung
+ * @returns true wenn erfolgreich, false wenn die Sammlung nicht gefunden wurde
+ * @throws Error wenn die Standardsammlung gelöscht werden soll
  *
- * Diese Funktion wird verwendet, um den Zustand der "Zur Galerie hinzufügen"-Schaltfläche
- * zu bestimmen (z.B. um sie zu deaktivieren, wenn das Kunstwerk bereits gespeichert ist).
+ * Die Einträge der Sammlung wandern mitsamt Notizen in den Papierkorb;
+ * beim Wiederherstellen wird die Sammlung neu angelegt. Einträge derselben
+ * Kunstwerke in anderen Sammlungen bleiben erhalten.
  */
-export function isInGallery(artworkId: number): boolean {
-  const gallery = loadGallery();
-  return gallery.some((item) => item.id === artworkId);
+export async function deleteCollection(collectionId: string): Promise<boolean> {
+  if (collectionId === DEFAULT_COLLECTION_ID) {
+    throw new Error("Die Standardsammlung kann nicht gelöscht werden");
+  }
+
+  try {
+    const store = await getStore();
+
+    if (!(await findCollection(store, collectionId))) {
+      console.warn("Sammlung nicht gefunden");
+      return false;
+    }
+
+    const { change } = await moveToTrash(
+      store,
+      await store.getByCollection(collectionId),
+    );
+    await store.deleteCollection(collectionId);
+    notifyGalleryChanged({ ...change, removedCollections: [collectionId] });
+    return true;
+  } catch (error) {
+    console.error("Fehler beim Löschen der Sammlung:", error);
+    throw new Error("Sammlung konnte nicht gelöscht werden");
+  }
 }
 
 /**
- * Löscht die gesamte Galerie
+ * Leert die gesamte Galerie (alle Sammlungen)
  *
- * @returns void
+ * @returns Die Einträge, die dabei in den Papierkorb verschoben wurden
  *
- * Diese Funktion kann für Debug-Zwecke oder eine "Galerie zurücksetzen"-Funktion
- * verwendet werden.
+ * Alle Kunstwerke wandern mitsamt Notizen in den Papierkorb; die
+ * Sammlungen, die Quarantäne und der Papierkorb selbst bleiben erhalten.
  */
-export function clearGallery(): void {
+export async function clearGallery(): Promise<TrashedEntry[]> {
   try {
-    localStorage.removeItem(GALLERY_STORAGE_KEY);
+    const store = await getStore();
+    const { entries, change } = await moveToTrash(store, await store.getAll());
+    notifyGalleryChanged(change);
+    return entries;
   } catch (error) {
     console.error("Fehler beim Löschen der Galerie:", error);
     throw new Error("Galerie konnte nicht gelöscht werden");
   }
 }
+
+/**
+ * Erstellt einen Export der gesamten Galerie
+ *
+ * @returns Alle Sammlungen und Kunstwerke (mit Notizen und Tags) im
+ *          aktuellen Speicherformat (ohne Quarantäne)
+ */
+export async function exportGallery(): Promise<GalleryExport> {
+  try {
+    const store = await getStore();
+    return createGalleryExport(
+      await store.getAll(),
+      await store.getCollections(),
+    );
+  } catch (error) {
+    console.error("Fehler beim Exportieren der Galerie:", error);
+    throw new Error("Galerie konnte nicht exportiert werden");
+  }
+}
+
+/**
+ * Ergebnis eines Imports
+ */
+export interface ImportResult {
+  /**
+   * Neu angelegte Sammlungen
+   */
+  collectionsAdded: number;
+
+  /**
+   * Neu hinzugefügte Kunstwerke
+   */
+  added: number;
+
+  /**
+   * Vorhandene Kunstwerke, die ersetzt wurden
+   */
+  replaced: number;
+
+  /**
+   * Vorhandene Kunstwerke, deren Notizen ergänzt wurden
+   */
+  merged: number;
+
+  /**
+   * Vorhandene Kunstwerke, die unverändert blieben
+   */
+  skipped: number;
+}
+
+/**
+ * Ordnet die Sammlungen eines Imports den vorhandenen Sammlungen zu
+ *
+ * Sammlungen mit derselben ID oder demselben Namen (ohne Beachtung der
+ * Groß-/Kleinschreibung) gelten als dieselbe Sammlung, damit ein Export
+ * aus einem anderen Browser keine doppelten Sammlungen erzeugt.
+ *
+ * @returns Die Ziel-Sammlung pro Sammlungs-ID der Datei und die neu
+ *          anzulegenden Sammlungen
+ */
+function matchImportCollections(
+  imported: Collection[],
+  existing: Collection[],
+): { targetIds: Map<string, string>; newCollections: Collection[] } {
+  const targetIds = new Map<string, string>([
+    [DEFAULT_COLLECTION_ID, DEFAULT_COLLECTION_ID],
+  ]);
+  const newCollections: Collection[] = [];
+
+  for (const collection of imported) {
+    const match =
+      existing.find(({ id }) => id === collection.id) ??
+      existing.find(
+        ({ name }) =>
+          name.toLocaleLowerCase("de-DE") ===
+          collection.name.toLocaleLowerCase("de-DE"),
+      );
+
+    if (match) {
+      targetIds.set(collection.id, match.id);
+    } else {
+      targetIds.set(collection.id, collection.id);
+      newCollections.push(collection);
+    }
+  }
+
+  return { targetIds, newCollections };
+}
+
+/**
+ * Zählt die Kunstwerke eines Imports, die bereits in ihrer Sammlung sind
+ *
+ * @param data - Die eingelesene Export-Datei
+ * @returns Anzahl der Einträge, für die das Vorgehen beim Import gilt
+ */
+export async function countImportConflicts(
+  data: GalleryImport,
+): Promise<number> {
+  const store = await getStore();
+  const { targetIds } = matchImportCollections(
+    data.collections,
+    await store.getCollections(),
+  );
+  const existing = new Set((await store.getAll()).map(entryKey));
+
+  return data.items.filter((item) =>
+    existing.has(
+      entryKey({
+        ...item,
+        collectionId: targetIds.get(item.collectionId) ?? item.collectionId,
+      }),
+    ),
+  ).length;
+}
+
+/**
+ * Übernimmt eine eingelesene Export-Datei in die Galerie
+ *
+ * @param data - Die eingelesene Export-Datei (siehe parseGalleryImport)
+ * @param strategy - Vorgehen, wenn ein Kunstwerk bereits in der Sammlung ist
+ * @returns Anzahl der angelegten, ersetzten, ergänzten und übersprungenen Einträge
+ *
+ * Fehlende Sammlungen werden angelegt; vorhandene Sammlungen behalten
+ * ihren Namen.
+ */
+export async function importGallery(
+  data: GalleryImport,
+  strategy: ImportStrategy,
+): Promise<ImportResult> {
+  const store = await getStore();
+  const { targetIds, newCollections } = matchImportCollections(
+    data.collections,
+    await store.getCollections(),
+  );
+  const result: ImportResult = {
+    collectionsAdded: newCollections.length,
+    added: 0,
+    replaced: 0,
+    merged: 0,
+    skipped: 0,
+  };
+
+  try {
+    // Zuerst alle Einträge zusammenstellen und validieren, dann gemeinsam
+    // schreiben: Ein fehlerhafter Eintrag hinterlässt keinen halben Import
+    const existingItems = new Map(
+      (await store.getAll()).map((item) => [entryKey(item), item]),
+    );
+    const items: SavedArtwork[] = [];
+
+    for (const item of data.items) {
+      const collectionId =
+        targetIds.get(item.collectionId) ?? item.collectionId;
+      const imported = { ...item, collectionId };
+      const existing = existingItems.get(entryKey(imported));
+
+      if (!existing) {
+        items.push(imported);
+        result.added++;
+      } else if (strategy === "replace") {
+        items.push(imported);
+        result.replaced++;
+      } else if (strategy === "merge-notes") {
+        items.push(
+          SavedArtworkSchema.parse({
+            ...existing,
+            notes: mergeNotes(existing.notes, item.notes),
+          }),
+        );
+        result.merged++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    await store.putMany({ collections: newCollections, items });
+    notifyGalleryChanged({ collections: newCollections, items });
+  } catch (error) {
+    console.error("Fehler beim Importieren der Galerie:", error);
+    throw new Error("Galerie konnte nicht importiert werden");
+  }
+
+  return result;
+}
+
+/**
+ * Lädt alle Einträge in der Quarantäne
+ *
+ * @returns Einträge, die nicht migriert oder validiert werden konnten
+ */
+export async function loadQuarantine(): Promise<QuarantinedEntry[]> {
+  try {
+    const store = await getStore();
+    return await store.getQuarantine();
+  } catch (error) {
+    console.error("Fehler beim Laden der Quarantäne:", error);
+    return [];
+  }
+}
+
+/**
+ * Repariert einen Quarantäne-Eintrag und übernimmt ihn in die Galerie
+ *
+ * @param entryId - Die ID des Quarantäne-Eintrags
+ * @param raw - Die korrigierten Rohdaten (im Format der Version des Eintrags);
+ *              ein Array wird als mehrere Einträge übernommen
+ * @returns Erfolg oder der Grund, warum die Daten weiterhin ungültig sind
+ *
+ * Die Übernahme erfolgt nur, wenn alle Einträge gültig sind, ihre
+ * Sammlung existiert und keines der Kunstwerke bereits in dieser
+ * Sammlung ist.
+ */
+export async function repairQuarantinedEntry(
+  entryId: string,
+  raw: unknown,
+): Promise<ParseItemResult> {
+  const store = await getStore();
+  const quarantine = await store.getQuarantine();
+  const entry = quarantine.find((item) => item.id === entryId);
+
+  if (!entry) {
+    return { success: false, reason: "Eintrag nicht gefunden" };
+  }
+
+  const existingKeys = new Set((await store.getAll()).map(entryKey));
+  const collectionIds = new Set(
+    (await store.getCollections()).map((collection) => collection.id),
+  );
+  const repaired: SavedArtwork[] = [];
+  const now = Date.now();
+
+  for (const [index, rawItem] of (Array.isArray(raw) ? raw : [raw]).entries()) {
+    const result = parseGalleryItem(rawItem, entry.version, { index, now });
+
+    if (!result.success) {
+      return result;
+    }
+
+    if (!collectionIds.has(result.item.collectionId)) {
+      return {
+        success: false,
+        reason: `Sammlung "${result.item.collectionId}" existiert nicht`,
+      };
+    }
+
+    if (existingKeys.has(entryKey(result.item))) {
+      return {
+        success: false,
+        reason: `Kunstwerk ${result.item.id} ist bereits in der Sammlung`,
+      };
+    }
+
+    existingKeys.add(entryKey(result.item));
+    repaired.push(result.item);
+  }
+
+  if (repaired.length === 0) {
+    return { success: false, reason: "Keine Einträge zum Übernehmen" };
+  }
+
+  try {
+    await store.putMany({ items: repaired });
+    await store.deleteQuarantine(entryId);
+    notifyGalleryChanged({ items: repaired, quarantineDelta: -1 });
+  } catch (error) {
+    console.error("Fehler beim Speichern der Galerie:", error);
+    throw new Error("Galerie konnte nicht gespeichert werden");
+  }
+
+  return { success: true, item: repaired[0] };
+}
+
+/**
+ * Verwirft einen Quarantäne-Eintrag endgültig
+ *
+ * @param entryId - Die ID des Quarantäne-Eintrags
+ * @returns true wenn erfolgreich, false wenn der Eintrag nicht gefunden wurde
+ */
+export async function discardQuarantinedEntry(
+  entryId: string,
+): Promise<boolean> {
+  try {
+    const store = await getStore();
+    const quarantine = await store.getQuarantine();
+
+    if (!quarantine.some((entry) => entry.id === entryId)) {
+      return false;
+    }
+
+    await store.deleteQuarantine(entryId);
+    notifyGalleryChanged({ quarantineDelta: -1 });
+    return true;
+  } catch (error) {
+    console.error("Fehler beim Verwerfen des Eintrags:", error);
+    throw new Error("Eintrag konnte nicht verworfen werden");
+  }
+}
+
+/**
+ * LocalStorage-Schlüssel für die Aufbewahrungsdauer des Papierkorbs
+ */
+const TRASH_RETENTION_KEY = "aic_gallery_trash_retention";
+
+/**
+ * Millisekunden pro Tag
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lädt die eingestellte Aufbewahrungsdauer des Papierkorbs
+ *
+ * @returns Die Dauer in Tagen (Standard, wenn nichts oder ein ungültiger
+ *          Wert gespeichert ist)
+ */
+export function loadTrashRetention(): TrashRetention {
+  try {
+    const result = TrashRetentionSchema.safeParse(
+      Number(localStorage.getItem(TRASH_RETENTION_KEY)),
+    );
+    return result.success ? result.data : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+/**
+ * Speichert die Aufbewahrungsdauer des Papierkorbs
+ *
+ * @param days - Die Dauer in Tagen (siehe TRASH_RETENTION_OPTIONS)
+ *
+ * Bereits abgelaufene Einträge werden beim nächsten Laden des
+ * Papierkorbs entfernt.
+ */
+export function saveTrashRetention(days: TrashRetention): void {
+  try {
+    localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+    notifyGalleryChanged();
+  } catch (error) {
+    console.error("Fehler beim Speichern der Aufbewahrungsdauer:", error);
+    throw new Error("Aufbewahrungsdauer konnte nicht gespeichert werden");
+  }
+}
+
+/**
+ * Liefert den Zeitpunkt, zu dem ein Papierkorb-Eintrag endgültig entfernt wird
+ *
+ * @param entry - Der Papierkorb-Eintrag
+ * @param days - Die Aufbewahrungsdauer (Standard: eingestellte Dauer)
+ */
+export function getTrashExpiry(
+  entry: TrashedEntry,
+  days: TrashRetention = loadTrashRetention(),
+): Date {
+  return new Date(new Date(entry.deletedAt).getTime() + days * DAY_MS);
+}
+
+/**
+ * Lädt alle Einträge im Papierkorb
+ *
+ * @returns Die Einträge, zuletzt entfernte zuerst
+ *
+ * Einträge, deren Aufbewahrungsdauer abgelaufen ist, werden dabei
+ * endgültig entfernt.
+ */
+export async function loadTrash(): Promise<TrashedEntry[]> {
+  try {
+    const store = await getStore();
+    const now = Date.now();
+    const days = loadTrashRetention();
+    const trash = await store.getTrash();
+    const expired = trash.filter(
+      (entry) => getTrashExpiry(entry, days).getTime() <= now,
+    );
+
+    for (const entry of expired) {
+      await store.deleteTrash(entry.id);
+    }
+
+    if (expired.length > 0) {
+      notifyGalleryChanged({ trashDelta: -expired.length });
+    }
+
+    return trash.filter((entry) => !expired.includes(entry)).reverse();
+  } catch (error) {
+    console.error("Fehler beim Laden des Papierkorbs:", error);
+    return [];
+  }
+}
+
+/**
+ * Stellt Einträge aus dem Papierkorb wieder her
+ *
+ * @param entryIds - Die IDs der Papierkorb-Einträge
+ * @returns Anzahl der wiederhergestellten Einträge
+ *
+ * Fehlt die Sammlung eines Eintrags inzwischen, wird sie mit ihrem
+ * damaligen Namen neu angelegt. In der eigenen Reihenfolge der Sammlung
+ * kehrt das Kunstwerk an seine frühere Position zurück. Ist es inzwischen
+ * wieder in der Sammlung, bleibt der Papierkorb-Eintrag unverändert.
+ */
+export async function restoreFromTrash(entryIds: string[]): Promise<number> {
+  try {
+    const store = await getStore();
+
+    // Nach Position, damit mehrere Einträge einer Sammlung ihre
+    // ursprüngliche Reihenfolge wieder einnehmen
+    const entries = (await store.getTrash())
+      .filter((entry) => entryIds.includes(entry.id))
+      .sort(
+        (a, b) =>
+          (a.position ?? Number.MAX_SAFE_INTEGER) -
+          (b.position ?? Number.MAX_SAFE_INTEGER),
+      );
+    const items: SavedArtwork[] = [];
+    const collections = new Map<string, Collection>();
+
+    for (const entry of entries) {
+      const collectionId = entry.collection.id;
+
+      if (await store.get(collectionId, entry.item.id)) {
+        console.warn("Kunstwerk ist bereits wieder in der Sammlung");
+        continue;
+      }
+
+      const collection = await findCollection(store, collectionId);
+
+      if (!collection) {
+        // Die frühere Reihenfolge enthält das Kunstwerk bereits
+        await store.putCollection(entry.collection);
+        collections.set(collectionId, entry.collection);
+      } else if (
+        entry.position !== null &&
+        !collection.artworkOrder.includes(entry.item.id)
+      ) {
+        const artworkOrder = [...collection.artworkOrder];
+        artworkOrder.splice(entry.position, 0, entry.item.id);
+        await store.putCollection({ ...collection, artworkOrder });
+        collections.set(collectionId, { ...collection, artworkOrder });
+      }
+
+      const item = { ...entry.item, collectionId };
+      await store.put(item);
+      await store.deleteTrash(entry.id);
+      items.push(item);
+    }
+
+    if (items.length > 0) {
+      notifyGalleryChanged({
+        items,
+        collections: [...collections.values()],
+        trashDelta: -items.length,
+      });
+    }
+
+    return items.length;
+  } catch (error) {
+    console.error("Fehler beim Wiederherstellen aus dem Papierkorb:", error);
+    throw new Error("Kunstwerk konnte nicht wiederhergestellt werden");
+  }
+}
+
+/**
+ * Entfernt Einträge endgültig aus dem Papierkorb
+ *
+ * @param entryIds - Die IDs der Papierkorb-Einträge
+ * @returns Anzahl der entfernten Einträge
+ */
+export async function deleteFromTrash(entryIds: string[]): Promise<number> {
+  try {
+    const store = await getStore();
+    const entries = (await store.getTrash()).filter((entry) =>
+      entryIds.includes(entry.id),
+    );
+
+    for (const entry of entries) {
+      await store.deleteTrash(entry.id);
+    }
+
+    if (entries.length > 0) {
+      notifyGalleryChanged({ trashDelta: -entries.length });
+    }
+
+    return entries.length;
+  } catch (error) {
+    console.error("Fehler beim Löschen aus dem Papierkorb:", error);
+    throw new Error("Eintrag konnte nicht endgültig gelöscht werden");
+  }
+}
+
+/**
+ * Leert den Papierkorb
+ *
+ * @returns Anzahl der endgültig entfernten Einträge
+ */
+export async function emptyTrash(): Promise<number> {
+  const store = await getStore();
+  const trash = await store.getTrash();
+  return deleteFromTrash(trash.map((entry) => entry.id));
+}
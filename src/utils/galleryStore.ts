@@ -0,0 +1,161 @@
+/**
+ * Speicher-Schnittstelle für die Galerie
+ *
+ * Alle Zugriffe von galleryStorage.ts auf den Browser-Speicher laufen über
+ * ein GalleryStore-Objekt. Standard ist IndexedDB
+ * (indexedDbGalleryStore.ts), das einzelne Einträge liest und schreibt,
+ * statt jedes Mal die gesamte Galerie neu zu serialisieren. Ist IndexedDB
+ * nicht verfügbar, wird auf den LocalStorage (localStorageGalleryStore.ts)
+ * zurückgegriffen.
+ */
+
+import type { SavedArtwork } from "../schemas/noteSchema";
+import type { Collection } from "../schemas/collectionSchema";
+import type { QuarantinedEntry } from "../schemas/galleryStorageSchema";
+import type { TrashedEntry } from "../schemas/trashSchema";
+
+/**
+ * Gültige Einträge, Sammlungen, Quarantäne und Papierkorb der Galerie im
+ * aktuellen Format
+ */
+export interface GalleryData {
+  items: SavedArtwork[];
+  collections: Collection[];
+  quarantine: QuarantinedEntry[];
+  trash: TrashedEntry[];
+}
+
+/**
+ * Einträge und Sammlungen, die gemeinsam geschrieben werden (siehe putMany)
+ */
+export interface GalleryBatch {
+  items?: SavedArtwork[];
+  collections?: Collection[];
+}
+
+/**
+ * Schnittstelle, die jeder Galerie-Speicher implementieren muss
+ *
+ * Die Einzeloperationen gehen davon aus, dass die Daten bereits im
+ * aktuellen Format vorliegen. Die Migration älterer Formate übernimmt
+ * galleryStorage.ts einmalig beim Start über readRaw/replaceAll.
+ */
+export interface GalleryStore {
+  /**
+   * Name des Speichers (für Logging und Debugging)
+   */
+  readonly name: string;
+
+  /**
+   * Liest die gespeicherten Rohdaten in ihrem gespeicherten Format
+   *
+   * @returns Array (Version 0), Umschlag `{ version, items, collections, quarantine, trash }`,
+   *          nicht lesbarer Rohtext oder null, wenn nichts gespeichert ist
+   */
+  readRaw(): Promise<unknown>;
+
+  /**
+   * Ersetzt den gesamten Inhalt durch Daten im aktuellen Format
+   */
+  replaceAll(data: GalleryData): Promise<void>;
+
+  /**
+   * Liefert die Einträge aller Sammlungen in der Reihenfolge, in der sie
+   * hinzugefügt wurden
+   */
+  getAll(): Promise<SavedArtwork[]>;
+
+  /**
+   * Liefert die Einträge einer Sammlung in der Reihenfolge des Hinzufügens
+   */
+  getByCollection(collectionId: string): Promise<SavedArtwork[]>;
+
+  /**
+   * Liefert die Einträge eines Kunstwerks in allen Sammlungen
+   */
+  getByArtwork(artworkId: number): Promise<SavedArtwork[]>;
+
+  /**
+   * Liefert die IDs aller gespeicherten Kunstwerke (ohne Duplikate)
+   */
+  getIds(): Promise<number[]>;
+
+  /**
+   * Liefert den Eintrag eines Kunstwerks in einer Sammlung oder null,
+   * wenn es dort nicht gespeichert ist
+   */
+  get(collectionId: string, artworkId: number): Promise<SavedArtwork | null>;
+
+  /**
+   * Liefert alle Kunstwerke eines Künstlers
+   */
+  getByArtist(artist: string): Promise<SavedArtwork[]>;
+
+  /**
+   * Liefert alle Einträge mit einem Tag (aus allen Sammlungen)
+   */
+  getByTag(tag: string): Promise<SavedArtwork[]>;
+
+  /**
+   * Fügt einen Eintrag hinzu oder ersetzt ihn (Schlüssel: Sammlung und ID)
+   */
+  put(artwork: SavedArtwork): Promise<void>;
+
+  /**
+   * Fügt mehrere Einträge und Sammlungen hinzu oder ersetzt sie
+   *
+   * Alle Änderungen werden gemeinsam geschrieben: Schlägt eine fehl,
+   * bleibt der Speicher unverändert.
+   */
+  putMany(batch: GalleryBatch): Promise<void>;
+
+  /**
+   * Entfernt ein Kunstwerk aus einer Sammlung
+   */
+  delete(collectionId: string, artworkId: number): Promise<void>;
+
+  /**
+   * Liefert alle Sammlungen in der Reihenfolge ihrer Erstellung
+   */
+  getCollections(): Promise<Collection[]>;
+
+  /**
+   * Legt eine Sammlung an oder ersetzt sie
+   */
+  putCollection(collection: Collection): Promise<void>;
+
+  /**
+   * Entfernt eine Sammlung mitsamt ihren Einträgen
+   */
+  deleteCollection(collectionId: string): Promise<void>;
+
+  /**
+   * Entfernt alle Kunstwerke, Sammlungen, die Quarantäne und den Papierkorb
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Liefert alle Einträge in der Quarantäne
+   */
+  getQuarantine(): Promise<QuarantinedEntry[]>;
+
+  /**
+   * Entfernt einen Eintrag aus der Quarantäne
+   */
+  deleteQuarantine(entryId: string): Promise<void>;
+
+  /**
+   * Liefert alle Einträge im Papierkorb
+   */
+  getTrash(): Promise<TrashedEntry[]>;
+
+  /**
+   * Legt einen Eintrag im Papierkorb ab
+   */
+  putTrash(entry: TrashedEntry): Promise<void>;
+
+  /**
+   * Entfernt einen Eintrag endgültig aus dem Papierkorb
+   */
+  deleteTrash(entryId: string): Promise<void>;
+}
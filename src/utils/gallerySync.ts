@@ -0,0 +1,167 @@
+/**
+ * Synchronisation der Galerie zwischen Browser-Tabs
+ *
+ * Nach jeder gespeicherten Änderung meldet galleryStorage.ts dies an alle
+ * Tabs der Anwendung: an die anderen Tabs über einen BroadcastChannel
+ * oder, wo dieser fehlt, über das `storage`-Ereignis des LocalStorage, im
+ * eigenen Tab direkt. Im eigenen Tab enthält die Meldung die geänderten
+ * Datensätze (siehe GalleryChange), damit der gemeinsame Galerie-Zustand
+ * (siehe galleryState.ts) sie direkt übernehmen kann; Meldungen aus anderen
+ * Tabs enthalten keine Daten und führen zu einem Neuladen.
+ *
+ * Gleichzeitige Änderungen an derselben Notiz erkennt galleryStorage.ts
+ * über den Zeitpunkt der letzten Änderung (siehe NoteConflictError).
+ */
+
+import type { SavedArtwork } from "../schemas/noteSchema";
+import type { Collection } from "../schemas/collectionSchema";
+
+/**
+ * Name des BroadcastChannels
+ */
+const CHANNEL_NAME = "aic_gallery_sync";
+
+/**
+ * LocalStorage-Schlüssel für den Fallback über das `storage`-Ereignis
+ */
+const STORAGE_KEY = "aic_gallery_sync";
+
+/**
+ * Die geänderten Datensätze einer gespeicherten Änderung
+ */
+export interface GalleryChange {
+  /**
+   * Neue oder geänderte Einträge
+   */
+  items?: SavedArtwork[];
+
+  /**
+   * Entfernte Einträge (Sammlung und Kunstwerk)
+   */
+  removedItems?: Pick<SavedArtwork, "collectionId" | "id">[];
+
+  /**
+   * Neue oder geänderte Sammlungen
+   */
+  collections?: Collection[];
+
+  /**
+   * Die IDs der gelöschten Sammlungen
+   */
+  removedCollections?: string[];
+
+  /**
+   * Änderung der Anzahl der Einträge in der Quarantäne
+   */
+  quarantineDelta?: number;
+
+  /**
+   * Änderung der Anzahl der Einträge im Papierkorb
+   */
+  trashDelta?: number;
+}
+
+/**
+ * Callback-Funktion für Änderungen (aus diesem oder einem anderen Tab)
+ *
+ * @param change - Die geänderten Datensätze (null: unbekannt, z.B. bei
+ *                 Änderungen aus einem anderen Tab)
+ */
+export type GalleryChangeListener = (change: GalleryChange | null) => void;
+
+/**
+ * Angemeldete Callback-Funktionen
+ */
+const listeners = new Set<GalleryChangeListener>();
+
+/**
+ * Kanal zu den anderen Tabs (null: Fallback über den LocalStorage)
+ */
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Gibt an, ob der Empfang bereits eingerichtet ist
+ */
+let connected = false;
+
+/**
+ * Ruft alle angemeldeten Callback-Funktionen auf
+ */
+function notifyListeners(change: GalleryChange | null): void {
+  listeners.forEach((listener) => listener(change));
+}
+
+/**
+ * Richtet beim ersten Zugriff den Kanal bzw. den `storage`-Listener ein
+ */
+function connect(): void {
+  if (connected) {
+    return;
+  }
+
+  connected = true;
+
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = () => notifyListeners(null);
+  } else if (typeof window !== "undefined") {
+    window.addEventListener("storage", (event) => {
+      if (event.key === STORAGE_KEY) {
+        notifyListeners(null);
+      }
+    });
+  }
+}
+
+/**
+ * Meldet allen Tabs (auch dem eigenen), dass sich die Galerie geändert hat
+ *
+ * @param change - Die geänderten Datensätze (ohne Angabe: alle Ansichten
+ *                 laden neu, z.B. nach einer geänderten Einstellung)
+ *
+ * Fehler beim Senden werden nur protokolliert: Die Änderung selbst ist
+ * bereits gespeichert.
+ */
+export function notifyGalleryChanged(change?: GalleryChange): void {
+  notifyListeners(change ?? null);
+
+  try {
+    connect();
+
+    if (channel) {
+      channel.postMessage({ changedAt: new Date().toISOString() });
+    } else {
+      // Das Ereignis wird nur ausgelöst, wenn sich der Wert ändert
+      localStorage.setItem(STORAGE_KEY, crypto.randomUUID());
+    }
+  } catch (error) {
+    console.warn(
+      "Änderung konnte nicht an andere Tabs gemeldet werden:",
+      error,
+    );
+  }
+}
+
+/**
+ * Meldet eine Callback-Funktion für Änderungen an der Galerie an
+ *
+ * @param listener - Wird nach jeder gespeicherten Änderung aufgerufen (aus
+ *                   diesem oder einem anderen Tab), wenn bekannt mit den
+ *                   geänderten Datensätzen
+ * @returns Funktion zum Abmelden (z.B. als Cleanup eines Effect Hooks)
+ *
+ * Beispiel:
+ * ```typescript
+ * useEffect(() => subscribeToGalleryChanges(() => reload()), []);
+ * ```
+ */
+export function subscribeToGalleryChanges(
+  listener: GalleryChangeListener,
+): () => void {
+  connect();
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
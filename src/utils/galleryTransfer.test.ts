@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_COLLECTION_ID } from "../schemas/collectionSchema";
+import { GALLERY_EXPORT_FORMAT } from "../schemas/galleryExportSchema";
+import { GALLERY_STORAGE_VERSION } from "../schemas/galleryStorageSchema";
+import type { NoteEntry } from "../schemas/noteSchema";
+import {
+  createGalleryExport,
+  mergeNotes,
+  parseGalleryImport,
+} from "./galleryTransfer";
+
+const ITEM = {
+  id: 27992,
+  collectionId: DEFAULT_COLLECTION_ID,
+  title: "A Sunday on La Grande Jatte",
+  artist_title: "Georges Seurat",
+  image_id: null,
+  notes: [],
+  tags: [],
+  addedAt: "2024-03-01T10:00:00.000Z",
+};
+
+const COLLECTION = {
+  id: "seminar",
+  name: "Seminar",
+  createdAt: "2024-03-01T10:00:00.000Z",
+  artworkOrder: [],
+};
+
+/**
+ * Notiz-Eintrag mit Erstellungs- und Änderungszeitpunkt (Minuten nach 10 Uhr)
+ */
+function createEntry(
+  id: string,
+  text: string,
+  createdMinute: number,
+  updatedMinute = createdMinute,
+): NoteEntry {
+  const at = (minute: number) =>
+    `2024-03-01T10:${String(minute).padStart(2, "0")}:00.000Z`;
+
+  return {
+    id,
+    text,
+    createdAt: at(createdMinute),
+    updatedAt: at(updatedMinute),
+    history: [],
+  };
+}
+
+/**
+ * Inhalt einer Export-Datei mit den angegebenen Zeilen
+ */
+function createFile(items: unknown[], collections: unknown[] = []): string {
+  return JSON.stringify({
+    format: GALLERY_EXPORT_FORMAT,
+    version: GALLERY_STORAGE_VERSION,
+    exportedAt: "2024-05-01T08:00:00.000Z",
+    collections,
+    items,
+  });
+}
+
+describe("mergeNotes", () => {
+  it("behält von zwei Fassungen desselben Eintrags die neuere", () => {
+    const older = createEntry("a", "alt", 0, 5);
+    const newer = createEntry("a", "neu", 0, 10);
+
+    expect(mergeNotes([older], [newer])).toEqual([newer]);
+    expect(mergeNotes([newer], [older])).toEqual([newer]);
+  });
+
+  it("ergänzt neue Einträge in der Reihenfolge ihrer Erstellung", () => {
+    const first = createEntry("a", "erste", 0);
+    const second = createEntry("b", "zweite", 5);
+    const third = createEntry("c", "dritte", 10);
+
+    expect(mergeNotes([first, third], [second])).toEqual([
+      first,
+      second,
+      third,
+    ]);
+  });
+});
+
+describe("parseGalleryImport", () => {
+  it("liest einen eigenen Export wieder ein", () => {
+    const file = createGalleryExport(
+      [{ ...ITEM, collectionId: COLLECTION.id, tags: ["pointillismus"] }],
+      [COLLECTION],
+    );
+
+    const result = parseGalleryImport(JSON.stringify(file));
+
+    expect(result.invalidRows).toEqual([]);
+    expect(result.collections).toEqual([COLLECTION]);
+    expect(result.items).toEqual(file.items);
+  });
+
+  it("meldet ungültige Zeilen und übernimmt die übrigen", () => {
+    const result = parseGalleryImport(
+      createFile(
+        [
+          ITEM,
+          { ...ITEM, title: 42 },
+          ITEM,
+          { ...ITEM, id: 2, collectionId: "fehlt" },
+          { ...ITEM, id: 3, collectionId: COLLECTION.id },
+        ],
+        [COLLECTION, { id: "leer", name: " ", createdAt: ITEM.addedAt }],
+      ),
+    );
+
+    expect(result.items.map(({ id }) => id)).toEqual([27992, 3]);
+    expect(result.collections).toEqual([COLLECTION]);
+    expect(
+      result.invalidRows.map(({ kind, index }) => `${kind}:${index}`),
+    ).toEqual(["collection:1", "item:1", "item:2", "item:3"]);
+    expect(result.invalidRows[2].reason).toBe(
+      "Doppelter Eintrag für Kunstwerk 27992",
+    );
+    expect(result.invalidRows[3].reason).toBe(
+      'Sammlung "fehlt" fehlt in der Datei',
+    );
+  });
+
+  it("lehnt Dateien ab, die kein Galerie-Export sind", () => {
+    expect(() => parseGalleryImport("{")).toThrow(
+      "Die Datei enthält kein gültiges JSON",
+    );
+    expect(() => parseGalleryImport(JSON.stringify({ items: [] }))).toThrow(
+      "kein gültiger Galerie-Export",
+    );
+    expect(() =>
+      parseGalleryImport(
+        JSON.stringify({
+          ...JSON.parse(createFile([])),
+          version: GALLERY_STORAGE_VERSION + 1,
+        }),
+      ),
+    ).toThrow("neueren Version");
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Export und Import der Galerie als JSON-Datei
+ *
+ * Erstellt die Export-Datei aus den gespeicherten Daten und liest eine
+ * Export-Datei wieder ein. Beim Einlesen wird jeder Eintrag wie beim Laden
+ * aus dem Speicher migriert und validiert (siehe galleryMigrations.ts);
+ * ungültige Zeilen werden gesammelt und gemeldet, statt den ganzen Import
+ * abzubrechen. Das Schreiben in den Speicher übernimmt importGallery in
+ * galleryStorage.ts.
+ */
+
+import {
+  CollectionSchema,
+  DEFAULT_COLLECTION_ID,
+  type Collection,
+} from "../schemas/collectionSchema";
+import {
+  GALLERY_EXPORT_FORMAT,
+  GalleryExportSchema,
+  type GalleryExport,
+} from "../schemas/galleryExportSchema";
+import { GALLERY_STORAGE_VERSION } from "../schemas/galleryStorageSchema";
+import type { NoteEntry, SavedArtwork } from "../schemas/noteSchema";
+import { formatIssues, parseGalleryItem } from "./galleryMigrations";
+
+/**
+ * Eine Zeile der Export-Datei, die nicht übernommen werden kann
+ */
+export interface InvalidImportRow {
+  /**
+   * Art der Zeile
+   */
+  kind: "collection" | "item";
+
+  /**
+   * Position in der Datei (ab 0)
+   */
+  index: number;
+
+  /**
+   * Grund, warum die Zeile ungültig ist
+   */
+  reason: string;
+}
+
+/**
+ * Eingelesene und validierte Export-Datei
+ */
+export interface GalleryImport {
+  /**
+   * Zeitpunkt des Exports (ISO-String)
+   */
+  exportedAt: string;
+
+  /**
+   * Gültige Sammlungen aus der Datei
+   */
+  collections: Collection[];
+
+  /**
+   * Gültige Einträge im aktuellen Format
+   */
+  items: SavedArtwork[];
+
+  /**
+   * Zeilen, die nicht übernommen werden können
+   */
+  invalidRows: InvalidImportRow[];
+}
+
+/**
+ * Erstellt die Export-Datei
+ *
+ * @param items - Alle gespeicherten Kunstwerke
+ * @param collections - Alle Sammlungen
+ * @returns Den Inhalt der Export-Datei im aktuellen Speicherformat
+ */
+export function createGalleryExport(
+  items: SavedArtwork[],
+  collections: Collection[],
+): GalleryExport {
+  return {
+    format: GALLERY_EXPORT_FORMAT,
+    version: GALLERY_STORAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections,
+    items,
+  };
+}
+
+/**
+ * Dateiname für einen Export, z.B. `galerie-2024-05-01.json`
+ */
+export function getExportFileName(exportedAt: string): string {
+  return `galerie-${exportedAt.slice(0, 10)}.json`;
+}
+
+/**
+ * Liest eine Export-Datei ein
+ *
+ * @param text - Der Inhalt der Datei
+ * @returns Die gültigen Sammlungen und Einträge sowie die ungültigen Zeilen
+ * @throws Error mit einer lesbaren Meldung, wenn die Datei kein gültiger
+ *         Galerie-Export ist
+ *
+ * Einträge müssen in einer Sammlung der Datei oder in der
+ * Standardsammlung liegen; doppelte Einträge werden als ungültig gemeldet.
+ */
+export function parseGalleryImport(text: string): GalleryImport {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Die Datei enthält kein gültiges JSON");
+  }
+
+  const file = GalleryExportSchema.safeParse(json);
+
+  if (!file.success) {
+    throw new Error(
+      `Die Datei ist kein gültiger Galerie-Export: ${formatIssues(file.error.issues)}`,
+    );
+  }
+
+  if (file.data.version > GALLERY_STORAGE_VERSION) {
+    throw new Error(
+      `Die Datei stammt aus einer neueren Version der Anwendung (Format ${file.data.version})`,
+    );
+  }
+
+  const invalidRows: InvalidImportRow[] = [];
+  const collections = new Map<string, Collection>();
+
+  for (const [index, rawCollection] of file.data.collections.entries()) {
+    const result = CollectionSchema.safeParse(rawCollection);
+
+    if (!result.success) {
+      invalidRows.push({
+        kind: "collection",
+        index,
+        reason: formatIssues(result.error.issues),
+      });
+    } else if (collections.has(result.data.id)) {
+      invalidRows.push({
+        kind: "collection",
+        index,
+        reason: `Doppelte Sammlung "${result.data.name}"`,
+      });
+    } else {
+      collections.set(result.data.id, result.data);
+    }
+  }
+
+  const items: SavedArtwork[] = [];
+  const seenKeys = new Set<string>();
+  const now = Date.now();
+
+  for (const [index, rawItem] of file.data.items.entries()) {
+    const result = parseGalleryItem(rawItem, file.data.version, {
+      index,
+      now,
+    });
+
+    if (!result.success) {
+      invalidRows.push({ kind: "item", index, reason: result.reason });
+      continue;
+    }
+
+    const { item } = result;
+    const key = `${item.collectionId}:${item.id}`;
+
+    if (
+      item.collectionId !== DEFAULT_COLLECTION_ID &&
+      !collections.has(item.collectionId)
+    ) {
+      invalidRows.push({
+        kind: "item",
+        index,
+        reason: `Sammlung "${item.collectionId}" fehlt in der Datei`,
+      });
+    } else if (seenKeys.has(key)) {
+      invalidRows.push({
+        kind: "item",
+        index,
+        reason: `Doppelter Eintrag für Kunstwerk ${item.id}`,
+      });
+    } else {
+      seenKeys.add(key);
+      items.push(item);
+    }
+  }
+
+  return {
+    exportedAt: file.data.exportedAt,
+    collections: [...collections.values()],
+    items,
+    invalidRows,
+  };
+}
+
+/**
+ * Führt die Notiz-Einträge eines vorhandenen und eines importierten
+ * Eintrags zusammen
+ *
+ * Einträge mit derselben ID gelten als derselbe Eintrag; es bleibt die
+ * zuletzt bearbeitete Fassung. Neue Einträge werden ergänzt und alle
+ * Einträge nach ihrem Erstellungszeitpunkt sortiert.
+ *
+ * @returns Die zusammengeführten Einträge
+ */
+export function mergeNotes(
+  existing: NoteEntry[],
+  imported: NoteEntry[],
+): NoteEntry[] {
+  const merged = new Map(existing.map((entry) => [entry.id, entry]));
+
+  for (const entry of imported) {
+    const current = merged.get(entry.id);
+
+    if (!current || entry.updatedAt > current.updatedAt) {
+      merged.set(entry.id, entry);
+    }
+  }
+
+  return [...merged.values()].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+}
@@ -0,0 +1,351 @@
+/**
+ * HTTP-Datenquelle für die Art Institute of Chicago API
+ *
+ * Implementiert ArtworkDataSource über die öffentliche REST-API des AIC
+ * und validiert alle Antworten mit den Zod-Schemas. Alle Anfragen laufen
+ * über einen RequestScheduler (Budget pro Minute, Retry mit Backoff).
+ *
+ * FR004: API-Abruf mit Validierung
+ */
+
+import { ArtworkAPIResponseSchema } from "../schemas/artworkSchema";
+import { AutocompleteResponseSchema } from "../schemas/autocompleteSchema";
+import type { Artwork } from "../schemas/artworkSchema";
+import {
+  hasActiveFilters,
+  type SearchFilters,
+} from "../schemas/searchFilterSchema";
+import type {
+  ArtworkDataSource,
+  RequestOptions,
+  SearchResult,
+} from "./artworkDataSource";
+import {
+  HttpError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  isAbortError,
+} from "./apiErrors";
+import {
+  createRequestScheduler,
+  type RequestScheduler,
+} from "./requestScheduler";
+
+/**
+ * Basis-URL der Art Institute of Chicago API
+ */
+export const AIC_API_BASE_URL = "https://api.artic.edu/api/v1";
+
+/**
+ * Felder, die für jedes Kunstwerk von der API abgefragt werden
+ * (entspricht den Feldern des ArtworkSchema)
+ */
+const ARTWORK_FIELDS = [
+  "id",
+  "title",
+  "artist_title",
+  "image_id",
+  "date_display",
+  "medium_display",
+  "place_of_origin",
+  "dimensions",
+  "thumbnail",
+];
+
+/**
+ * Zusätzliche Felder, die nur für die Detailansicht abgefragt werden
+ */
+const ARTWORK_DETAIL_FIELDS = [
+  "artwork_type_title",
+  "department_title",
+  "credit_line",
+  "main_reference_number",
+  "is_public_domain",
+];
+
+/**
+ * Erstellt die URL für die Details eines Kunstwerks (`GET /artworks/{id}`)
+ *
+ * Wird auch verwendet, um die Antworten für gespeicherte Kunstwerke offline
+ * vorzuhalten (siehe offlineCache.ts).
+ *
+ * @param artworkId - Die ID des Kunstwerks
+ * @param baseUrl - Basis-URL der API (Standard: AIC_API_BASE_URL)
+ */
+export function getArtworkRequestUrl(
+  artworkId: number,
+  baseUrl: string = AIC_API_BASE_URL,
+): string {
+  // Die Detailansicht benötigt zusätzliche Metadaten-Felder
+  const fields = [...ARTWORK_FIELDS, ...ARTWORK_DETAIL_FIELDS].join(",");
+  return `${baseUrl}/artworks/${artworkId}?fields=${fields}`;
+}
+
+/**
+ * Übersetzt die Suchfilter in die Elasticsearch Query DSL der AIC API
+ *
+ * @param filters - Die strukturierten Suchfilter
+ * @returns Ein `bool`-Query mit einer `filter`-Klausel pro aktivem Filter
+ *
+ * Beispiel:
+ * ```typescript
+ * buildFilterQuery({ dateStart: 1850, publicDomainOnly: true });
+ * // { bool: { filter: [
+ * //   { range: { date_start: { gte: 1850 } } },
+ * //   { term: { is_public_domain: true } },
+ * // ] } }
+ * ```
+ */
+function buildFilterQuery(filters: SearchFilters): Record<string, unknown> {
+  const clauses: Record<string, unknown>[] = [];
+
+  if (filters.dateStart !== undefined) {
+    clauses.push({ range: { date_start: { gte: filters.dateStart } } });
+  }
+
+  if (filters.dateEnd !== undefined) {
+    clauses.push({ range: { date_end: { lte: filters.dateEnd } } });
+  }
+
+  if (filters.publicDomainOnly) {
+    clauses.push({ term: { is_public_domain: true } });
+  }
+
+  if (filters.hasImageOnly) {
+    clauses.push({ exists: { field: "image_id" } });
+  }
+
+  // Textfelder werden als exakte Phrase verglichen
+  if (filters.artworkType) {
+    clauses.push({ match_phrase: { artwork_type_title: filters.artworkType } });
+  }
+
+  if (filters.department) {
+    clauses.push({ match_phrase: { department_title: filters.department } });
+  }
+
+  if (filters.placeOfOrigin) {
+    clauses.push({ match_phrase: { place_of_origin: filters.placeOfOrigin } });
+  }
+
+  return { bool: { filter: clauses } };
+}
+
+/**
+ * Liest die Wartezeit aus dem Retry-After-Header
+ *
+ * @param header - Wert des Headers (Sekunden oder HTTP-Datum)
+ * @returns Wartezeit in Millisekunden oder null, wenn nicht angegeben
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Führt einen GET-Request aus und gibt das geparste JSON zurück
+ *
+ * Wird auch für den Bildserver verwendet (siehe getImageInfo).
+ *
+ * @param url - Die vollständige Request-URL
+ * @param signal - Optionales Signal zum Abbrechen
+ * @throws NetworkError, NotFoundError, RateLimitError oder HttpError
+ */
+export async function fetchJson(
+  url: string,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    // Abbrüche unverändert weitergeben, alles andere ist ein Netzwerkfehler
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw new NetworkError(error);
+  }
+
+  // Prüfe, ob die Anfrage erfolgreich war
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new NotFoundError(response.statusText);
+    }
+
+    if (response.status === 429) {
+      throw new RateLimitError(
+        parseRetryAfter(response.headers.get("Retry-After")),
+        response.statusText,
+      );
+    }
+
+    throw new HttpError(response.status, response.statusText);
+  }
+
+  return response.json();
+}
+
+/**
+ * Validiert eine API-Antwort mit dem ArtworkAPIResponseSchema
+ *
+ * @throws ValidationError mit den Zod-Issues, wenn die Antwort ungültig ist
+ */
+function parseResponse(json: unknown) {
+  const result = ArtworkAPIResponseSchema.safeParse(json);
+
+  if (!result.success) {
+    throw new ValidationError(result.error.issues);
+  }
+
+  return result.data;
+}
+
+/**
+ * Erstellt eine Datenquelle, die die AIC REST-API verwendet
+ *
+ * @param baseUrl - Basis-URL der API (Standard: AIC_API_BASE_URL)
+ * @param scheduler - Scheduler für Rate Limiting und Retries
+ * @returns Eine ArtworkDataSource-Implementierung auf Basis von fetch
+ */
+export function createHttpDataSource(
+  baseUrl: string = AIC_API_BASE_URL,
+  scheduler: RequestScheduler = createRequestScheduler(),
+): ArtworkDataSource {
+  /**
+   * Führt einen GET-Request über den Scheduler aus
+   * (GET ist idempotent und darf daher wiederholt werden)
+   */
+  const get = (url: string, options: RequestOptions): Promise<unknown> =>
+    scheduler.schedule((signal) => fetchJson(url, signal), options);
+
+  return {
+    name: "http",
+
+    /**
+     * Sucht über `GET /artworks/search`
+     *
+     * Aktive Filter werden als `query` (Elasticsearch Query DSL) im JSON-Objekt
+     * des `params`-Parameters übertragen. So bleibt die Suche ein GET-Request.
+     */
+    async search(
+      query: string,
+      limit: number,
+      offset: number,
+      filters: SearchFilters,
+      options: RequestOptions = {},
+    ): Promise<SearchResult> {
+      // Konstruiere die Such-URL mit den erforderlichen Feldern
+      // Die API ermöglicht die Auswahl spezifischer Felder zur Reduzierung der Antwortgröße
+      const url = new URL(`${baseUrl}/artworks/search`);
+      if (query.trim()) {
+        url.searchParams.append("q", query);
+      }
+      url.searchParams.append("limit", limit.toString());
+      url.searchParams.append("offset", offset.toString());
+      url.searchParams.append("fields", ARTWORK_FIELDS.join(","));
+
+      // Filter als Elasticsearch-Query übergeben
+      if (hasActiveFilters(filters)) {
+        url.searchParams.append(
+          "params",
+          JSON.stringify({ query: buildFilterQuery(filters) }),
+        );
+      }
+
+      const json = await get(url.toString(), options);
+
+      // Validiere die Antwort mit dem Zod-Schema
+      // Das Schema stellt sicher, dass alle erforderlichen Felder vorhanden sind
+      // und fügt Standardwerte für fehlende optionale Felder hinzu
+      const validatedResponse = parseResponse(json);
+
+      return {
+        data: validatedResponse.data,
+        total: validatedResponse.pagination?.total || 0,
+        offset,
+        limit,
+      };
+    },
+
+    /**
+     * Lädt ein Kunstwerk über `GET /artworks/{id}`
+     */
+    async getById(
+      artworkId: number,
+      options: RequestOptions = {},
+    ): Promise<Artwork> {
+      const json = (await get(
+        getArtworkRequestUrl(artworkId, baseUrl),
+        options,
+      )) as { data?: unknown };
+
+      // Validiere das einzelne Artwork
+      const validatedArtwork = parseResponse({ data: [json.data] });
+
+      return validatedArtwork.data[0];
+    },
+
+    /**
+     * Lädt mehrere Kunstwerke über `GET /artworks?ids=...`
+     */
+    async getByIds(
+      artworkIds: number[],
+      options: RequestOptions = {},
+    ): Promise<Artwork[]> {
+      if (artworkIds.length === 0) {
+        return [];
+      }
+
+      const url = new URL(`${baseUrl}/artworks`);
+      url.searchParams.append("ids", artworkIds.join(","));
+      url.searchParams.append("limit", artworkIds.length.toString());
+      url.searchParams.append("fields", ARTWORK_FIELDS.join(","));
+
+      const json = await get(url.toString(), options);
+      const validatedResponse = parseResponse(json);
+
+      // Reihenfolge der angefragten IDs beibehalten
+      const byId = new Map(
+        validatedResponse.data.map((artwork) => [artwork.id, artwork]),
+      );
+      return artworkIds
+        .map((id) => byId.get(id))
+        .filter((artwork): artwork is Artwork => artwork !== undefined);
+    },
+
+    /**
+     * Lädt Vorschläge über `GET /autocomplete`
+     */
+    async suggest(
+      query: string,
+      limit: number,
+      options: RequestOptions = {},
+    ): Promise<string[]> {
+      const url = new URL(`${baseUrl}/autocomplete`);
+      url.searchParams.append("q", query);
+      url.searchParams.append("limit", limit.toString());
+
+      const result = AutocompleteResponseSchema.safeParse(
+        await get(url.toString(), options),
+      );
+
+      if (!result.success) {
+        throw new ValidationError(result.error.issues);
+      }
+
+      return result.data.slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { IiifImageInfo } from "../schemas/iiifSchema";
+import {
+  chooseScaleFactor,
+  getFullImageUrl,
+  getRegionUrl,
+  getTiles,
+} from "./iiifImage";
+
+const INFO: IiifImageInfo = {
+  "@id": "https://www.artic.edu/iiif/2/abc",
+  width: 5000,
+  height: 3000,
+  tiles: [{ width: 512, scaleFactors: [1, 2, 4, 8] }],
+};
+
+describe("chooseScaleFactor", () => {
+  it("wählt die gröbste Stufe mit genügend Bild-Pixeln", () => {
+    expect(chooseScaleFactor(INFO, 1)).toBe(1);
+    expect(chooseScaleFactor(INFO, 0.3)).toBe(2);
+    expect(chooseScaleFactor(INFO, 0.1)).toBe(8);
+  });
+
+  it("nimmt bei starker Vergrößerung die feinste Stufe", () => {
+    expect(chooseScaleFactor(INFO, 4)).toBe(1);
+  });
+});
+
+describe("Bild-URLs", () => {
+  it("erstellt Ausschnitt- und Gesamt-URLs", () => {
+    expect(
+      getRegionUrl(INFO, { x: 0, y: 512, width: 512, height: 256 }, 512),
+    ).toBe("https://www.artic.edu/iiif/2/abc/0,512,512,256/512,/0/default.jpg");
+    expect(getFullImageUrl(INFO, 843)).toBe(
+      "https://www.artic.edu/iiif/2/abc/full/843,/0/default.jpg",
+    );
+  });
+
+  it("fordert höchstens die Originalgröße an", () => {
+    expect(getFullImageUrl(INFO, 8000)).toContain("/full/5000,/");
+  });
+});
+
+describe("getTiles", () => {
+  it("liefert nur die Kacheln, die den Ausschnitt überdecken", () => {
+    const tiles = getTiles(INFO, 1, {
+      x: 600,
+      y: 100,
+      width: 500,
+      height: 300,
+    });
+
+    expect(tiles.map(({ key }) => key)).toEqual(["1/1/0", "1/2/0"]);
+  });
+
+  it("schneidet Randkacheln auf das Bild zu", () => {
+    const tiles = getTiles(INFO, 8, {
+      x: 0,
+      y: 0,
+      width: 5000,
+      height: 3000,
+    });
+
+    // Eine Kachel der Stufe 8 deckt 4096 × 4096 Bild-Pixel ab
+    expect(tiles).toHaveLength(2);
+    expect(tiles[1]).toMatchObject({
+      x: 4096,
+      y: 0,
+      width: 904,
+      height: 3000,
+    });
+    expect(tiles[1].url).toContain("/4096,0,904,3000/113,/");
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Kacheln für den Bildbetrachter (IIIF Image API 2.x)
+ *
+ * Der Bildserver liefert große Bilder in Kacheln und mehreren
+ * Verkleinerungsstufen (siehe iiifSchema.ts). Für den sichtbaren
+ * Ausschnitt und die aktuelle Vergrößerung wird die passende Stufe gewählt
+ * und nur die Kacheln geladen, die diesen Ausschnitt überdecken.
+ *
+ * Alle Koordinaten beziehen sich auf das Originalbild (in Pixeln).
+ */
+
+import type { IiifImageInfo, IiifTile } from "../schemas/iiifSchema";
+
+/**
+ * Ein Rechteck im Originalbild
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Eine Kachel mit ihrer Position im Originalbild
+ */
+export interface ImageTile extends ImageRegion {
+  /**
+   * Eindeutiger Schlüssel (Stufe und Position, z.B. als React-Key)
+   */
+  key: string;
+
+  /**
+   * Die Bild-URL der Kachel
+   */
+  url: string;
+}
+
+/**
+ * Kachel-Angaben für Bilder ohne `tiles` in info.json
+ * (der Bildserver schneidet dann beliebige Ausschnitte zu)
+ */
+const FALLBACK_TILE: IiifTile = {
+  width: 1024,
+  scaleFactors: [1, 2, 4, 8, 16, 32],
+};
+
+/**
+ * Liefert die Kachel-Angaben eines Bildes
+ */
+function getTileSpec(info: IiifImageInfo): IiifTile {
+  return info.tiles?.[0] ?? FALLBACK_TILE;
+}
+
+/**
+ * Wählt die Verkleinerungsstufe für eine Vergrößerung
+ *
+ * @param info - Die Bildinformationen
+ * @param zoom - Bildschirm-Pixel pro Bild-Pixel (inklusive devicePixelRatio)
+ * @returns Die größte Stufe, die noch mindestens ein Bild-Pixel pro
+ *          Bildschirm-Pixel liefert (sonst die feinste Stufe)
+ *
+ * Beispiel:
+ * ```typescript
+ * chooseScaleFactor(info, 0.3); // 2 (bei scaleFactors [1, 2, 4, 8])
+ * ```
+ */
+export function chooseScaleFactor(info: IiifImageInfo, zoom: number): number {
+  const factors = [...getTileSpec(info).scaleFactors].sort((a, b) => a - b);
+  const fitting = factors.filter((factor) => factor <= 1 / zoom);
+
+  return fitting.at(-1) ?? factors[0];
+}
+
+/**
+ * Erstellt die URL eines Bildausschnitts
+ *
+ * @param info - Die Bildinformationen
+ * @param region - Der Ausschnitt im Originalbild
+ * @param width - Die gewünschte Breite in Pixeln
+ */
+export function getRegionUrl(
+  info: IiifImageInfo,
+  region: ImageRegion,
+  width: number,
+): string {
+  const { x, y, width: regionWidth, height: regionHeight } = region;
+  return `${info["@id"]}/${x},${y},${regionWidth},${regionHeight}/${width},/0/default.jpg`;
+}
+
+/**
+ * Erstellt die URL des ganzen Bildes in einer Breite
+ * (höchstens in Originalgröße)
+ */
+export function getFullImageUrl(info: IiifImageInfo, width: number): string {
+  return `${info["@id"]}/full/${Math.min(width, info.width)},/0/default.jpg`;
+}
+
+/**
+ * Liefert die Kacheln einer Stufe, die einen Ausschnitt überdecken
+ *
+ * @param info - Die Bildinformationen
+ * @param scaleFactor - Die Verkleinerungsstufe (siehe chooseScaleFactor)
+ * @param region - Der sichtbare Ausschnitt im Originalbild
+ */
+export function getTiles(
+  info: IiifImageInfo,
+  scaleFactor: number,
+  region: ImageRegion,
+): ImageTile[] {
+  const spec = getTileSpec(info);
+
+  // Größe einer Kachel im Originalbild
+  const tileWidth = spec.width * scaleFactor;
+  const tileHeight = (spec.height ?? spec.width) * scaleFactor;
+
+  const firstColumn = Math.max(0, Math.floor(region.x / tileWidth));
+  const lastColumn = Math.min(
+    Math.ceil(info.width / tileWidth) - 1,
+    Math.floor((region.x + region.width) / tileWidth),
+  );
+  const firstRow = Math.max(0, Math.floor(region.y / tileHeight));
+  const lastRow = Math.min(
+    Math.ceil(info.height / tileHeight) - 1,
+    Math.floor((region.y + region.height) / tileHeight),
+  );
+
+  const tiles: ImageTile[] = [];
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const x = column * tileWidth;
+      const y = row * tileHeight;
+      const tile: ImageRegion = {
+        x,
+        y,
+        width: Math.min(tileWidth, info.width - x),
+        height: Math.min(tileHeight, info.height - y),
+      };
+
+      tiles.push({
+        ...tile,
+        key: `${scaleFactor}/${column}/${row}`,
+        url: getRegionUrl(info, tile, Math.ceil(tile.width / scaleFactor)),
+      });
+    }
+  }
+
+  return tiles;
+}
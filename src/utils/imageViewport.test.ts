@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ZOOM,
+  clampView,
+  fitView,
+  getVisibleRegion,
+  panView,
+  rotateView,
+  toImagePoint,
+  zoomView,
+  type ImageView,
+  type Point,
+  type Rotation,
+} from "./imageViewport";
+
+const IMAGE = { width: 4000, height: 2000 };
+const VIEWPORT = { width: 800, height: 600 };
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+/**
+ * Rechnet einen Bildpunkt in Bildschirm-Koordinaten um
+ * (Umkehrung von toImagePoint, unabhängig implementiert über die Drehmatrix)
+ */
+function toScreenPoint(view: ImageView, point: Point): Point {
+  const dx = (point.x - view.center.x) * view.zoom;
+  const dy = (point.y - view.center.y) * view.zoom;
+  const radians = (view.rotation * Math.PI) / 180;
+
+  return {
+    x: VIEWPORT.width / 2 + dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: VIEWPORT.height / 2 + dx * Math.sin(radians) + dy * Math.cos(radians),
+  };
+}
+
+function expectPointClose(actual: Point, expected: Point): void {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+}
+
+describe("fitView", () => {
+  it("zeigt das ganze Bild", () => {
+    expect(fitView(IMAGE, VIEWPORT).zoom).toBe(0.2);
+  });
+
+  it("berücksichtigt die Drehung", () => {
+    expect(fitView(IMAGE, VIEWPORT, 90).zoom).toBe(0.15);
+    expect(fitView(IMAGE, VIEWPORT, 180).zoom).toBe(0.2);
+  });
+});
+
+describe("toImagePoint", () => {
+  it.each(ROTATIONS)("liefert die Mitte des Bildes (%i°)", (rotation) => {
+    const view: ImageView = {
+      zoom: 1,
+      center: { x: 1000, y: 500 },
+      rotation,
+    };
+
+    expectPointClose(toImagePoint(view, VIEWPORT, { x: 400, y: 300 }), {
+      x: 1000,
+      y: 500,
+    });
+  });
+
+  it.each(ROTATIONS)("ist die Umkehrung der Darstellung (%i°)", (rotation) => {
+    const view: ImageView = {
+      zoom: 2,
+      center: { x: 1000, y: 500 },
+      rotation,
+    };
+    const point = { x: 1100, y: 420 };
+
+    expectPointClose(
+      toImagePoint(view, VIEWPORT, toScreenPoint(view, point)),
+      point,
+    );
+  });
+
+  it("dreht im Uhrzeigersinn", () => {
+    // Bei 90° liegt der obere Bildrand rechts: ein Punkt rechts der Mitte
+    // auf dem Bildschirm liegt im Bild oberhalb der Mitte
+    const view: ImageView = {
+      zoom: 1,
+      center: { x: 1000, y: 500 },
+      rotation: 90,
+    };
+
+    expectPointClose(toImagePoint(view, VIEWPORT, { x: 500, y: 300 }), {
+      x: 1000,
+      y: 400,
+    });
+  });
+});
+
+describe("zoomView", () => {
+  it.each(ROTATIONS)(
+    "hält den Bildpunkt unter dem Anker fest (%i°)",
+    (rotation) => {
+      const view: ImageView = {
+        zoom: 1,
+        center: { x: 2000, y: 1000 },
+        rotation,
+      };
+      const anchor = { x: 600, y: 150 };
+      const target = toImagePoint(view, VIEWPORT, anchor);
+
+      const zoomed = zoomView(view, IMAGE, VIEWPORT, 2, anchor);
+
+      expect(zoomed.zoom).toBe(2);
+      expect(zoomed.rotation).toBe(rotation);
+      expectPointClose(toImagePoint(zoomed, VIEWPORT, anchor), target);
+    },
+  );
+
+  it("begrenzt die Vergrößerung", () => {
+    const view = fitView(IMAGE, VIEWPORT);
+
+    expect(zoomView(view, IMAGE, VIEWPORT, 1000).zoom).toBe(MAX_ZOOM);
+    expect(zoomView(view, IMAGE, VIEWPORT, 0.01).zoom).toBe(view.zoom);
+  });
+});
+
+describe("panView", () => {
+  it.each(ROTATIONS)("lässt das Bild dem Zeiger folgen (%i°)", (rotation) => {
+    const view: ImageView = {
+      zoom: 2,
+      center: { x: 2000, y: 1000 },
+      rotation,
+    };
+    const start = { x: 300, y: 200 };
+    const delta = { x: 40, y: -25 };
+    const grabbed = toImagePoint(view, VIEWPORT, start);
+
+    const panned = panView(view, IMAGE, VIEWPORT, delta);
+
+    expectPointClose(
+      toImagePoint(panned, VIEWPORT, {
+        x: start.x + delta.x,
+        y: start.y + delta.y,
+      }),
+      grabbed,
+    );
+  });
+
+  it("hält die Mitte auf dem Bild", () => {
+    const view: ImageView = { zoom: 1, center: { x: 10, y: 10 }, rotation: 0 };
+
+    expect(panView(view, IMAGE, VIEWPORT, { x: 500, y: 500 }).center).toEqual({
+      x: 0,
+      y: 0,
+    });
+  });
+});
+
+describe("rotateView", () => {
+  it("dreht in beide Richtungen", () => {
+    const view = fitView(IMAGE, VIEWPORT);
+
+    expect(rotateView(view, IMAGE, VIEWPORT, 1).rotation).toBe(90);
+    expect(rotateView(view, IMAGE, VIEWPORT, -1).rotation).toBe(270);
+  });
+
+  it("passt eine zu kleine Vergrößerung an die Drehung an", () => {
+    // Hochformat: gedreht passt es erst bei stärkerer Vergrößerung
+    const image = { width: 1000, height: 3000 };
+    const view = fitView(image, VIEWPORT);
+
+    expect(view.zoom).toBe(0.2);
+    expect(rotateView(view, image, VIEWPORT, 1).zoom).toBeCloseTo(800 / 3000);
+  });
+});
+
+describe("clampView", () => {
+  it("lässt gültige Ansichten unverändert", () => {
+    const view: ImageView = {
+      zoom: 1,
+      center: { x: 100, y: 200 },
+      rotation: 180,
+    };
+
+    expect(clampView(view, IMAGE, VIEWPORT)).toEqual(view);
+  });
+});
+
+describe("getVisibleRegion", () => {
+  it("vertauscht Breite und Höhe bei 90°", () => {
+    const view: ImageView = {
+      zoom: 1,
+      center: { x: 2000, y: 1000 },
+      rotation: 90,
+    };
+
+    expect(getVisibleRegion(view, IMAGE, VIEWPORT)).toEqual({
+      x: 1700,
+      y: 600,
+      width: 600,
+      height: 800,
+    });
+  });
+
+  it("begrenzt den Ausschnitt auf das Bild", () => {
+    expect(getVisibleRegion(fitView(IMAGE, VIEWPORT), IMAGE, VIEWPORT)).toEqual(
+      { x: 0, y: 0, width: 4000, height: 2000 },
+    );
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Ansicht des Bildbetrachters: Vergrößerung, Ausschnitt und Drehung
+ *
+ * Eine Ansicht beschreibt, welcher Punkt des Originalbildes in der Mitte
+ * des Anzeigebereichs liegt, wie stark vergrößert und um wie viel Grad
+ * gedreht wird. Alle Funktionen sind rein und liefern eine neue Ansicht,
+ * die stets im erlaubten Bereich liegt (siehe clampView).
+ *
+ * Koordinaten:
+ * - Bild: Pixel im Originalbild (Ursprung oben links)
+ * - Bildschirm: Pixel im Anzeigebereich (Ursprung oben links)
+ */
+
+import type { ImageRegion } from "./iiifImage";
+
+/**
+ * Mögliche Drehungen (im Uhrzeigersinn, in Grad)
+ */
+export type Rotation = 0 | 90 | 180 | 270;
+
+/**
+ * Größe eines Bildes oder des Anzeigebereichs in Pixeln
+ */
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Ein Punkt (in Bild- oder Bildschirm-Koordinaten)
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Eine Ansicht des Bildes
+ */
+export interface ImageView {
+  /**
+   * Bildschirm-Pixel pro Bild-Pixel
+   */
+  zoom: number;
+
+  /**
+   * Der Punkt des Bildes in der Mitte des Anzeigebereichs
+   */
+  center: Point;
+
+  rotation: Rotation;
+}
+
+/**
+ * Stärkste Vergrößerung (Bildschirm-Pixel pro Bild-Pixel)
+ */
+export const MAX_ZOOM = 4;
+
+/**
+ * Faktor für einen Vergrößerungsschritt (Schaltflächen, Tastatur)
+ */
+export const ZOOM_STEP = 1.5;
+
+/**
+ * Dreht einen Vektor um ein Vielfaches von 90 Grad (im Uhrzeigersinn)
+ */
+function rotate(point: Point, degrees: number): Point {
+  const turns = (((degrees / 90) % 4) + 4) % 4;
+
+  switch (turns) {
+    case 1:
+      return { x: -point.y, y: point.x };
+    case 2:
+      return { x: -point.x, y: -point.y };
+    case 3:
+      return { x: point.y, y: -point.x };
+    default:
+      return point;
+  }
+}
+
+/**
+ * Größe des Bildes nach der Drehung
+ */
+function getRotatedSize(image: Size, rotation: Rotation): Size {
+  return rotation % 180 === 0
+    ? image
+    : { width: image.height, height: image.width };
+}
+
+/**
+ * Vergrößerung, bei der das ganze Bild in den Anzeigebereich passt
+ */
+export function getFitZoom(
+  image: Size,
+  viewport: Size,
+  rotation: Rotation,
+): number {
+  const rotated = getRotatedSize(image, rotation);
+  return Math.min(
+    viewport.width / rotated.width,
+    viewport.height / rotated.height,
+  );
+}
+
+/**
+ * Ansicht, in der das ganze Bild zu sehen ist
+ */
+export function fitView(
+  image: Size,
+  viewport: Size,
+  rotation: Rotation = 0,
+): ImageView {
+  return {
+    zoom: getFitZoom(image, viewport, rotation),
+    center: { x: image.width / 2, y: image.height / 2 },
+    rotation,
+  };
+}
+
+/**
+ * Begrenzt eine Ansicht auf den erlaubten Bereich
+ *
+ * Die Vergrößerung liegt zwischen "ganzes Bild" und MAX_ZOOM, die Mitte
+ * des Anzeigebereichs immer auf dem Bild.
+ */
+export function clampView(
+  view: ImageView,
+  image: Size,
+  viewport: Size,
+): ImageView {
+  const minZoom = getFitZoom(image, viewport, view.rotation);
+
+  return {
+    zoom: Math.min(Math.max(view.zoom, minZoom), Math.max(MAX_ZOOM, minZoom)),
+    center: {
+      x: Math.min(Math.max(view.center.x, 0), image.width),
+      y: Math.min(Math.max(view.center.y, 0), image.height),
+    },
+    rotation: view.rotation,
+  };
+}
+
+/**
+ * Rechnet einen Punkt im Anzeigebereich in Bild-Koordinaten um
+ */
+export function toImagePoint(
+  view: ImageView,
+  viewport: Size,
+  screen: Point,
+): Point {
+  const offset = rotate(
+    {
+      x: (screen.x - viewport.width / 2) / view.zoom,
+      y: (screen.y - viewport.height / 2) / view.zoom,
+    },
+    -view.rotation,
+  );
+
+  return { x: view.center.x + offset.x, y: view.center.y + offset.y };
+}
+
+/**
+ * Verschiebt die Ansicht um eine Strecke auf dem Bildschirm
+ * (z.B. beim Ziehen: das Bild folgt dem Zeiger)
+ */
+export function panView(
+  view: ImageView,
+  image: Size,
+  viewport: Size,
+  delta: Point,
+): ImageView {
+  const offset = rotate(
+    { x: delta.x / view.zoom, y: delta.y / view.zoom },
+    -view.rotation,
+  );
+
+  return clampView(
+    {
+      ...view,
+      center: { x: view.center.x - offset.x, y: view.center.y - offset.y },
+    },
+    image,
+    viewport,
+  );
+}
+
+/**
+ * Vergrößert oder verkleinert die Ansicht
+ *
+ * @param factor - Faktor für die Vergrößerung (> 1: vergrößern)
+ * @param anchor - Punkt im Anzeigebereich, der an seiner Stelle bleibt
+ *                 (Standard: die Mitte)
+ */
+export function zoomView(
+  view: ImageView,
+  image: Size,
+  viewport: Size,
+  factor: number,
+  anchor: Point = { x: viewport.width / 2, y: viewport.height / 2 },
+): ImageView {
+  const target = toImagePoint(view, viewport, anchor);
+  const zoomed = clampView(
+    { ...view, zoom: view.zoom * factor },
+    image,
+    viewport,
+  );
+
+  // Der Bildpunkt unter dem Anker bleibt an derselben Stelle
+  const offset = rotate(
+    {
+      x: (anchor.x - viewport.width / 2) / zoomed.zoom,
+      y: (anchor.y - viewport.height / 2) / zoomed.zoom,
+    },
+    -view.rotation,
+  );
+
+  return clampView(
+    {
+      ...zoomed,
+      center: { x: target.x - offset.x, y: target.y - offset.y },
+    },
+    image,
+    viewport,
+  );
+}
+
+/**
+ * Dreht die Ansicht um 90 Grad
+ *
+ * @param direction - 1: im Uhrzeigersinn, -1: gegen den Uhrzeigersinn
+ */
+export function rotateView(
+  view: ImageView,
+  image: Size,
+  viewport: Size,
+  direction: 1 | -1,
+): ImageView {
+  const rotation = (((view.rotation + direction * 90) % 360) + 360) % 360;
+  return clampView(
+    { ...view, rotation: rotation as Rotation },
+    image,
+    viewport,
+  );
+}
+
+/**
+ * Liefert den sichtbaren Ausschnitt des Bildes (auf das Bild begrenzt)
+ */
+export function getVisibleRegion(
+  view: ImageView,
+  image: Size,
+  viewport: Size,
+): ImageRegion {
+  const visible = getRotatedSize(
+    {
+      width: viewport.width / view.zoom,
+      height: viewport.height / view.zoom,
+    },
+    view.rotation,
+  );
+  const left = Math.max(0, view.center.x - visible.width / 2);
+  const top = Math.max(0, view.center.y - visible.height / 2);
+  const right = Math.min(image.width, view.center.x + visible.width / 2);
+  const bottom = Math.min(image.height, view.center.y + visible.height / 2);
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top),
+  };
+}
+
+/**
+ * CSS-Transform, das das Bild (in Originalgröße, Ursprung oben links)
+ * entsprechend der Ansicht im Anzeigebereich darstellt
+ */
+export function getViewTransform(view: ImageView, viewport: Size): string {
+  return [
+    `translate(${viewport.width / 2}px, ${viewport.height / 2}px)`,
+    `rotate(${view.rotation}deg)`,
+    `scale(${view.zoom})`,
+    `translate(${-view.center.x}px, ${-view.center.y}px)`,
+  ].join(" ");
+}
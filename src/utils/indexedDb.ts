@@ -0,0 +1,84 @@
+/**
+ * Kleine Helper für die IndexedDB-API
+ *
+ * IndexedDB arbeitet mit Request-Objekten und Events. Diese Helper
+ * verpacken die wichtigsten Abläufe in Promises, damit sie mit
+ * async/await verwendet werden können.
+ */
+
+/**
+ * Prüft, ob IndexedDB in der aktuellen Umgebung verfügbar ist
+ * (z.B. nicht in manchen privaten Browserfenstern)
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * Wandelt einen IDBRequest in ein Promise um
+ *
+ * @param request - Der IndexedDB-Request
+ * @returns Promise mit dem Ergebnis des Requests
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wartet, bis eine Transaktion abgeschlossen ist
+ *
+ * @param transaction - Die IndexedDB-Transaktion
+ * @returns Promise, das nach erfolgreichem Commit aufgelöst wird
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Öffnet (und erstellt bei Bedarf) eine IndexedDB-Datenbank
+ *
+ * @param name - Name der Datenbank
+ * @param version - Schema-Version der Datenbank
+ * @param upgrade - Wird aufgerufen, wenn die Datenbank neu ist oder die Version steigt
+ * @returns Promise mit der geöffneten Datenbank
+ *
+ * Beispiel:
+ * ```typescript
+ * const db = await openDatabase("aic_cache", 1, (db) => {
+ *   db.createObjectStore("responses", { keyPath: "key" });
+ * });
+ * ```
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (
+    db: IDBDatabase,
+    oldVersion: number,
+    transaction: IDBTransaction,
+  ) => void,
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error("IndexedDB ist nicht verfügbar"));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error(`Datenbank "${name}" ist blockiert`));
+  });
+}
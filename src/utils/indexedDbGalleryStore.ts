@@ -0,0 +1,406 @@
+/**
+ * IndexedDB-Speicher für die Galerie
+ *
+ * Implementiert GalleryStore über eine eigene IndexedDB-Datenbank.
+ * Jedes Kunstwerk ist ein eigener Datensatz, sodass Hinzufügen, Ändern
+ * und Prüfen nur einzelne Einträge lesen oder schreiben.
+ *
+ * Object Stores:
+ * - artworks: Kunstwerke (Schlüssel: [collectionId, id];
+ *   Indizes: artworkId, collection, artist, date, addedAt, tag)
+ * - collections: Sammlungen (Schlüssel: id)
+ * - quarantine: Einträge, die nicht migriert werden konnten
+ * - trash: Papierkorb mit entfernten Einträgen (Schlüssel: id)
+ * - meta: Format-Version der gespeicherten Einträge
+ */
+
+import type { SavedArtwork } from "../schemas/noteSchema";
+import {
+  DEFAULT_COLLECTION_ID,
+  type Collection,
+} from "../schemas/collectionSchema";
+import {
+  GALLERY_STORAGE_VERSION,
+  type QuarantinedEntry,
+} from "../schemas/galleryStorageSchema";
+import type { TrashedEntry } from "../schemas/trashSchema";
+import type { GalleryStore } from "./galleryStore";
+import { openDatabase, requestToPromise, transactionDone } from "./indexedDb";
+
+/**
+ * Name und Schema-Version der IndexedDB-Datenbank
+ */
+const GALLERY_DB_NAME = "aic_gallery";
+const GALLERY_DB_VERSION = 4;
+
+/**
+ * Namen der Object Stores
+ */
+const ARTWORK_STORE = "artworks";
+const COLLECTION_STORE = "collections";
+const QUARANTINE_STORE = "quarantine";
+const TRASH_STORE = "trash";
+const META_STORE = "meta";
+
+/**
+ * Schlüssel des Meta-Eintrags für die Format-Version
+ */
+const FORMAT_VERSION_KEY = "formatVersion";
+
+/**
+ * Ein Eintrag im Meta-Store
+ */
+interface MetaEntry {
+  key: string;
+  value: number;
+}
+
+/**
+ * Erstellt den Object Store für Kunstwerke mit seinen Indizes
+ */
+function createArtworkStore(db: IDBDatabase): IDBObjectStore {
+  const artworks = db.createObjectStore(ARTWORK_STORE, {
+    keyPath: ["collectionId", "id"],
+  });
+  artworks.createIndex("artworkId", "id");
+  artworks.createIndex("collection", "collectionId");
+  artworks.createIndex("artist", "artist_title");
+  artworks.createIndex("date", "date_display");
+  artworks.createIndex("addedAt", "addedAt");
+  createTagIndex(artworks);
+  return artworks;
+}
+
+/**
+ * Erstellt den Index für Tags (ein Index-Eintrag pro Tag eines Kunstwerks)
+ */
+function createTagIndex(artworks: IDBObjectStore): void {
+  artworks.createIndex("tag", "tags", { multiEntry: true });
+}
+
+/**
+ * Öffnet die Galerie-Datenbank und erstellt bei Bedarf die Object Stores
+ *
+ * Schema-Versionen:
+ * - 1: artworks (Schlüssel: id), quarantine, meta
+ * - 2: artworks mit Schlüssel [collectionId, id], collections
+ * - 3: Index "tag" auf artworks
+ * - 4: trash
+ */
+function openGalleryDatabase(): Promise<IDBDatabase> {
+  return openDatabase(
+    GALLERY_DB_NAME,
+    GALLERY_DB_VERSION,
+    (db, oldVersion, transaction) => {
+      // Der Papierkorb ist unabhängig von den übrigen Upgrade-Schritten
+      if (oldVersion < 4) {
+        db.createObjectStore(TRASH_STORE, { keyPath: "id" });
+      }
+
+      if (oldVersion < 1) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: "id" });
+        db.createObjectStore(META_STORE, { keyPath: "key" });
+
+        // Eine neue Datenbank enthält Einträge im aktuellen Format
+        transaction.objectStore(META_STORE).put({
+          key: FORMAT_VERSION_KEY,
+          value: GALLERY_STORAGE_VERSION,
+        } satisfies MetaEntry);
+      }
+
+      if (oldVersion < 2) {
+        db.createObjectStore(COLLECTION_STORE, { keyPath: "id" });
+
+        // createArtworkStore legt alle Indizes der aktuellen Version an,
+        // spätere Upgrade-Schritte entfallen daher
+        if (oldVersion < 1) {
+          createArtworkStore(db);
+          return;
+        }
+
+        // Der Schlüssel des Stores ändert sich: Einträge umkopieren. Ohne
+        // collectionId ließen sie sich nicht speichern; die Format-Migration
+        // setzt denselben Wert beim nächsten Laden ebenfalls.
+        const request = transaction.objectStore(ARTWORK_STORE).getAll();
+        request.onsuccess = () => {
+          db.deleteObjectStore(ARTWORK_STORE);
+          const artworks = createArtworkStore(db);
+          for (const item of request.result) {
+            artworks.put({ collectionId: DEFAULT_COLLECTION_ID, ...item });
+          }
+        };
+        return;
+      }
+
+      if (oldVersion < 3) {
+        createTagIndex(transaction.objectStore(ARTWORK_STORE));
+      }
+    },
+  );
+}
+
+/**
+ * Erstellt einen Galerie-Speicher auf Basis von IndexedDB
+ *
+ * @returns Promise mit der GalleryStore-Implementierung
+ * @throws Error wenn IndexedDB nicht verfügbar ist oder die Datenbank
+ *         nicht geöffnet werden kann (dann LocalStorage verwenden)
+ */
+export async function createIndexedDbGalleryStore(): Promise<GalleryStore> {
+  const db = await openGalleryDatabase();
+
+  /**
+   * Liefert den Object Store für Kunstwerke in einer neuen Transaktion
+   */
+  const artworkStore = (mode: IDBTransactionMode) =>
+    db.transaction(ARTWORK_STORE, mode).objectStore(ARTWORK_STORE);
+
+  return {
+    name: "indexedDB",
+
+    async readRaw() {
+      const transaction = db.transaction(
+        [
+          ARTWORK_STORE,
+          COLLECTION_STORE,
+          QUARANTINE_STORE,
+          TRASH_STORE,
+          META_STORE,
+        ],
+        "readonly",
+      );
+
+      const [items, collections, quarantine, trash, meta] = await Promise.all([
+        requestToPromise<unknown[]>(
+          transaction.objectStore(ARTWORK_STORE).getAll(),
+        ),
+        requestToPromise<unknown[]>(
+          transaction.objectStore(COLLECTION_STORE).getAll(),
+        ),
+        requestToPromise<QuarantinedEntry[]>(
+          transaction.objectStore(QUARANTINE_STORE).getAll(),
+        ),
+        requestToPromise<unknown[]>(
+          transaction.objectStore(TRASH_STORE).getAll(),
+        ),
+        requestToPromise<MetaEntry | undefined>(
+          transaction.objectStore(META_STORE).get(FORMAT_VERSION_KEY),
+        ),
+      ]);
+
+      if (
+        items.length === 0 &&
+        collections.length === 0 &&
+        quarantine.length === 0 &&
+        trash.length === 0
+      ) {
+        return null;
+      }
+
+      return {
+        version: meta?.value ?? GALLERY_STORAGE_VERSION,
+        items,
+        collections,
+        quarantine,
+        trash,
+      };
+    },
+
+    async replaceAll(data) {
+      const transaction = db.transaction(
+        [
+          ARTWORK_STORE,
+          COLLECTION_STORE,
+          QUARANTINE_STORE,
+          TRASH_STORE,
+          META_STORE,
+        ],
+        "readwrite",
+      );
+
+      const artworks = transaction.objectStore(ARTWORK_STORE);
+      const collections = transaction.objectStore(COLLECTION_STORE);
+      const quarantine = transaction.objectStore(QUARANTINE_STORE);
+      const trash = transaction.objectStore(TRASH_STORE);
+
+      artworks.clear();
+      collections.clear();
+      quarantine.clear();
+      trash.clear();
+      data.items.forEach((item) => artworks.put(item));
+      data.collections.forEach((collection) => collections.put(collection));
+      data.quarantine.forEach((entry) => quarantine.put(entry));
+      data.trash.forEach((entry) => trash.put(entry));
+
+      transaction.objectStore(META_STORE).put({
+        key: FORMAT_VERSION_KEY,
+        value: GALLERY_STORAGE_VERSION,
+      } satisfies MetaEntry);
+
+      await transactionDone(transaction);
+    },
+
+    async getAll() {
+      // Über den addedAt-Index in der Reihenfolge des Hinzufügens
+      return requestToPromise<SavedArtwork[]>(
+        artworkStore("readonly").index("addedAt").getAll(),
+      );
+    },
+
+    async getByCollection(collectionId) {
+      const items = await requestToPromise<SavedArtwork[]>(
+        artworkStore("readonly").index("collection").getAll(collectionId),
+      );
+      return items.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+    },
+
+    async getByArtwork(artworkId) {
+      return requestToPromise<SavedArtwork[]>(
+        artworkStore("readonly").index("artworkId").getAll(artworkId),
+      );
+    },
+
+    async getIds() {
+      // Ein Index-Schlüssel pro Eintrag; Kunstwerke in mehreren
+      // Sammlungen kommen daher mehrfach vor
+      const request = artworkStore("readonly")
+        .index("artworkId")
+        .openKeyCursor(null, "nextunique");
+
+      return new Promise<number[]>((resolve, reject) => {
+        const ids: number[] = [];
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            ids.push(cursor.key as number);
+            cursor.continue();
+          } else {
+            resolve(ids);
+          }
+        };
+        request.onerror = () => reject(request.error);
+      });
+    },
+
+    async get(collectionId, artworkId) {
+      const artwork = await requestToPromise<SavedArtwork | undefined>(
+        artworkStore("readonly").get([collectionId, artworkId]),
+      );
+      return artwork ?? null;
+    },
+
+    async getByArtist(artist) {
+      return requestToPromise<SavedArtwork[]>(
+        artworkStore("readonly").index("artist").getAll(artist),
+      );
+    },
+
+    async getByTag(tag) {
+      return requestToPromise<SavedArtwork[]>(
+        artworkStore("readonly").index("tag").getAll(tag),
+      );
+    },
+
+    async put(artwork) {
+      const transaction = db.transaction(ARTWORK_STORE, "readwrite");
+      transaction.objectStore(ARTWORK_STORE).put(artwork);
+      await transactionDone(transaction);
+    },
+
+    async putMany({ items = [], collections = [] }) {
+      const transaction = db.transaction(
+        [ARTWORK_STORE, COLLECTION_STORE],
+        "readwrite",
+      );
+      const artworks = transaction.objectStore(ARTWORK_STORE);
+      const collectionStore = transaction.objectStore(COLLECTION_STORE);
+
+      collections.forEach((collection) => collectionStore.put(collection));
+      items.forEach((item) => artworks.put(item));
+
+      await transactionDone(transaction);
+    },
+
+    async delete(collectionId, artworkId) {
+      const transaction = db.transaction(ARTWORK_STORE, "readwrite");
+      transaction.objectStore(ARTWORK_STORE).delete([collectionId, artworkId]);
+      await transactionDone(transaction);
+    },
+
+    async getCollections() {
+      const transaction = db.transaction(COLLECTION_STORE, "readonly");
+      const collections = await requestToPromise<Collection[]>(
+        transaction.objectStore(COLLECTION_STORE).getAll(),
+      );
+      return collections.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async putCollection(collection) {
+      const transaction = db.transaction(COLLECTION_STORE, "readwrite");
+      transaction.objectStore(COLLECTION_STORE).put(collection);
+      await transactionDone(transaction);
+    },
+
+    async deleteCollection(collectionId) {
+      const transaction = db.transaction(
+        [ARTWORK_STORE, COLLECTION_STORE],
+        "readwrite",
+      );
+      const artworks = transaction.objectStore(ARTWORK_STORE);
+
+      // Einträge der Sammlung in derselben Transaktion entfernen
+      const request = artworks.index("collection").getAllKeys(collectionId);
+      request.onsuccess = () => {
+        request.result.forEach((key) => artworks.delete(key));
+      };
+      transaction.objectStore(COLLECTION_STORE).delete(collectionId);
+
+      await transactionDone(transaction);
+    },
+
+    async clear() {
+      const transaction = db.transaction(
+        [ARTWORK_STORE, COLLECTION_STORE, QUARANTINE_STORE, TRASH_STORE],
+        "readwrite",
+      );
+      transaction.objectStore(ARTWORK_STORE).clear();
+      transaction.objectStore(COLLECTION_STORE).clear();
+      transaction.objectStore(QUARANTINE_STORE).clear();
+      transaction.objectStore(TRASH_STORE).clear();
+      await transactionDone(transaction);
+    },
+
+    async getQuarantine() {
+      const transaction = db.transaction(QUARANTINE_STORE, "readonly");
+      return requestToPromise<QuarantinedEntry[]>(
+        transaction.objectStore(QUARANTINE_STORE).getAll(),
+      );
+    },
+
+    async deleteQuarantine(entryId) {
+      const transaction = db.transaction(QUARANTINE_STORE, "readwrite");
+      transaction.objectStore(QUARANTINE_STORE).delete(entryId);
+      await transactionDone(transaction);
+    },
+
+    async getTrash() {
+      const transaction = db.transaction(TRASH_STORE, "readonly");
+      const trash = await requestToPromise<TrashedEntry[]>(
+        transaction.objectStore(TRASH_STORE).getAll(),
+      );
+      return trash.sort((a, b) => a.deletedAt.localeCompare(b.deletedAt));
+    },
+
+    async putTrash(entry) {
+      const transaction = db.transaction(TRASH_STORE, "readwrite");
+      transaction.objectStore(TRASH_STORE).put(entry);
+      await transactionDone(transaction);
+    },
+
+    async deleteTrash(entryId) {
+      const transaction = db.transaction(TRASH_STORE, "readwrite");
+      transaction.objectStore(TRASH_STORE).delete(entryId);
+      await transactionDone(transaction);
+    },
+  };
+}
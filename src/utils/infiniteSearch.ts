@@ -0,0 +1,360 @@
+/**
+ * Endlos-Scrollen in den Suchergebnissen
+ *
+ * Statt einer Seite werden die Ergebnisse ab dem Anfang geladen und beim
+ * Scrollen um jeweils eine weitere Seite ergänzt (siehe VirtualGrid.tsx).
+ * Die Anzahl der geladenen Seiten wird in der sessionStorage gehalten:
+ * Kehrt der Benutzer aus einer Detailansicht zurück, werden wieder
+ * ebenso viele Seiten geladen (aus dem Cache, siehe artworkApi.ts), damit
+ * die Scroll-Position wiederhergestellt werden kann.
+ *
+ * Außerdem wird hier die gewählte Darstellung (Seiten oder Endlos-Scrollen)
+ * gespeichert.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { Artwork } from "../schemas/artworkSchema";
+import {
+  hasActiveFilters,
+  type SearchFilters,
+} from "../schemas/searchFilterSchema";
+import {
+  DEFAULT_SEARCH_MODE,
+  SearchModeSchema,
+  type SearchMode,
+} from "../schemas/searchModeSchema";
+import { searchArtworks } from "./artworkApi";
+import { isAbortError, toApiError, type ApiError } from "./apiErrors";
+import { parseSearchState } from "./searchParams";
+
+/**
+ * Höchstzahl erreichbarer Ergebnisse (die AIC API liefert bei der Suche
+ * keine Ergebnisse jenseits von offset + limit = 10.000)
+ */
+export const MAX_SEARCH_RESULTS = 10000;
+
+/**
+ * LocalStorage-Schlüssel für die gewählte Darstellung
+ */
+const SEARCH_MODE_KEY = "aic_search_mode";
+
+/**
+ * sessionStorage-Schlüssel für die Anzahl der geladenen Seiten
+ */
+const LOADED_PAGES_KEY = "aic_search_loaded_pages";
+
+/**
+ * Zustand des Endlos-Scrollens für die aktuelle Suche
+ */
+export interface InfiniteSearch {
+  /**
+   * Alle bisher geladenen Ergebnisse (ohne doppelte Kunstwerke)
+   */
+  items: Artwork[];
+
+  /**
+   * Gesamtanzahl der Treffer laut API
+   */
+  total: number;
+
+  /**
+   * Gibt an, ob die ersten Ergebnisse noch geladen werden
+   */
+  isLoading: boolean;
+
+  /**
+   * Gibt an, ob gerade eine weitere Seite geladen wird
+   */
+  isLoadingMore: boolean;
+
+  /**
+   * Fehler der letzten Anfrage (die bereits geladenen Ergebnisse bleiben)
+   */
+  error: ApiError | null;
+
+  /**
+   * Gibt an, ob weitere Ergebnisse geladen werden können
+   */
+  hasMore: boolean;
+
+  /**
+   * Lädt die nächste Seite (auch nach einem Fehler erneut)
+   */
+  loadMore: () => void;
+}
+
+/**
+ * Geladene Ergebnisse einer Suche
+ */
+interface LoadedResults {
+  /**
+   * Schlüssel der Suche (Query-String plus Aktualisierungszähler)
+   */
+  key: string;
+  items: Artwork[];
+  total: number;
+
+  /**
+   * Anzahl der geladenen Seiten
+   */
+  pages: number;
+  error: ApiError | null;
+  isLoadingMore: boolean;
+}
+
+/**
+ * Lädt die gewählte Darstellung der Suchergebnisse
+ *
+ * @returns Die Darstellung (Standard, wenn nichts oder ein ungültiger
+ *          Wert gespeichert ist)
+ */
+export function loadSearchMode(): SearchMode {
+  try {
+    const result = SearchModeSchema.safeParse(
+      localStorage.getItem(SEARCH_MODE_KEY),
+    );
+    return result.success ? result.data : DEFAULT_SEARCH_MODE;
+  } catch {
+    return DEFAULT_SEARCH_MODE;
+  }
+}
+
+/**
+ * Speichert die gewählte Darstellung der Suchergebnisse
+ */
+export function saveSearchMode(mode: SearchMode): void {
+  try {
+    localStorage.setItem(SEARCH_MODE_KEY, mode);
+  } catch (error) {
+    console.warn("Darstellung konnte nicht gespeichert werden:", error);
+  }
+}
+
+/**
+ * Liefert die Anzahl der zuletzt geladenen Seiten einer Suche (mindestens 1)
+ */
+function loadPageCount(searchKey: string): number {
+  try {
+    const saved = JSON.parse(
+      sessionStorage.getItem(LOADED_PAGES_KEY) ?? "null",
+    ) as { key: string; pages: number } | null;
+
+    return saved?.key === searchKey && saved.pages > 1 ? saved.pages : 1;
+  } catch {
+    return 1;
+  }
+}
+
+/**
+ * Speichert die Anzahl der geladenen Seiten einer Suche
+ */
+function savePageCount(searchKey: string, pages: number): void {
+  try {
+    sessionStorage.setItem(
+      LOADED_PAGES_KEY,
+      JSON.stringify({ key: searchKey, pages }),
+    );
+  } catch (error) {
+    console.warn("Geladene Seiten konnten nicht gespeichert werden:", error);
+  }
+}
+
+/**
+ * Hängt Ergebnisse an, ohne Kunstwerke doppelt aufzunehmen (verschieben
+ * sich die Treffer zwischen zwei Seiten, kann eines erneut auftauchen)
+ */
+function appendUnique(items: Artwork[], next: Artwork[]): Artwork[] {
+  const ids = new Set(items.map((artwork) => artwork.id));
+  return [...items, ...next.filter((artwork) => !ids.has(artwork.id))];
+}
+
+/**
+ * Lädt die ersten Seiten einer Suche nacheinander
+ */
+async function loadPages(
+  query: string,
+  filters: SearchFilters,
+  pageSize: number,
+  pages: number,
+  signal: AbortSignal,
+): Promise<{ items: Artwork[]; total: number; pages: number }> {
+  let items: Artwork[] = [];
+  let total = 0;
+  let loaded = 0;
+
+  while (loaded < pages) {
+    const result = await searchArtworks(
+      query,
+      pageSize,
+      loaded * pageSize,
+      filters,
+      { signal },
+    );
+    items = appendUnique(items, result.data);
+    total = result.total;
+    loaded++;
+
+    // Weniger Treffer als gespeichert: keine weiteren Seiten anfragen
+    if (loaded * pageSize >= Math.min(total, MAX_SEARCH_RESULTS)) {
+      break;
+    }
+  }
+
+  return { items, total, pages: loaded };
+}
+
+/**
+ * Hook: Lädt die Ergebnisse einer Suche seitenweise nach
+ *
+ * @param searchKey - Query-String der Suche ohne Seite (siehe serializeSearchState)
+ * @param reloadCount - Zähler für manuelle Aktualisierungen (lädt neu)
+ * @param pageSize - Anzahl der Ergebnisse pro Anfrage
+ * @param enabled - Gibt an, ob Endlos-Scrollen aktiv ist (sonst keine Anfragen)
+ *
+ * Beispiel:
+ * ```typescript
+ * const { items, hasMore, loadMore } = useInfiniteSearch(key, 0, 20, true);
+ * ```
+ */
+export function useInfiniteSearch(
+  searchKey: string,
+  reloadCount: number,
+  pageSize: number,
+  enabled: boolean,
+): InfiniteSearch {
+  const [results, setResults] = useState<LoadedResults | null>(null);
+
+  /**
+   * Bricht alle Anfragen der aktuellen Suche ab
+   */
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Offset der Seite, die gerade nachgeladen wird (gegen doppelte Anfragen,
+   * bevor der neue Zustand gerendert ist)
+   */
+  const loadingOffsetRef = useRef<number | null>(null);
+
+  const requestKey = `${searchKey}#${reloadCount}`;
+  const current = results?.key === requestKey ? results : null;
+  const hasMore =
+    current !== null &&
+    current.pages * pageSize < Math.min(current.total, MAX_SEARCH_RESULTS);
+
+  /**
+   * Effect Hook: Erste Seiten laden, sobald sich die Suche ändert
+   */
+  useEffect(() => {
+    const { query, filters } = parseSearchState(new URLSearchParams(searchKey));
+
+    if (!enabled || (!query && !hasActiveFilters(filters))) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const key = `${searchKey}#${reloadCount}`;
+    controllerRef.current = controller;
+    loadingOffsetRef.current = null;
+
+    loadPages(
+      query,
+      filters,
+      pageSize,
+      loadPageCount(searchKey),
+      controller.signal,
+    )
+      .then(({ items, total, pages }) => {
+        setResults({
+          key,
+          items,
+          total,
+          pages,
+          error: null,
+          isLoadingMore: false,
+        });
+      })
+      .catch((error) => {
+        if (isAbortError(error)) {
+          return;
+        }
+
+        setResults({
+          key,
+          items: [],
+          total: 0,
+          pages: 0,
+          error: toApiError(error),
+          isLoadingMore: false,
+        });
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [searchKey, reloadCount, pageSize, enabled]);
+
+  const loadMore = () => {
+    const controller = controllerRef.current;
+
+    // Erst nach den ersten Seiten; bei einem Fehler der ersten Seiten lädt
+    // nur "Aktualisieren" neu
+    if (!current || !hasMore || current.pages === 0 || !controller) {
+      return;
+    }
+
+    const offset = current.pages * pageSize;
+    if (loadingOffsetRef.current === offset) {
+      return;
+    }
+
+    const { query, filters } = parseSearchState(new URLSearchParams(searchKey));
+    const key = current.key;
+
+    loadingOffsetRef.current = offset;
+    setResults({ ...current, error: null, isLoadingMore: true });
+
+    searchArtworks(query, pageSize, offset, filters, {
+      signal: controller.signal,
+    })
+      .then((result) => {
+        savePageCount(searchKey, offset / pageSize + 1);
+        setResults((previous) =>
+          previous?.key === key
+            ? {
+                ...previous,
+                items: appendUnique(previous.items, result.data),
+                total: result.total,
+                pages: previous.pages + 1,
+                isLoadingMore: false,
+              }
+            : previous,
+        );
+      })
+      .catch((error) => {
+        if (isAbortError(error)) {
+          return;
+        }
+
+        setResults((previous) =>
+          previous?.key === key
+            ? { ...previous, error: toApiError(error), isLoadingMore: false }
+            : previous,
+        );
+      })
+      .finally(() => {
+        if (loadingOffsetRef.current === offset) {
+          loadingOffsetRef.current = null;
+        }
+      });
+  };
+
+  return {
+    items: current?.items ?? [],
+    total: current?.total ?? 0,
+    isLoading: enabled && current === null,
+    isLoadingMore: current?.isLoadingMore ?? false,
+    error: current?.error ?? null,
+    hasMore,
+    loadMore,
+  };
+}
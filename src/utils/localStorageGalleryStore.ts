@@ -0,0 +1,273 @@
+/**
+ * LocalStorage-Speicher für die Galerie
+ *
+ * Implementiert GalleryStore über einen einzelnen JSON-Eintrag im
+ * LocalStorage (versionierter Umschlag, siehe galleryStorageSchema.ts).
+ * Jede Änderung schreibt die gesamte Galerie neu; der Speicher dient daher
+ * nur als Fallback, wenn IndexedDB nicht verfügbar ist.
+ */
+
+import type { SavedArtwork } from "../schemas/noteSchema";
+import type { Collection } from "../schemas/collectionSchema";
+import {
+  GALLERY_STORAGE_VERSION,
+  type GalleryEnvelope,
+} from "../schemas/galleryStorageSchema";
+import type { GalleryData, GalleryStore } from "./galleryStore";
+import { migrateGalleryData } from "./galleryMigrations";
+
+/**
+ * Sortiert Einträge nach dem Zeitpunkt des Hinzufügens
+ */
+function byAddedAt(a: SavedArtwork, b: SavedArtwork): number {
+  return a.addedAt.localeCompare(b.addedAt);
+}
+
+/**
+ * Prüft, ob ein Eintrag zu Sammlung und Kunstwerk gehört
+ */
+function isEntry(
+  item: SavedArtwork,
+  collectionId: string,
+  artworkId: number,
+): boolean {
+  return item.collectionId === collectionId && item.id === artworkId;
+}
+
+/**
+ * Schlüssel für den LocalStorage
+ */
+export const GALLERY_STORAGE_KEY = "aic_gallery";
+
+/**
+ * Erstellt einen Galerie-Speicher auf Basis des LocalStorage
+ *
+ * @param storageKey - Schlüssel im LocalStorage (Standard: GALLERY_STORAGE_KEY)
+ * @returns Eine GalleryStore-Implementierung
+ */
+export function createLocalStorageGalleryStore(
+  storageKey: string = GALLERY_STORAGE_KEY,
+): GalleryStore {
+  /**
+   * Liest die Rohdaten (null, wenn nichts gespeichert ist)
+   */
+  const readRaw = (): unknown => {
+    const storedData = localStorage.getItem(storageKey);
+
+    if (!storedData) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(storedData);
+    } catch {
+      // Nicht lesbares JSON wird als Rohtext weitergegeben und landet
+      // bei der Migration in der Quarantäne
+      return storedData;
+    }
+  };
+
+  /**
+   * Liest die Daten im aktuellen Format
+   */
+  const read = (): GalleryData => {
+    const raw = readRaw();
+    return raw === null
+      ? { items: [], collections: [], quarantine: [], trash: [] }
+      : migrateGalleryData(raw);
+  };
+
+  /**
+   * Schreibt Einträge, Sammlungen, Quarantäne und Papierkorb als
+   * versionierten Umschlag
+   */
+  const write = (data: GalleryData): void => {
+    const envelope: GalleryEnvelope = {
+      version: GALLERY_STORAGE_VERSION,
+      items: data.items,
+      collections: data.collections,
+      quarantine: data.quarantine,
+      trash: data.trash,
+    };
+
+    localStorage.setItem(storageKey, JSON.stringify(envelope));
+  };
+
+  return {
+    name: "localStorage",
+
+    async readRaw() {
+      return readRaw();
+    },
+
+    async replaceAll(data) {
+      write(data);
+    },
+
+    async getAll() {
+      return read().items.sort(byAddedAt);
+    },
+
+    async getByCollection(collectionId) {
+      return read()
+        .items.filter((item) => item.collectionId === collectionId)
+        .sort(byAddedAt);
+    },
+
+    async getByArtwork(artworkId) {
+      return read().items.filter((item) => item.id === artworkId);
+    },
+
+    async getIds() {
+      return [...new Set(read().items.map((item) => item.id))];
+    },
+
+    async get(collectionId, artworkId) {
+      return (
+        read().items.find((item) => isEntry(item, collectionId, artworkId)) ??
+        null
+      );
+    },
+
+    async getByArtist(artist) {
+      return read().items.filter((item) => item.artist_title === artist);
+    },
+
+    async getByTag(tag) {
+      return read().items.filter((item) => item.tags.includes(tag));
+    },
+
+    async put(artwork: SavedArtwork) {
+      const data = read();
+      const index = data.items.findIndex((item) =>
+        isEntry(item, artwork.collectionId, artwork.id),
+      );
+
+      if (index === -1) {
+        data.items.push(artwork);
+      } else {
+        data.items[index] = artwork;
+      }
+
+      write(data);
+    },
+
+    async putMany({ items = [], collections = [] }) {
+      const data = read();
+      const itemIndex = new Map(
+        data.items.map((item, index) => [
+          `${item.collectionId}:${item.id}`,
+          index,
+        ]),
+      );
+      const collectionIndex = new Map(
+        data.collections.map((collection, index) => [collection.id, index]),
+      );
+
+      for (const collection of collections) {
+        const index = collectionIndex.get(collection.id);
+
+        if (index === undefined) {
+          collectionIndex.set(collection.id, data.collections.length);
+          data.collections.push(collection);
+        } else {
+          data.collections[index] = collection;
+        }
+      }
+
+      for (const artwork of items) {
+        const key = `${artwork.collectionId}:${artwork.id}`;
+        const index = itemIndex.get(key);
+
+        if (index === undefined) {
+          itemIndex.set(key, data.items.length);
+          data.items.push(artwork);
+        } else {
+          data.items[index] = artwork;
+        }
+      }
+
+      write(data);
+    },
+
+    async delete(collectionId, artworkId) {
+      const data = read();
+      write({
+        ...data,
+        items: data.items.filter(
+          (item) => !isEntry(item, collectionId, artworkId),
+        ),
+      });
+    },
+
+    async getCollections() {
+      return read().collections.sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt),
+      );
+    },
+
+    async putCollection(collection: Collection) {
+      const data = read();
+      const index = data.collections.findIndex(
+        (item) => item.id === collection.id,
+      );
+
+      if (index === -1) {
+        data.collections.push(collection);
+      } else {
+        data.collections[index] = collection;
+      }
+
+      write(data);
+    },
+
+    async deleteCollection(collectionId) {
+      const data = read();
+      write({
+        ...data,
+        items: data.items.filter((item) => item.collectionId !== collectionId),
+        collections: data.collections.filter(
+          (collection) => collection.id !== collectionId,
+        ),
+      });
+    },
+
+    async clear() {
+      localStorage.removeItem(storageKey);
+    },
+
+    async getQuarantine() {
+      return read().quarantine;
+    },
+
+    async deleteQuarantine(entryId) {
+      const data = read();
+      write({
+        ...data,
+        quarantine: data.quarantine.filter((entry) => entry.id !== entryId),
+      });
+    },
+
+    async getTrash() {
+      return read().trash.sort((a, b) =>
+        a.deletedAt.localeCompare(b.deletedAt),
+      );
+    },
+
+    async putTrash(entry) {
+      const data = read();
+      write({
+        ...data,
+        trash: [...data.trash.filter((item) => item.id !== entry.id), entry],
+      });
+    },
+
+    async deleteTrash(entryId) {
+      const data = read();
+      write({
+        ...data,
+        trash: data.trash.filter((entry) => entry.id !== entryId),
+      });
+    },
+  };
+}
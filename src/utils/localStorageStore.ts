@@ -0,0 +1,164 @@
+/**
+ * Liste im LocalStorage als externer Store
+ *
+ * Gemeinsame Grundlage für kleine Listen im LocalStorage (z.B. Suchverlauf
+ * und gespeicherte Suchen): Die Einträge werden beim ersten Zugriff gelesen
+ * und mit einem Schema geprüft, Änderungen an alle Callback-Funktionen
+ * gemeldet. Änderungen aus anderen Tabs werden über das `storage`-Ereignis
+ * übernommen.
+ */
+
+import { useSyncExternalStore } from "react";
+import { z } from "zod";
+
+/**
+ * Eine Liste im LocalStorage
+ */
+export interface LocalStorageStore<T> {
+  /**
+   * Liefert die Einträge (gleiche Referenz bis zur nächsten Änderung)
+   */
+  get: () => T[];
+
+  /**
+   * Speichert die Einträge und benachrichtigt alle Callback-Funktionen
+   */
+  set: (entries: T[]) => void;
+
+  /**
+   * Benachrichtigt alle Callback-Funktionen (z.B. wenn sich zusätzlicher
+   * Zustand neben den Einträgen geändert hat)
+   */
+  notify: () => void;
+
+  /**
+   * Meldet eine Callback-Funktion für Änderungen an (auch aus anderen Tabs)
+   *
+   * @returns Funktion zum Abmelden
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Leere Liste (gleiche Referenz für useSyncExternalStore)
+ */
+const EMPTY_ENTRIES: never[] = [];
+
+/**
+ * Erstellt eine Liste im LocalStorage
+ *
+ * @param key - Der LocalStorage-Schlüssel
+ * @param schema - Schema eines Eintrags (ungültige Einträge werden beim
+ *                 Lesen verworfen)
+ * @param normalize - Bringt die gelesenen Einträge in die gewünschte
+ *                    Reihenfolge (ohne Angabe: wie gespeichert)
+ * @returns Die Liste
+ *
+ * Beispiel:
+ * ```typescript
+ * const store = createLocalStorageStore("aic_example", ExampleSchema);
+ * store.set([...store.get(), entry]);
+ * ```
+ */
+export function createLocalStorageStore<T>(
+  key: string,
+  schema: z.ZodType<T>,
+  normalize: (entries: T[]) => T[] = (entries) => entries,
+): LocalStorageStore<T> {
+  /**
+   * Angemeldete Callback-Funktionen
+   */
+  const listeners = new Set<() => void>();
+
+  /**
+   * Aktuelle Einträge (werden beim ersten Zugriff gelesen)
+   */
+  let entries: T[] | null = null;
+
+  /**
+   * Gibt an, ob der `storage`-Listener bereits eingerichtet ist
+   */
+  let connected = false;
+
+  /**
+   * Liest die Einträge aus dem LocalStorage
+   */
+  const read = (): T[] => {
+    try {
+      const raw: unknown = JSON.parse(localStorage.getItem(key) ?? "[]");
+
+      return normalize(
+        z
+          .array(z.unknown())
+          .catch([])
+          .parse(raw)
+          .flatMap((entry) => {
+            const result = schema.safeParse(entry);
+            return result.success ? [result.data] : [];
+          }),
+      );
+    } catch {
+      return [];
+    }
+  };
+
+  const notify = () => {
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    get: () => {
+      if (!entries) {
+        entries = read();
+      }
+
+      return entries;
+    },
+
+    set: (next) => {
+      entries = next;
+
+      try {
+        localStorage.setItem(key, JSON.stringify(next));
+      } catch (error) {
+        console.warn(
+          `"${key}" konnte nicht im LocalStorage gespeichert werden:`,
+          error,
+        );
+      }
+
+      notify();
+    },
+
+    notify,
+
+    subscribe: (listener) => {
+      if (!connected && typeof window !== "undefined") {
+        connected = true;
+        window.addEventListener("storage", (event) => {
+          if (event.key === key || event.key === null) {
+            entries = read();
+            notify();
+          }
+        });
+      }
+
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Hook: Liefert die Einträge einer Liste und aktualisiert sich bei Änderungen
+ *
+ * Beispiel:
+ * ```typescript
+ * const entries = useLocalStorageStore(store);
+ * ```
+ */
+export function useLocalStorageStore<T>(store: LocalStorageStore<T>): T[] {
+  return useSyncExternalStore(store.subscribe, store.get, () => EMPTY_ENTRIES);
+}
@@ -0,0 +1,116 @@
+/**
+ * Offline-Vorrat für die Galerie
+ *
+ * Registriert den Service Worker (public/sw.js) und teilt ihm mit, welche
+ * Bilder und API-Antworten für die gespeicherten Kunstwerke vorgehalten
+ * werden sollen. Der Service Worker lädt fehlende Einträge nach und
+ * entfernt die von Kunstwerken, die nicht mehr in der Galerie liegen.
+ *
+ * Im Entwicklungsmodus wird kein Service Worker registriert, damit Vite
+ * geänderte Module ungehindert ausliefern kann.
+ */
+
+import type { SavedArtwork } from "../schemas/noteSchema";
+import { getArtworkDataSource, getImageUrl } from "./artworkApi";
+import { getArtworkRequestUrl } from "./httpDataSource";
+
+/**
+ * Pfad des Service Workers (gilt für die gesamte Anwendung)
+ */
+const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Die URLs der aktuell gespeicherten Kunstwerke
+ */
+let galleryUrls: string[] = [];
+
+/**
+ * Zuletzt an den Service Worker gemeldete URLs (um unveränderte Listen
+ * nicht erneut zu senden)
+ */
+let lastSyncedUrls: string | null = null;
+
+/**
+ * Gibt an, ob Service Worker verwendet werden
+ */
+function isSupported(): boolean {
+  return import.meta.env.PROD && "serviceWorker" in navigator;
+}
+
+/**
+ * Registriert den Service Worker (nach dem Laden der Seite, damit er das
+ * erste Rendern nicht verzögert)
+ */
+export function registerServiceWorker(): void {
+  if (!isSupported()) {
+    return;
+  }
+
+  // Ein neuer Service Worker (z.B. nach dem ersten Besuch) erhält die
+  // aktuelle Liste
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    lastSyncedUrls = null;
+    postGalleryUrls();
+  });
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .catch((error) =>
+        console.warn("Service Worker konnte nicht registriert werden:", error),
+      );
+  });
+}
+
+/**
+ * Liefert die URLs, die für ein gespeichertes Kunstwerk offline vorgehalten
+ * werden: das Bild in Standardgröße und (bei der AIC API als Datenquelle)
+ * die Antwort für die Detailansicht
+ */
+export function getOfflineUrls(item: SavedArtwork): string[] {
+  const urls: string[] = [];
+  const imageUrl = getImageUrl(item.image_id);
+
+  if (imageUrl) {
+    urls.push(imageUrl);
+  }
+
+  if (getArtworkDataSource().name === "http") {
+    urls.push(getArtworkRequestUrl(item.id));
+  }
+
+  return urls;
+}
+
+/**
+ * Sendet die URLs an den aktiven Service Worker (falls sie sich geändert haben)
+ */
+function postGalleryUrls(): void {
+  const worker = navigator.serviceWorker.controller;
+  const key = galleryUrls.join("\n");
+
+  if (!worker || key === lastSyncedUrls) {
+    return;
+  }
+
+  lastSyncedUrls = key;
+  worker.postMessage({ type: "sync-gallery", urls: galleryUrls });
+}
+
+/**
+ * Meldet dem Service Worker die gespeicherten Kunstwerke
+ *
+ * Ein Kunstwerk in mehreren Sammlungen wird nur einmal vorgehalten.
+ * Ist noch kein Service Worker aktiv (z.B. beim ersten Besuch), erhält er
+ * die Liste, sobald er die Seite übernimmt.
+ *
+ * @param items - Alle Einträge der Galerie
+ */
+export function syncOfflineGallery(items: SavedArtwork[]): void {
+  if (!isSupported()) {
+    return;
+  }
+
+  galleryUrls = [...new Set(items.flatMap(getOfflineUrls))].sort();
+  postGalleryUrls();
+}
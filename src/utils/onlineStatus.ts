@@ -0,0 +1,46 @@
+/**
+ * Verbindungsstatus des Browsers
+ *
+ * Folgt den Ereignissen `online` und `offline`. Offline bleiben die Galerie
+ * und bereits geladene Suchergebnisse verfügbar (siehe public/sw.js);
+ * neue Suchen werden ausgeführt, sobald wieder eine Verbindung besteht.
+ */
+
+import { useSyncExternalStore } from "react";
+
+/**
+ * Gibt an, ob der Browser eine Verbindung meldet
+ *
+ * `navigator.onLine === false` ist verlässlich, `true` bedeutet nur, dass
+ * ein Netzwerk vorhanden ist (die API kann trotzdem unerreichbar sein).
+ */
+export function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+/**
+ * Meldet eine Callback-Funktion für Änderungen des Verbindungsstatus an
+ *
+ * @returns Funktion zum Abmelden
+ */
+export function subscribeToOnlineStatus(listener: () => void): () => void {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+/**
+ * Hook: Liefert den aktuellen Verbindungsstatus
+ *
+ * Beispiel:
+ * ```typescript
+ * const online = useOnlineStatus();
+ * ```
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToOnlineStatus, isOnline, () => true);
+}
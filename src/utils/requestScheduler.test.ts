@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HttpError, NetworkError, RateLimitError } from "./apiErrors";
+import { parseRetryAfter } from "./httpDataSource";
+import { createRequestScheduler } from "./requestScheduler";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("Anfrage-Budget", () => {
+  it("startet höchstens requestsPerMinute Anfragen pro gleitender Minute", async () => {
+    const scheduler = createRequestScheduler({ requestsPerMinute: 2 });
+    const task = vi.fn(async () => "ok");
+
+    void scheduler.schedule(task);
+    await vi.advanceTimersByTimeAsync(30_000);
+    void scheduler.schedule(task);
+    void scheduler.schedule(task);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    // Die erste Anfrage verlässt das Zeitfenster nach 60 Sekunden
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("Wiederholungen", () => {
+  it("wiederholt vorübergehende Fehler mit wachsendem Backoff und Jitter", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const scheduler = createRequestScheduler({
+      requestsPerMinute: 100,
+      baseDelayMs: 1000,
+    });
+    const onRetry = vi.fn();
+    const task = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new NetworkError())
+      .mockRejectedValueOnce(new HttpError(503, "Service Unavailable"))
+      .mockResolvedValue("ok");
+
+    const result = scheduler.schedule(task, { onRetry });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    // Versuch 1: Obergrenze 1000 ms, Wartezeit zwischen 500 und 1000 ms
+    expect(onRetry).toHaveBeenLastCalledWith(
+      expect.objectContaining({ attempt: 1, maxRetries: 3, delayMs: 750 }),
+    );
+    await vi.advanceTimersByTimeAsync(750);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    // Versuch 2: Obergrenze verdoppelt sich
+    expect(onRetry).toHaveBeenLastCalledWith(
+      expect.objectContaining({ attempt: 2, delayMs: 1500 }),
+    );
+    expect(onRetry.mock.lastCall?.[0].error).toBeInstanceOf(HttpError);
+    await vi.advanceTimersByTimeAsync(1500);
+
+    await expect(result).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("streut die Wartezeit zwischen der Hälfte und der Obergrenze", async () => {
+    const scheduler = createRequestScheduler({
+      requestsPerMinute: 100,
+      baseDelayMs: 1000,
+    });
+    const delays: number[] = [];
+
+    for (const random of [0, 0.999]) {
+      vi.spyOn(Math, "random").mockReturnValue(random);
+      const result = scheduler.schedule(
+        vi
+          .fn<() => Promise<string>>()
+          .mockRejectedValueOnce(new NetworkError())
+          .mockResolvedValue("ok"),
+        { onRetry: ({ delayMs }) => delays.push(delayMs) },
+      );
+      await vi.runAllTimersAsync();
+      await result;
+    }
+
+    expect(delays).toEqual([500, 1000]);
+  });
+
+  it("gibt nicht wiederholbare Fehler und den letzten Fehler weiter", async () => {
+    const scheduler = createRequestScheduler({
+      requestsPerMinute: 100,
+      maxRetries: 1,
+    });
+    const notFound = vi.fn(async () => {
+      throw new HttpError(404, "Not Found");
+    });
+    const offline = vi.fn(async () => {
+      throw new NetworkError();
+    });
+
+    await expect(scheduler.schedule(notFound)).rejects.toBeInstanceOf(
+      HttpError,
+    );
+    expect(notFound).toHaveBeenCalledTimes(1);
+
+    const result = scheduler.schedule(offline);
+    const assertion = expect(result).rejects.toBeInstanceOf(NetworkError);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(offline).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("Retry-After", () => {
+  it("pausiert alle Anfragen für die angegebene Dauer", async () => {
+    const scheduler = createRequestScheduler({ requestsPerMinute: 100 });
+    const onRetry = vi.fn();
+    const limited = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new RateLimitError(5000))
+      .mockResolvedValue("ok");
+    const other = vi.fn(async () => "ok");
+
+    void scheduler.schedule(limited, { onRetry });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, delayMs: 5000 }),
+    );
+
+    // Eine andere Anfrage wartet ebenfalls das Ende der Pause ab
+    void scheduler.schedule(other);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(other).not.toHaveBeenCalled();
+    expect(limited).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(other).toHaveBeenCalledTimes(1);
+    expect(limited).toHaveBeenCalledTimes(2);
+  });
+
+  it("wartet zu lange Pausen nicht im Hintergrund ab", async () => {
+    const scheduler = createRequestScheduler({
+      requestsPerMinute: 100,
+      maxDelayMs: 10_000,
+    });
+    const onRetry = vi.fn();
+
+    await expect(
+      scheduler.schedule(
+        async () => {
+          throw new RateLimitError(60_000);
+        },
+        { onRetry },
+      ),
+    ).rejects.toBeInstanceOf(RateLimitError);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("liest Sekunden und HTTP-Datumsangaben", () => {
+    vi.setSystemTime(new Date("2024-01-01T12:00:00Z"));
+
+    expect(parseRetryAfter("5")).toBe(5000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 12:00:30 GMT")).toBe(30_000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 11:00:00 GMT")).toBe(0);
+  });
+
+  it("ignoriert fehlende und ungültige Angaben", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("bald")).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Request-Scheduler für die AIC API
+ *
+ * Die AIC API drosselt Clients, die zu viele Anfragen senden. Der Scheduler
+ * sorgt deshalb clientseitig für:
+ * - ein Budget an Anfragen pro Minute (gleitendes Zeitfenster)
+ * - eine globale Pause, wenn die API per Retry-After zum Warten auffordert
+ * - erneute Versuche mit exponentiellem Backoff und Jitter bei
+ *   vorübergehenden Fehlern (nur für idempotente GET-Anfragen gedacht)
+ *
+ * Jeder Wiederholungsversuch wird über `onRetry` gemeldet, damit die UI
+ * "Erneuter Versuch…" statt eines Fehlers anzeigen kann. Meldet der Browser
+ * keine Verbindung, wird nicht wiederholt (siehe onlineStatus.ts).
+ */
+
+import {
+  RateLimitError,
+  createAbortError,
+  isAbortError,
+  toApiError,
+} from "./apiErrors";
+import type { RetryState } from "./artworkDataSource";
+import { isOnline } from "./onlineStatus";
+
+/**
+ * Länge des Zeitfensters für das Anfrage-Budget (1 Minute)
+ */
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Standard-Budget an Anfragen pro Minute (Limit der AIC API)
+ */
+export const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+/**
+ * Konfiguration des Schedulers
+ */
+export interface RequestSchedulerOptions {
+  /**
+   * Maximale Anzahl gestarteter Anfragen pro Minute
+   */
+  requestsPerMinute?: number;
+
+  /**
+   * Maximale Anzahl erneuter Versuche pro Anfrage
+   */
+  maxRetries?: number;
+
+  /**
+   * Basis-Wartezeit für den Backoff in Millisekunden
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Obergrenze für eine einzelne Wartezeit in Millisekunden
+   * (längere Retry-After-Angaben werden nicht abgewartet)
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Optionen für eine einzelne geplante Anfrage
+ */
+export interface ScheduleOptions {
+  /**
+   * Signal zum Abbrechen (auch während des Wartens)
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Wird vor jedem erneuten Versuch aufgerufen
+   */
+  onRetry?: (state: RetryState) => void;
+}
+
+/**
+ * Scheduler, über den alle Anfragen an die API laufen
+ */
+export interface RequestScheduler {
+  /**
+   * Führt eine Anfrage innerhalb des Budgets aus und wiederholt sie bei
+   * vorübergehenden Fehlern
+   *
+   * @param task - Führt die eigentliche Anfrage aus (erhält das AbortSignal)
+   * @param options - Abbruch-Signal und Retry-Callback
+   * @throws Den letzten ApiError, wenn alle Versuche fehlschlagen
+   */
+  schedule<T>(
+    task: (signal?: AbortSignal) => Promise<T>,
+    options?: ScheduleOptions,
+  ): Promise<T>;
+}
+
+/**
+ * Liest das konfigurierte Budget aus der Vite-Umgebung
+ *
+ * @returns Wert von VITE_AIC_REQUESTS_PER_MINUTE oder DEFAULT_REQUESTS_PER_MINUTE
+ */
+export function getConfiguredRequestsPerMinute(): number {
+  const configured = Number(import.meta.env.VITE_AIC_REQUESTS_PER_MINUTE);
+
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_REQUESTS_PER_MINUTE;
+}
+
+/**
+ * Wartet die angegebene Zeit, bricht aber sofort ab, wenn das Signal auslöst
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Berechnet die Backoff-Wartezeit für einen Versuch (mit Jitter)
+ *
+ * Die Obergrenze verdoppelt sich mit jedem Versuch, die tatsächliche
+ * Wartezeit liegt zufällig zwischen der Hälfte und der Obergrenze, damit
+ * mehrere Tabs nicht gleichzeitig erneut anfragen.
+ */
+function getBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+/**
+ * Erstellt einen Request-Scheduler
+ *
+ * @param options - Budget und Retry-Konfiguration
+ * @returns Ein RequestScheduler
+ *
+ * Beispiel:
+ * ```typescript
+ * const scheduler = createRequestScheduler({ requestsPerMinute: 30 });
+ * const json = await scheduler.schedule((signal) => fetchJson(url, signal), {
+ *   onRetry: ({ attempt }) => console.log(`Versuch ${attempt}`),
+ * });
+ * ```
+ */
+export function createRequestScheduler(
+  options: RequestSchedulerOptions = {},
+): RequestScheduler {
+  const requestsPerMinute =
+    options.requestsPerMinute ?? getConfiguredRequestsPerMinute();
+  const maxRetries = options.maxRetries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30 * 1000;
+
+  /**
+   * Startzeitpunkte der Anfragen im aktuellen Zeitfenster
+   */
+  const startedAt: number[] = [];
+
+  /**
+   * Zeitpunkt, bis zu dem keine Anfragen gestartet werden (aus Retry-After)
+   */
+  let pausedUntil = 0;
+
+  /**
+   * Wartet, bis eine Anfrage im Budget gestartet werden darf, und
+   * reserviert den Platz im Zeitfenster
+   */
+  const acquireSlot = async (signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+      const now = Date.now();
+
+      while (startedAt.length > 0 && startedAt[0] <= now - WINDOW_MS) {
+        startedAt.shift();
+      }
+
+      if (pausedUntil > now) {
+        await wait(pausedUntil - now, signal);
+      } else if (startedAt.length >= requestsPerMinute) {
+        await wait(startedAt[0] + WINDOW_MS - now, signal);
+      } else {
+        startedAt.push(now);
+        return;
+      }
+    }
+  };
+
+  return {
+    async schedule<T>(
+      task: (signal?: AbortSignal) => Promise<T>,
+      { signal, onRetry }: ScheduleOptions = {},
+    ): Promise<T> {
+      for (let attempt = 1; ; attempt++) {
+        await acquireSlot(signal);
+
+        try {
+          return await task(signal);
+        } catch (error) {
+          // Abbrüche und nicht-wiederholbare Fehler direkt weitergeben
+          if (isAbortError(error)) {
+            throw error;
+          }
+
+          const apiError = toApiError(error);
+          if (!apiError.retryable || attempt > maxRetries || !isOnline()) {
+            throw apiError;
+          }
+
+          let delayMs = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+
+          if (apiError instanceof RateLimitError) {
+            if (apiError.retryAfterMs !== null) {
+              // Zu lange Wartezeiten nicht im Hintergrund abwarten
+              if (apiError.retryAfterMs > maxDelayMs) {
+                throw apiError;
+              }
+              delayMs = apiError.retryAfterMs;
+            }
+
+            // Auch alle anderen Anfragen pausieren
+            pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+          }
+
+          onRetry?.({ attempt, maxRetries, delayMs, error: apiError });
+          await wait(delayMs, signal);
+        }
+      }
+    },
+  };
+}
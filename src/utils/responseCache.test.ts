@@ -0,0 +1,178 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createAbortError, isAbortError } from "./apiErrors";
+import {
+  createResponseCache,
+  type PersistentCacheStore,
+} from "./responseCache";
+
+/**
+ * Loader, der erst nach einem Timer-Durchlauf antwortet und auf Abbruch
+ * mit einem AbortError reagiert
+ */
+function createSlowLoader(value: string) {
+  return vi.fn(
+    (signal: AbortSignal) =>
+      new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(() => resolve(value), 0);
+        signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(createAbortError());
+        });
+      }),
+  );
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * Persistenter Tier im Speicher
+ */
+function createMemoryStore(): PersistentCacheStore & {
+  entries: Map<string, { key: string; value: unknown; expiresAt: number }>;
+} {
+  const entries = new Map<
+    string,
+    { key: string; value: unknown; expiresAt: number }
+  >();
+
+  return {
+    entries,
+    get: async (key) => entries.get(key),
+    set: async (entry) => {
+      entries.set(entry.key, entry);
+    },
+    delete: async (prefix) => {
+      for (const key of entries.keys()) {
+        if (key.startsWith(prefix)) {
+          entries.delete(key);
+        }
+      }
+    },
+    clear: async () => entries.clear(),
+  };
+}
+
+describe("TTL", () => {
+  it("lädt einen Eintrag nach Ablauf der TTL neu", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const cache = createResponseCache({ ttlMs: 1000 });
+    const loader = vi.fn(async () => "Monet");
+
+    await cache.get("search:monet", loader);
+    vi.advanceTimersByTime(999);
+    await cache.get("search:monet", loader);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await cache.get("search:monet", loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it("übernimmt nur gültige Einträge aus dem persistenten Tier", async () => {
+    const persistent = createMemoryStore();
+    persistent.entries.set("fresh", {
+      key: "fresh",
+      value: "gespeichert",
+      expiresAt: Date.now() + 1000,
+    });
+    persistent.entries.set("stale", {
+      key: "stale",
+      value: "veraltet",
+      expiresAt: Date.now() - 1,
+    });
+    const cache = createResponseCache({ ttlMs: 1000, persistent });
+    const loader = vi.fn(async () => "geladen");
+
+    await expect(cache.get("fresh", loader)).resolves.toBe("gespeichert");
+    await expect(cache.get("stale", loader)).resolves.toBe("geladen");
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Speicher-Tier", () => {
+  it("verwirft die am längsten nicht verwendeten Einträge", async () => {
+    const cache = createResponseCache({ ttlMs: 60_000, maxEntries: 2 });
+    const loader = vi.fn(async () => "Wert");
+
+    await cache.get("a", loader);
+    await cache.get("b", loader);
+    await cache.get("a", loader); // "a" ist jetzt zuletzt verwendet
+    await cache.get("c", loader); // verdrängt "b"
+    expect(loader).toHaveBeenCalledTimes(3);
+
+    await cache.get("a", loader);
+    await cache.get("c", loader);
+    expect(loader).toHaveBeenCalledTimes(3);
+
+    await cache.get("b", loader);
+    expect(loader).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("Zusammenführung", () => {
+  it("führt gleichzeitige identische Anfragen zusammen", async () => {
+    const cache = createResponseCache({ ttlMs: 60_000 });
+    const loader = createSlowLoader("Monet");
+
+    const results = await Promise.all([
+      cache.get("search:monet", loader),
+      cache.get("search:monet", loader, new AbortController().signal),
+    ]);
+
+    expect(results).toEqual(["Monet", "Monet"]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("schreibt nach einer Invalidierung keine veralteten Ergebnisse", async () => {
+    const cache = createResponseCache({ ttlMs: 60_000 });
+    const pending = cache.get("search:monet", createSlowLoader("alt"));
+
+    await cache.invalidate("search:");
+    await pending;
+
+    await expect(cache.get("search:monet", async () => "neu")).resolves.toBe(
+      "neu",
+    );
+  });
+});
+
+describe("Abbruch", () => {
+  it("startet nach dem Abbruch aller Aufrufer eine neue Anfrage", async () => {
+    const cache = createResponseCache({ ttlMs: 60_000 });
+    const loader = createSlowLoader("Monet");
+
+    // Wie unter StrictMode: Effekt starten, aufräumen, erneut starten
+    const controller = new AbortController();
+    const first = cache.get("search:monet", loader, controller.signal);
+    controller.abort();
+    const second = cache.get(
+      "search:monet",
+      loader,
+      new AbortController().signal,
+    );
+
+    await expect(first).rejects.toSatisfy(isAbortError);
+    await expect(second).resolves.toBe("Monet");
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it("bricht die gemeinsame Anfrage erst ab, wenn alle Aufrufer abbrechen", async () => {
+    const cache = createResponseCache({ ttlMs: 60_000 });
+    const loader = createSlowLoader("Monet");
+    const controller = new AbortController();
+
+    const first = cache.get("search:monet", loader, controller.signal);
+    const second = cache.get(
+      "search:monet",
+      loader,
+      new AbortController().signal,
+    );
+    controller.abort();
+
+    await expect(first).rejects.toSatisfy(isAbortError);
+    await expect(second).resolves.toBe("Monet");
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+});
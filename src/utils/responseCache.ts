@@ -0,0 +1,440 @@
+/**
+ * Zwischenspeicher (Cache) für API-Antworten
+ *
+ * Zweistufiger Cache mit:
+ * - Speicher-Tier (Map) für schnelle Zugriffe innerhalb der Sitzung
+ * - Persistentem Tier (IndexedDB), damit Ergebnisse Reloads überstehen
+ *   (abgelaufene Einträge werden beim Lesen und Schreiben entfernt)
+ * - TTL (Time-to-Live) pro Eintrag
+ * - Begrenzter Speicher-Tier (abgelaufene Einträge werden beim Einfügen
+ *   entfernt, danach die am längsten nicht verwendeten)
+ * - Zusammenführung gleichzeitiger identischer Anfragen (In-Flight-Deduplizierung)
+ * - Abbruch per AbortSignal (die gemeinsame Anfrage wird erst abgebrochen,
+ *   wenn alle wartenden Aufrufer abgebrochen haben)
+ * - Invalidierung (komplett oder per Schlüssel-Präfix)
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from "./indexedDb";
+import { createAbortError } from "./apiErrors";
+
+/**
+ * Ein gespeicherter Cache-Eintrag
+ */
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Eine laufende Anfrage mit Zähler der wartenden Aufrufer
+ */
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+/**
+ * Schnittstelle für den persistenten Cache-Tier
+ */
+export interface PersistentCacheStore {
+  get(key: string): Promise<CacheEntry<unknown> | undefined>;
+  set(entry: CacheEntry<unknown>): Promise<void>;
+  delete(prefix: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Optionen für den Response-Cache
+ */
+export interface ResponseCacheOptions {
+  /**
+   * Lebensdauer eines Eintrags in Millisekunden
+   */
+  ttlMs: number;
+
+  /**
+   * Optionaler persistenter Tier (z.B. createIndexedDbCacheStore())
+   */
+  persistent?: PersistentCacheStore | null;
+
+  /**
+   * Maximale Anzahl der Einträge im Speicher-Tier
+   * (Standard: DEFAULT_MAX_MEMORY_ENTRIES)
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Standardgröße des Speicher-Tiers
+ */
+const DEFAULT_MAX_MEMORY_ENTRIES = 200;
+
+/**
+ * Öffentliche Schnittstelle des Response-Caches
+ */
+export interface ResponseCache {
+  /**
+   * Liefert den Wert für den Schlüssel aus dem Cache oder lädt ihn über den Loader
+   *
+   * Der Loader erhält ein eigenes Signal, das ausgelöst wird, sobald alle
+   * Aufrufer, die auf dieselbe Anfrage warten, abgebrochen haben.
+   */
+  get<T>(
+    key: string,
+    loader: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T>;
+
+  /**
+   * Entfernt alle Einträge (oder nur die mit dem angegebenen Präfix)
+   */
+  invalidate(prefix?: string): Promise<void>;
+
+  /**
+   * Ändert die TTL für neue Einträge
+   */
+  setTtl(ttlMs: number): void;
+}
+
+/**
+ * Name der IndexedDB-Datenbank und des Object Stores für den Cache
+ */
+const CACHE_DB_NAME = "aic_response_cache";
+const CACHE_STORE_NAME = "responses";
+
+/**
+ * Schema-Version der Cache-Datenbank
+ *
+ * - v1: Object Store "responses"
+ * - v2: Index "expiresAt" zum Entfernen abgelaufener Einträge
+ */
+const CACHE_DB_VERSION = 2;
+
+/**
+ * Entfernt alle abgelaufenen Einträge (innerhalb einer readwrite-Transaktion)
+ */
+function deleteExpiredEntries(store: IDBObjectStore): void {
+  const request = store
+    .index("expiresAt")
+    .openKeyCursor(IDBKeyRange.upperBound(Date.now()));
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
+
+/**
+ * Erstellt einen persistenten Cache-Tier auf Basis von IndexedDB
+ *
+ * @returns Ein PersistentCacheStore; Fehler beim Öffnen der Datenbank
+ *          führen dazu, dass alle Operationen wirkungslos bleiben
+ *
+ * Abgelaufene Einträge werden nicht zurückgegeben, sondern gelöscht; bei
+ * jedem Schreiben werden außerdem alle übrigen abgelaufenen entfernt.
+ */
+export function createIndexedDbCacheStore(): PersistentCacheStore {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  const getDb = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(
+        CACHE_DB_NAME,
+        CACHE_DB_VERSION,
+        (db, oldVersion, transaction) => {
+          const store =
+            oldVersion < 1
+              ? db.createObjectStore(CACHE_STORE_NAME, { keyPath: "key" })
+              : transaction.objectStore(CACHE_STORE_NAME);
+
+          if (oldVersion < 2) {
+            store.createIndex("expiresAt", "expiresAt");
+          }
+        },
+      ).catch((error) => {
+        console.warn("Persistenter Cache nicht verfügbar:", error);
+        return null;
+      });
+    }
+
+    return dbPromise;
+  };
+
+  return {
+    async get(key) {
+      const db = await getDb();
+      if (!db) {
+        return undefined;
+      }
+
+      const store = db
+        .transaction(CACHE_STORE_NAME, "readonly")
+        .objectStore(CACHE_STORE_NAME);
+      const entry = await requestToPromise<CacheEntry<unknown> | undefined>(
+        store.get(key),
+      );
+
+      if (entry && entry.expiresAt <= Date.now()) {
+        const transaction = db.transaction(CACHE_STORE_NAME, "readwrite");
+        transaction.objectStore(CACHE_STORE_NAME).delete(key);
+        await transactionDone(transaction);
+        return undefined;
+      }
+
+      return entry;
+    },
+
+    async set(entry) {
+      const db = await getDb();
+      if (!db) {
+        return;
+      }
+
+      const transaction = db.transaction(CACHE_STORE_NAME, "readwrite");
+      const store = transaction.objectStore(CACHE_STORE_NAME);
+      store.put(entry);
+      deleteExpiredEntries(store);
+      await transactionDone(transaction);
+    },
+
+    async delete(prefix) {
+      const db = await getDb();
+      if (!db) {
+        return;
+      }
+
+      // Alle Schlüssel im Bereich [prefix, prefix + "\uffff"] löschen
+      const transaction = db.transaction(CACHE_STORE_NAME, "readwrite");
+      transaction
+        .objectStore(CACHE_STORE_NAME)
+        .delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+      await transactionDone(transaction);
+    },
+
+    async clear() {
+      const db = await getDb();
+      if (!db) {
+        return;
+      }
+
+      const transaction = db.transaction(CACHE_STORE_NAME, "readwrite");
+      transaction.objectStore(CACHE_STORE_NAME).clear();
+      await transactionDone(transaction);
+    },
+  };
+}
+
+/**
+ * Erstellt einen Response-Cache
+ *
+ * @param options - TTL und optionaler persistenter Tier
+ * @returns Ein ResponseCache
+ *
+ * Beispiel:
+ * ```typescript
+ * const cache = createResponseCache({ ttlMs: 60_000 });
+ * const result = await cache.get("search:monet", () => fetchSearch("monet"));
+ * ```
+ */
+export function createResponseCache(
+  options: ResponseCacheOptions,
+): ResponseCache {
+  let ttlMs = options.ttlMs;
+  const persistent = options.persistent ?? null;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_MEMORY_ENTRIES;
+
+  /**
+   * Speicher-Tier (Reihenfolge der Map = zuletzt verwendet am Ende)
+   */
+  const memory = new Map<string, CacheEntry<unknown>>();
+
+  /**
+   * Legt einen Eintrag im Speicher-Tier ab und hält dessen Größe ein
+   */
+  const remember = (entry: CacheEntry<unknown>): void => {
+    memory.delete(entry.key);
+    memory.set(entry.key, entry);
+
+    if (memory.size <= maxEntries) {
+      return;
+    }
+
+    // Zuerst abgelaufene Einträge entfernen
+    const now = Date.now();
+    for (const [key, cached] of memory) {
+      if (cached.expiresAt <= now) {
+        memory.delete(key);
+      }
+    }
+
+    // Dann die am längsten nicht verwendeten
+    for (const key of memory.keys()) {
+      if (memory.size <= maxEntries) {
+        break;
+      }
+      memory.delete(key);
+    }
+  };
+
+  /**
+   * Laufende Anfragen (für die Zusammenführung identischer Anfragen)
+   */
+  const inFlight = new Map<string, InFlightRequest>();
+
+  /**
+   * Wird bei jeder Invalidierung erhöht, damit noch laufende Anfragen
+   * ihre (veralteten) Ergebnisse nicht mehr in den Cache schreiben
+   */
+  let generation = 0;
+
+  /**
+   * Lädt einen Wert (persistenter Tier oder Loader) und füllt die Caches
+   */
+  const load = async <T>(
+    key: string,
+    loader: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal,
+  ): Promise<T> => {
+    const startGeneration = generation;
+
+    // 1. Persistenter Tier
+    if (persistent) {
+      try {
+        const stored = await persistent.get(key);
+        if (stored && stored.expiresAt > Date.now()) {
+          if (startGeneration === generation) {
+            remember(stored);
+          }
+          return stored.value as T;
+        }
+      } catch (error) {
+        console.warn("Fehler beim Lesen aus dem persistenten Cache:", error);
+      }
+    }
+
+    // 2. Loader (Netzwerk oder Fixtures)
+    if (signal.aborted) {
+      throw createAbortError();
+    }
+    const value = await loader(signal);
+
+    if (startGeneration === generation) {
+      const entry: CacheEntry<unknown> = {
+        key,
+        value,
+        expiresAt: Date.now() + ttlMs,
+      };
+      remember(entry);
+
+      // Persistieren im Hintergrund, Fehler sind nicht kritisch
+      persistent?.set(entry).catch((error) => {
+        console.warn("Fehler beim Schreiben in den persistenten Cache:", error);
+      });
+    }
+
+    return value;
+  };
+
+  return {
+    get<T>(
+      key: string,
+      loader: (signal: AbortSignal) => Promise<T>,
+      signal?: AbortSignal,
+    ): Promise<T> {
+      if (signal?.aborted) {
+        return Promise.reject(createAbortError());
+      }
+
+      // Speicher-Tier prüfen
+      const cached = memory.get(key);
+      if (cached) {
+        if (cached.expiresAt > Date.now()) {
+          remember(cached);
+          return Promise.resolve(cached.value as T);
+        }
+        memory.delete(key);
+      }
+
+      // Identische Anfrage läuft bereits? Sonst neue Anfrage starten
+      // (eine abgebrochene wird nicht mehr weitergegeben)
+      let request = inFlight.get(key);
+      if (!request || request.controller.signal.aborted) {
+        const controller = new AbortController();
+        const promise: Promise<unknown> = load(
+          key,
+          loader,
+          controller.signal,
+        ).finally(() => {
+          // Nur entfernen, wenn nicht inzwischen (nach Invalidierung) ersetzt
+          if (inFlight.get(key)?.promise === promise) {
+            inFlight.delete(key);
+          }
+        });
+        request = { promise, controller, waiting: 0 };
+        inFlight.set(key, request);
+      }
+
+      const current = request;
+      current.waiting += 1;
+
+      if (!signal) {
+        return current.promise as Promise<T>;
+      }
+
+      // Eigenes Promise pro Aufrufer, damit ein Abbruch nur ihn betrifft
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          current.waiting -= 1;
+          if (current.waiting === 0) {
+            // Sofort entfernen: Neue Aufrufer starten eine eigene Anfrage
+            if (inFlight.get(key) === current) {
+              inFlight.delete(key);
+            }
+            current.controller.abort();
+          }
+          reject(createAbortError());
+        };
+
+        signal.addEventListener("abort", onAbort, { once: true });
+
+        current.promise.then(
+          (value) => {
+            signal.removeEventListener("abort", onAbort);
+            resolve(value as T);
+          },
+          (error) => {
+            signal.removeEventListener("abort", onAbort);
+            reject(error);
+          },
+        );
+      });
+    },
+
+    async invalidate(prefix?: string): Promise<void> {
+      generation += 1;
+      inFlight.clear();
+
+      if (prefix === undefined) {
+        memory.clear();
+        await persistent?.clear();
+        return;
+      }
+
+      for (const key of memory.keys()) {
+        if (key.startsWith(prefix)) {
+          memory.delete(key);
+        }
+      }
+      await persistent?.delete(prefix);
+    },
+
+    setTtl(nextTtlMs: number): void {
+      ttlMs = nextTtlMs;
+    },
+  };
+}
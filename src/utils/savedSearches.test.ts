@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Artwork } from "../schemas/artworkSchema";
+import { searchArtworks } from "./artworkApi";
+
+vi.mock("./artworkApi", () => ({ searchArtworks: vi.fn() }));
+
+/**
+ * Aktuelle Treffer der (gemockten) API
+ */
+let resultIds: number[] = [];
+
+/**
+ * Lädt das Modul neu, damit jeder Test mit leerem Zustand beginnt
+ */
+async function loadSavedSearches() {
+  vi.resetModules();
+  return import("./savedSearches");
+}
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+
+  resultIds = [];
+  vi.mocked(searchArtworks).mockImplementation(
+    async (_query, limit = 20, offset = 0) => ({
+      data: resultIds
+        .slice(offset, offset + limit)
+        .map((id) => ({ id }) as Artwork),
+      total: resultIds.length,
+      offset,
+      limit,
+    }),
+  );
+});
+
+describe("checkSavedSearch", () => {
+  it("legt bei der ersten Prüfung die bekannten Treffer fest", async () => {
+    const { checkSavedSearch, getSavedSearchesState, saveSearch } =
+      await loadSavedSearches();
+    resultIds = [1, 2, 3];
+
+    const { id } = saveSearch("Monet", "monet", {});
+    await checkSavedSearch(id);
+
+    const [search] = getSavedSearchesState().searches;
+    expect(search.seenIds).toEqual([1, 2, 3]);
+    expect(search.newIds).toEqual([]);
+    expect(search.runs).toHaveLength(1);
+    expect(search.runs[0]).toMatchObject({ total: 3, newCount: 0 });
+  });
+
+  it("meldet bei weiteren Prüfungen nur unbekannte Treffer als neu", async () => {
+    const {
+      checkSavedSearch,
+      getSavedSearchesState,
+      markSavedSearchSeen,
+      saveSearch,
+    } = await loadSavedSearches();
+    resultIds = [1, 2, 3];
+    const { id } = saveSearch("Monet", "monet", {});
+    await checkSavedSearch(id);
+
+    resultIds = [4, 1, 2, 3, 5];
+    await checkSavedSearch(id);
+    expect(getSavedSearchesState().searches[0].newIds).toEqual([4, 5]);
+    expect(getSavedSearchesState().searches[0].runs[0].newCount).toBe(2);
+
+    // Bereits gemeldete Treffer zählen nicht erneut als neu hinzugekommen
+    resultIds = [6, 4, 1, 2, 3, 5];
+    await checkSavedSearch(id);
+    expect(getSavedSearchesState().searches[0].newIds).toEqual([6, 4, 5]);
+    expect(getSavedSearchesState().searches[0].runs[0].newCount).toBe(1);
+
+    markSavedSearchSeen(id);
+    await checkSavedSearch(id);
+    expect(getSavedSearchesState().searches[0].newIds).toEqual([]);
+  });
+
+  it("vergleicht nur die ersten MAX_TRACKED_RESULTS Treffer", async () => {
+    const {
+      MAX_TRACKED_RESULTS,
+      checkSavedSearch,
+      getSavedSearchesState,
+      saveSearch,
+    } = await loadSavedSearches();
+    resultIds = Array.from({ length: 1000 }, (_, index) => index + 1);
+
+    const { id } = saveSearch("Alle", "", { hasImageOnly: true });
+    await checkSavedSearch(id);
+
+    const [search] = getSavedSearchesState().searches;
+    expect(search.seenIds).toHaveLength(MAX_TRACKED_RESULTS);
+    expect(search.runs[0].total).toBe(1000);
+  });
+
+  it("merkt sich fehlgeschlagene Prüfungen", async () => {
+    const { checkSavedSearch, getSavedSearchesState, saveSearch } =
+      await loadSavedSearches();
+    vi.mocked(searchArtworks).mockRejectedValueOnce(new Error("offline"));
+
+    const { id } = saveSearch("Monet", "monet", {});
+    await expect(checkSavedSearch(id)).rejects.toThrow("offline");
+
+    const state = getSavedSearchesState();
+    expect(state.failed.has(id)).toBe(true);
+    expect(state.checking.has(id)).toBe(false);
+    expect(state.searches[0].runs).toEqual([]);
+  });
+});
+
+describe("checkAllSavedSearches", () => {
+  it("prüft alle Suchen nacheinander", async () => {
+    const { checkAllSavedSearches, getSavedSearchesState, saveSearch } =
+      await loadSavedSearches();
+    saveSearch("Monet", "monet", {});
+    saveSearch("Degas", "degas", {});
+
+    let running = 0;
+    let maxRunning = 0;
+    vi.mocked(searchArtworks).mockImplementation(async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      running--;
+      return { data: [], total: 0, offset: 0, limit: 100 };
+    });
+
+    await checkAllSavedSearches();
+
+    expect(maxRunning).toBe(1);
+    expect(
+      getSavedSearchesState().searches.every(
+        (search) => search.runs.length === 1,
+      ),
+    ).toBe(true);
+  });
+});
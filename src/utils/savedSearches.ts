@@ -0,0 +1,504 @@
+/**
+ * Gespeicherte Suchen mit "Neu seit dem letzten Besuch"
+ *
+ * Eine Suche (Suchbegriff und Filter) wird unter einem Namen im
+ * LocalStorage gespeichert. Bei jeder Prüfung werden die ersten
+ * MAX_TRACKED_RESULTS Treffer abgefragt und ihre IDs gespeichert:
+ * - Die erste Prüfung legt fest, welche Kunstwerke bereits bekannt sind.
+ * - Jede weitere Prüfung merkt sich die Treffer, die noch nicht bekannt
+ *   sind, als neu (Badge und Ansicht unter `/saved-searches/:id`).
+ * - "Als gesehen markieren" nimmt die neuen Treffer in die bekannten auf.
+ *
+ * Suchen, deren letzte Prüfung länger als CHECK_INTERVAL_MS zurückliegt,
+ * werden beim Start der Anwendung erneut geprüft. Änderungen aus anderen
+ * Tabs werden über das `storage`-Ereignis übernommen (siehe
+ * localStorageStore.ts).
+ */
+
+import { useSyncExternalStore } from "react";
+import {
+  SavedSearchNameSchema,
+  SavedSearchSchema,
+  type SavedSearch,
+} from "../schemas/savedSearchSchema";
+import type { SearchFilters } from "../schemas/searchFilterSchema";
+import { searchArtworks } from "./artworkApi";
+import { isAbortError } from "./apiErrors";
+import { createLocalStorageStore } from "./localStorageStore";
+import { isOnline } from "./onlineStatus";
+import { serializeSearchState } from "./searchParams";
+
+/**
+ * LocalStorage-Schlüssel für die gespeicherten Suchen
+ */
+const SAVED_SEARCHES_KEY = "aic_saved_searches";
+
+/**
+ * Anzahl der Treffer, die bei jeder Prüfung verglichen werden
+ * (neue Kunstwerke weiter hinten in der Trefferliste werden nicht erkannt)
+ */
+export const MAX_TRACKED_RESULTS = 200;
+
+/**
+ * Anzahl der Treffer pro Anfrage bei einer Prüfung (Maximum der AIC API)
+ */
+const CHECK_PAGE_SIZE = 100;
+
+/**
+ * Anzahl der gespeicherten Prüfungen pro Suche
+ */
+const MAX_RUNS = 10;
+
+/**
+ * Abstand, nach dem eine Suche automatisch erneut geprüft wird (6 Stunden)
+ */
+export const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Zustand der gespeicherten Suchen
+ */
+export interface SavedSearchesState {
+  /**
+   * Die gespeicherten Suchen (zuletzt gespeicherte zuerst)
+   */
+  searches: SavedSearch[];
+
+  /**
+   * IDs der Suchen, die gerade geprüft werden
+   */
+  checking: ReadonlySet<string>;
+
+  /**
+   * IDs der Suchen, deren letzte Prüfung fehlgeschlagen ist
+   */
+  failed: ReadonlySet<string>;
+}
+
+/**
+ * Die gespeicherten Suchen im LocalStorage (ungültige Einträge werden
+ * verworfen)
+ */
+const searchesStore = createLocalStorageStore(
+  SAVED_SEARCHES_KEY,
+  SavedSearchSchema,
+);
+
+/**
+ * IDs der Suchen, die gerade geprüft werden bzw. fehlgeschlagen sind
+ */
+let checking: ReadonlySet<string> = new Set();
+let failed: ReadonlySet<string> = new Set();
+
+/**
+ * Aktueller Zustand (wird bei jeder Änderung neu erstellt)
+ */
+let state: SavedSearchesState | null = null;
+
+/**
+ * Leerer Zustand (gleiche Referenz für useSyncExternalStore)
+ */
+const EMPTY_STATE: SavedSearchesState = {
+  searches: [],
+  checking: new Set(),
+  failed: new Set(),
+};
+
+/**
+ * Ändert, welche Suchen geprüft werden bzw. fehlgeschlagen sind, und
+ * benachrichtigt alle Callback-Funktionen
+ */
+function setStatus(
+  changes: Partial<Pick<SavedSearchesState, "checking" | "failed">>,
+): void {
+  checking = changes.checking ?? checking;
+  failed = changes.failed ?? failed;
+  searchesStore.notify();
+}
+
+/**
+ * Ändert eine gespeicherte Suche (falls sie noch existiert)
+ */
+function updateSearch(
+  id: string,
+  update: (search: SavedSearch) => SavedSearch,
+): void {
+  searchesStore.set(
+    getSavedSearchesState().searches.map((search) =>
+      search.id === id ? update(search) : search,
+    ),
+  );
+}
+
+/**
+ * Fügt eine ID einer Menge hinzu oder entfernt sie
+ */
+function toggleId(
+  ids: ReadonlySet<string>,
+  id: string,
+  included: boolean,
+): ReadonlySet<string> {
+  const next = new Set(ids);
+
+  if (included) {
+    next.add(id);
+  } else {
+    next.delete(id);
+  }
+
+  return next;
+}
+
+/**
+ * Liefert den aktuellen Zustand der gespeicherten Suchen
+ */
+export function getSavedSearchesState(): SavedSearchesState {
+  const searches = searchesStore.get();
+
+  if (
+    state?.searches !== searches ||
+    state.checking !== checking ||
+    state.failed !== failed
+  ) {
+    state = { searches, checking, failed };
+  }
+
+  return state;
+}
+
+/**
+ * Meldet eine Callback-Funktion für Änderungen an (auch aus anderen Tabs)
+ *
+ * @returns Funktion zum Abmelden
+ */
+export function subscribeToSavedSearches(listener: () => void): () => void {
+  return searchesStore.subscribe(listener);
+}
+
+/**
+ * Hook: Liefert die gespeicherten Suchen und aktualisiert sich bei Änderungen
+ *
+ * Beispiel:
+ * ```typescript
+ * const { searches, checking } = useSavedSearches();
+ * ```
+ */
+export function useSavedSearches(): SavedSearchesState {
+  return useSyncExternalStore(
+    subscribeToSavedSearches,
+    getSavedSearchesState,
+    () => EMPTY_STATE,
+  );
+}
+
+/**
+ * Liefert den Schlüssel einer Suche (gleicher Suchbegriff und gleiche
+ * Filter ergeben denselben Schlüssel)
+ */
+function getSearchKey(query: string, filters: SearchFilters): string {
+  return serializeSearchState({ query: query.trim(), page: 1, filters })
+    .toString()
+    .toLowerCase();
+}
+
+/**
+ * Sucht eine gespeicherte Suche mit demselben Suchbegriff und denselben Filtern
+ */
+export function findSavedSearch(
+  searches: SavedSearch[],
+  query: string,
+  filters: SearchFilters,
+): SavedSearch | undefined {
+  const key = getSearchKey(query, filters);
+  return searches.find(
+    (search) => getSearchKey(search.query, search.filters) === key,
+  );
+}
+
+/**
+ * Erstellt die URL, unter der eine gespeicherte Suche ausgeführt wird
+ *
+ * @returns Die URL, z.B. "/search?q=monet&has_image=1"
+ */
+export function getSavedSearchUrl(search: SavedSearch): string {
+  return `/search?${serializeSearchState({
+    query: search.query,
+    page: 1,
+    filters: search.filters,
+  }).toString()}`;
+}
+
+/**
+ * Beschreibt Suchbegriff und Filter einer Suche in einer Zeile
+ *
+ * @returns Die Beschreibung, z.B. "„monet“ · ab 1850 · Painting · nur mit Bild"
+ */
+export function describeSearch(query: string, filters: SearchFilters): string {
+  const { dateStart, dateEnd } = filters;
+  const parts = [
+    query ? `„${query}“` : "",
+    dateStart !== undefined && dateEnd !== undefined
+      ? `${dateStart}–${dateEnd}`
+      : dateStart !== undefined
+        ? `ab ${dateStart}`
+        : dateEnd !== undefined
+          ? `bis ${dateEnd}`
+          : "",
+    filters.artworkType ?? "",
+    filters.department ?? "",
+    filters.placeOfOrigin ?? "",
+    filters.publicDomainOnly ? "nur Public Domain" : "",
+    filters.hasImageOnly ? "nur mit Bild" : "",
+  ];
+
+  return parts.filter(Boolean).join(" · ");
+}
+
+/**
+ * Liefert die Anzahl der neuen Treffer aller gespeicherten Suchen
+ * (ein Kunstwerk in mehreren Suchen zählt einmal)
+ */
+export function countNewResults(searches: SavedSearch[]): number {
+  return new Set(searches.flatMap((search) => search.newIds)).size;
+}
+
+/**
+ * Prüft den Namen einer gespeicherten Suche
+ *
+ * @param name - Der eingegebene Name
+ * @param searches - Alle gespeicherten Suchen (Namen müssen eindeutig sein)
+ * @returns Die Fehlermeldung oder null, wenn der Name gültig ist
+ */
+export function validateSavedSearchName(
+  name: string,
+  searches: SavedSearch[],
+): string | null {
+  const result = SavedSearchNameSchema.safeParse(name);
+
+  if (!result.success) {
+    return result.error.issues[0].message;
+  }
+
+  const normalized = result.data.toLowerCase();
+  return searches.some((search) => search.name.toLowerCase() === normalized)
+    ? "Eine gespeicherte Suche mit diesem Namen existiert bereits"
+    : null;
+}
+
+/**
+ * Speichert eine Suche unter einem Namen
+ *
+ * Die bekannten Treffer werden bei der ersten Prüfung festgelegt
+ * (siehe checkSavedSearch).
+ *
+ * @returns Die neue gespeicherte Suche
+ * @throws Error mit der Meldung aus validateSavedSearchName bei ungültigem Namen
+ */
+export function saveSearch(
+  name: string,
+  query: string,
+  filters: SearchFilters,
+): SavedSearch {
+  const { searches } = getSavedSearchesState();
+  const error = validateSavedSearchName(name, searches);
+
+  if (error) {
+    throw new Error(error);
+  }
+
+  const search = SavedSearchSchema.parse({
+    id: crypto.randomUUID(),
+    name,
+    query,
+    filters,
+    createdAt: Date.now(),
+  });
+
+  searchesStore.set([search, ...searches]);
+  return search;
+}
+
+/**
+ * Löscht eine gespeicherte Suche
+ */
+export function deleteSavedSearch(id: string): void {
+  searchesStore.set(
+    getSavedSearchesState().searches.filter((search) => search.id !== id),
+  );
+}
+
+/**
+ * Nimmt die neuen Treffer einer Suche in die bekannten auf
+ */
+export function markSavedSearchSeen(id: string): void {
+  updateSearch(id, (search) => ({
+    ...search,
+    seenIds: [...new Set([...search.seenIds, ...search.newIds])],
+    newIds: [],
+  }));
+}
+
+/**
+ * Lädt die IDs der ersten Treffer einer Suche
+ */
+async function loadResultIds(
+  query: string,
+  filters: SearchFilters,
+  signal?: AbortSignal,
+): Promise<{ ids: number[]; total: number }> {
+  const ids: number[] = [];
+  let total = 0;
+
+  for (
+    let offset = 0;
+    offset < MAX_TRACKED_RESULTS;
+    offset += CHECK_PAGE_SIZE
+  ) {
+    const result = await searchArtworks(
+      query,
+      CHECK_PAGE_SIZE,
+      offset,
+      filters,
+      { signal },
+    );
+    ids.push(...result.data.map((artwork) => artwork.id));
+    total = result.total;
+
+    if (offset + CHECK_PAGE_SIZE >= total) {
+      break;
+    }
+  }
+
+  return { ids: [...new Set(ids)], total };
+}
+
+/**
+ * Prüft eine gespeicherte Suche auf neue Treffer
+ *
+ * Bei der ersten Prüfung gelten alle Treffer als bekannt. Danach sind alle
+ * Treffer neu, die noch nicht bekannt sind; Treffer, die inzwischen aus
+ * den Ergebnissen gefallen sind, gelten nicht mehr als neu.
+ *
+ * @param id - Die ID der gespeicherten Suche
+ * @param signal - Optionales Signal zum Abbrechen
+ * @throws ApiError wenn die Suche fehlschlägt
+ */
+export async function checkSavedSearch(
+  id: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  const search = getSavedSearchesState().searches.find(
+    (current) => current.id === id,
+  );
+
+  if (!search || getSavedSearchesState().checking.has(id)) {
+    return;
+  }
+
+  setStatus({
+    checking: toggleId(getSavedSearchesState().checking, id, true),
+    failed: toggleId(getSavedSearchesState().failed, id, false),
+  });
+
+  try {
+    const { ids, total } = await loadResultIds(
+      search.query,
+      search.filters,
+      signal,
+    );
+
+    updateSearch(id, (current) => {
+      const isFirstRun = current.runs.length === 0;
+      const seen = new Set(current.seenIds);
+      const newIds = isFirstRun ? [] : ids.filter((item) => !seen.has(item));
+      const previouslyNew = new Set(current.newIds);
+
+      return {
+        ...current,
+        seenIds: isFirstRun ? ids : current.seenIds,
+        newIds,
+        runs: [
+          {
+            checkedAt: Date.now(),
+            total,
+            ids,
+            newCount: newIds.filter((item) => !previouslyNew.has(item)).length,
+          },
+          ...current.runs,
+        ].slice(0, MAX_RUNS),
+      };
+    });
+  } catch (error) {
+    if (!isAbortError(error)) {
+      setStatus({ failed: toggleId(getSavedSearchesState().failed, id, true) });
+    }
+    throw error;
+  } finally {
+    setStatus({
+      checking: toggleId(getSavedSearchesState().checking, id, false),
+    });
+  }
+}
+
+/**
+ * Prüft die angegebenen Suchen nacheinander, um das Anfrage-Budget zu
+ * schonen
+ *
+ * Fehler einzelner Suchen werden protokolliert; offline wird nicht geprüft.
+ */
+async function checkSearches(
+  searches: SavedSearch[],
+  signal?: AbortSignal,
+): Promise<void> {
+  for (const search of searches) {
+    if (signal?.aborted || !isOnline()) {
+      return;
+    }
+
+    try {
+      await checkSavedSearch(search.id, signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
+      console.warn(
+        `Gespeicherte Suche "${search.name}" konnte nicht geprüft werden:`,
+        error,
+      );
+    }
+  }
+}
+
+/**
+ * Prüft alle gespeicherten Suchen nacheinander ("Alle jetzt prüfen")
+ *
+ * Fehler einzelner Suchen werden protokolliert und über `failed`
+ * angezeigt; offline wird nicht geprüft.
+ *
+ * @param signal - Optionales Signal zum Abbrechen
+ */
+export async function checkAllSavedSearches(
+  signal?: AbortSignal,
+): Promise<void> {
+  await checkSearches(getSavedSearchesState().searches, signal);
+}
+
+/**
+ * Prüft alle Suchen, deren letzte Prüfung länger als CHECK_INTERVAL_MS
+ * zurückliegt (nacheinander, siehe checkAllSavedSearches)
+ *
+ * @param signal - Optionales Signal zum Abbrechen
+ */
+export async function checkStaleSavedSearches(
+  signal?: AbortSignal,
+): Promise<void> {
+  const now = Date.now();
+
+  await checkSearches(
+    getSavedSearchesState().searches.filter(
+      (search) =>
+        search.runs.length === 0 ||
+        now - search.runs[0].checkedAt >= CHECK_INTERVAL_MS,
+    ),
+    signal,
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Suchverlauf
+ *
+ * Abgeschickte Suchbegriffe werden im LocalStorage gespeichert und im
+ * Suchfeld vorgeschlagen (siehe SearchInput.tsx). Einträge lassen sich
+ * anheften: Angeheftete Einträge stehen immer oben und bleiben beim Löschen
+ * des Verlaufs erhalten. Von den übrigen werden nur die letzten
+ * MAX_RECENT_SEARCHES behalten.
+ *
+ * Änderungen aus anderen Tabs werden über das `storage`-Ereignis übernommen
+ * (siehe localStorageStore.ts).
+ */
+
+import {
+  SearchHistoryEntrySchema,
+  type SearchHistoryEntry,
+} from "../schemas/searchHistorySchema";
+import {
+  createLocalStorageStore,
+  useLocalStorageStore,
+} from "./localStorageStore";
+
+/**
+ * LocalStorage-Schlüssel für den Suchverlauf
+ */
+const SEARCH_HISTORY_KEY = "aic_search_history";
+
+/**
+ * Maximale Anzahl nicht angehefteter Einträge
+ */
+export const MAX_RECENT_SEARCHES = 10;
+
+/**
+ * Sortiert den Verlauf: angeheftete zuerst, sonst die zuletzt verwendeten
+ */
+function sortHistory(entries: SearchHistoryEntry[]): SearchHistoryEntry[] {
+  return [...entries].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.lastUsed - a.lastUsed,
+  );
+}
+
+/**
+ * Der Verlauf im LocalStorage (ungültige Einträge werden verworfen)
+ */
+const historyStore = createLocalStorageStore(
+  SEARCH_HISTORY_KEY,
+  SearchHistoryEntrySchema,
+  sortHistory,
+);
+
+/**
+ * Vergleicht Suchbegriffe unabhängig von Groß-/Kleinschreibung
+ */
+function isSameQuery(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Speichert den Verlauf und benachrichtigt alle Callback-Funktionen
+ *
+ * Von den nicht angehefteten Einträgen werden nur die neuesten behalten.
+ */
+function writeHistory(entries: SearchHistoryEntry[]): void {
+  let recent = 0;
+  historyStore.set(
+    sortHistory(entries).filter(
+      (entry) => entry.pinned || ++recent <= MAX_RECENT_SEARCHES,
+    ),
+  );
+}
+
+/**
+ * Liefert den Suchverlauf (angeheftete Einträge zuerst)
+ */
+export function getSearchHistory(): SearchHistoryEntry[] {
+  return historyStore.get();
+}
+
+/**
+ * Meldet eine Callback-Funktion für Änderungen des Verlaufs an
+ * (auch aus anderen Tabs)
+ *
+ * @returns Funktion zum Abmelden
+ */
+export function subscribeToSearchHistory(listener: () => void): () => void {
+  return historyStore.subscribe(listener);
+}
+
+/**
+ * Nimmt einen abgeschickten Suchbegriff in den Verlauf auf
+ * (ein vorhandener Eintrag wird nach oben verschoben)
+ *
+ * @param query - Der Suchbegriff; leere Begriffe werden ignoriert
+ */
+export function recordSearch(query: string): void {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return;
+  }
+
+  const entries = getSearchHistory();
+  const existing = entries.find((entry) => isSameQuery(entry.query, trimmed));
+
+  writeHistory([
+    { query: trimmed, lastUsed: Date.now(), pinned: existing?.pinned ?? false },
+    ...entries.filter((entry) => entry !== existing),
+  ]);
+}
+
+/**
+ * Heftet einen Eintrag an bzw. löst ihn wieder
+ */
+export function togglePinnedSearch(query: string): void {
+  writeHistory(
+    getSearchHistory().map((entry) =>
+      isSameQuery(entry.query, query)
+        ? { ...entry, pinned: !entry.pinned }
+        : entry,
+    ),
+  );
+}
+
+/**
+ * Entfernt einen Eintrag aus dem Verlauf (auch einen angehefteten)
+ */
+export function removeSearch(query: string): void {
+  writeHistory(
+    getSearchHistory().filter((entry) => !isSameQuery(entry.query, query)),
+  );
+}
+
+/**
+ * Löscht den Verlauf bis auf die angehefteten Einträge
+ */
+export function clearSearchHistory(): void {
+  writeHistory(getSearchHistory().filter((entry) => entry.pinned));
+}
+
+/**
+ * Liefert die Einträge, die zu einer Eingabe passen
+ *
+ * @param entries - Der Verlauf (siehe getSearchHistory)
+ * @param input - Die aktuelle Eingabe (leer: alle Einträge)
+ * @returns Die Einträge, die die Eingabe enthalten (außer der Eingabe selbst)
+ */
+export function filterSearchHistory(
+  entries: SearchHistoryEntry[],
+  input: string,
+): SearchHistoryEntry[] {
+  const needle = input.trim().toLowerCase();
+
+  if (!needle) {
+    return entries;
+  }
+
+  return entries.filter(
+    (entry) =>
+      entry.query.toLowerCase().includes(needle) &&
+      !isSameQuery(entry.query, needle),
+  );
+}
+
+/**
+ * Hook: Liefert den Suchverlauf und aktualisiert sich bei Änderungen
+ *
+ * Beispiel:
+ * ```typescript
+ * const history = useSearchHistory();
+ * ```
+ */
+export function useSearchHistory(): SearchHistoryEntry[] {
+  return useLocalStorageStore(historyStore);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseSearchFilters,
+  parseSearchState,
+  serializeSearchState,
+  type SearchState,
+} from "./searchParams";
+
+describe("parseSearchState", () => {
+  it("liest Suchbegriff, Seite und Filter", () => {
+    expect(
+      parseSearchState(
+        new URLSearchParams(
+          "q=monet&page=3&date_start=1850&date_end=1900&has_image=1&type=Painting",
+        ),
+      ),
+    ).toEqual({
+      query: "monet",
+      page: 3,
+      filters: {
+        dateStart: 1850,
+        dateEnd: 1900,
+        hasImageOnly: true,
+        artworkType: "Painting",
+      },
+    });
+  });
+
+  it.each(["0", "-2", "abc", ""])(
+    "setzt die ungültige Seite %j auf 1 zurück",
+    (page) => {
+      expect(parseSearchState(new URLSearchParams({ page })).page).toBe(1);
+    },
+  );
+});
+
+describe("parseSearchFilters", () => {
+  it("verwirft nur ungültige Parameter", () => {
+    expect(
+      parseSearchFilters(
+        new URLSearchParams("date_start=abc&type=Painting&public_domain=1"),
+      ),
+    ).toEqual({ artworkType: "Painting", publicDomainOnly: true });
+  });
+
+  it("verwirft leere Freitext-Filter", () => {
+    expect(
+      parseSearchFilters(
+        new URLSearchParams("department=%20%20&origin=France"),
+      ),
+    ).toEqual({ placeOfOrigin: "France" });
+  });
+
+  it("verwirft das Endjahr, wenn es vor dem Startjahr liegt", () => {
+    expect(
+      parseSearchFilters(
+        new URLSearchParams("date_start=1900&date_end=1800&has_image=1"),
+      ),
+    ).toEqual({ dateStart: 1900, hasImageOnly: true });
+  });
+});
+
+describe("serializeSearchState", () => {
+  it("lässt Standardwerte weg", () => {
+    expect(
+      serializeSearchState({ query: "", page: 1, filters: {} }).toString(),
+    ).toBe("");
+  });
+
+  it("ergibt beim erneuten Lesen denselben Zustand", () => {
+    const state: SearchState = {
+      query: "water lilies",
+      page: 2,
+      filters: {
+        dateStart: -500,
+        publicDomainOnly: true,
+        department: "Arts of Asia",
+        placeOfOrigin: "Japan",
+      },
+    };
+
+    expect(parseSearchState(serializeSearchState(state))).toEqual(state);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Helper für die Synchronisation des Suchzustands mit der URL
+ *
+ * Der Suchzustand (Suchbegriff, Seite, Filter) wird im Query-String der URL
+ * abgelegt, damit Reloads, Lesezeichen, geteilte Links sowie die
+ * Vor-/Zurück-Navigation des Browsers exakt dieselbe Ergebnisseite zeigen.
+ *
+ * Format: /search?q=monet&page=2&type=Painting&has_image=1
+ */
+
+import {
+  SearchFiltersSchema,
+  type SearchFilters,
+} from "../schemas/searchFilterSchema";
+
+/**
+ * Zustand einer Suche, wie er in der URL abgebildet wird
+ */
+export interface SearchState {
+  query: string;
+  page: number;
+  filters: SearchFilters;
+}
+
+/**
+ * Namen der URL-Parameter für die einzelnen Filter
+ */
+const FILTER_PARAMS = {
+  dateStart: "date_start",
+  dateEnd: "date_end",
+  publicDomainOnly: "public_domain",
+  hasImageOnly: "has_image",
+  artworkType: "type",
+  department: "department",
+  placeOfOrigin: "origin",
+} as const satisfies Record<keyof SearchFilters, string>;
+
+/**
+ * Liest eine ganze Zahl aus einem URL-Parameter
+ */
+function parseInteger(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : undefined;
+}
+
+/**
+ * Liest die Suchfilter aus den URL-Parametern
+ *
+ * Jeder Filter wird einzeln validiert: Ein ungültiger Parameter (z.B. in
+ * einem geteilten Link) wird ignoriert, die übrigen bleiben erhalten. Liegt
+ * das Startjahr nach dem Endjahr, wird das Endjahr verworfen.
+ *
+ * @param params - Die URLSearchParams der aktuellen Location
+ * @returns Die validierten Filter
+ */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const raw: Record<keyof SearchFilters, unknown> = {
+    dateStart: parseInteger(params.get(FILTER_PARAMS.dateStart)),
+    dateEnd: parseInteger(params.get(FILTER_PARAMS.dateEnd)),
+    publicDomainOnly:
+      params.get(FILTER_PARAMS.publicDomainOnly) === "1" || undefined,
+    hasImageOnly: params.get(FILTER_PARAMS.hasImageOnly) === "1" || undefined,
+    artworkType: params.get(FILTER_PARAMS.artworkType) || undefined,
+    department: params.get(FILTER_PARAMS.department) || undefined,
+    placeOfOrigin: params.get(FILTER_PARAMS.placeOfOrigin) || undefined,
+  };
+
+  const fields: Record<string, unknown> = {};
+
+  for (const [key, schema] of Object.entries(SearchFiltersSchema.shape)) {
+    const result = schema.safeParse(raw[key as keyof SearchFilters]);
+
+    if (result.success && result.data !== undefined) {
+      fields[key] = result.data;
+    }
+  }
+
+  const result = SearchFiltersSchema.safeParse(fields);
+
+  if (result.success) {
+    return result.data;
+  }
+
+  // Einzige feldübergreifende Regel: Startjahr nach Endjahr
+  delete fields.dateEnd;
+  return SearchFiltersSchema.parse(fields);
+}
+
+/**
+ * Liest den Suchzustand aus den URL-Parametern
+ *
+ * @param params - Die URLSearchParams der aktuellen Location
+ * @returns Der Suchzustand; ungültige Werte werden auf Standardwerte zurückgesetzt
+ */
+export function parseSearchState(params: URLSearchParams): SearchState {
+  const query = params.get("q")?.trim() ?? "";
+  const page = Number.parseInt(params.get("page") ?? "", 10);
+
+  return {
+    query,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    filters: parseSearchFilters(params),
+  };
+}
+
+/**
+ * Schreibt den Suchzustand in URL-Parameter
+ *
+ * Standardwerte (z.B. Seite 1, inaktive Filter) werden weggelassen,
+ * damit geteilte Links möglichst kurz bleiben.
+ *
+ * @param state - Der zu serialisierende Suchzustand
+ * @returns URLSearchParams für die Navigation
+ */
+export function serializeSearchState(state: SearchState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (state.query) {
+    params.set("q", state.query);
+  }
+
+  const { filters } = state;
+
+  if (filters.dateStart !== undefined) {
+    params.set(FILTER_PARAMS.dateStart, filters.dateStart.toString());
+  }
+
+  if (filters.dateEnd !== undefined) {
+    params.set(FILTER_PARAMS.dateEnd, filters.dateEnd.toString());
+  }
+
+  if (filters.publicDomainOnly) {
+    params.set(FILTER_PARAMS.publicDomainOnly, "1");
+  }
+
+  if (filters.hasImageOnly) {
+    params.set(FILTER_PARAMS.hasImageOnly, "1");
+  }
+
+  if (filters.artworkType) {
+    params.set(FILTER_PARAMS.artworkType, filters.artworkType);
+  }
+
+  if (filters.department) {
+    params.set(FILTER_PARAMS.department, filters.department);
+  }
+
+  if (filters.placeOfOrigin) {
+    params.set(FILTER_PARAMS.placeOfOrigin, filters.placeOfOrigin);
+  }
+
+  if (state.page > 1) {
+    params.set("page", state.page.toString());
+  }
+
+  return params;
+}
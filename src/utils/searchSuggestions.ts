@@ -0,0 +1,109 @@
+/**
+ * Suchvorschläge während der Eingabe
+ *
+ * Vorschläge werden erst angefragt, wenn der Benutzer kurz nicht tippt
+ * (Debounce). Tippt er weiter, wird die laufende Anfrage abgebrochen.
+ * Die Antworten werden wie alle API-Antworten zwischengespeichert
+ * (siehe artworkApi.ts), sodass Zurücklöschen keine neuen Anfragen auslöst.
+ */
+
+import { useEffect, useState } from "react";
+import { getSearchSuggestions } from "./artworkApi";
+import { isAbortError } from "./apiErrors";
+
+/**
+ * Wartezeit nach dem letzten Tastendruck in Millisekunden
+ */
+export const SUGGESTION_DEBOUNCE_MS = 250;
+
+/**
+ * Mindestlänge der Eingabe für Vorschläge
+ */
+export const MIN_SUGGESTION_LENGTH = 2;
+
+/**
+ * Maximale Anzahl der Vorschläge
+ */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Geladene Vorschläge für eine Eingabe
+ */
+interface LoadedSuggestions {
+  query: string;
+  suggestions: string[];
+}
+
+/**
+ * Zustand der Vorschläge für die aktuelle Eingabe
+ */
+export interface SearchSuggestions {
+  /**
+   * Die Vorschläge (leer, solange sie geladen werden oder bei einem Fehler)
+   */
+  suggestions: string[];
+
+  /**
+   * Gibt an, ob Vorschläge für die aktuelle Eingabe geladen werden
+   */
+  isLoading: boolean;
+}
+
+/**
+ * Hook: Lädt Vorschläge für die Eingabe im Suchfeld
+ *
+ * Fehler werden nicht angezeigt: Ohne Vorschläge bleibt die Suche
+ * uneingeschränkt nutzbar.
+ *
+ * @param input - Die aktuelle Eingabe
+ * @param enabled - Gibt an, ob Vorschläge geladen werden (z.B. nur online
+ *                  und solange das Suchfeld den Fokus hat)
+ *
+ * Beispiel:
+ * ```typescript
+ * const { suggestions } = useSearchSuggestions(searchQuery, isFocused);
+ * ```
+ */
+export function useSearchSuggestions(
+  input: string,
+  enabled: boolean,
+): SearchSuggestions {
+  const [loaded, setLoaded] = useState<LoadedSuggestions | null>(null);
+
+  const query = input.trim().toLowerCase();
+  const isActive = enabled && query.length >= MIN_SUGGESTION_LENGTH;
+
+  /**
+   * Effect Hook: Vorschläge nach einer kurzen Pause laden
+   */
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => {
+      getSearchSuggestions(query, MAX_SUGGESTIONS, {
+        signal: controller.signal,
+      })
+        .then((suggestions) => setLoaded({ query, suggestions }))
+        .catch((error) => {
+          if (!isAbortError(error)) {
+            setLoaded({ query, suggestions: [] });
+          }
+        });
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, isActive]);
+
+  const current = isActive && loaded?.query === query ? loaded : null;
+
+  return {
+    suggestions: current?.suggestions ?? [],
+    isLoading: isActive && current === null,
+  };
+}
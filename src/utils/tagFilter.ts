@@ -0,0 +1,49 @@
+/**
+ * Helper für Tags in der Galerie
+ *
+ * Enthält das Zerlegen der Tag-Eingabe und den UND/ODER-Filter
+ * der Galerie-Ansicht.
+ */
+
+import type { TagMatchMode } from "../schemas/tagSchema";
+
+/**
+ * Zerlegt eine Tag-Eingabe an Kommas
+ *
+ * @param input - Die Eingabe (z.B. "Impressionismus, Seminar")
+ * @returns Die einzelnen Tags ohne Leerzeichen am Rand und ohne leere Einträge
+ */
+export function splitTagInput(input: string): string[] {
+  return input
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Prüft, ob die Tags eines Eintrags zum Filter passen
+ *
+ * @param tags - Die Tags des Eintrags
+ * @param selectedTags - Die gewählten Filter-Tags (leer: alles passt)
+ * @param mode - "all" (UND) oder "any" (ODER)
+ * @returns true wenn der Eintrag angezeigt werden soll
+ *
+ * Beispiel:
+ * ```typescript
+ * matchesTags(["seminar", "lobby"], ["seminar", "foyer"], "any"); // true
+ * matchesTags(["seminar", "lobby"], ["seminar", "foyer"], "all"); // false
+ * ```
+ */
+export function matchesTags(
+  tags: string[],
+  selectedTags: string[],
+  mode: TagMatchMode,
+): boolean {
+  if (selectedTags.length === 0) {
+    return true;
+  }
+
+  return mode === "all"
+    ? selectedTags.every((tag) => tags.includes(tag))
+    : selectedTags.some((tag) => tags.includes(tag));
+}
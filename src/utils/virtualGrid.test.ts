@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { getColumnCount, getRowLayout, getVisibleRows } from "./virtualGrid";
+
+describe("getColumnCount", () => {
+  it("folgt den Breakpoints der übrigen Raster", () => {
+    expect(getColumnCount(375)).toBe(1);
+    expect(getColumnCount(768)).toBe(2);
+    expect(getColumnCount(1024)).toBe(3);
+    expect(getColumnCount(1279)).toBe(3);
+    expect(getColumnCount(1920)).toBe(4);
+  });
+});
+
+describe("getRowLayout", () => {
+  it("verwendet die Schätzung, solange keine Zeile gemessen ist", () => {
+    const layout = getRowLayout(3, new Map(), 400);
+
+    expect(layout.offsets).toEqual([0, 400, 800]);
+    expect(layout.totalHeight).toBe(1200);
+  });
+
+  it("nimmt für ungemessene Zeilen den Durchschnitt der gemessenen an", () => {
+    const layout = getRowLayout(
+      4,
+      new Map([
+        [0, 300],
+        [1, 500],
+      ]),
+      100,
+    );
+
+    expect(layout.heights).toEqual([300, 500, 400, 400]);
+    expect(layout.offsets).toEqual([0, 300, 800, 1200]);
+    expect(layout.totalHeight).toBe(1600);
+  });
+});
+
+describe("getVisibleRows", () => {
+  // 10 Zeilen à 100 px
+  const layout = getRowLayout(10, new Map(), 100);
+
+  it("liefert die Zeilen im Ausschnitt", () => {
+    expect(getVisibleRows(layout, 250, 450, 0)).toEqual({ first: 2, last: 4 });
+  });
+
+  it("zählt Zeilen, die nur an den Ausschnitt grenzen, nicht mit", () => {
+    expect(getVisibleRows(layout, 200, 400, 0)).toEqual({ first: 2, last: 3 });
+  });
+
+  it("ergänzt Zeilen oberhalb und unterhalb, begrenzt auf das Raster", () => {
+    expect(getVisibleRows(layout, 250, 450, 2)).toEqual({ first: 0, last: 6 });
+    expect(getVisibleRows(layout, 850, 1200, 3)).toEqual({
+      first: 5,
+      last: 9,
+    });
+  });
+
+  it("liefert nur Randzeilen, wenn der Ausschnitt außerhalb liegt", () => {
+    expect(getVisibleRows(layout, -500, -100, 2)).toEqual({
+      first: 0,
+      last: 1,
+    });
+    expect(getVisibleRows(layout, 1500, 2000, 2)).toEqual({
+      first: 8,
+      last: 9,
+    });
+  });
+
+  it("berücksichtigt unterschiedlich hohe Zeilen", () => {
+    const mixed = getRowLayout(
+      3,
+      new Map([
+        [0, 50],
+        [1, 1000],
+        [2, 50],
+      ]),
+      100,
+    );
+
+    expect(getVisibleRows(mixed, 100, 200, 0)).toEqual({ first: 1, last: 1 });
+    expect(getVisibleRows(mixed, 1000, 1100, 0)).toEqual({
+      first: 1,
+      last: 2,
+    });
+  });
+
+  it("liefert einen leeren Bereich für ein leeres Raster", () => {
+    const empty = getRowLayout(0, new Map(), 100);
+    const range = getVisibleRows(empty, 0, 800, 2);
+
+    expect(range.last).toBeLessThan(range.first);
+  });
+});
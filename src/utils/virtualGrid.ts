@@ -0,0 +1,209 @@
+/**
+ * Berechnungen für das virtualisierte Raster (siehe VirtualGrid.tsx)
+ *
+ * Das Raster rendert nur die Zeilen im sichtbaren Bereich des Fensters
+ * (plus einige darüber und darunter). Die Höhe jeder gerenderten Zeile
+ * wird gemessen; für noch nicht gerenderte Zeilen wird der Durchschnitt der
+ * gemessenen angenommen. So bleibt die Anzahl der DOM-Knoten auch bei
+ * tausenden Ergebnissen begrenzt, während die Scrollleiste stimmt.
+ *
+ * Außerdem wird die Scroll-Position pro Raster in der sessionStorage
+ * gehalten, damit sie nach dem Besuch einer Detailansicht wiederhergestellt
+ * werden kann.
+ */
+
+/**
+ * Spaltenanzahl ab einer Fensterbreite (wie `grid-cols-1 md:grid-cols-2
+ * lg:grid-cols-3 xl:grid-cols-4` der übrigen Raster)
+ */
+const COLUMN_BREAKPOINTS: ReadonlyArray<readonly [number, number]> = [
+  [1280, 4],
+  [1024, 3],
+  [768, 2],
+];
+
+/**
+ * Position und Gesamthöhe aller Zeilen
+ */
+export interface RowLayout {
+  /**
+   * Abstand jeder Zeile vom oberen Rand des Rasters in Pixeln
+   */
+  offsets: number[];
+
+  /**
+   * Höhe jeder Zeile (gemessen oder geschätzt)
+   */
+  heights: number[];
+
+  /**
+   * Gesamthöhe des Rasters
+   */
+  totalHeight: number;
+}
+
+/**
+ * Bereich der zu rendernden Zeilen (einschließlich beider Grenzen;
+ * leer, wenn `last < first`)
+ */
+export interface RowRange {
+  first: number;
+  last: number;
+}
+
+/**
+ * Gespeicherter Zustand eines Rasters für die Wiederherstellung
+ */
+export interface GridSession {
+  /**
+   * Schlüssel des Rasters (z.B. der Query-String der Suche)
+   */
+  key: string;
+
+  /**
+   * Vertikale Scroll-Position des Fensters
+   */
+  scrollY: number;
+
+  /**
+   * Anzahl der Einträge, die dabei angezeigt wurden
+   */
+  itemCount: number;
+
+  /**
+   * Spaltenanzahl, für die die Zeilenhöhen gemessen wurden
+   */
+  columns: number;
+
+  /**
+   * Gemessene Zeilenhöhen (Zeile, Höhe)
+   */
+  rowHeights: [number, number][];
+}
+
+/**
+ * sessionStorage-Schlüssel für den Zustand des zuletzt angezeigten Rasters
+ */
+const GRID_SESSION_KEY = "aic_virtual_grid";
+
+/**
+ * Liefert die Spaltenanzahl für eine Fensterbreite
+ */
+export function getColumnCount(viewportWidth: number): number {
+  const match = COLUMN_BREAKPOINTS.find(
+    ([minWidth]) => viewportWidth >= minWidth,
+  );
+  return match ? match[1] : 1;
+}
+
+/**
+ * Berechnet Position und Höhe aller Zeilen
+ *
+ * @param rowCount - Anzahl der Zeilen
+ * @param measured - Gemessene Höhen nach Zeile
+ * @param estimatedHeight - Angenommene Höhe, solange keine Zeile gemessen ist
+ */
+export function getRowLayout(
+  rowCount: number,
+  measured: ReadonlyMap<number, number>,
+  estimatedHeight: number,
+): RowLayout {
+  let measuredTotal = 0;
+  measured.forEach((height) => {
+    measuredTotal += height;
+  });
+  const fallback =
+    measured.size > 0 ? measuredTotal / measured.size : estimatedHeight;
+
+  const offsets: number[] = [];
+  const heights: number[] = [];
+  let top = 0;
+
+  for (let row = 0; row < rowCount; row++) {
+    const height = measured.get(row) ?? fallback;
+    offsets.push(top);
+    heights.push(height);
+    top += height;
+  }
+
+  return { offsets, heights, totalHeight: top };
+}
+
+/**
+ * Ermittelt die Zeilen, die einen Ausschnitt des Rasters überdecken
+ *
+ * @param layout - Position und Höhe aller Zeilen
+ * @param top - Oberer Rand des Ausschnitts (relativ zum Raster)
+ * @param bottom - Unterer Rand des Ausschnitts (relativ zum Raster)
+ * @param overscan - Zusätzliche Zeilen oberhalb und unterhalb
+ */
+export function getVisibleRows(
+  layout: RowLayout,
+  top: number,
+  bottom: number,
+  overscan: number,
+): RowRange {
+  const rowCount = layout.offsets.length;
+
+  // Ausschnitt oberhalb bzw. unterhalb des Rasters: nur die Randzeilen
+  if (bottom <= 0) {
+    return { first: 0, last: Math.min(rowCount, overscan) - 1 };
+  }
+
+  if (top >= layout.totalHeight) {
+    return { first: Math.max(0, rowCount - overscan), last: rowCount - 1 };
+  }
+
+  // Erste Zeile, deren unterer Rand unterhalb von `top` liegt (binäre Suche)
+  let low = 0;
+  let high = rowCount - 1;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+
+    if (layout.offsets[middle] + layout.heights[middle] <= top) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  let last = low;
+  while (last < rowCount - 1 && layout.offsets[last + 1] < bottom) {
+    last++;
+  }
+
+  return {
+    first: Math.max(0, low - overscan),
+    last: Math.min(rowCount - 1, last + overscan),
+  };
+}
+
+/**
+ * Lädt den gespeicherten Zustand eines Rasters
+ *
+ * @param key - Schlüssel des Rasters
+ * @returns Der Zustand oder null, wenn für diesen Schlüssel keiner vorliegt
+ */
+export function loadGridSession(key: string): GridSession | null {
+  try {
+    const session = JSON.parse(
+      sessionStorage.getItem(GRID_SESSION_KEY) ?? "null",
+    ) as GridSession | null;
+
+    return session?.key === key ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Speichert den Zustand eines Rasters (ersetzt den eines anderen Rasters)
+ */
+export function saveGridSession(session: GridSession): void {
+  try {
+    sessionStorage.setItem(GRID_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.warn("Scroll-Position konnte nicht gespeichert werden:", error);
+  }
+}
@@ -0,0 +1,20 @@
+/// <reference types="vite/client" />
+
+/**
+ * Typdefinitionen für die Vite-Umgebungsvariablen der Anwendung
+ */
+interface ImportMetaEnv {
+  /**
+   * Datenquelle für Kunstwerke: "http" (AIC API, Standard) oder "fixtures"
+   */
+  readonly VITE_ARTWORK_SOURCE?: string;
+
+  /**
+   * Maximale Anzahl an Anfragen pro Minute an die AIC API (Standard: 60)
+   */
+  readonly VITE_AIC_REQUESTS_PER_MINUTE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}